@@ -11,7 +11,9 @@ import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Onboarding from "./pages/Onboarding";
 import Profile from "./pages/Profile";
+import Planner from "./pages/Planner";
 import ConnectBank from "./pages/ConnectBank";
+import MockBankAuthorize from "./pages/MockBankAuthorize";
 import { useEffect, useState } from "react";
 
 // Protected route component
@@ -107,6 +109,14 @@ const App = () => {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/planner" 
+              element={
+                <ProtectedRoute>
+                  <Planner />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/profile" 
               element={
@@ -131,6 +141,17 @@ const App = () => {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/connect-bank/callback" 
+              element={
+                <ProtectedRoute>
+                  <ConnectBank />
+                </ProtectedRoute>
+              } 
+            />
+            
+            {/* Stands in for a bank's consent page */}
+            <Route path="/mock-bank/authorize" element={<MockBankAuthorize />} />
             
             {/* Catch all */}
             <Route path="*" element={<NotFound />} />
@@ -4,9 +4,20 @@ import { Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { calculateRoundUp } from "@/utils/calculateRoundUp";
-import { addMockTransaction } from "@/services/mockData";
+import { addMockTransaction, previewMockRoundUp } from "@/services/mockData";
+import { RoundUpDecision, RoundUpOutcome } from "@/core/roundup/RoundUpEngine";
 import { useToast } from "@/components/ui/use-toast";
+import { formatMoney } from "@/lib/utils";
+
+const DEFAULT_CATEGORY = "Shopping";
+
+const outcomeNotes: Partial<Record<RoundUpOutcome, string>> = {
+  capped: "reduced to stay within your round-up cap",
+  cap_reached: "your round-up cap has been reached",
+  exact_amount_skipped: "exact amounts are skipped",
+  excluded_merchant: "this merchant is excluded",
+  excluded_category: "this category is excluded",
+};
 
 interface AddTransactionCardProps {
   onTransactionAdded: () => void;
@@ -16,12 +27,12 @@ const AddTransactionCard = ({ onTransactionAdded }: AddTransactionCardProps) =>
   const { toast } = useToast();
   const [amount, setAmount] = useState("");
   const [merchant, setMerchant] = useState("");
-  const [roundUpPreview, setRoundUpPreview] = useState<number | null>(null);
+  const [roundUpPreview, setRoundUpPreview] = useState<RoundUpDecision | null>(null);
 
-  const updateRoundUpPreview = (value: string) => {
+  const updateRoundUpPreview = (value: string, merchantName: string) => {
     if (value && !isNaN(parseFloat(value))) {
       try {
-        const roundUp = calculateRoundUp(parseFloat(value));
+        const roundUp = previewMockRoundUp(parseFloat(value), merchantName, DEFAULT_CATEGORY);
         setRoundUpPreview(roundUp);
       } catch (error) {
         setRoundUpPreview(null);
@@ -34,7 +45,13 @@ const AddTransactionCard = ({ onTransactionAdded }: AddTransactionCardProps) =>
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setAmount(value);
-    updateRoundUpPreview(value);
+    updateRoundUpPreview(value, merchant);
+  };
+
+  const handleMerchantChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setMerchant(value);
+    updateRoundUpPreview(amount, value);
   };
 
   const handleSubmit = () => {
@@ -60,7 +77,7 @@ const AddTransactionCard = ({ onTransactionAdded }: AddTransactionCardProps) =>
     const transaction = addMockTransaction(
       parseFloat(amount),
       merchant,
-      "Shopping" // Default category
+      DEFAULT_CATEGORY
     );
 
     // Reset the form
@@ -74,7 +91,9 @@ const AddTransactionCard = ({ onTransactionAdded }: AddTransactionCardProps) =>
     // Show success toast
     toast({
       title: "Transaction added!",
-      description: `$${transaction.roundUpAmount.toFixed(2)} was added to your round-up wallet.`,
+      description: transaction.roundUpAmount > 0
+        ? `${formatMoney(transaction.roundUpAmount)} was added to your round-up wallet.`
+        : "No round-up applies to this purchase under your rules.",
       variant: "default",
     });
   };
@@ -100,7 +119,8 @@ const AddTransactionCard = ({ onTransactionAdded }: AddTransactionCardProps) =>
           />
           {roundUpPreview !== null && (
             <p className="text-xs text-skyblue">
-              Round-up amount: ${roundUpPreview.toFixed(2)}
+              Round-up amount: {formatMoney(roundUpPreview.amount)}
+              {outcomeNotes[roundUpPreview.outcome] && ` (${outcomeNotes[roundUpPreview.outcome]})`}
             </p>
           )}
         </div>
@@ -111,7 +131,7 @@ const AddTransactionCard = ({ onTransactionAdded }: AddTransactionCardProps) =>
             id="merchant"
             placeholder="Coffee Shop"
             value={merchant}
-            onChange={(e) => setMerchant(e.target.value)}
+            onChange={handleMerchantChange}
           />
         </div>
 
@@ -2,6 +2,7 @@
 import { CircleDollarSign } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Debt } from "@/types";
+import { formatMoney, sumMoney } from "@/lib/utils";
 
 interface DebtSummaryCardProps {
   debts: Debt[];
@@ -9,11 +10,11 @@ interface DebtSummaryCardProps {
 
 const DebtSummaryCard = ({ debts }: DebtSummaryCardProps) => {
   // Calculate total current debt and original debt
-  const totalCurrentDebt = debts.reduce((sum, debt) => sum + debt.currentBalance, 0);
-  const totalOriginalDebt = debts.reduce((sum, debt) => sum + debt.originalBalance, 0);
+  const totalCurrentDebt = sumMoney(debts.map((debt) => debt.currentBalance));
+  const totalOriginalDebt = sumMoney(debts.map((debt) => debt.originalBalance));
   
   // Calculate progress (how much has been paid off)
-  const paidOffAmount = totalOriginalDebt - totalCurrentDebt;
+  const paidOffAmount = sumMoney([totalOriginalDebt, -totalCurrentDebt]);
   const progress = (paidOffAmount / totalOriginalDebt) * 100;
   
   // Calculate average interest rate (weighted by current balance)
@@ -34,13 +35,13 @@ const DebtSummaryCard = ({ debts }: DebtSummaryCardProps) => {
         <div>
           <p className="text-sm text-gray-500">Current Total</p>
           <p className="text-3xl font-bold text-navy">
-            ${totalCurrentDebt.toFixed(2)}
+            {formatMoney(totalCurrentDebt)}
           </p>
         </div>
         <div className="text-right">
           <p className="text-sm text-gray-500">Original Total</p>
           <p className="text-lg font-medium">
-            ${totalOriginalDebt.toFixed(2)}
+            {formatMoney(totalOriginalDebt)}
           </p>
         </div>
       </div>
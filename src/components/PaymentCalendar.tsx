@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { format, isSameDay } from "date-fns";
+import { CalendarClock, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  getMockScheduledPayments,
+  rescheduleMockScheduledPayment,
+  scheduleMockPayments,
+  skipMockScheduledPayment,
+} from "@/services/mockData";
+import { Debt, ScheduledPayment } from "@/types";
+import { formatMoney } from "@/lib/utils";
+
+interface PaymentCalendarProps {
+  debts: Debt[];
+}
+
+const dayOf = (payment: ScheduledPayment) => new Date(payment.scheduledFor);
+
+// Payments planned from the user's round-ups for the months ahead. Picking
+// a day shows what is scheduled on it, and each payment can be skipped or
+// moved to another date until it is made
+const PaymentCalendar = ({ debts }: PaymentCalendarProps) => {
+  const { toast } = useToast();
+  const [payments, setPayments] = useState<ScheduledPayment[]>(() => [...scheduleMockPayments()]);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(() => {
+    const next = payments.find(payment => payment.status === "scheduled");
+    return next ? dayOf(next) : new Date();
+  });
+  const [rescheduleDates, setRescheduleDates] = useState<Record<string, string>>({});
+
+  const scheduled = payments.filter(payment => payment.status === "scheduled");
+  const onSelectedDay = payments.filter(payment => selectedDay && isSameDay(dayOf(payment), selectedDay));
+  const debtName = (debtId: string) => debts.find(debt => debt.id === debtId)?.creditorName ?? "Unknown debt";
+
+  const refresh = () => setPayments([...getMockScheduledPayments()]);
+
+  const replan = () => {
+    setPayments([...scheduleMockPayments()]);
+    toast({
+      title: "Payments replanned",
+      description: "Your upcoming payments follow your latest balances and round-ups.",
+    });
+  };
+
+  const skip = (payment: ScheduledPayment) => {
+    skipMockScheduledPayment(payment.id);
+    refresh();
+    toast({
+      title: "Payment skipped",
+      description: `${formatMoney(payment.amount)} stays in your wallet for now.`,
+    });
+  };
+
+  const reschedule = (payment: ScheduledPayment) => {
+    const date = rescheduleDates[payment.id];
+    try {
+      const moved = rescheduleMockScheduledPayment(payment.id, date ? `${date}T12:00:00` : "");
+      refresh();
+      setSelectedDay(dayOf(moved));
+      toast({
+        title: "Payment rescheduled",
+        description: `${formatMoney(payment.amount)} to ${debtName(payment.debtId)} moves to ${format(dayOf(moved), "MMM d, yyyy")}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not reschedule",
+        description: error instanceof Error ? error.message : "Please pick another date.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2" />
+              Payment Calendar
+            </CardTitle>
+            <CardDescription>
+              {scheduled.length > 0
+                ? `${scheduled.length} payments totaling ${formatMoney(
+                    scheduled.reduce((total, payment) => total + payment.amount, 0)
+                  )} planned from your round-ups`
+                : "No payments planned yet"}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={replan}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Replan
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          defaultMonth={selectedDay}
+          modifiers={{
+            scheduled: scheduled.map(dayOf),
+            skipped: payments.filter(payment => payment.status === "skipped").map(dayOf),
+          }}
+          modifiersClassNames={{
+            scheduled: "font-bold text-purple underline",
+            skipped: "text-gray-400 line-through",
+          }}
+          className="rounded-md border self-start"
+        />
+
+        <div className="space-y-3">
+          <h4 className="font-medium">
+            {selectedDay ? format(selectedDay, "EEEE, MMMM d") : "Pick a day"}
+          </h4>
+          {onSelectedDay.length === 0 && (
+            <p className="text-sm text-gray-500">No payments on this day.</p>
+          )}
+          {onSelectedDay.map(payment => (
+            <div key={payment.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-medium">{debtName(payment.debtId)}</span>
+                <span className={payment.status === "skipped" ? "text-gray-400 line-through" : "font-medium"}>
+                  {formatMoney(payment.amount)}
+                </span>
+              </div>
+              {payment.reasons.map(reason => (
+                <p key={reason} className="text-xs text-gray-500">{reason}</p>
+              ))}
+              {payment.scheduledFor !== payment.plannedFor && (
+                <p className="text-xs text-gray-500">
+                  Moved from {format(new Date(payment.plannedFor), "MMM d")}
+                </p>
+              )}
+              {payment.status === "scheduled" ? (
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="date"
+                    value={rescheduleDates[payment.id] ?? ""}
+                    onChange={e => setRescheduleDates(prev => ({ ...prev, [payment.id]: e.target.value }))}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => reschedule(payment)}>
+                    Move
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => skip(payment)}>
+                    Skip
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500 capitalize">{payment.status}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentCalendar;
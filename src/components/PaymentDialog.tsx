@@ -1,11 +1,13 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
 import { Debt } from "@/types";
-import { MicroRepayService } from "@/core/MicroRepayService";
+import { createIdempotencyKey, IdempotencyConflictError } from "@/core/idempotency/IdempotencyGuard";
+import { formatMoney } from "@/lib/utils";
+import { getMicroRepayService } from "@/services/microRepayService";
 
 interface PaymentDialogProps {
   debt: Debt;
@@ -17,11 +19,24 @@ interface PaymentDialogProps {
 const PaymentDialog = ({ debt, isOpen, onClose, onPaymentComplete }: PaymentDialogProps) => {
   const [amount, setAmount] = useState<string>(debt.minimumPayment.toString());
   const [isProcessing, setIsProcessing] = useState(false);
+  // One key per payment attempt: resubmitting the same amount after a
+  // failure or a lost response reuses it, so the payment is never made
+  // twice. Changing the amount makes it a new payment with a new key.
+  const idempotencyKey = useRef(createIdempotencyKey());
+  const submitting = useRef(false);
   const { toast } = useToast();
 
+  const handleClose = () => {
+    idempotencyKey.current = createIdempotencyKey();
+    onClose();
+  };
+
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     if (value === "" || /^\d*\.?\d{0,2}$/.test(value)) {
+      if (parseFloat(value) !== parseFloat(amount)) {
+        idempotencyKey.current = createIdempotencyKey();
+      }
       setAmount(value);
     }
   };
@@ -35,13 +50,15 @@ const PaymentDialog = ({ debt, isOpen, onClose, onPaymentComplete }: PaymentDial
       });
       return;
     }
+    if (submitting.current) return;
 
+    submitting.current = true;
     setIsProcessing(true);
     try {
-      const microRepayService = new MicroRepayService();
-      const result = await microRepayService.processRoundup(
+      const result = await getMicroRepayService().processRoundup(
         "user123", // TODO: Replace with actual user ID
-        parseFloat(amount)
+        parseFloat(amount),
+        { idempotencyKey: idempotencyKey.current }
       );
 
       if (result.success) {
@@ -50,23 +67,51 @@ const PaymentDialog = ({ debt, isOpen, onClose, onPaymentComplete }: PaymentDial
           description: `Payment of $${amount} has been processed. Confirmation: ${result.transactionId}`,
         });
         onPaymentComplete();
-        onClose();
+        handleClose();
       } else {
-        throw new Error("Payment failed");
+        // The key now stands for this attempt's outcome; trying again is a
+        // new payment for whatever was not paid
+        idempotencyKey.current = createIdempotencyKey();
+        if (result.transfer) {
+          onPaymentComplete();
+        }
+        toast({
+          title: result.transfer ? "Payment Partly Failed" : "Payment Failed",
+          description: result.failedPayments.map(failed => failed.reason).join(" ") ||
+            "An error occurred while processing your payment.",
+          variant: "destructive",
+        });
       }
     } catch (error) {
+      if (error instanceof IdempotencyConflictError && error.reason === "in_progress") {
+        toast({
+          title: "Payment Already Submitted",
+          description: "This payment is already being processed. Check your payment history before trying again.",
+        });
+        return;
+      }
+      if (error instanceof IdempotencyConflictError) {
+        idempotencyKey.current = createIdempotencyKey();
+        toast({
+          title: "Payment Not Submitted",
+          description: "This payment was already submitted with different details. Check your payment history, then submit it again.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Payment Failed",
         description: error instanceof Error ? error.message : "An error occurred while processing your payment.",
         variant: "destructive",
       });
     } finally {
+      submitting.current = false;
       setIsProcessing(false);
     }
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
           <DialogTitle>Make Payment</DialogTitle>
@@ -86,12 +131,12 @@ const PaymentDialog = ({ debt, isOpen, onClose, onPaymentComplete }: PaymentDial
             />
           </div>
           <div className="text-sm text-gray-500">
-            <p>Minimum Payment: ${debt.minimumPayment.toFixed(2)}</p>
-            <p>Current Balance: ${debt.currentBalance.toFixed(2)}</p>
+            <p>Minimum Payment: {formatMoney(debt.minimumPayment)}</p>
+            <p>Current Balance: {formatMoney(debt.currentBalance)}</p>
           </div>
         </div>
         <DialogFooter>
-          <Button variant="outline" onClick={onClose} disabled={isProcessing}>
+          <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
             Cancel
           </Button>
           <Button 
@@ -2,6 +2,7 @@
 import { CreditCard } from "lucide-react";
 import { Transaction } from "@/types";
 import { Button } from "@/components/ui/button";
+import { formatMoney } from "@/lib/utils";
 
 interface RecentTransactionsCardProps {
   transactions: Transaction[];
@@ -36,10 +37,18 @@ const RecentTransactionsCard = ({ transactions }: RecentTransactionsCardProps) =
               </div>
             </div>
             <div className="text-right">
-              <p className="font-medium">${transaction.amount.toFixed(2)}</p>
-              <p className="text-xs text-skyblue">
-                +${transaction.roundUpAmount.toFixed(2)}
+              <p className="font-medium">
+                {formatMoney(transaction.type === "purchase" ? transaction.amount : -transaction.amount)}
               </p>
+              {transaction.roundUpReversal ? (
+                <p className="text-xs text-gray-500">
+                  {formatMoney(-transaction.roundUpReversal.amount)} round-up
+                </p>
+              ) : (
+                <p className="text-xs text-skyblue">
+                  +{formatMoney(transaction.roundUpAmount)}
+                </p>
+              )}
             </div>
           </div>
         ))}
@@ -38,6 +38,7 @@ const Sidebar = () => {
     { name: "Dashboard", path: "/dashboard", icon: <Home className="w-5 h-5" /> },
     { name: "Transactions", path: "/transactions", icon: <CreditCard className="w-5 h-5" /> },
     { name: "Debts", path: "/debts", icon: <CircleDollarSign className="w-5 h-5" /> },
+    { name: "Planner", path: "/planner", icon: <BarChart3 className="w-5 h-5" /> },
     { name: "Connect Bank", path: "/connect-bank", icon: <Building className="w-5 h-5" /> },
     { name: "Profile", path: "/profile", icon: <User className="w-5 h-5" /> },
   ];
@@ -1,13 +1,18 @@
 
 import { Progress } from "@/components/ui/progress";
-import { RoundUpWallet } from "@/types";
+import { RoundUpWallet, UserPreferences } from "@/types";
+import { formatMoney, sumMoney } from "@/lib/utils";
+import { nextSweepAt } from "@/core/scheduler/WalletSweepScheduler";
 
 interface WalletCardProps {
   wallet: RoundUpWallet;
+  transferFrequency: UserPreferences["transferFrequency"];
 }
 
-const WalletCard = ({ wallet }: WalletCardProps) => {
+const WalletCard = ({ wallet, transferFrequency }: WalletCardProps) => {
   const progress = (wallet.balance / wallet.transferThreshold) * 100;
+  const nextSweep = nextSweepAt(transferFrequency, wallet.lastTransferredAt);
+  const sweepWaiting = nextSweep !== null && nextSweep.getTime() > Date.now();
 
   return (
     <div className="card-element p-6">
@@ -19,11 +24,11 @@ const WalletCard = ({ wallet }: WalletCardProps) => {
       <div className="flex items-end justify-between mb-2">
         <div>
           <p className="text-sm text-gray-500">Current Balance</p>
-          <p className="text-3xl font-bold text-navy">${wallet.balance.toFixed(2)}</p>
+          <p className="text-3xl font-bold text-navy">{formatMoney(wallet.balance)}</p>
         </div>
         <div className="text-right">
           <p className="text-sm text-gray-500">Transfer Threshold</p>
-          <p className="text-lg font-medium">${wallet.transferThreshold.toFixed(2)}</p>
+          <p className="text-lg font-medium">{formatMoney(wallet.transferThreshold)}</p>
         </div>
       </div>
       
@@ -31,10 +36,18 @@ const WalletCard = ({ wallet }: WalletCardProps) => {
       
       <p className="text-sm text-gray-500">
         {progress < 100
-          ? `$${(wallet.transferThreshold - wallet.balance).toFixed(2)} more until transfer`
-          : "Ready for transfer!"}
+          ? `${formatMoney(sumMoney([wallet.transferThreshold, -wallet.balance]))} more until transfer`
+          : sweepWaiting
+            ? `Ready for transfer on ${nextSweep.toLocaleDateString()} (${transferFrequency} transfers)`
+            : "Ready for transfer at the next scheduled sweep!"}
       </p>
       
+      {wallet.pendingClawback > 0 && (
+        <p className="text-sm text-gray-500 mt-2">
+          {formatMoney(wallet.pendingClawback)} of round-ups from refunded purchases will be taken out of the next transfer
+        </p>
+      )}
+      
       {wallet.lastTransferredAt && (
         <p className="text-xs text-gray-400 mt-4">
           Last transfer: {new Date(wallet.lastTransferredAt).toLocaleDateString()}
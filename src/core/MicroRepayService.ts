@@ -10,12 +10,77 @@
  */
 
 import { SecurityFrameworkImpl } from './security/SecurityFramework';
-import { CreditorIntegration } from './integration/CreditorIntegration';
+import { parseCipherKeys, TokenCipher } from './security/TokenCipher';
+import {
+  CreditorConfig,
+  CreditorIntegration,
+  PaymentOutcomeUnknownError,
+  PaymentResult
+} from './integration/CreditorIntegration';
+import {
+  CreditorRegistry,
+  CreditorSource,
+  databaseCreditorSource,
+  DEFAULT_ADAPTER_FACTORIES,
+  DEFAULT_CREDITOR_RATE_LIMIT,
+  fileCreditorSource
+} from './integration/CreditorRegistry';
+import { CreditorLinkStore, CreditorLinkSummary, NewCreditorLink } from './integration/CreditorLinkStore';
+import { BankLinkFlow } from './integration/BankLinkFlow';
+import type { BankLinkProvider } from './integration/BankLinkProvider';
 import { OptimizationEngine } from './optimization/OptimizationEngine';
-import { AnalyticsEngine } from './analytics/AnalyticsEngine';
-import { GamificationSystem } from './gamification/GamificationSystem';
+import { AnalyticsEngine, CreditorInsights } from './analytics/AnalyticsEngine';
+import {
+  DEFAULT_GAMIFICATION_CONFIG,
+  GamificationConfig,
+  GamificationSystem,
+  UserStats
+} from './gamification/GamificationSystem';
 import { Database } from './database/Database';
-import { DebtAccount, PaymentSchedule } from './optimization/OptimizationEngine';
+import { UserRepository } from './database/repositories/UserRepository';
+import { DebtRepository } from './database/repositories/DebtRepository';
+import { PaymentRepository } from './database/repositories/PaymentRepository';
+import { GamificationRepository } from './database/repositories/GamificationRepository';
+import { TransactionRepository } from './database/repositories/TransactionRepository';
+import { CreditorRepository } from './database/repositories/CreditorRepository';
+import { WalletRepository } from './database/repositories/WalletRepository';
+import { IdempotencyRepository } from './database/repositories/IdempotencyRepository';
+import { BalanceHistoryRepository } from './database/repositories/BalanceHistoryRepository';
+import { ScheduledPaymentRepository } from './database/repositories/ScheduledPaymentRepository';
+import { IdempotencyConflictError, IdempotencyGuard } from './idempotency/IdempotencyGuard';
+import { Ledger, ReconciliationReport } from './ledger/Ledger';
+import { CreditorPaymentEvent, PaymentLifecycle, paymentStatusFromCreditor } from './payments/PaymentLifecycle';
+import { Money } from './money/Money';
+import { accrueRoundUp } from './roundup/accrual';
+import { Clock, systemClock } from './scheduler/Clock';
+import { WalletSweepScheduler } from './scheduler/WalletSweepScheduler';
+import { ScheduledPaymentExecutor } from './scheduler/ScheduledPaymentExecutor';
+import { PaymentStatusPoller } from './scheduler/PaymentStatusPoller';
+import { BalanceSyncScheduler } from './scheduler/BalanceSyncScheduler';
+import { TransactionIngestion } from './ingestion/TransactionIngestion';
+import type { TransactionAggregator } from './ingestion/TransactionAggregator';
+import {
+  BalanceSnapshot,
+  CustomAllocationRules,
+  Debt,
+  DriftAlert,
+  Payment,
+  PaymentTransition,
+  RateSchedule,
+  ScheduledPayment,
+  Transaction,
+  Transfer
+} from '../types';
+import {
+  DebtAccount,
+  debtAccountsFromBalances,
+  HybridStrategyOptions,
+  PaymentSchedule,
+  StrategyComparison
+} from './optimization/OptimizationEngine';
+import type { LumpSum, PayoffProjection } from './optimization/PayoffSimulator';
+import { DEFAULT_DUE_WINDOW_DAYS } from './optimization/MinimumPaymentGuard';
+import { validateRateSchedule } from './optimization/RateSchedule';
 
 export interface UserProfile {
   id: string;
@@ -23,6 +88,7 @@ export interface UserProfile {
   email: string;
   preferences: {
     optimizationStrategy: string;
+    customAllocation: CustomAllocationRules;
     privacySettings: {
       anonymizationLevel: 'low' | 'medium' | 'high';
       retentionPeriod: number;
@@ -38,13 +104,44 @@ export interface RoundupTransaction {
   status: 'pending' | 'processed' | 'failed';
 }
 
+export interface RoundupOptions {
+  idempotencyKey: string; // Repeating a key replays the first result instead of paying again
+  date?: string; // When the round-up is processed; defaults to now
+  transactionIds?: string[]; // Purchases whose round-ups are being swept
+  payments?: PaymentSchedule[]; // Paid as given instead of optimizing, e.g. a scheduled payment
+}
+
+export interface RoundupResult {
+  success: boolean; // False if a creditor refused any of the payments
+  transactionId: string;
+  transfer: Transfer | null;
+  paymentSchedule: PaymentSchedule[];
+  projectedSavings: PayoffProjection;
+  failedPayments: FailedRoundupPayment[]; // Their funds went back to the wallet
+}
+
+export interface FailedRoundupPayment {
+  debtId: string;
+  amount: number;
+  reason: string;
+}
+
 export class MicroRepayService {
   private readonly securityFramework: SecurityFrameworkImpl;
+  private readonly creditorRegistry: CreditorRegistry;
   private readonly creditorIntegration: CreditorIntegration;
+  private readonly creditorLinks: CreditorLinkStore;
   private readonly optimizationEngine: OptimizationEngine;
+  private readonly dueWindowDays: number;
+  private readonly hybridOptions: HybridStrategyOptions;
   private readonly analyticsEngine: AnalyticsEngine;
   private readonly gamificationSystem: GamificationSystem;
   private readonly database: Database;
+  private readonly users: UserRepository;
+  private readonly debts: DebtRepository;
+  private readonly payments: PaymentRepository;
+  private readonly idempotency: IdempotencyGuard;
+  private readonly gamificationConfig: GamificationConfig = DEFAULT_GAMIFICATION_CONFIG;
 
   constructor() {
     // Initialize security framework
@@ -121,20 +218,50 @@ export class MicroRepayService {
       password: process.env.DB_PASSWORD || 'postgres',
       database: process.env.DB_NAME || 'microrepay'
     });
+    this.users = new UserRepository(this.database);
+    this.debts = new DebtRepository(this.database);
+    this.payments = new PaymentRepository(this.database);
+    this.idempotency = new IdempotencyGuard(new IdempotencyRepository(this.database));
 
-    // Initialize creditor integration
-    this.creditorIntegration = new CreditorIntegration({
-      apiKey: process.env.CREDITOR_API_KEY || '',
-      apiUrl: process.env.CREDITOR_API_URL || '',
-      timeout: 30000
-    });
+    // Initialize creditor integration. Creditors come from the optional
+    // config file, then the creditors table; API keys come from the
+    // environment as a JSON object keyed by creditor ID. With rate limiting
+    // enabled, creditors without their own limit get the default one.
+    const creditorSources: CreditorSource[] = [];
+    if (process.env.CREDITOR_CONFIG_PATH) {
+      creditorSources.push(fileCreditorSource(process.env.CREDITOR_CONFIG_PATH));
+    }
+    creditorSources.push(databaseCreditorSource(this.database));
+    this.creditorRegistry = new CreditorRegistry(
+      JSON.parse(process.env.CREDITOR_API_KEYS || '{}'),
+      creditorSources,
+      DEFAULT_ADAPTER_FACTORIES,
+      {
+        defaultRateLimit: this.securityFramework.transactionSecurity.rateLimiting
+          ? DEFAULT_CREDITOR_RATE_LIMIT
+          : undefined
+      }
+    );
 
-    // Initialize optimization engine
-    this.optimizationEngine = new OptimizationEngine();
+    // Creditor access tokens are sealed with the keys in CREDITOR_TOKEN_KEYS
+    // ("id:base64key", current key first, retired keys after it)
+    this.creditorLinks = new CreditorLinkStore(
+      this.database,
+      TokenCipher.fromSecurityFramework(this.securityFramework, parseCipherKeys(process.env.CREDITOR_TOKEN_KEYS))
+    );
+    this.creditorIntegration = new CreditorIntegration(this.creditorRegistry, this.creditorLinks);
+
+    // Initialize optimization engine. The hybrid strategy's thresholds and
+    // split come from HYBRID_STRATEGY_OPTIONS as a JSON object; sweeps first
+    // cover minimums due within MINIMUM_DUE_WINDOW_DAYS days.
+    this.hybridOptions = JSON.parse(process.env.HYBRID_STRATEGY_OPTIONS || '{}');
+    this.optimizationEngine = new OptimizationEngine({ hybrid: this.hybridOptions });
+    this.dueWindowDays = parseInt(process.env.MINIMUM_DUE_WINDOW_DAYS || String(DEFAULT_DUE_WINDOW_DAYS));
 
     // Initialize analytics engine
     this.analyticsEngine = new AnalyticsEngine(
-      this.database,
+      this.payments,
+      this.debts,
       {
         dataRetention: '90d',
         anonymization: true
@@ -142,68 +269,115 @@ export class MicroRepayService {
     );
 
     // Initialize gamification system
-    this.gamificationSystem = new GamificationSystem({
-      pointsPerPayment: 10,
-      bonusPoints: {
-        earlyPayment: 5,
-        consistentPayment: 15,
-        milestoneAchievement: 50
+    this.gamificationSystem = this.createGamificationSystem(this.database);
+  }
+
+  /**
+   * Pays `amount` out of the user's wallet to their creditors. Calls that
+   * reuse an idempotency key return the original result without moving
+   * money again. Each creditor payment is recorded as soon as its creditor
+   * answers, so one creditor refusing a payment returns that payment's
+   * funds to the wallet without undoing the others.
+   */
+  async processRoundup(userId: string, amount: number, options: RoundupOptions): Promise<RoundupResult> {
+    return this.idempotency.run(
+      'process_roundup',
+      options.idempotencyKey,
+      {
+        userId,
+        amount,
+        transactionIds: options.transactionIds ?? [],
+        ...(options.payments ? { payments: options.payments } : {})
       },
-      levels: [
-        { level: 1, points: 0 },
-        { level: 2, points: 100 },
-        { level: 3, points: 500 },
-        { level: 4, points: 1000 },
-        { level: 5, points: 2000 }
-      ]
-    });
+      () => this.executeRoundup(userId, amount, options)
+    );
   }
 
-  async processRoundup(
-    userId: string,
-    amount: number
-  ): Promise<{
-    success: boolean;
-    transactionId: string;
-    paymentSchedule: PaymentSchedule[];
-    projectedSavings: {
-      totalInterestSaved: number;
-      monthsToPayoff: number;
-      totalPayments: number;
+  /**
+   * Retries a round-up under its original key and request, e.g. one whose
+   * process died after holding its funds. Payments it already sent are
+   * not sent again.
+   */
+  async resumeRoundup(idempotencyKey: string, date?: string): Promise<RoundupResult> {
+    const record = await new IdempotencyRepository(this.database).find('process_roundup', idempotencyKey);
+    if (!record) {
+      throw new Error(`No round-up was made with key ${idempotencyKey}`);
+    }
+    const request = JSON.parse(record.request) as {
+      userId: string;
+      amount: number;
+      transactionIds: string[];
+      payments?: RoundupOptions['payments'];
     };
-  }> {
+    return this.processRoundup(request.userId, request.amount, {
+      idempotencyKey,
+      date,
+      transactionIds: request.transactionIds,
+      ...(request.payments ? { payments: request.payments } : {})
+    });
+  }
+
+  private async executeRoundup(userId: string, amount: number, options: RoundupOptions): Promise<RoundupResult> {
+    const processedAt = options.date ?? new Date().toISOString();
+
     try {
       // 1. Get user profile and preferences
       const userProfile = await this.getUserProfile(userId);
       
       // 2. Get current debt balances
-      const debtBalances = await this.creditorIntegration.getDebtBalances(userId);
+      const balances = await this.creditorIntegration.getDebtBalances(userId);
       
-      // 3. Convert balances to debt accounts format
-      const debtAccounts: DebtAccount[] = Object.entries(debtBalances).map(
-        ([creditorId, data]: [string, any]) => ({
-          id: `${creditorId}-${data.accountId}`,
-          creditorId,
-          accountId: data.accountId,
-          currentBalance: data.balance,
-          interestRate: data.interestRate,
-          minimumPayment: data.minimumPayment,
-          dueDate: data.dueDate
-        })
-      );
+      // 3. Convert balances to debt accounts, keeping only debts we track.
+      // Accounts without a fresh balance are skipped: their creditor just
+      // failed, so a payment to it would fail too.
+      const trackedDebts = await this.debts.findByUser(userId);
+      const debtAccounts = debtAccountsFromBalances(balances, trackedDebts);
 
-      // 4. Optimize payment schedule
-      const paymentSchedule = this.optimizationEngine.optimizePayments(
-        userProfile.preferences.optimizationStrategy,
-        debtAccounts,
-        amount,
-        new Date().toISOString()
-      );
+      // A retry of a round-up whose funds are already held picks up the
+      // payments it planned rather than planning new ones
+      const heldTransfer = await new WalletRepository(this.database).findTransferBySweepKey(options.idempotencyKey);
+      const heldPayments = heldTransfer ? await this.payments.findByTransfer(heldTransfer.id) : [];
 
-      // 5. Calculate projected savings
-      const projectedSavings = this.optimizationEngine.calculateProjectedSavings(
+      // 4. Optimize payment schedule, covering minimums coming due first and
+      // using the user's own rules for the custom strategy. Payments given
+      // by the caller are used instead, never more than a debt owes.
+      const optimizationEngine = this.optimizationEngineFor(userProfile);
+      let paymentSchedule: PaymentSchedule[];
+      if (heldTransfer) {
+        paymentSchedule = heldPayments.map((payment, index) => ({
+          debtId: payment.debtId,
+          accountId: trackedDebts.find(debt => debt.id === payment.debtId)?.accountId,
+          amount: payment.amount,
+          date: payment.date,
+          priority: index + 1
+        }));
+      } else if (options.payments) {
+        paymentSchedule = options.payments.flatMap(payment => {
+          const account = debtAccounts.find(debtAccount => debtAccount.id === payment.debtId);
+          const payable = account
+            ? Money.min(Money.of(payment.amount), Money.of(account.currentBalance))
+            : Money.zero();
+          return payable.isPositive() ? [{ ...payment, amount: payable.toNumber() }] : [];
+        });
+      } else {
+        paymentSchedule = optimizationEngine.optimizePayments(
+          userProfile.preferences.optimizationStrategy,
+          debtAccounts,
+          amount,
+          processedAt,
+          { dueWindowDays: this.dueWindowDays, paymentsThisCycle: await this.payments.findByUser(userId) }
+        );
+      }
+
+      // 5. Project the payoff with this sweep and the user's usual monthly round-ups
+      const projectedSavings = optimizationEngine.projectPayoff(
+        userProfile.preferences.optimizationStrategy,
         debtAccounts,
-        paymentSchedule
+        {
+          startDate: processedAt,
+          monthlyRoundUps: await this.estimateMonthlyRoundUps(userId, processedAt),
+          scheduledPayments: paymentSchedule
+        }
       );
 
       // 6. Create roundup transaction
@@ -211,57 +385,210 @@ export class MicroRepayService {
         id: `TRX-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
         userId,
         amount,
-        date: new Date().toISOString(),
+        date: processedAt,
         status: 'pending'
       };
 
-      // 7. Process payments
-      for (const payment of paymentSchedule) {
-        const creditorId = debtAccounts.find(
-          account => account.accountId === payment.accountId
-        )?.creditorId;
+      // 7. Hold the funds: the wallet debit, the transfer and its payments,
+      // not yet sent, commit before any creditor is called
+      const heldForPayments = heldTransfer
+        ? heldPayments
+        : await this.holdRoundup(userId, amount, options, processedAt, paymentSchedule, debtAccounts);
+
+      // 8. Send each held payment to its creditor outside any transaction and
+      // commit each outcome on its own, so a creditor failing cannot undo
+      // payments other creditors already took. A refused payment's funds go
+      // back to the wallet; one the creditor may have taken counts as sent
+      // until the status poller finds out. The round-up stays pending until
+      // its payments settle through the payment lifecycle.
+      const failedPayments: FailedRoundupPayment[] = [];
+      for (const payment of heldForPayments.filter(held => held.status === 'created')) {
+        const debt = trackedDebts.find(tracked => tracked.id === payment.debtId);
+        // Its debt was removed after the funds were held: nothing to pay
+        if (!debt) {
+          const reason = `Debt ${payment.debtId} is no longer tracked`;
+          await new PaymentLifecycle(this.database).transition(payment.id, 'failed', {
+            source: 'system',
+            reason,
+            occurredAt: processedAt
+          });
+          failedPayments.push({ debtId: payment.debtId, amount: payment.amount, reason });
+          continue;
+        }
 
-        if (creditorId) {
-          await this.creditorIntegration.makePayment(
+        let result: PaymentResult;
+        try {
+          result = await this.creditorIntegration.makePayment(
             userId,
-            creditorId,
-            payment.accountId,
-            payment.amount
+            debt.creditorId,
+            debt.accountId,
+            payment.amount,
+            {
+              idempotencyKey: payment.creditorReference ?? `${options.idempotencyKey}:${debt.id}`,
+              db: this.database
+            }
           );
+        } catch (error) {
+          // Another attempt is sending this payment; leave it held for a retry
+          if (error instanceof IdempotencyConflictError) {
+            throw error;
+          }
+          const reason = error instanceof Error ? error.message : 'Unknown error';
+          if (error instanceof PaymentOutcomeUnknownError) {
+            await this.database.transaction(async tx => {
+              await new Ledger(tx).recordCreditorPayment(userId, payment.debtId, payment.id, payment.amount);
+              await new WalletRepository(tx).markTransferred(userId, processedAt);
+              await new PaymentLifecycle(tx).transition(payment.id, 'submitted', {
+                source: 'system',
+                reason,
+                occurredAt: processedAt
+              });
+            });
+            continue;
+          }
+          await new PaymentLifecycle(this.database).transition(payment.id, 'failed', {
+            source: 'system',
+            reason,
+            occurredAt: processedAt
+          });
+          failedPayments.push({ debtId: payment.debtId, amount: payment.amount, reason });
+          continue;
         }
-      }
 
-      // 8. Update transaction status
-      transaction.status = 'processed';
+        await this.database.transaction(async tx => {
+          const lifecycle = new PaymentLifecycle(tx);
+          await new Ledger(tx).recordCreditorPayment(userId, payment.debtId, payment.id, payment.amount);
+          await new WalletRepository(tx).markTransferred(userId, processedAt);
+          await lifecycle.transition(payment.id, 'submitted', {
+            source: 'system',
+            confirmationNumber: result.confirmationNumber,
+            occurredAt: processedAt
+          });
+
+          // Apply whatever the creditor already reported in its response
+          const creditorStatus = paymentStatusFromCreditor(result.status);
+          if (creditorStatus) {
+            await lifecycle.transition(payment.id, creditorStatus, {
+              source: 'system',
+              reason: `Creditor responded "${result.status}"`,
+              occurredAt: processedAt
+            });
+          }
+        });
+      }
 
       // 9. Update analytics
       await this.analyticsEngine.generateCreditorInsights(userId);
 
-      // 10. Update gamification
-      // Use the first debt account's ID as the debtId for gamification
-      const primaryDebtId = debtAccounts[0]?.id || 'unknown';
-      await this.gamificationSystem.processCompletedPayment(userId, amount, primaryDebtId);
+      // Without the allocations of payments that failed; none if all of them did
+      const transfer = await new WalletRepository(this.database).findTransferBySweepKey(options.idempotencyKey);
 
       return {
-        success: true,
+        success: failedPayments.length === 0,
         transactionId: transaction.id,
+        transfer: transfer && transfer.allocations.length > 0 ? transfer : null,
         paymentSchedule,
-        projectedSavings
+        projectedSavings,
+        failedPayments
       };
     } catch (error) {
+      // Left unwrapped so callers can tell a payment still in progress from a failed one
+      if (error instanceof IdempotencyConflictError) {
+        throw error;
+      }
       console.error('Error processing roundup:', error);
       throw new Error(`Failed to process roundup: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Debits the wallet for the scheduled payments and records them, unsent,
+   * under a transfer keyed by the round-up's idempotency key, all in one
+   * transaction. The wallet row stays locked until commit so a concurrent
+   * sweep waits and then sees the reduced balance.
+   */
+  private async holdRoundup(
+    userId: string,
+    amount: number,
+    options: RoundupOptions,
+    processedAt: string,
+    paymentSchedule: PaymentSchedule[],
+    debtAccounts: DebtAccount[]
+  ): Promise<Payment[]> {
+    return this.database.transaction(async tx => {
+      const wallets = new WalletRepository(tx);
+      const wallet = await wallets.lockByUser(userId);
+      if (!wallet) {
+        throw new Error(`User ${userId} has no round-up wallet`);
+      }
+      const available = Money.of(wallet.balance);
+      const requested = Money.of(amount);
+      if (available.lessThan(requested)) {
+        throw new Error(`Insufficient wallet balance: ${available.format()} available, ${requested.format()} requested`);
+      }
+
+      const transfer: Transfer = {
+        id: `TRF-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+        amount: 0,
+        currency: 'USD',
+        date: processedAt,
+        destinationIds: [],
+        allocations: []
+      };
+      for (const payment of paymentSchedule) {
+        const account = debtAccounts.find(debtAccount => debtAccount.id === payment.debtId);
+        if (account) {
+          transfer.destinationIds.push(account.id);
+          transfer.allocations.push({ debtId: account.id, amount: payment.amount });
+        }
+      }
+      transfer.amount = Money.sum(
+        transfer.allocations.map(allocation => Money.of(allocation.amount, transfer.currency)),
+        transfer.currency
+      ).toNumber();
+
+      const payments: Payment[] = [];
+      if (transfer.amount > 0) {
+        const lifecycle = new PaymentLifecycle(tx);
+        await wallets.recordTransfer(wallet.id, transfer, options.idempotencyKey);
+        await new Ledger(tx).recordSweep(userId, transfer.id, transfer.amount);
+        await wallets.debit(wallet.id, transfer.amount);
+        for (const allocation of transfer.allocations) {
+          payments.push(await lifecycle.create({
+            id: `PMT-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+            userId,
+            debtId: allocation.debtId,
+            amount: allocation.amount,
+            currency: 'USD',
+            date: processedAt,
+            sourceFunds: 'round_up',
+            transferId: transfer.id,
+            creditorReference: `${options.idempotencyKey}:${allocation.debtId}`
+          }, processedAt));
+        }
+        if (options.transactionIds?.length) {
+          await new TransactionRepository(tx).markTransferred(options.transactionIds, processedAt);
+        }
+      }
+
+      return payments;
+    });
+  }
+
   async getUserProfile(userId: string): Promise<UserProfile> {
-    // Mock implementation - replace with actual database call
+    const user = await this.users.findById(userId);
+
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+
     return {
-      id: userId,
-      name: 'John Doe',
-      email: 'john@example.com',
+      id: user.id,
+      name: user.name,
+      email: user.email,
       preferences: {
-        optimizationStrategy: 'hybrid',
+        optimizationStrategy: user.preferences.defaultAllocationStrategy,
+        customAllocation: user.preferences.customAllocation,
         privacySettings: {
           anonymizationLevel: 'medium',
           retentionPeriod: 90
@@ -270,13 +597,152 @@ export class MicroRepayService {
     };
   }
 
+  /** An engine whose custom strategy follows the user's own rules. */
+  private optimizationEngineFor(userProfile: UserProfile): OptimizationEngine {
+    return new OptimizationEngine({
+      customRules: userProfile.preferences.customAllocation,
+      hybrid: this.hybridOptions
+    });
+  }
+
+  async getScheduledPayments(userId: string): Promise<ScheduledPayment[]> {
+    return new ScheduledPaymentRepository(this.database).findByUser(userId);
+  }
+
+  /**
+   * Plans the user's payments for the months ahead from their wallet and
+   * expected round-ups, replacing the earlier plan. Payments the user
+   * skipped or rescheduled are kept, their funds stay set aside, and the
+   * new plan leaves out the due dates they cover.
+   */
+  async scheduleUpcomingPayments(userId: string, months = 3): Promise<ScheduledPayment[]> {
+    const now = new Date().toISOString();
+    const userProfile = await this.getUserProfile(userId);
+    const debtAccounts = await this.getDebtAccounts(userId);
+    const monthlyRoundUps = await this.estimateMonthlyRoundUps(userId, now);
+
+    await this.database.transaction(async tx => {
+      const scheduled = new ScheduledPaymentRepository(tx);
+      const wallet = await new WalletRepository(tx).lockByUser(userId);
+      if (!wallet) {
+        throw new Error(`User ${userId} has no round-up wallet`);
+      }
+
+      await scheduled.deleteUntouched(userId);
+      const kept = (await scheduled.findByUser(userId)).filter(
+        payment => payment.status === 'scheduled' || (payment.status === 'skipped' && payment.plannedFor >= now)
+      );
+      const setAside = Money.of(await scheduled.sumScheduled(userId, now));
+
+      const plan = this.optimizationEngineFor(userProfile).scheduleForward(
+        userProfile.preferences.optimizationStrategy,
+        debtAccounts,
+        {
+          startDate: now,
+          months,
+          monthlyRoundUps,
+          walletBalance: Money.max(Money.of(wallet.balance).minus(setAside), Money.zero()).toNumber()
+        }
+      );
+
+      for (const payment of plan) {
+        const covered = kept.some(
+          keptPayment =>
+            keptPayment.debtId === payment.debtId &&
+            keptPayment.plannedFor.substring(0, 10) === payment.date.substring(0, 10)
+        );
+        if (covered) continue;
+
+        await scheduled.create({
+          id: `SCH-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+          userId,
+          debtId: payment.debtId,
+          accountId: payment.accountId,
+          amount: payment.amount,
+          currency: 'USD',
+          scheduledFor: payment.date,
+          plannedFor: payment.date,
+          fundedFrom: payment.fundedFrom ?? now,
+          status: 'scheduled',
+          reasons: (payment.reasons ?? []).map(reason => reason.detail),
+          createdAt: now,
+          updatedAt: now
+        });
+      }
+    });
+
+    return this.getScheduledPayments(userId);
+  }
+
+  async skipScheduledPayment(userId: string, scheduledPaymentId: string): Promise<ScheduledPayment> {
+    const scheduled = new ScheduledPaymentRepository(this.database);
+    await this.findPendingScheduledPayment(scheduled, userId, scheduledPaymentId);
+    await scheduled.updateStatus(scheduledPaymentId, 'skipped', new Date().toISOString());
+    return scheduled.findById(scheduledPaymentId);
+  }
+
+  async rescheduleScheduledPayment(
+    userId: string,
+    scheduledPaymentId: string,
+    date: string
+  ): Promise<ScheduledPayment> {
+    const scheduledFor = new Date(date);
+    if (Number.isNaN(scheduledFor.getTime())) {
+      throw new Error(`Cannot reschedule to "${date}": not a date`);
+    }
+    if (scheduledFor.getTime() < Date.now()) {
+      throw new Error(`Cannot reschedule to ${date}: the date has passed`);
+    }
+
+    const scheduled = new ScheduledPaymentRepository(this.database);
+    await this.findPendingScheduledPayment(scheduled, userId, scheduledPaymentId);
+    await scheduled.reschedule(scheduledPaymentId, scheduledFor.toISOString(), new Date().toISOString());
+    return scheduled.findById(scheduledPaymentId);
+  }
+
+  private async findPendingScheduledPayment(
+    scheduled: ScheduledPaymentRepository,
+    userId: string,
+    scheduledPaymentId: string
+  ): Promise<ScheduledPayment> {
+    const payment = await scheduled.findById(scheduledPaymentId);
+    if (!payment || payment.userId !== userId) {
+      throw new Error(`Scheduled payment ${scheduledPaymentId} not found`);
+    }
+    if (payment.status !== 'scheduled') {
+      throw new Error(`Scheduled payment ${scheduledPaymentId} is already ${payment.status}`);
+    }
+    return payment;
+  }
+
   async getAvailableStrategies() {
     return this.optimizationEngine.getAvailableStrategies();
   }
 
-  async getCreditorInsights(userId: string): Promise<any> {
+  /**
+   * Compares paying off the user's open debts with each strategy. Monthly
+   * round-ups default to what the user's last 30 days brought in.
+   */
+  async compareStrategies(
+    userId: string,
+    monthlyRoundUps?: number,
+    lumpSums: LumpSum[] = []
+  ): Promise<StrategyComparison[]> {
+    const startDate = new Date().toISOString();
+    const userProfile = await this.getUserProfile(userId);
+    return this.optimizationEngineFor(userProfile).compareStrategies(
+      await this.getDebtAccounts(userId),
+      monthlyRoundUps ?? (await this.estimateMonthlyRoundUps(userId, startDate)),
+      { startDate, lumpSums }
+    );
+  }
+
+  async getCreditorInsights(userId: string): Promise<CreditorInsights | null> {
     try {
-      return await this.analyticsEngine.generateCreditorInsights(userId);
+      return await this.analyticsEngine.generateCreditorInsights(
+        userId,
+        await this.creditorIntegration.getDebtBalances(userId)
+      );
     } catch (error) {
       console.error('Failed to generate creditor insights:', error);
       return null;
@@ -291,55 +757,113 @@ export class MicroRepayService {
     return this.gamificationSystem.getLeaderboard();
   }
 
-  async makePayment(userId: string, creditorId: string, amount: number): Promise<boolean> {
+  /**
+   * Pays one of the user's debts directly, outside the round-up wallet. The
+   * debt is named rather than its creditor, which may hold several of the
+   * user's accounts. The payment is recorded and moves through the payment
+   * lifecycle like a round-up payment, settling later. Returns true once
+   * the creditor took it; false if it was refused, or if its outcome is not
+   * known yet, in which case the status poller finds out. Reusing a key
+   * replays the first result.
+   */
+  async makePayment(userId: string, debtId: string, amount: number, idempotencyKey: string): Promise<boolean> {
     try {
       // Validate payment request
       if (!this.securityFramework.transactionSecurity.fraudDetection) {
         throw new Error('Transaction validation failed');
       }
 
-      // Process payment through creditor integration
-      const paymentResult = await this.creditorIntegration.makePayment(
-        userId,
-        creditorId,
-        'acc123', // TODO: Get actual account ID
-        amount
+      return await this.idempotency.run(
+        'direct_payment',
+        idempotencyKey,
+        { userId, debtId, amount },
+        () => this.submitDirectPayment(userId, debtId, amount, idempotencyKey)
       );
+    } catch (error) {
+      console.error('Payment failed:', error);
+      return false;
+    }
+  }
 
-      if (paymentResult.success) {
-        // Update analytics
-        await this.analyticsEngine.generateCreditorInsights(userId);
+  private async submitDirectPayment(
+    userId: string,
+    debtId: string,
+    amount: number,
+    idempotencyKey: string
+  ): Promise<boolean> {
+    const debtAccount = (await this.getDebtAccounts(userId)).find(account => account.id === debtId);
+    if (!debtAccount) {
+      throw new Error(`User ${userId} has no open debt ${debtId}`);
+    }
 
-        // Update gamification points
-        await this.gamificationSystem.addPoints(userId, 10, 'Payment completed');
+    const madeAt = new Date().toISOString();
+    const lifecycle = new PaymentLifecycle(this.database);
+    const payment = await lifecycle.create({
+      id: `PMT-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+      userId,
+      debtId: debtAccount.id,
+      amount,
+      currency: 'USD',
+      date: madeAt,
+      sourceFunds: 'direct',
+      creditorReference: idempotencyKey
+    }, madeAt);
+
+    // Process payment through creditor integration
+    let result: PaymentResult;
+    try {
+      result = await this.creditorIntegration.makePayment(
+        userId,
+        debtAccount.creditorId,
+        debtAccount.accountId,
+        amount,
+        { idempotencyKey, db: this.database }
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof PaymentOutcomeUnknownError) {
+        await lifecycle.transition(payment.id, 'submitted', { source: 'system', reason, occurredAt: madeAt });
+        return false;
+      }
+      await lifecycle.transition(payment.id, 'failed', { source: 'system', reason, occurredAt: madeAt });
+      throw error;
+    }
 
-        // Optimize future payments
-        const debtAccounts: DebtAccount[] = await this.getDebtAccounts(userId);
-        await this.optimizationEngine.optimizePayments('hybrid', debtAccounts, amount, new Date().toISOString());
+    await this.database.transaction(async tx => {
+      const txLifecycle = new PaymentLifecycle(tx);
+      await txLifecycle.transition(payment.id, 'submitted', {
+        source: 'system',
+        confirmationNumber: result.confirmationNumber,
+        occurredAt: madeAt
+      });
 
-        return true;
+      // Apply whatever the creditor already reported in its response
+      const creditorStatus = paymentStatusFromCreditor(result.status);
+      if (creditorStatus) {
+        await txLifecycle.transition(payment.id, creditorStatus, {
+          source: 'system',
+          reason: `Creditor responded "${result.status}"`,
+          occurredAt: madeAt
+        });
       }
+    });
 
-      return false;
-    } catch (error) {
-      console.error('Payment failed:', error);
-      return false;
-    }
+    // Update analytics
+    await this.analyticsEngine.generateCreditorInsights(userId);
+
+    return true;
   }
 
-  async getPaymentHistory(userId: string): Promise<any[]> {
+  async getPaymentHistory(userId: string): Promise<Payment[]> {
     try {
-      return await this.database.query(
-        'SELECT * FROM payments WHERE user_id = $1 ORDER BY created_at DESC',
-        [userId]
-      );
+      return await this.payments.findByUser(userId);
     } catch (error) {
       console.error('Failed to fetch payment history:', error);
       return [];
     }
   }
 
-  async getGamificationStatus(userId: string): Promise<any> {
+  async getGamificationStatus(userId: string): Promise<UserStats | null> {
     try {
       return await this.gamificationSystem.getUserStats(userId);
     } catch (error) {
@@ -348,8 +872,166 @@ export class MicroRepayService {
     }
   }
 
+  /**
+   * Stores a purchase, applies the user's round-up rules to it and accrues
+   * the resulting round-up into their wallet.
+   */
+  async addRoundUpTransaction(
+    purchase: Omit<Transaction, 'roundUpAmount' | 'type' | 'status'>
+  ): Promise<Transaction> {
+    const user = await this.users.findById(purchase.userId);
+    if (!user) {
+      throw new Error(`User ${purchase.userId} not found`);
+    }
+
+    return this.database.transaction(async tx => {
+      const decision = await accrueRoundUp(tx, user.preferences, purchase);
+      return new TransactionRepository(tx).create({
+        ...purchase,
+        type: 'purchase',
+        status: 'posted',
+        roundUpAmount: decision.amount
+      });
+    });
+  }
+
+  /** Loads and validates the configured creditors; call at startup to fail fast on bad config. */
+  async loadCreditors(): Promise<CreditorConfig[]> {
+    return this.creditorRegistry.list();
+  }
+
+  /**
+   * Adds or updates a creditor while the service is running and stores it
+   * so it is loaded again after a restart.
+   */
+  async registerCreditor(config: CreditorConfig, apiKey?: string): Promise<CreditorConfig> {
+    await this.creditorRegistry.load();
+    const creditor = this.creditorRegistry.register(config, apiKey);
+    await new CreditorRepository(this.database).upsert(creditor);
+    return creditor;
+  }
+
+  async removeCreditor(creditorId: string): Promise<void> {
+    this.creditorRegistry.unregister(creditorId);
+    await new CreditorRepository(this.database).disable(creditorId);
+  }
+
+  /** Links an account at a registered creditor, replacing any earlier link to it. */
+  async linkCreditor(userId: string, link: NewCreditorLink): Promise<CreditorLinkSummary> {
+    return this.creditorIntegration.linkAccount(userId, link);
+  }
+
+  async unlinkCreditor(userId: string, linkId: string): Promise<void> {
+    await this.creditorLinks.revoke(userId, linkId);
+  }
+
+  async getCreditorLinks(userId: string): Promise<CreditorLinkSummary[]> {
+    return this.creditorLinks.listByUser(userId);
+  }
+
+  /** Applies a payment status update pushed by a creditor. */
+  async handlePaymentCallback(event: CreditorPaymentEvent): Promise<Payment> {
+    return new PaymentLifecycle(this.database).handleCreditorEvent(event, 'callback');
+  }
+
+  async getPaymentTransitions(paymentId: string): Promise<PaymentTransition[]> {
+    return new PaymentLifecycle(this.database).getHistory(paymentId);
+  }
+
+  async reconcileLedger(userId: string): Promise<ReconciliationReport> {
+    return new Ledger(this.database).reconcile(userId);
+  }
+
+  createWalletSweepScheduler(clock: Clock = systemClock): WalletSweepScheduler {
+    return new WalletSweepScheduler(this.database, this, clock);
+  }
+
+  createScheduledPaymentExecutor(clock: Clock = systemClock): ScheduledPaymentExecutor {
+    return new ScheduledPaymentExecutor(this.database, this, clock);
+  }
+
+  createPaymentStatusPoller(clock: Clock = systemClock): PaymentStatusPoller {
+    return new PaymentStatusPoller(this.database, this.creditorIntegration, clock);
+  }
+
+  createBalanceSyncScheduler(clock: Clock = systemClock): BalanceSyncScheduler {
+    return new BalanceSyncScheduler(this.database, this.creditorIntegration, this.creditorRegistry, clock);
+  }
+
+  /** Links bank accounts the user authorizes at `provider`, storing them as creditor links. */
+  createBankLinkFlow(provider: BankLinkProvider, clock: Clock = systemClock): BankLinkFlow {
+    return new BankLinkFlow(provider, this.creditorIntegration, clock);
+  }
+
+  /** Ingestion of card and bank transactions for linked accounts through `aggregator`. */
+  createTransactionIngestion(aggregator: TransactionAggregator, clock: Clock = systemClock): TransactionIngestion {
+    return new TransactionIngestion(this.database, aggregator, this.creditorIntegration, clock);
+  }
+
+  /** Balances reported by the debt's creditor at each sync, newest first. */
+  async getBalanceHistory(debtId: string): Promise<BalanceSnapshot[]> {
+    return new BalanceHistoryRepository(this.database).findByDebt(debtId);
+  }
+
+  async getDriftAlerts(userId: string): Promise<DriftAlert[]> {
+    return new BalanceHistoryRepository(this.database).findOpenAlertsByUser(userId);
+  }
+
+  async acknowledgeDriftAlert(userId: string, alertId: string): Promise<boolean> {
+    return new BalanceHistoryRepository(this.database).acknowledgeAlert(alertId, userId, new Date().toISOString());
+  }
+
+  /**
+   * Records the debt's promotional APR and the rate it reverts to, or
+   * clears them with `null`. Creditors report only the current rate, so the
+   * schedule comes from the user.
+   */
+  async setRateSchedule(userId: string, debtId: string, schedule: RateSchedule | null): Promise<Debt> {
+    if (schedule) {
+      validateRateSchedule(schedule);
+    }
+
+    const debt = await this.debts.findById(debtId);
+    if (!debt || debt.userId !== userId) {
+      throw new Error(`Debt ${debtId} not found`);
+    }
+
+    await this.debts.updateRateSchedule(debtId, schedule && {
+      ...schedule,
+      promoEndsAt: new Date(schedule.promoEndsAt).toISOString()
+    });
+    return this.debts.findById(debtId);
+  }
+
   private async getDebtAccounts(userId: string): Promise<DebtAccount[]> {
-    // TODO: Implement actual database query
-    return [];
+    const debts = await this.debts.findOpenByUser(userId);
+
+    return debts.map(debt => ({
+      id: debt.id,
+      creditorId: debt.creditorId,
+      accountId: debt.accountId,
+      currentBalance: debt.currentBalance,
+      interestRate: debt.interestRate,
+      minimumPayment: debt.minimumPayment,
+      dueDate: debt.dueDate,
+      rateSchedule: debt.rateSchedule
+    }));
   }
-} 
\ No newline at end of file
+
+  /** Round-ups accrued over the last 30 days, net of those refunds took back. */
+  private async estimateMonthlyRoundUps(userId: string, asOf: string): Promise<number> {
+    const since = new Date(new Date(asOf).getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const transactions = await new TransactionRepository(this.database).findByUserSince(userId, since);
+
+    return Money.max(
+      Money.sum(transactions.map(transaction =>
+        Money.of(transaction.roundUpAmount).minus(Money.of(transaction.roundUpReversal?.amount ?? 0))
+      )),
+      Money.zero()
+    ).toNumber();
+  }
+
+  private createGamificationSystem(db: Database): GamificationSystem {
+    return new GamificationSystem(new GamificationRepository(db), this.gamificationConfig);
+  }
+}
@@ -5,6 +5,11 @@
  * providing insights and metrics for both users and creditors.
  */
 
+import { PaymentRepository } from '../database/repositories/PaymentRepository';
+import { DebtRepository } from '../database/repositories/DebtRepository';
+import type { AccountBalance } from '../integration/CreditorIntegration';
+import { Money } from '../money/Money';
+
 export interface PrivacySettings {
   dataRetention: string;
   anonymization: boolean;
@@ -43,8 +48,17 @@ export interface CreditorMetrics {
   };
 }
 
+// How many of the user's linked accounts have an up-to-date balance
+export interface BalanceHealth {
+  accounts: number;
+  fresh: number;
+  stale: number;
+  failed: number;
+}
+
 export interface CreditorInsights {
   metrics: CreditorMetrics;
+  balanceHealth?: BalanceHealth; // Present when balances were supplied
   recommendations: string[];
   riskAssessment: {
     level: "low" | "medium" | "high";
@@ -61,26 +75,53 @@ export class AnalyticsEngine {
   };
 
   constructor(
-    private readonly db: any,
+    private readonly payments: PaymentRepository,
+    private readonly debts: DebtRepository,
     private readonly privacySettings: PrivacySettings
   ) {}
 
-  async generateCreditorInsights(userId: string): Promise<CreditorInsights> {
+  async generateCreditorInsights(userId: string, balances?: AccountBalance[]): Promise<CreditorInsights> {
     const paymentData = await this.getPaymentData(userId);
     const metrics = this.calculateCreditorMetrics(paymentData);
-    const recommendations = this.generateRecommendations(metrics);
+    const balanceHealth = balances && this.calculateBalanceHealth(balances);
+    const recommendations = this.generateRecommendations(metrics, balanceHealth);
     const riskAssessment = this.assessRisk(metrics);
 
     return {
       metrics,
+      balanceHealth,
       recommendations,
       riskAssessment
     };
   }
 
+  private calculateBalanceHealth(balances: AccountBalance[]): BalanceHealth {
+    return {
+      accounts: balances.length,
+      fresh: balances.filter(balance => balance.status === 'ok').length,
+      stale: balances.filter(balance => balance.status === 'stale').length,
+      failed: balances.filter(balance => balance.status === 'error').length
+    };
+  }
+
   private async getPaymentData(userId: string): Promise<PaymentData[]> {
-    // TODO: Implement actual database query
-    return [];
+    const [payments, debts] = await Promise.all([
+      this.payments.findSettledByUser(userId),
+      this.debts.findByUser(userId)
+    ]);
+    const dueDates = new Map(debts.map(debt => [debt.id, debt.dueDate]));
+
+    return payments
+      .filter(payment => dueDates.has(payment.debtId))
+      .map(payment => ({
+        userId: payment.userId,
+        amount: payment.amount,
+        date: payment.date,
+        daysBeforeDue: Math.floor(
+          (new Date(dueDates.get(payment.debtId)).getTime() - new Date(payment.date).getTime()) /
+            this.timeframes.day
+        )
+      }));
   }
 
   private calculateCreditorMetrics(paymentData: PaymentData[]): CreditorMetrics {
@@ -88,14 +129,14 @@ export class AnalyticsEngine {
     const paymentsByUser = this.groupByUser(paymentData);
 
     const totalPayments = paymentData.length;
-    const totalAmount = paymentData.reduce((sum, payment) => sum + payment.amount, 0);
-    const averagePayment = totalAmount / totalPayments || 0;
+    const totalAmount = Money.sum(paymentData.map(payment => Money.of(payment.amount)));
+    const averagePayment = totalPayments > 0 ? totalAmount.dividedBy(totalPayments) : Money.zero();
 
     return {
       summary: {
         totalPayments,
-        totalAmount: parseFloat(totalAmount.toFixed(2)),
-        averagePayment: parseFloat(averagePayment.toFixed(2)),
+        totalAmount: totalAmount.toNumber(),
+        averagePayment: averagePayment.toNumber(),
         uniqueUsers: Object.keys(paymentsByUser).length
       },
       frequency: this.calculatePaymentFrequency(paymentsByUser),
@@ -247,9 +288,14 @@ export class AnalyticsEngine {
     };
   }
 
-  private generateRecommendations(metrics: CreditorMetrics): string[] {
+  private generateRecommendations(metrics: CreditorMetrics, balanceHealth?: BalanceHealth): string[] {
     const recommendations: string[] = [];
 
+    const outdated = balanceHealth ? balanceHealth.stale + balanceHealth.failed : 0;
+    if (outdated > 0) {
+      recommendations.push(`Check the connection to ${outdated} account(s) whose balances could not be refreshed`);
+    }
+
     if (metrics.earlyPayment.late > 20) {
       recommendations.push("Consider implementing automatic payment reminders");
     }
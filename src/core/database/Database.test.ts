@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { Database } from './Database';
+import { SqliteDriver } from './SqliteDriver';
+import type { Migration } from './migrations';
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'counters',
+    statements: ['CREATE TABLE counters (id TEXT PRIMARY KEY, value INTEGER NOT NULL)']
+  }
+];
+
+async function counterDatabase(): Promise<Database> {
+  const db = new Database(undefined, new SqliteDriver(), MIGRATIONS);
+  await db.query(`INSERT INTO counters (id, value) VALUES ('a', 0)`);
+  return db;
+}
+
+async function valueOf(db: Database): Promise<number> {
+  const [row] = await db.query<{ value: number }>(`SELECT value FROM counters WHERE id = 'a'`);
+  return Number(row.value);
+}
+
+describe('Database', () => {
+  it('commits a transaction whose callback resolves and returns its result', async () => {
+    const db = await counterDatabase();
+
+    const result = await db.transaction(async tx => {
+      await tx.query(`UPDATE counters SET value = 1 WHERE id = 'a'`);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await valueOf(db)).toBe(1);
+  });
+
+  it('rolls back a transaction whose callback throws', async () => {
+    const db = await counterDatabase();
+
+    await expect(
+      db.transaction(async tx => {
+        await tx.query(`UPDATE counters SET value = 1 WHERE id = 'a'`);
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(await valueOf(db)).toBe(0);
+  });
+
+  it('keeps the outer work when a nested savepoint fails and is caught', async () => {
+    const db = await counterDatabase();
+
+    await db.transaction(async tx => {
+      await tx.query(`UPDATE counters SET value = 1 WHERE id = 'a'`);
+      await expect(
+        tx.transaction(async nested => {
+          await nested.query(`UPDATE counters SET value = 2 WHERE id = 'a'`);
+          throw new Error('inner');
+        })
+      ).rejects.toThrow('inner');
+      expect(await valueOf(tx)).toBe(1);
+    });
+
+    expect(await valueOf(db)).toBe(1);
+  });
+
+  it('rolls back a committed savepoint with its outer transaction', async () => {
+    const db = await counterDatabase();
+
+    await expect(
+      db.transaction(async tx => {
+        await tx.transaction(nested => nested.query(`UPDATE counters SET value = 2 WHERE id = 'a'`));
+        throw new Error('outer');
+      })
+    ).rejects.toThrow('outer');
+
+    expect(await valueOf(db)).toBe(0);
+  });
+
+  it('runs overlapping transactions one after the other', async () => {
+    const db = await counterDatabase();
+    const increment = () =>
+      db.transaction(async tx => {
+        const value = await valueOf(tx);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await tx.query(`UPDATE counters SET value = $1 WHERE id = 'a'`, [value + 1]);
+      });
+
+    await Promise.all([increment(), increment(), increment()]);
+
+    expect(await valueOf(db)).toBe(3);
+  });
+
+  it('rejects queries through a handle whose transaction has completed', async () => {
+    const db = await counterDatabase();
+    let handle: Database | null = null;
+    await db.transaction(async tx => {
+      handle = tx;
+      expect(tx.inTransaction).toBe(true);
+    });
+
+    await expect(handle!.query('SELECT 1')).rejects.toThrow('Transaction has already completed');
+    expect(db.inTransaction).toBe(false);
+  });
+
+  it('only takes row locks inside a transaction', async () => {
+    const db = await counterDatabase();
+
+    await expect(db.query(`SELECT * FROM counters WHERE id = 'a' FOR UPDATE`)).rejects.toThrow(
+      'Row locks (FOR UPDATE) can only be taken inside a transaction'
+    );
+    await expect(
+      db.transaction(tx => tx.query(`SELECT * FROM counters WHERE id = 'a' FOR UPDATE`))
+    ).resolves.toHaveLength(1);
+  });
+
+  it('applies only the migrations not yet recorded', async () => {
+    const db = await counterDatabase();
+
+    expect(await db.migrate()).toEqual([]);
+  });
+});
@@ -1,3 +1,8 @@
+import { DatabaseConnection, DatabaseDriver, DatabaseDialect, QueryParam } from './DatabaseDriver';
+import { SqliteDriver } from './SqliteDriver';
+import { PostgresDriver } from './PostgresDriver';
+import { migrations as defaultMigrations, Migration } from './migrations';
+
 export interface DatabaseConfig {
   host: string;
   port: number;
@@ -6,10 +11,24 @@ export interface DatabaseConfig {
   database: string;
 }
 
+interface TransactionScope {
+  connection: DatabaseConnection;
+  depth: number;
+  active: boolean;
+}
+
 export class Database {
   private config: DatabaseConfig;
+  private readonly driver: DatabaseDriver;
+  private ready: Promise<void> | null = null;
+  // Set on the handles passed to transaction callbacks
+  private scope: TransactionScope | null = null;
 
-  constructor(config?: Partial<DatabaseConfig>) {
+  constructor(
+    config?: Partial<DatabaseConfig>,
+    driver?: DatabaseDriver,
+    private readonly migrations: Migration[] = defaultMigrations
+  ) {
     this.config = {
       host: config?.host || process.env.DB_HOST || "localhost",
       port: config?.port || parseInt(process.env.DB_PORT || "5432"),
@@ -17,34 +36,182 @@ export class Database {
       password: config?.password || process.env.DB_PASSWORD || "postgres",
       database: config?.database || process.env.DB_NAME || "microrepay"
     };
+    this.driver = driver || this.createDriver(process.env.DB_DRIVER);
   }
 
+  get dialect(): DatabaseDialect {
+    return this.driver.dialect;
+  }
+
+  /**
+   * Opens the underlying driver and brings the schema up to date. Safe to
+   * call repeatedly; queries call it implicitly.
+   */
   async connect(): Promise<void> {
-    // TODO: Implement actual database connection
-    console.log("Connecting to database:", this.config.database);
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.driver.connect();
+        await this.migrate();
+      })().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
   }
 
   async disconnect(): Promise<void> {
-    // TODO: Implement actual database disconnection
-    console.log("Disconnecting from database");
+    if (!this.ready) return;
+    this.ready = null;
+    await this.driver.disconnect();
   }
 
-  async query<T>(sql: string, params?: any[]): Promise<T[]> {
-    // TODO: Implement actual database query
-    console.log("Executing query:", sql, params);
-    return [];
+  get inTransaction(): boolean {
+    return this.scope !== null;
   }
 
+  async query<T>(sql: string, params: QueryParam[] = []): Promise<T[]> {
+    if (this.scope) {
+      if (!this.scope.active) {
+        throw new Error('Transaction has already completed');
+      }
+      return this.scope.connection.query<T>(sql, params);
+    }
+
+    if (/\bFOR\s+UPDATE\b/i.test(sql)) {
+      throw new Error('Row locks (FOR UPDATE) can only be taken inside a transaction');
+    }
+
+    await this.connect();
+    const connection = await this.driver.acquire();
+    try {
+      return await connection.query<T>(sql, params);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Runs the callback inside a transaction and commits if it resolves or
+   * rolls back if it throws. The callback must issue its queries through
+   * the handle it is given, not through the outer instance. Calling
+   * `transaction()` on that handle nests a savepoint, so an inner failure
+   * can be caught without losing the outer work.
+   */
   async transaction<T>(callback: (db: Database) => Promise<T>): Promise<T> {
-    // TODO: Implement actual transaction
-    console.log("Starting transaction");
+    if (this.scope) {
+      return this.savepoint(callback);
+    }
+
+    await this.connect();
+    const connection = await this.driver.acquire();
+    const tx = this.withScope({ connection, depth: 0, active: true });
+
     try {
-      const result = await callback(this);
-      console.log("Committing transaction");
+      await connection.query(this.dialect === 'sqlite' ? 'BEGIN IMMEDIATE' : 'BEGIN', []);
+      const result = await callback(tx);
+      await connection.query('COMMIT', []);
       return result;
     } catch (error) {
-      console.log("Rolling back transaction");
+      await connection.query('ROLLBACK', []);
       throw error;
+    } finally {
+      tx.scope.active = false;
+      connection.release();
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Applies every migration newer than the recorded schema version, each in
+   * its own transaction. Returns the versions that were applied.
+   */
+  async migrate(): Promise<number[]> {
+    const connection = await this.driver.acquire();
+    try {
+      await connection.query(
+        `CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TEXT NOT NULL
+        )`,
+        []
+      );
+
+      const rows = await connection.query<{ version: number }>(
+        'SELECT version FROM schema_migrations',
+        []
+      );
+      const appliedVersions = new Set(rows.map(row => Number(row.version)));
+
+      const pending = [...this.migrations]
+        .filter(migration => !appliedVersions.has(migration.version))
+        .sort((a, b) => a.version - b.version);
+
+      for (const migration of pending) {
+        await connection.query('BEGIN', []);
+        try {
+          for (const statement of migration.statements) {
+            await connection.query(statement, []);
+          }
+          await connection.query(
+            'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, new Date().toISOString()]
+          );
+          await connection.query('COMMIT', []);
+        } catch (error) {
+          await connection.query('ROLLBACK', []);
+          throw new Error(
+            `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      return pending.map(migration => migration.version);
+    } finally {
+      connection.release();
+    }
+  }
+
+  private async savepoint<T>(callback: (db: Database) => Promise<T>): Promise<T> {
+    if (!this.scope.active) {
+      throw new Error('Transaction has already completed');
+    }
+
+    const { connection } = this.scope;
+    const nested = this.withScope({ connection, depth: this.scope.depth + 1, active: true });
+    const name = `sp_${nested.scope.depth}`;
+
+    await connection.query(`SAVEPOINT ${name}`, []);
+    try {
+      const result = await callback(nested);
+      await connection.query(`RELEASE SAVEPOINT ${name}`, []);
+      return result;
+    } catch (error) {
+      await connection.query(`ROLLBACK TO SAVEPOINT ${name}`, []);
+      await connection.query(`RELEASE SAVEPOINT ${name}`, []);
+      throw error;
+    } finally {
+      nested.scope.active = false;
+    }
+  }
+
+  private withScope(scope: TransactionScope): Database {
+    const handle = new Database(this.config, this.driver, this.migrations);
+    handle.ready = this.ready;
+    handle.scope = scope;
+    return handle;
+  }
+
+  private createDriver(name?: string): DatabaseDriver {
+    switch (name) {
+      case 'postgres':
+        return new PostgresDriver(this.config);
+      case 'sqlite':
+      case undefined:
+      case '':
+        return new SqliteDriver();
+      default:
+        throw new Error(`Unknown database driver: ${name}`);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * MicroRepay Database Driver
+ *
+ * Contract implemented by the storage backends that sit behind the
+ * `Database` class. SQL is written once using Postgres-style `$1`
+ * placeholders; each driver adapts it to its own dialect.
+ */
+
+export type DatabaseDialect = 'sqlite' | 'postgres';
+
+export type QueryParam = string | number | boolean | null;
+
+/**
+ * A connection checked out for exclusive use. Statements on one
+ * connection run in order, which is what transactions rely on. It must be
+ * released exactly once.
+ */
+export interface DatabaseConnection {
+  query<T>(sql: string, params: QueryParam[]): Promise<T[]>;
+  release(): void;
+}
+
+export interface DatabaseDriver {
+  readonly dialect: DatabaseDialect;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  acquire(): Promise<DatabaseConnection>;
+}
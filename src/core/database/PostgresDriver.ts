@@ -0,0 +1,57 @@
+/**
+ * MicroRepay Postgres Driver
+ *
+ * Production backend built on a `pg` connection pool. The `pg` module is
+ * resolved at runtime on connect so that browser bundles, which only use
+ * the embedded driver, never include it.
+ */
+
+import type { Pool } from 'pg';
+import type { DatabaseConfig } from './Database';
+import { DatabaseConnection, DatabaseDriver, QueryParam } from './DatabaseDriver';
+
+const PG_MODULE = 'pg';
+
+export class PostgresDriver implements DatabaseDriver {
+  readonly dialect = 'postgres' as const;
+  private pool: Pool | null = null;
+
+  constructor(private readonly config: DatabaseConfig) {}
+
+  async connect(): Promise<void> {
+    if (this.pool) return;
+
+    const { Pool }: typeof import('pg') = await import(/* @vite-ignore */ PG_MODULE);
+    this.pool = new Pool({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.username,
+      password: this.config.password,
+      database: this.config.database
+    });
+
+    // Fail fast on bad credentials instead of on the first real query
+    const client = await this.pool.connect();
+    client.release();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.pool?.end();
+    this.pool = null;
+  }
+
+  async acquire(): Promise<DatabaseConnection> {
+    if (!this.pool) {
+      throw new Error('Postgres driver is not connected');
+    }
+
+    const client = await this.pool.connect();
+    return {
+      query: async <T>(sql: string, params: QueryParam[]) => {
+        const result = await client.query(sql, params);
+        return result.rows as T[];
+      },
+      release: () => client.release()
+    };
+  }
+}
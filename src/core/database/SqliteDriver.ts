@@ -0,0 +1,102 @@
+/**
+ * MicroRepay SQLite Driver
+ *
+ * Embedded, in-memory SQLite backend (via sql.js) used for local
+ * development and tests. The database lives for as long as the driver is
+ * connected and can be exported to bytes for persistence.
+ *
+ * There is a single underlying connection, so `acquire()` hands it out to
+ * one caller at a time. Holding it for the length of a transaction makes
+ * every transaction serializable, which is also what makes
+ * `SELECT ... FOR UPDATE` unnecessary here: the clause is stripped.
+ */
+
+import initSqlJs from 'sql.js';
+import type { Database as SqlJsDatabase, SqlValue } from 'sql.js';
+import { DatabaseConnection, DatabaseDriver, QueryParam } from './DatabaseDriver';
+
+export interface SqliteDriverOptions {
+  // Existing database image to open instead of starting empty
+  data?: Uint8Array;
+  // Resolves the sql.js wasm binary; required when running in the browser
+  locateFile?: (file: string) => string;
+}
+
+export class SqliteDriver implements DatabaseDriver {
+  readonly dialect = 'sqlite' as const;
+  private db: SqlJsDatabase | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: SqliteDriverOptions = {}) {}
+
+  async connect(): Promise<void> {
+    if (this.db) return;
+
+    const SQL = await initSqlJs(
+      this.options.locateFile ? { locateFile: this.options.locateFile } : undefined
+    );
+    this.db = new SQL.Database(this.options.data);
+    this.db.run('PRAGMA foreign_keys = ON');
+  }
+
+  async disconnect(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async acquire(): Promise<DatabaseConnection> {
+    let release: () => void;
+    const released = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const previous = this.queue;
+    this.queue = previous.then(() => released);
+    await previous;
+
+    return {
+      query: <T>(sql: string, params: QueryParam[]) => this.run<T>(sql, params),
+      release: () => release()
+    };
+  }
+
+  private async run<T>(sql: string, params: QueryParam[]): Promise<T[]> {
+    if (!this.db) {
+      throw new Error('SQLite driver is not connected');
+    }
+
+    const statement = this.db.prepare(this.toSqlite(sql));
+    try {
+      statement.bind(params.map(param => this.toSqlValue(param)));
+
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  export(): Uint8Array {
+    if (!this.db) {
+      throw new Error('SQLite driver is not connected');
+    }
+    return this.db.export();
+  }
+
+  private toSqlite(sql: string): string {
+    // SQLite numbers positional parameters as ?NNN rather than $NNN
+    return sql
+      .replace(/\$(\d+)/g, '?$1')
+      .replace(/\s+FOR\s+UPDATE\b/gi, '');
+  }
+
+  private toSqlValue(param: QueryParam): SqlValue {
+    if (typeof param === 'boolean') {
+      return param ? 1 : 0;
+    }
+    return param ?? null;
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * MicroRepay Schema Migrations
+ *
+ * Ordered, versioned schema changes applied by `Database.migrate()`. Each
+ * migration runs once and is recorded in `schema_migrations`. Never edit a
+ * migration that has shipped; add a new version instead.
+ *
+ * Statements must stay portable between SQLite and Postgres. Timestamps
+ * are stored as ISO-8601 text.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    statements: [
+      `CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        round_up_threshold NUMERIC(14, 2) NOT NULL DEFAULT 1,
+        transfer_frequency TEXT NOT NULL DEFAULT 'weekly',
+        default_allocation_strategy TEXT NOT NULL DEFAULT 'avalanche',
+        engagement_score NUMERIC(5, 4) NOT NULL DEFAULT 0,
+        points INTEGER NOT NULL DEFAULT 0
+      )`,
+      `CREATE TABLE wallets (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL UNIQUE REFERENCES users(id),
+        balance NUMERIC(14, 2) NOT NULL DEFAULT 0,
+        transfer_threshold NUMERIC(14, 2) NOT NULL DEFAULT 25,
+        last_transferred_at TEXT
+      )`,
+      `CREATE TABLE transactions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        account_id TEXT NOT NULL,
+        merchant_name TEXT NOT NULL,
+        amount NUMERIC(14, 2) NOT NULL,
+        round_up_amount NUMERIC(14, 2) NOT NULL,
+        date TEXT NOT NULL,
+        category TEXT NOT NULL,
+        processed BOOLEAN NOT NULL DEFAULT FALSE,
+        transferred_to_wallet BOOLEAN NOT NULL DEFAULT FALSE,
+        transferred_at TEXT
+      )`,
+      `CREATE INDEX idx_transactions_user_date ON transactions (user_id, date)`,
+      `CREATE TABLE transfers (
+        id TEXT PRIMARY KEY,
+        wallet_id TEXT NOT NULL REFERENCES wallets(id),
+        amount NUMERIC(14, 2) NOT NULL,
+        date TEXT NOT NULL
+      )`,
+      `CREATE TABLE debts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        creditor_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        creditor_name TEXT NOT NULL,
+        account_type TEXT NOT NULL,
+        current_balance NUMERIC(14, 2) NOT NULL,
+        original_balance NUMERIC(14, 2) NOT NULL,
+        interest_rate NUMERIC(7, 4) NOT NULL,
+        minimum_payment NUMERIC(14, 2) NOT NULL,
+        due_date TEXT NOT NULL,
+        last_synced_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX idx_debts_user ON debts (user_id)`,
+      `CREATE TABLE transfer_destinations (
+        transfer_id TEXT NOT NULL REFERENCES transfers(id),
+        debt_id TEXT NOT NULL REFERENCES debts(id),
+        PRIMARY KEY (transfer_id, debt_id)
+      )`,
+      `CREATE TABLE payments (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        debt_id TEXT NOT NULL REFERENCES debts(id),
+        amount NUMERIC(14, 2) NOT NULL,
+        date TEXT NOT NULL,
+        confirmation_number TEXT,
+        source_funds TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX idx_payments_user_created ON payments (user_id, created_at)`,
+      `CREATE TABLE badges (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        difficulty TEXT NOT NULL
+      )`,
+      `CREATE TABLE user_badges (
+        user_id TEXT NOT NULL REFERENCES users(id),
+        badge_id TEXT NOT NULL REFERENCES badges(id),
+        awarded_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, badge_id)
+      )`,
+      `CREATE TABLE milestones (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        unit TEXT NOT NULL
+      )`,
+      `CREATE TABLE user_milestones (
+        user_id TEXT NOT NULL REFERENCES users(id),
+        milestone_id TEXT NOT NULL REFERENCES milestones(id),
+        current_level INTEGER NOT NULL DEFAULT 0,
+        next_level INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, milestone_id)
+      )`
+    ]
+  },
+  {
+    version: 2,
+    name: 'gamification_progress',
+    statements: [
+      `ALTER TABLE milestones ADD COLUMN levels TEXT NOT NULL DEFAULT '[]'`,
+      `ALTER TABLE milestones ADD COLUMN point_values TEXT NOT NULL DEFAULT '[]'`,
+      `ALTER TABLE user_milestones ADD COLUMN progress NUMERIC(5, 4) NOT NULL DEFAULT 0`,
+      `CREATE TABLE point_events (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        points INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX idx_point_events_user ON point_events (user_id)`
+    ]
+  },
+  {
+    version: 3,
+    name: 'double_entry_ledger',
+    statements: [
+      `CREATE TABLE ledger_accounts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        type TEXT NOT NULL,
+        reference_id TEXT,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE journal_entries (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        reference_id TEXT,
+        reverses_entry_id TEXT REFERENCES journal_entries(id),
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE UNIQUE INDEX idx_journal_entries_reverses ON journal_entries (reverses_entry_id)`,
+      `CREATE TABLE journal_lines (
+        entry_id TEXT NOT NULL REFERENCES journal_entries(id),
+        line_no INTEGER NOT NULL,
+        account_id TEXT NOT NULL REFERENCES ledger_accounts(id),
+        amount_minor INTEGER NOT NULL,
+        PRIMARY KEY (entry_id, line_no)
+      )`,
+      `CREATE INDEX idx_journal_lines_account ON journal_lines (account_id)`,
+      `ALTER TABLE transfer_destinations ADD COLUMN amount NUMERIC(14, 2) NOT NULL DEFAULT 0`
+    ]
+  },
+  {
+    version: 4,
+    name: 'money_currency',
+    statements: [
+      `ALTER TABLE payments ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD'`,
+      `ALTER TABLE transfers ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD'`
+    ]
+  },
+  {
+    version: 5,
+    name: 'round_up_rules',
+    statements: [
+      `ALTER TABLE users ADD COLUMN round_up_rules TEXT NOT NULL DEFAULT '{}'`
+    ]
+  },
+  {
+    version: 6,
+    name: 'idempotency_keys',
+    statements: [
+      `CREATE TABLE idempotency_keys (
+        scope TEXT NOT NULL,
+        idempotency_key TEXT NOT NULL,
+        request TEXT NOT NULL,
+        status TEXT NOT NULL,
+        response TEXT,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (scope, idempotency_key)
+      )`
+    ]
+  },
+  {
+    version: 7,
+    name: 'payment_lifecycle',
+    statements: [
+      `UPDATE payments SET status = 'settled' WHERE status = 'completed'`,
+      `UPDATE payments SET status = 'submitted' WHERE status = 'pending'`,
+      `ALTER TABLE payments ADD COLUMN settled_at TEXT`,
+      `CREATE INDEX idx_payments_confirmation ON payments (confirmation_number)`,
+      `CREATE TABLE payment_transitions (
+        payment_id TEXT NOT NULL REFERENCES payments(id),
+        seq INTEGER NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        source TEXT NOT NULL,
+        reason TEXT,
+        occurred_at TEXT NOT NULL,
+        PRIMARY KEY (payment_id, seq)
+      )`
+    ]
+  },
+  {
+    version: 8,
+    name: 'creditors',
+    statements: [
+      `CREATE TABLE creditors (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        endpoint TEXT NOT NULL,
+        version TEXT NOT NULL,
+        timeout_ms INTEGER,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 9,
+    name: 'creditor_links',
+    statements: [
+      `CREATE TABLE creditor_links (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        creditor_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT,
+        token_expires_at TEXT,
+        tokens_sealed_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        revoked_at TEXT
+      )`,
+      `CREATE INDEX idx_creditor_links_user ON creditor_links (user_id, status)`
+    ]
+  },
+  {
+    version: 10,
+    name: 'creditor_limits',
+    statements: [
+      // JSON-encoded RateLimit and CircuitBreakerOptions
+      `ALTER TABLE creditors ADD COLUMN rate_limit TEXT`,
+      `ALTER TABLE creditors ADD COLUMN circuit_breaker TEXT`
+    ]
+  },
+  {
+    version: 11,
+    name: 'balance_sync',
+    statements: [
+      `ALTER TABLE creditors ADD COLUMN sync_interval_ms INTEGER`,
+      `CREATE TABLE debt_balance_history (
+        debt_id TEXT NOT NULL REFERENCES debts(id),
+        recorded_at TEXT NOT NULL,
+        balance NUMERIC(14, 2) NOT NULL,
+        interest_rate NUMERIC(7, 4) NOT NULL,
+        minimum_payment NUMERIC(14, 2) NOT NULL,
+        due_date TEXT NOT NULL,
+        PRIMARY KEY (debt_id, recorded_at)
+      )`,
+      `CREATE TABLE drift_alerts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        debt_id TEXT NOT NULL REFERENCES debts(id),
+        kind TEXT NOT NULL,
+        expected NUMERIC(14, 4) NOT NULL,
+        actual NUMERIC(14, 4) NOT NULL,
+        message TEXT NOT NULL,
+        detected_at TEXT NOT NULL,
+        acknowledged_at TEXT
+      )`,
+      `CREATE INDEX idx_drift_alerts_user ON drift_alerts (user_id)`
+    ]
+  },
+  {
+    version: 12,
+    name: 'transaction_ingestion',
+    statements: [
+      `ALTER TABLE transactions ADD COLUMN provider_transaction_id TEXT`,
+      `ALTER TABLE transactions ADD COLUMN type TEXT NOT NULL DEFAULT 'purchase'`,
+      `ALTER TABLE transactions ADD COLUMN status TEXT NOT NULL DEFAULT 'posted'`,
+      `CREATE UNIQUE INDEX idx_transactions_provider
+        ON transactions (user_id, account_id, provider_transaction_id)`,
+      `CREATE TABLE transaction_cursors (
+        user_id TEXT NOT NULL REFERENCES users(id),
+        creditor_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        cursor TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, creditor_id, account_id)
+      )`
+    ]
+  },
+  {
+    version: 13,
+    name: 'refund_reversals',
+    statements: [
+      `ALTER TABLE users ADD COLUMN refund_policy TEXT NOT NULL DEFAULT 'absorb'`,
+      `ALTER TABLE wallets ADD COLUMN pending_clawback NUMERIC(14, 2) NOT NULL DEFAULT 0`,
+      `ALTER TABLE transactions ADD COLUMN refund_of TEXT REFERENCES transactions(id)`,
+      `ALTER TABLE transactions ADD COLUMN round_up_reversed NUMERIC(14, 2)`,
+      `ALTER TABLE transactions ADD COLUMN round_up_reversal_method TEXT`,
+      `CREATE INDEX idx_transactions_refund_of ON transactions (refund_of)`
+    ]
+  },
+  {
+    version: 14,
+    name: 'custom_allocation',
+    statements: [
+      `ALTER TABLE users ADD COLUMN custom_allocation TEXT NOT NULL DEFAULT '{}'`
+    ]
+  },
+  {
+    version: 15,
+    name: 'scheduled_payments',
+    statements: [
+      `CREATE TABLE scheduled_payments (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        debt_id TEXT NOT NULL REFERENCES debts(id),
+        account_id TEXT NOT NULL,
+        amount NUMERIC(14, 2) NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'USD',
+        scheduled_for TEXT NOT NULL,
+        planned_for TEXT NOT NULL,
+        status TEXT NOT NULL,
+        reasons TEXT NOT NULL DEFAULT '[]',
+        transfer_id TEXT,
+        failure_reason TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX idx_scheduled_payments_due ON scheduled_payments (status, scheduled_for)`,
+      `CREATE INDEX idx_scheduled_payments_user ON scheduled_payments (user_id, scheduled_for)`
+    ]
+  },
+  {
+    version: 16,
+    name: 'rate_schedules',
+    statements: [
+      `ALTER TABLE debts ADD COLUMN promo_rate NUMERIC(7, 4)`,
+      `ALTER TABLE debts ADD COLUMN promo_ends_at TEXT`,
+      `ALTER TABLE debts ADD COLUMN reversion_rate NUMERIC(7, 4)`
+    ]
+  },
+  {
+    version: 17,
+    name: 'payment_outbox',
+    statements: [
+      `ALTER TABLE transfers ADD COLUMN sweep_key TEXT`,
+      `CREATE UNIQUE INDEX idx_transfers_sweep_key ON transfers (sweep_key)`,
+      `ALTER TABLE payments ADD COLUMN transfer_id TEXT REFERENCES transfers(id)`,
+      `CREATE INDEX idx_payments_transfer ON payments (transfer_id)`
+    ]
+  },
+  {
+    version: 18,
+    name: 'payment_balance_sync',
+    statements: [
+      `ALTER TABLE payments ADD COLUMN balance_synced_at TEXT`
+    ]
+  },
+  {
+    version: 19,
+    name: 'scheduled_payment_funding',
+    statements: [
+      `ALTER TABLE scheduled_payments ADD COLUMN funded_from TEXT`,
+      // Earlier plans kept all their funds set aside from the start
+      `UPDATE scheduled_payments SET funded_from = created_at`
+    ]
+  },
+  {
+    version: 20,
+    name: 'payment_creditor_reference',
+    statements: [
+      `ALTER TABLE payments ADD COLUMN creditor_reference TEXT`
+    ]
+  },
+  {
+    version: 21,
+    name: 'idempotency_leases',
+    statements: [
+      `ALTER TABLE idempotency_keys ADD COLUMN claimed_at TEXT`,
+      `UPDATE idempotency_keys SET claimed_at = updated_at`
+    ]
+  }
+];
@@ -0,0 +1,124 @@
+/**
+ * MicroRepay Balance History Repository
+ *
+ * Persistence for the balances creditors report at each sync, and for the
+ * drift alerts raised when a reported change is not explained by our own
+ * payments or by interest.
+ */
+
+import { Database } from '../Database';
+import { BalanceSnapshot, DriftAlert } from '../../../types';
+
+interface BalanceSnapshotRow {
+  debt_id: string;
+  recorded_at: string;
+  balance: number | string;
+  interest_rate: number | string;
+  minimum_payment: number | string;
+  due_date: string;
+}
+
+interface DriftAlertRow {
+  id: string;
+  user_id: string;
+  debt_id: string;
+  kind: DriftAlert['kind'];
+  expected: number | string;
+  actual: number | string;
+  message: string;
+  detected_at: string;
+  acknowledged_at: string | null;
+}
+
+function mapBalanceSnapshotRow(row: BalanceSnapshotRow): BalanceSnapshot {
+  return {
+    debtId: row.debt_id,
+    recordedAt: row.recorded_at,
+    balance: Number(row.balance),
+    interestRate: Number(row.interest_rate),
+    minimumPayment: Number(row.minimum_payment),
+    dueDate: row.due_date
+  };
+}
+
+function mapDriftAlertRow(row: DriftAlertRow): DriftAlert {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    debtId: row.debt_id,
+    kind: row.kind,
+    expected: Number(row.expected),
+    actual: Number(row.actual),
+    message: row.message,
+    detectedAt: row.detected_at,
+    acknowledgedAt: row.acknowledged_at ?? undefined
+  };
+}
+
+export class BalanceHistoryRepository {
+  constructor(private readonly db: Database) {}
+
+  async record(snapshot: BalanceSnapshot): Promise<void> {
+    await this.db.query(
+      `INSERT INTO debt_balance_history (debt_id, recorded_at, balance, interest_rate, minimum_payment, due_date)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        snapshot.debtId,
+        snapshot.recordedAt,
+        snapshot.balance,
+        snapshot.interestRate,
+        snapshot.minimumPayment,
+        snapshot.dueDate
+      ]
+    );
+  }
+
+  /** Newest first. */
+  async findByDebt(debtId: string): Promise<BalanceSnapshot[]> {
+    const rows = await this.db.query<BalanceSnapshotRow>(
+      'SELECT * FROM debt_balance_history WHERE debt_id = $1 ORDER BY recorded_at DESC',
+      [debtId]
+    );
+    return rows.map(mapBalanceSnapshotRow);
+  }
+
+  async createAlert(alert: DriftAlert): Promise<void> {
+    await this.db.query(
+      `INSERT INTO drift_alerts (id, user_id, debt_id, kind, expected, actual, message, detected_at, acknowledged_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        alert.id,
+        alert.userId,
+        alert.debtId,
+        alert.kind,
+        alert.expected,
+        alert.actual,
+        alert.message,
+        alert.detectedAt,
+        alert.acknowledgedAt ?? null
+      ]
+    );
+  }
+
+  /** Alerts the user has not acknowledged yet, newest first. */
+  async findOpenAlertsByUser(userId: string): Promise<DriftAlert[]> {
+    const rows = await this.db.query<DriftAlertRow>(
+      `SELECT * FROM drift_alerts
+       WHERE user_id = $1 AND acknowledged_at IS NULL
+       ORDER BY detected_at DESC`,
+      [userId]
+    );
+    return rows.map(mapDriftAlertRow);
+  }
+
+  /** Returns false if the alert does not exist, belongs to someone else or was already acknowledged. */
+  async acknowledgeAlert(id: string, userId: string, acknowledgedAt: string): Promise<boolean> {
+    const rows = await this.db.query<{ id: string }>(
+      `UPDATE drift_alerts SET acknowledged_at = $3
+       WHERE id = $1 AND user_id = $2 AND acknowledged_at IS NULL
+       RETURNING id`,
+      [id, userId, acknowledgedAt]
+    );
+    return rows.length > 0;
+  }
+}
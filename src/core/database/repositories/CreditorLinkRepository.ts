@@ -0,0 +1,132 @@
+/**
+ * MicroRepay Creditor Link Repository
+ *
+ * Persistence for the accounts users have linked at their creditors. Tokens
+ * arrive here already sealed by the creditor link store and are never
+ * stored in plaintext.
+ */
+
+import { Database } from '../Database';
+import type { CreditorLinkStatus } from '../../integration/CreditorIntegration';
+
+export interface StoredCreditorLink {
+  id: string;
+  userId: string;
+  creditorId: string;
+  accountId: string;
+  accessToken: string; // Sealed
+  refreshToken?: string; // Sealed
+  expiresAt?: string;
+  tokensSealedAt: string;
+  status: CreditorLinkStatus;
+  createdAt: string;
+  updatedAt: string;
+  revokedAt?: string;
+}
+
+export interface SealedTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string;
+  sealedAt: string;
+}
+
+interface CreditorLinkRow {
+  id: string;
+  user_id: string;
+  creditor_id: string;
+  account_id: string;
+  access_token: string;
+  refresh_token: string | null;
+  token_expires_at: string | null;
+  tokens_sealed_at: string;
+  status: CreditorLinkStatus;
+  created_at: string;
+  updated_at: string;
+  revoked_at: string | null;
+}
+
+function mapCreditorLinkRow(row: CreditorLinkRow): StoredCreditorLink {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    creditorId: row.creditor_id,
+    accountId: row.account_id,
+    accessToken: row.access_token,
+    refreshToken: row.refresh_token ?? undefined,
+    expiresAt: row.token_expires_at ?? undefined,
+    tokensSealedAt: row.tokens_sealed_at,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    revokedAt: row.revoked_at ?? undefined
+  };
+}
+
+export class CreditorLinkRepository {
+  constructor(private readonly db: Database) {}
+
+  async findById(id: string): Promise<StoredCreditorLink | null> {
+    const [row] = await this.db.query<CreditorLinkRow>(
+      'SELECT * FROM creditor_links WHERE id = $1',
+      [id]
+    );
+    return row ? mapCreditorLinkRow(row) : null;
+  }
+
+  async findByUser(userId: string, status?: CreditorLinkStatus): Promise<StoredCreditorLink[]> {
+    const rows = status
+      ? await this.db.query<CreditorLinkRow>(
+          'SELECT * FROM creditor_links WHERE user_id = $1 AND status = $2 ORDER BY created_at',
+          [userId, status]
+        )
+      : await this.db.query<CreditorLinkRow>(
+          'SELECT * FROM creditor_links WHERE user_id = $1 ORDER BY created_at',
+          [userId]
+        );
+    return rows.map(mapCreditorLinkRow);
+  }
+
+  async create(link: StoredCreditorLink): Promise<void> {
+    await this.db.query(
+      `INSERT INTO creditor_links
+         (id, user_id, creditor_id, account_id, access_token, refresh_token, token_expires_at,
+          tokens_sealed_at, status, created_at, updated_at, revoked_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        link.id,
+        link.userId,
+        link.creditorId,
+        link.accountId,
+        link.accessToken,
+        link.refreshToken ?? null,
+        link.expiresAt ?? null,
+        link.tokensSealedAt,
+        link.status,
+        link.createdAt,
+        link.updatedAt,
+        link.revokedAt ?? null
+      ]
+    );
+  }
+
+  /** Replaces a link's tokens and makes it active again. */
+  async updateTokens(id: string, tokens: SealedTokens): Promise<void> {
+    await this.db.query(
+      `UPDATE creditor_links
+       SET access_token = $2, refresh_token = $3, token_expires_at = $4, tokens_sealed_at = $5,
+           status = 'active', updated_at = $5
+       WHERE id = $1`,
+      [id, tokens.accessToken, tokens.refreshToken ?? null, tokens.expiresAt ?? null, tokens.sealedAt]
+    );
+  }
+
+  async updateStatus(id: string, status: CreditorLinkStatus, updatedAt: string): Promise<void> {
+    await this.db.query(
+      `UPDATE creditor_links
+       SET status = $2, updated_at = $3, revoked_at = CASE WHEN $2 = 'revoked' THEN $3 ELSE revoked_at END
+       WHERE id = $1`,
+      [id, status, updatedAt]
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * MicroRepay Creditor Repository
+ *
+ * Persistence for the creditor API configurations loaded into the
+ * creditor registry. API keys are never stored here.
+ */
+
+import { Database } from '../Database';
+import type { CreditorConfig } from '../../integration/CreditorIntegration';
+
+interface CreditorRow {
+  id: string;
+  type: CreditorConfig['type'];
+  endpoint: string;
+  version: string;
+  timeout_ms: number | string | null;
+  rate_limit: string | null;
+  circuit_breaker: string | null;
+  sync_interval_ms: number | string | null;
+  enabled: boolean | number;
+}
+
+function mapCreditorRow(row: CreditorRow): CreditorConfig {
+  return {
+    id: row.id,
+    type: row.type,
+    endpoint: row.endpoint,
+    version: row.version,
+    timeoutMs: row.timeout_ms === null ? undefined : Number(row.timeout_ms),
+    rateLimit: row.rate_limit === null ? undefined : JSON.parse(row.rate_limit),
+    circuitBreaker: row.circuit_breaker === null ? undefined : JSON.parse(row.circuit_breaker),
+    syncIntervalMs: row.sync_interval_ms === null ? undefined : Number(row.sync_interval_ms)
+  };
+}
+
+export class CreditorRepository {
+  constructor(private readonly db: Database) {}
+
+  async findEnabled(): Promise<CreditorConfig[]> {
+    const rows = await this.db.query<CreditorRow>(
+      'SELECT * FROM creditors WHERE enabled = $1 ORDER BY id',
+      [true]
+    );
+    return rows.map(mapCreditorRow);
+  }
+
+  async upsert(config: CreditorConfig): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.query(
+      `INSERT INTO creditors
+         (id, type, endpoint, version, timeout_ms, rate_limit, circuit_breaker, sync_interval_ms, enabled,
+          created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10)
+       ON CONFLICT (id) DO UPDATE
+       SET type = $2, endpoint = $3, version = $4, timeout_ms = $5, rate_limit = $6, circuit_breaker = $7,
+           sync_interval_ms = $8, enabled = $9, updated_at = $10`,
+      [
+        config.id,
+        config.type,
+        config.endpoint,
+        config.version,
+        config.timeoutMs ?? null,
+        config.rateLimit ? JSON.stringify(config.rateLimit) : null,
+        config.circuitBreaker ? JSON.stringify(config.circuitBreaker) : null,
+        config.syncIntervalMs ?? null,
+        true,
+        now
+      ]
+    );
+  }
+
+  async disable(id: string): Promise<void> {
+    await this.db.query(
+      'UPDATE creditors SET enabled = $2, updated_at = $3 WHERE id = $1',
+      [id, false, new Date().toISOString()]
+    );
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * MicroRepay Debt Repository
+ *
+ * Persistence for the debts a user is paying down, including the payment
+ * history recorded against each one.
+ */
+
+import { Database } from '../Database';
+import { BalanceSnapshot, Debt, Payment, RateSchedule } from '../../../types';
+import { mapPaymentRow, PaymentRow } from './PaymentRepository';
+
+export type DebtSyncCandidate = Pick<Debt, 'id' | 'userId' | 'creditorId' | 'accountId' | 'lastSyncedAt'>;
+
+interface DebtRow {
+  id: string;
+  user_id: string;
+  creditor_id: string;
+  account_id: string;
+  creditor_name: string;
+  account_type: Debt['accountType'];
+  current_balance: number | string;
+  original_balance: number | string;
+  interest_rate: number | string;
+  minimum_payment: number | string;
+  due_date: string;
+  last_synced_at: string;
+  promo_rate: number | string | null;
+  promo_ends_at: string | null;
+  reversion_rate: number | string | null;
+}
+
+function mapRateSchedule(row: Pick<DebtRow, 'promo_rate' | 'promo_ends_at' | 'reversion_rate'>): RateSchedule | undefined {
+  return row.promo_ends_at
+    ? {
+        promoRate: Number(row.promo_rate),
+        promoEndsAt: row.promo_ends_at,
+        reversionRate: Number(row.reversion_rate)
+      }
+    : undefined;
+}
+
+function mapDebtRow(row: DebtRow, paymentHistory: Payment[]): Debt {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    creditorId: row.creditor_id,
+    accountId: row.account_id,
+    creditorName: row.creditor_name,
+    accountType: row.account_type,
+    currentBalance: Number(row.current_balance),
+    originalBalance: Number(row.original_balance),
+    interestRate: Number(row.interest_rate),
+    minimumPayment: Number(row.minimum_payment),
+    dueDate: row.due_date,
+    paymentHistory,
+    lastSyncedAt: row.last_synced_at,
+    rateSchedule: mapRateSchedule(row)
+  };
+}
+
+export class DebtRepository {
+  constructor(private readonly db: Database) {}
+
+  async findById(id: string): Promise<Debt | null> {
+    const [row] = await this.db.query<DebtRow>(
+      'SELECT * FROM debts WHERE id = $1',
+      [id]
+    );
+    if (!row) return null;
+
+    const payments = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE debt_id = $1 ORDER BY date DESC',
+      [id]
+    );
+    return mapDebtRow(row, payments.map(mapPaymentRow));
+  }
+
+  async findByUser(userId: string): Promise<Debt[]> {
+    const rows = await this.db.query<DebtRow>(
+      'SELECT * FROM debts WHERE user_id = $1 ORDER BY id',
+      [userId]
+    );
+    const payments = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE user_id = $1 ORDER BY date DESC',
+      [userId]
+    );
+
+    return rows.map(row =>
+      mapDebtRow(
+        row,
+        payments.filter(payment => payment.debt_id === row.id).map(mapPaymentRow)
+      )
+    );
+  }
+
+  /** Every debt with what the balance sync needs to decide whether it is due. */
+  async findAllForSync(): Promise<DebtSyncCandidate[]> {
+    const rows = await this.db.query<DebtRow>(
+      'SELECT * FROM debts ORDER BY user_id, id'
+    );
+    return rows.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      creditorId: row.creditor_id,
+      accountId: row.account_id,
+      lastSyncedAt: row.last_synced_at
+    }));
+  }
+
+  async findOpenByUser(userId: string): Promise<Debt[]> {
+    const debts = await this.findByUser(userId);
+    return debts.filter(debt => debt.currentBalance > 0);
+  }
+
+  async create(debt: Omit<Debt, 'paymentHistory'>): Promise<Debt> {
+    await this.db.query(
+      `INSERT INTO debts
+        (id, user_id, creditor_id, account_id, creditor_name, account_type, current_balance,
+         original_balance, interest_rate, minimum_payment, due_date, last_synced_at,
+         promo_rate, promo_ends_at, reversion_rate)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        debt.id,
+        debt.userId,
+        debt.creditorId,
+        debt.accountId,
+        debt.creditorName,
+        debt.accountType,
+        debt.currentBalance,
+        debt.originalBalance,
+        debt.interestRate,
+        debt.minimumPayment,
+        debt.dueDate,
+        debt.lastSyncedAt,
+        debt.rateSchedule?.promoRate ?? null,
+        debt.rateSchedule?.promoEndsAt ?? null,
+        debt.rateSchedule?.reversionRate ?? null
+      ]
+    );
+    return { ...debt, paymentHistory: [] };
+  }
+
+  /** Reads a debt's balance and locks its row until the surrounding transaction ends. */
+  async lockBalance(id: string): Promise<number | null> {
+    const [row] = await this.db.query<{ current_balance: number | string }>(
+      'SELECT current_balance FROM debts WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    return row ? Number(row.current_balance) : null;
+  }
+
+  /** Reads the terms a sync compares against and locks the row until the surrounding transaction ends. */
+  async lockTerms(id: string): Promise<Pick<Debt, 'currentBalance' | 'interestRate' | 'rateSchedule'> | null> {
+    const [row] = await this.db.query<
+      Pick<DebtRow, 'current_balance' | 'interest_rate' | 'promo_rate' | 'promo_ends_at' | 'reversion_rate'>
+    >(
+      `SELECT current_balance, interest_rate, promo_rate, promo_ends_at, reversion_rate
+       FROM debts WHERE id = $1 FOR UPDATE`,
+      [id]
+    );
+    return row
+      ? {
+          currentBalance: Number(row.current_balance),
+          interestRate: Number(row.interest_rate),
+          rateSchedule: mapRateSchedule(row)
+        }
+      : null;
+  }
+
+  /** Replaces a debt's terms with those reported by its creditor. */
+  async applySnapshot(snapshot: BalanceSnapshot): Promise<void> {
+    await this.db.query(
+      `UPDATE debts
+       SET current_balance = $2, interest_rate = $3, minimum_payment = $4, due_date = $5, last_synced_at = $6
+       WHERE id = $1`,
+      [
+        snapshot.debtId,
+        snapshot.balance,
+        snapshot.interestRate,
+        snapshot.minimumPayment,
+        snapshot.dueDate,
+        snapshot.recordedAt
+      ]
+    );
+  }
+
+  /** Sets the debt's promotional rate and the rate it reverts to, or clears them. */
+  async updateRateSchedule(id: string, schedule: RateSchedule | null): Promise<void> {
+    await this.db.query(
+      'UPDATE debts SET promo_rate = $2, promo_ends_at = $3, reversion_rate = $4 WHERE id = $1',
+      [id, schedule?.promoRate ?? null, schedule?.promoEndsAt ?? null, schedule?.reversionRate ?? null]
+    );
+  }
+
+  async updateBalance(id: string, currentBalance: number): Promise<void> {
+    await this.db.query(
+      'UPDATE debts SET current_balance = $2 WHERE id = $1',
+      [id, currentBalance]
+    );
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * MicroRepay Gamification Repository
+ *
+ * Persistence for badges, milestones and points, plus the activity
+ * aggregates the gamification system scores users on.
+ */
+
+import { Database } from '../Database';
+import type {
+  Badge,
+  LeaderboardEntry,
+  Milestone,
+  UserMilestone,
+  UserStats
+} from '../../gamification/GamificationSystem';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class GamificationRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Upserts the badge and milestone catalogue so that user awards can
+   * reference it.
+   */
+  async syncDefinitions(badges: Badge[], milestones: Milestone[]): Promise<void> {
+    for (const badge of badges) {
+      await this.db.query(
+        `INSERT INTO badges (id, name, description, icon, difficulty)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           description = excluded.description,
+           icon = excluded.icon,
+           difficulty = excluded.difficulty`,
+        [badge.id, badge.name, badge.description, badge.icon, badge.difficulty]
+      );
+    }
+
+    for (const milestone of milestones) {
+      await this.db.query(
+        `INSERT INTO milestones (id, name, unit, levels, point_values)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           unit = excluded.unit,
+           levels = excluded.levels,
+           point_values = excluded.point_values`,
+        [
+          milestone.id,
+          milestone.name,
+          milestone.unit,
+          JSON.stringify(milestone.levels),
+          JSON.stringify(milestone.pointValues)
+        ]
+      );
+    }
+  }
+
+  async getUserBadgeIds(userId: string): Promise<string[]> {
+    const rows = await this.db.query<{ badge_id: string }>(
+      'SELECT badge_id FROM user_badges WHERE user_id = $1',
+      [userId]
+    );
+    return rows.map(row => row.badge_id);
+  }
+
+  async awardBadge(userId: string, badgeId: string, awardedAt: string): Promise<void> {
+    await this.db.query(
+      `INSERT INTO user_badges (user_id, badge_id, awarded_at)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, badge_id) DO NOTHING`,
+      [userId, badgeId, awardedAt]
+    );
+  }
+
+  async getUserMilestones(userId: string): Promise<UserMilestone[]> {
+    const rows = await this.db.query<{
+      milestone_id: string;
+      current_level: number | string;
+      next_level: number | string;
+    }>(
+      'SELECT milestone_id, current_level, next_level FROM user_milestones WHERE user_id = $1',
+      [userId]
+    );
+
+    return rows.map(row => ({
+      id: row.milestone_id,
+      currentLevel: Number(row.current_level),
+      nextLevel: Number(row.next_level)
+    }));
+  }
+
+  async updateUserMilestone(
+    userId: string,
+    milestoneId: string,
+    currentLevel: number,
+    nextLevel: number,
+    progress: number,
+    updatedAt: string
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO user_milestones (user_id, milestone_id, current_level, next_level, progress, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id, milestone_id) DO UPDATE SET
+         current_level = excluded.current_level,
+         next_level = excluded.next_level,
+         progress = excluded.progress,
+         updated_at = excluded.updated_at`,
+      [userId, milestoneId, currentLevel, nextLevel, progress, updatedAt]
+    );
+  }
+
+  async addPoints(userId: string, points: number, reason: string, createdAt: string): Promise<void> {
+    await this.db.query(
+      'INSERT INTO point_events (id, user_id, points, reason, created_at) VALUES ($1, $2, $3, $4, $5)',
+      [
+        `PTS-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+        userId,
+        points,
+        reason,
+        createdAt
+      ]
+    );
+    await this.db.query(
+      'UPDATE users SET points = points + $2 WHERE id = $1',
+      [userId, points]
+    );
+  }
+
+  async getPoints(userId: string): Promise<number> {
+    const [row] = await this.db.query<{ points: number | string }>(
+      'SELECT points FROM users WHERE id = $1',
+      [userId]
+    );
+    return row ? Number(row.points) : 0;
+  }
+
+  async getLeaderboard(limit: number): Promise<LeaderboardEntry[]> {
+    const rows = await this.db.query<{ id: string; name: string; points: number | string }>(
+      'SELECT id, name, points FROM users ORDER BY points DESC, id LIMIT $1',
+      [limit]
+    );
+    return rows.map(row => ({ id: row.id, name: row.name, points: Number(row.points) }));
+  }
+
+  async getTotalUserCount(): Promise<number> {
+    const [row] = await this.db.query<{ count: number | string }>(
+      'SELECT COUNT(*) AS count FROM users'
+    );
+    return Number(row?.count ?? 0);
+  }
+
+  async getUserStats(userId: string): Promise<UserStats> {
+    const [roundups] = await this.db.query<{ count: number | string }>(
+      'SELECT COUNT(*) AS count FROM transactions WHERE user_id = $1 AND round_up_amount > 0',
+      [userId]
+    );
+    const activeDays = await this.db.query<{ day: string }>(
+      'SELECT DISTINCT substr(date, 1, 10) AS day FROM transactions WHERE user_id = $1 ORDER BY day',
+      [userId]
+    );
+    const [contribution] = await this.db.query<{ total: number | string }>(
+      `SELECT COALESCE(SUM(amount), 0) AS total
+       FROM payments
+       WHERE user_id = $1 AND source_funds = 'round_up' AND status = 'settled'`,
+      [userId]
+    );
+    const debts = await this.db.query<{
+      id: string;
+      current_balance: number | string;
+      original_balance: number | string;
+    }>(
+      'SELECT id, current_balance, original_balance FROM debts WHERE user_id = $1',
+      [userId]
+    );
+
+    const totalOriginal = debts.reduce((sum, debt) => sum + Number(debt.original_balance), 0);
+    const totalCurrent = debts.reduce((sum, debt) => sum + Number(debt.current_balance), 0);
+
+    return {
+      roundupCount: Number(roundups?.count ?? 0),
+      consecutiveDays: this.currentStreak(activeDays.map(row => row.day)),
+      totalContribution: Number(contribution?.total ?? 0),
+      // Interest savings are not tracked per payment yet
+      interestSaved: 0,
+      paidOffDebts: debts.filter(debt => Number(debt.current_balance) <= 0).map(debt => debt.id),
+      daysActive: activeDays.length,
+      debtReductionPercentage: totalOriginal > 0
+        ? parseFloat((((totalOriginal - totalCurrent) / totalOriginal) * 100).toFixed(2))
+        : 0
+    };
+  }
+
+  private currentStreak(sortedDays: string[]): number {
+    if (sortedDays.length === 0) return 0;
+
+    let streak = 1;
+    for (let i = sortedDays.length - 1; i > 0; i--) {
+      const gap = Date.parse(sortedDays[i]) - Date.parse(sortedDays[i - 1]);
+      if (gap !== DAY_MS) break;
+      streak++;
+    }
+    return streak;
+  }
+}
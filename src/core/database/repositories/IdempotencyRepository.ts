@@ -0,0 +1,122 @@
+/**
+ * MicroRepay Idempotency Repository
+ *
+ * Persistence for idempotency keys and the outcome of the request each key
+ * was first used with. Keys are namespaced by scope, e.g. one scope for
+ * round-up processing and one for creditor payments.
+ */
+
+import { Database } from '../Database';
+
+// unknown: the request may or may not have taken effect
+export type IdempotencyStatus = 'in_progress' | 'completed' | 'failed' | 'unknown';
+
+export interface IdempotencyRecord {
+  scope: string;
+  key: string;
+  request: string;
+  status: IdempotencyStatus;
+  response?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  claimedAt?: string; // When the current or last attempt took the key
+}
+
+interface IdempotencyRow {
+  scope: string;
+  idempotency_key: string;
+  request: string;
+  status: IdempotencyStatus;
+  response: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  claimed_at: string | null;
+}
+
+function mapIdempotencyRow(row: IdempotencyRow): IdempotencyRecord {
+  return {
+    scope: row.scope,
+    key: row.idempotency_key,
+    request: row.request,
+    status: row.status,
+    response: row.response ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    claimedAt: row.claimed_at ?? undefined
+  };
+}
+
+export class IdempotencyRepository {
+  constructor(private readonly db: Database) {}
+
+  async find(scope: string, key: string): Promise<IdempotencyRecord | null> {
+    const [row] = await this.db.query<IdempotencyRow>(
+      'SELECT * FROM idempotency_keys WHERE scope = $1 AND idempotency_key = $2',
+      [scope, key]
+    );
+    return row ? mapIdempotencyRow(row) : null;
+  }
+
+  /**
+   * Records the key as in progress. Returns false if the key already
+   * exists, in which case the caller does not own the request.
+   */
+  async claim(scope: string, key: string, request: string, claimedAt: string): Promise<boolean> {
+    const rows = await this.db.query<{ idempotency_key: string }>(
+      `INSERT INTO idempotency_keys (scope, idempotency_key, request, status, created_at, updated_at, claimed_at)
+       VALUES ($1, $2, $3, 'in_progress', $4, $4, $4)
+       ON CONFLICT (scope, idempotency_key) DO NOTHING
+       RETURNING idempotency_key`,
+      [scope, key, request, claimedAt]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Takes over a failed key, or one still in progress that was claimed at
+   * or before `staleBefore`, for another attempt. Returns false if the key
+   * is neither, e.g. because another caller took it over first.
+   */
+  async reclaim(scope: string, key: string, claimedAt: string, staleBefore: string): Promise<boolean> {
+    const rows = await this.db.query<{ idempotency_key: string }>(
+      `UPDATE idempotency_keys
+       SET status = 'in_progress', error = NULL, updated_at = $3, claimed_at = $3
+       WHERE scope = $1 AND idempotency_key = $2
+         AND (status = 'failed' OR (status = 'in_progress' AND claimed_at <= $4))
+       RETURNING idempotency_key`,
+      [scope, key, claimedAt, staleBefore]
+    );
+    return rows.length > 0;
+  }
+
+  async complete(scope: string, key: string, response: string, completedAt: string): Promise<void> {
+    await this.db.query(
+      `UPDATE idempotency_keys
+       SET status = 'completed', response = $3, updated_at = $4
+       WHERE scope = $1 AND idempotency_key = $2`,
+      [scope, key, response, completedAt]
+    );
+  }
+
+  /** Leaves the key unresolved: it is neither replayed nor reclaimed until completed or failed. */
+  async markUnknown(scope: string, key: string, error: string, at: string): Promise<void> {
+    await this.db.query(
+      `UPDATE idempotency_keys
+       SET status = 'unknown', error = $3, updated_at = $4
+       WHERE scope = $1 AND idempotency_key = $2`,
+      [scope, key, error, at]
+    );
+  }
+
+  async fail(scope: string, key: string, error: string, failedAt: string): Promise<void> {
+    await this.db.query(
+      `UPDATE idempotency_keys
+       SET status = 'failed', error = $3, updated_at = $4
+       WHERE scope = $1 AND idempotency_key = $2`,
+      [scope, key, error, failedAt]
+    );
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * MicroRepay Payment Repository
+ *
+ * Persistence for payments made against a user's debts and the history of
+ * every status transition each payment went through.
+ */
+
+import { Database } from '../Database';
+import { CurrencyCode, Payment, PaymentStatus, PaymentTransition } from '../../../types';
+
+export interface PaymentRow {
+  id: string;
+  user_id: string;
+  debt_id: string;
+  amount: number | string;
+  currency: CurrencyCode;
+  date: string;
+  confirmation_number: string | null;
+  source_funds: Payment['sourceFunds'];
+  status: Payment['status'];
+  settled_at: string | null;
+  created_at: string;
+  transfer_id: string | null;
+  balance_synced_at: string | null;
+  creditor_reference: string | null;
+}
+
+interface PaymentTransitionRow {
+  payment_id: string;
+  from_status: PaymentStatus | null;
+  to_status: PaymentStatus;
+  source: PaymentTransition['source'];
+  reason: string | null;
+  occurred_at: string;
+}
+
+export function mapPaymentRow(row: PaymentRow): Payment {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    debtId: row.debt_id,
+    amount: Number(row.amount),
+    currency: row.currency,
+    date: row.date,
+    confirmationNumber: row.confirmation_number ?? undefined,
+    sourceFunds: row.source_funds,
+    status: row.status,
+    settledAt: row.settled_at ?? undefined,
+    transferId: row.transfer_id ?? undefined,
+    balanceSyncedAt: row.balance_synced_at ?? undefined,
+    creditorReference: row.creditor_reference ?? undefined
+  };
+}
+
+export class PaymentRepository {
+  constructor(private readonly db: Database) {}
+
+  async findById(id: string): Promise<Payment | null> {
+    const [row] = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE id = $1',
+      [id]
+    );
+    return row ? mapPaymentRow(row) : null;
+  }
+
+  async findByUser(userId: string): Promise<Payment[]> {
+    const rows = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return rows.map(mapPaymentRow);
+  }
+
+  async findByDebt(debtId: string): Promise<Payment[]> {
+    const rows = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE debt_id = $1 ORDER BY created_at DESC',
+      [debtId]
+    );
+    return rows.map(mapPaymentRow);
+  }
+
+  async findSettledByUser(userId: string): Promise<Payment[]> {
+    const rows = await this.db.query<PaymentRow>(
+      `SELECT * FROM payments WHERE user_id = $1 AND status = 'settled' ORDER BY date`,
+      [userId]
+    );
+    return rows.map(mapPaymentRow);
+  }
+
+  async findByConfirmationNumber(confirmationNumber: string): Promise<Payment | null> {
+    const [row] = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE confirmation_number = $1',
+      [confirmationNumber]
+    );
+    return row ? mapPaymentRow(row) : null;
+  }
+
+  /** The round-up payments a wallet transfer holds funds for. */
+  async findByTransfer(transferId: string): Promise<Payment[]> {
+    const rows = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE transfer_id = $1 ORDER BY created_at, id',
+      [transferId]
+    );
+    return rows.map(mapPaymentRow);
+  }
+
+  /** Payments sent to a creditor that have not reached a final status yet. */
+  async findInFlight(): Promise<Payment[]> {
+    const rows = await this.db.query<PaymentRow>(
+      `SELECT * FROM payments WHERE status IN ('submitted', 'accepted') ORDER BY created_at`
+    );
+    return rows.map(mapPaymentRow);
+  }
+
+  /**
+   * The debt's payments sent to its creditor but not settled, locked until
+   * the surrounding transaction ends so none of them settles meanwhile.
+   */
+  async lockUnsettledByDebt(debtId: string): Promise<Payment[]> {
+    const rows = await this.db.query<PaymentRow>(
+      `SELECT * FROM payments WHERE debt_id = $1 AND status IN ('submitted', 'accepted') ORDER BY created_at, id
+       FOR UPDATE`,
+      [debtId]
+    );
+    return rows.map(mapPaymentRow);
+  }
+
+  /** The debt's payments that were in flight at the balance sync taken at `syncedAt` and have settled since. */
+  async findSettledSinceSync(debtId: string, syncedAt: string): Promise<Payment[]> {
+    const rows = await this.db.query<PaymentRow>(
+      `SELECT * FROM payments WHERE debt_id = $1 AND status = 'settled' AND balance_synced_at = $2`,
+      [debtId, syncedAt]
+    );
+    return rows.map(mapPaymentRow);
+  }
+
+  async markBalanceSynced(ids: string[], syncedAt: string): Promise<void> {
+    for (const id of ids) {
+      await this.db.query('UPDATE payments SET balance_synced_at = $2 WHERE id = $1', [id, syncedAt]);
+    }
+  }
+
+  /** Reads a payment and locks its row until the surrounding transaction ends. */
+  async lockById(id: string): Promise<Payment | null> {
+    const [row] = await this.db.query<PaymentRow>(
+      'SELECT * FROM payments WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    return row ? mapPaymentRow(row) : null;
+  }
+
+  async create(payment: Payment): Promise<Payment> {
+    await this.db.query(
+      `INSERT INTO payments
+        (id, user_id, debt_id, amount, currency, date, confirmation_number, source_funds, status, settled_at,
+         created_at, transfer_id, creditor_reference)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        payment.id,
+        payment.userId,
+        payment.debtId,
+        payment.amount,
+        payment.currency,
+        payment.date,
+        payment.confirmationNumber ?? null,
+        payment.sourceFunds,
+        payment.status,
+        payment.settledAt ?? null,
+        new Date().toISOString(),
+        payment.transferId ?? null,
+        payment.creditorReference ?? null
+      ]
+    );
+    return payment;
+  }
+
+  async updateStatus(
+    id: string,
+    status: Payment['status'],
+    confirmationNumber?: string,
+    settledAt?: string
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE payments
+       SET status = $2, confirmation_number = COALESCE($3, confirmation_number),
+           settled_at = COALESCE($4, settled_at)
+       WHERE id = $1`,
+      [id, status, confirmationNumber ?? null, settledAt ?? null]
+    );
+  }
+
+  async recordTransition(transition: PaymentTransition): Promise<void> {
+    await this.db.query(
+      `INSERT INTO payment_transitions (payment_id, seq, from_status, to_status, source, reason, occurred_at)
+       SELECT $1, COALESCE(MAX(seq), 0) + 1, $2, $3, $4, $5, $6
+       FROM payment_transitions
+       WHERE payment_id = $1`,
+      [
+        transition.paymentId,
+        transition.fromStatus,
+        transition.toStatus,
+        transition.source,
+        transition.reason ?? null,
+        transition.occurredAt
+      ]
+    );
+  }
+
+  async findTransitions(paymentId: string): Promise<PaymentTransition[]> {
+    const rows = await this.db.query<PaymentTransitionRow>(
+      'SELECT * FROM payment_transitions WHERE payment_id = $1 ORDER BY seq',
+      [paymentId]
+    );
+    return rows.map(row => ({
+      paymentId: row.payment_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      source: row.source,
+      reason: row.reason ?? undefined,
+      occurredAt: row.occurred_at
+    }));
+  }
+}
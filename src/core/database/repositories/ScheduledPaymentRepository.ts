@@ -0,0 +1,152 @@
+/**
+ * MicroRepay Scheduled Payment Repository
+ *
+ * Persistence for future-dated payments planned from a user's expected
+ * round-ups, and the skips, reschedules and executions that follow.
+ */
+
+import { Database } from '../Database';
+import { CurrencyCode, ScheduledPayment, ScheduledPaymentStatus } from '../../../types';
+
+interface ScheduledPaymentRow {
+  id: string;
+  user_id: string;
+  debt_id: string;
+  account_id: string;
+  amount: number | string;
+  currency: CurrencyCode;
+  scheduled_for: string;
+  planned_for: string;
+  funded_from: string;
+  status: ScheduledPaymentStatus;
+  reasons: string;
+  transfer_id: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function mapScheduledPaymentRow(row: ScheduledPaymentRow): ScheduledPayment {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    debtId: row.debt_id,
+    accountId: row.account_id,
+    amount: Number(row.amount),
+    currency: row.currency,
+    scheduledFor: row.scheduled_for,
+    plannedFor: row.planned_for,
+    fundedFrom: row.funded_from,
+    status: row.status,
+    reasons: JSON.parse(row.reasons),
+    transferId: row.transfer_id ?? undefined,
+    failureReason: row.failure_reason ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class ScheduledPaymentRepository {
+  constructor(private readonly db: Database) {}
+
+  async findById(id: string): Promise<ScheduledPayment | null> {
+    const [row] = await this.db.query<ScheduledPaymentRow>(
+      'SELECT * FROM scheduled_payments WHERE id = $1',
+      [id]
+    );
+    return row ? mapScheduledPaymentRow(row) : null;
+  }
+
+  async findByUser(userId: string): Promise<ScheduledPayment[]> {
+    const rows = await this.db.query<ScheduledPaymentRow>(
+      'SELECT * FROM scheduled_payments WHERE user_id = $1 ORDER BY scheduled_for, created_at',
+      [userId]
+    );
+    return rows.map(mapScheduledPaymentRow);
+  }
+
+  /** Scheduled payments whose date has come, oldest first. */
+  async findDue(asOf: string): Promise<ScheduledPayment[]> {
+    const rows = await this.db.query<ScheduledPaymentRow>(
+      `SELECT * FROM scheduled_payments
+       WHERE status = 'scheduled' AND scheduled_for <= $1
+       ORDER BY scheduled_for, created_at`,
+      [asOf]
+    );
+    return rows.map(mapScheduledPaymentRow);
+  }
+
+  /**
+   * What the user's payments still to be executed add up to, counting only
+   * those planned from funds that have started coming in by `fundedBy`.
+   * Later months' payments are funded by round-ups still to come.
+   */
+  async sumScheduled(userId: string, fundedBy: string): Promise<number> {
+    const [row] = await this.db.query<{ total: number | string | null }>(
+      `SELECT SUM(amount) AS total FROM scheduled_payments
+       WHERE user_id = $1 AND status = 'scheduled' AND funded_from <= $2`,
+      [userId, fundedBy]
+    );
+    return Number(row?.total ?? 0);
+  }
+
+  async create(payment: ScheduledPayment): Promise<ScheduledPayment> {
+    await this.db.query(
+      `INSERT INTO scheduled_payments
+        (id, user_id, debt_id, account_id, amount, currency, scheduled_for, planned_for, funded_from, status,
+         reasons, transfer_id, failure_reason, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        payment.id,
+        payment.userId,
+        payment.debtId,
+        payment.accountId,
+        payment.amount,
+        payment.currency,
+        payment.scheduledFor,
+        payment.plannedFor,
+        payment.fundedFrom,
+        payment.status,
+        JSON.stringify(payment.reasons),
+        payment.transferId ?? null,
+        payment.failureReason ?? null,
+        payment.createdAt,
+        payment.updatedAt
+      ]
+    );
+    return payment;
+  }
+
+  /**
+   * Drops the user's scheduled payments the optimizer planned and nobody
+   * has touched since. Skipped and rescheduled ones are kept.
+   */
+  async deleteUntouched(userId: string): Promise<void> {
+    await this.db.query(
+      `DELETE FROM scheduled_payments
+       WHERE user_id = $1 AND status = 'scheduled' AND scheduled_for = planned_for`,
+      [userId]
+    );
+  }
+
+  async reschedule(id: string, scheduledFor: string, updatedAt: string): Promise<void> {
+    await this.db.query(
+      'UPDATE scheduled_payments SET scheduled_for = $2, updated_at = $3 WHERE id = $1',
+      [id, scheduledFor, updatedAt]
+    );
+  }
+
+  async updateStatus(
+    id: string,
+    status: ScheduledPaymentStatus,
+    updatedAt: string,
+    details: { transferId?: string; failureReason?: string } = {}
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE scheduled_payments
+       SET status = $2, updated_at = $3, transfer_id = COALESCE($4, transfer_id), failure_reason = $5
+       WHERE id = $1`,
+      [id, status, updatedAt, details.transferId ?? null, details.failureReason ?? null]
+    );
+  }
+}
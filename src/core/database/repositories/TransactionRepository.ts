@@ -0,0 +1,251 @@
+/**
+ * MicroRepay Transaction Repository
+ *
+ * Persistence for card and bank transactions and the round-ups computed
+ * from them.
+ */
+
+import { Database } from '../Database';
+import { RoundUpReversal, RoundUpReversalMethod, Transaction, TransactionStatus, TransactionType } from '../../../types';
+
+interface TransactionRow {
+  id: string;
+  user_id: string;
+  account_id: string;
+  provider_transaction_id: string | null;
+  merchant_name: string;
+  amount: number | string;
+  round_up_amount: number | string;
+  date: string;
+  category: string;
+  type: TransactionType;
+  status: TransactionStatus;
+  refund_of: string | null;
+  round_up_reversed: number | string | null;
+  round_up_reversal_method: RoundUpReversalMethod | null;
+  processed: boolean | number;
+  transferred_to_wallet: boolean | number;
+  transferred_at: string | null;
+}
+
+function mapTransactionRow(row: TransactionRow): Transaction {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    accountId: row.account_id,
+    providerTransactionId: row.provider_transaction_id ?? undefined,
+    merchantName: row.merchant_name,
+    amount: Number(row.amount),
+    roundUpAmount: Number(row.round_up_amount),
+    date: row.date,
+    category: row.category,
+    type: row.type,
+    status: row.status,
+    refundOf: row.refund_of ?? undefined,
+    roundUpReversal: row.round_up_reversal_method
+      ? { amount: Number(row.round_up_reversed), method: row.round_up_reversal_method }
+      : undefined,
+    processed: Boolean(row.processed),
+    transferredToWallet: Boolean(row.transferred_to_wallet),
+    transferredAt: row.transferred_at ?? undefined
+  };
+}
+
+export class TransactionRepository {
+  constructor(private readonly db: Database) {}
+
+  async findById(id: string): Promise<Transaction | null> {
+    const [row] = await this.db.query<TransactionRow>(
+      'SELECT * FROM transactions WHERE id = $1',
+      [id]
+    );
+    return row ? mapTransactionRow(row) : null;
+  }
+
+  async findByProviderId(
+    userId: string,
+    accountId: string,
+    providerTransactionId: string
+  ): Promise<Transaction | null> {
+    const [row] = await this.db.query<TransactionRow>(
+      `SELECT * FROM transactions
+       WHERE user_id = $1 AND account_id = $2 AND provider_transaction_id = $3`,
+      [userId, accountId, providerTransactionId]
+    );
+    return row ? mapTransactionRow(row) : null;
+  }
+
+  async findByUser(userId: string, limit?: number): Promise<Transaction[]> {
+    const rows = await this.db.query<TransactionRow>(
+      limit
+        ? 'SELECT * FROM transactions WHERE user_id = $1 ORDER BY date DESC LIMIT $2'
+        : 'SELECT * FROM transactions WHERE user_id = $1 ORDER BY date DESC',
+      limit ? [userId, limit] : [userId]
+    );
+    return rows.map(mapTransactionRow);
+  }
+
+  async findByUserSince(userId: string, since: string): Promise<Transaction[]> {
+    const rows = await this.db.query<TransactionRow>(
+      'SELECT * FROM transactions WHERE user_id = $1 AND date >= $2 ORDER BY date',
+      [userId, since]
+    );
+    return rows.map(mapTransactionRow);
+  }
+
+  async findUntransferred(userId: string): Promise<Transaction[]> {
+    const rows = await this.db.query<TransactionRow>(
+      `SELECT * FROM transactions
+       WHERE user_id = $1 AND processed = $2 AND transferred_to_wallet = $3
+       ORDER BY date`,
+      [userId, true, false]
+    );
+    return rows.map(mapTransactionRow);
+  }
+
+  /** Refunds and chargebacks already matched to the purchase. */
+  async findRefundsOf(purchaseId: string): Promise<Transaction[]> {
+    const rows = await this.db.query<TransactionRow>(
+      'SELECT * FROM transactions WHERE refund_of = $1 ORDER BY date',
+      [purchaseId]
+    );
+    return rows.map(mapTransactionRow);
+  }
+
+  /**
+   * The latest posted purchase on the account from the same merchant, on or
+   * before `date`, with at least `amount` not refunded yet. Used to match
+   * refunds the aggregator does not link to their purchase.
+   */
+  async findRefundablePurchase(
+    userId: string,
+    accountId: string,
+    merchantName: string,
+    amount: number,
+    date: string
+  ): Promise<Transaction | null> {
+    const [row] = await this.db.query<TransactionRow>(
+      `SELECT * FROM transactions t
+       WHERE t.user_id = $1 AND t.account_id = $2 AND t.merchant_name = $3
+         AND t.type = 'purchase' AND t.status = 'posted' AND t.date <= $5
+         AND t.amount - COALESCE(
+           (SELECT SUM(r.amount) FROM transactions r WHERE r.refund_of = t.id), 0
+         ) >= $4
+       ORDER BY t.date DESC
+       LIMIT 1`,
+      [userId, accountId, merchantName, amount, date]
+    );
+    return row ? mapTransactionRow(row) : null;
+  }
+
+  async create(transaction: Transaction): Promise<Transaction> {
+    await this.db.query(
+      `INSERT INTO transactions
+        (id, user_id, account_id, provider_transaction_id, merchant_name, amount, round_up_amount,
+         date, category, type, status, refund_of, round_up_reversed, round_up_reversal_method,
+         processed, transferred_to_wallet, transferred_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+      [
+        transaction.id,
+        transaction.userId,
+        transaction.accountId,
+        transaction.providerTransactionId ?? null,
+        transaction.merchantName,
+        transaction.amount,
+        transaction.roundUpAmount,
+        transaction.date,
+        transaction.category,
+        transaction.type,
+        transaction.status,
+        transaction.refundOf ?? null,
+        transaction.roundUpReversal?.amount ?? null,
+        transaction.roundUpReversal?.method ?? null,
+        transaction.processed,
+        transaction.transferredToWallet,
+        transaction.transferredAt ?? null
+      ]
+    );
+    return transaction;
+  }
+
+  /**
+   * Overwrites what the aggregator may change on a pending transaction:
+   * its provider ID and amount when it posts, and its status and round-up.
+   */
+  async updateIngested(
+    transaction: Pick<
+      Transaction,
+      'id' | 'providerTransactionId' | 'merchantName' | 'amount' | 'roundUpAmount' | 'date' | 'status' | 'processed'
+    >
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE transactions
+       SET provider_transaction_id = $2, merchant_name = $3, amount = $4, round_up_amount = $5,
+           date = $6, status = $7, processed = $8
+       WHERE id = $1`,
+      [
+        transaction.id,
+        transaction.providerTransactionId ?? null,
+        transaction.merchantName,
+        transaction.amount,
+        transaction.roundUpAmount,
+        transaction.date,
+        transaction.status,
+        transaction.processed
+      ]
+    );
+  }
+
+  /** Links a posted refund to its purchase and records how its round-up was reversed. */
+  async recordReversal(id: string, refundOf: string, reversal: RoundUpReversal | null): Promise<void> {
+    await this.db.query(
+      `UPDATE transactions
+       SET refund_of = $2, round_up_reversed = $3, round_up_reversal_method = $4
+       WHERE id = $1`,
+      [id, refundOf, reversal?.amount ?? null, reversal?.method ?? null]
+    );
+  }
+
+  /** Deletes a pending transaction; posted ones are never deleted. Returns whether one was. */
+  async deletePending(id: string): Promise<boolean> {
+    const rows = await this.db.query<{ id: string }>(
+      'DELETE FROM transactions WHERE id = $1 AND status = $2 RETURNING id',
+      [id, 'pending']
+    );
+    return rows.length > 0;
+  }
+
+  /** Where ingestion left off for an account, as the aggregator's opaque cursor. */
+  async findCursor(userId: string, creditorId: string, accountId: string): Promise<string | undefined> {
+    const [row] = await this.db.query<{ cursor: string }>(
+      'SELECT cursor FROM transaction_cursors WHERE user_id = $1 AND creditor_id = $2 AND account_id = $3',
+      [userId, creditorId, accountId]
+    );
+    return row?.cursor;
+  }
+
+  async saveCursor(
+    userId: string,
+    creditorId: string,
+    accountId: string,
+    cursor: string,
+    updatedAt: string
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO transaction_cursors (user_id, creditor_id, account_id, cursor, updated_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, creditor_id, account_id)
+       DO UPDATE SET cursor = excluded.cursor, updated_at = excluded.updated_at`,
+      [userId, creditorId, accountId, cursor, updatedAt]
+    );
+  }
+
+  async markTransferred(ids: string[], transferredAt: string): Promise<void> {
+    for (const id of ids) {
+      await this.db.query(
+        'UPDATE transactions SET transferred_to_wallet = $2, transferred_at = $3 WHERE id = $1',
+        [id, true, transferredAt]
+      );
+    }
+  }
+}
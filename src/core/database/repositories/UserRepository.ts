@@ -0,0 +1,153 @@
+/**
+ * MicroRepay User Repository
+ *
+ * Persistence for user accounts, their preferences and the badges and
+ * milestone progress attached to them.
+ */
+
+import { Database } from '../Database';
+import { Milestone, User, UserPreferences } from '../../../types';
+import { normalizeRoundUpRules } from '../../roundup/RoundUpEngine';
+import { normalizeCustomAllocationRules, validateCustomAllocationRules } from '../../optimization/CustomStrategy';
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  created_at: string;
+  round_up_threshold: number | string;
+  transfer_frequency: UserPreferences['transferFrequency'];
+  default_allocation_strategy: UserPreferences['defaultAllocationStrategy'];
+  round_up_rules: string;
+  refund_policy: UserPreferences['refundPolicy'];
+  custom_allocation: string;
+  engagement_score: number | string;
+  points: number | string;
+  wallet_id: string | null;
+}
+
+interface UserMilestoneRow {
+  milestone_id: string;
+  name: string;
+  unit: string;
+  levels: string;
+  point_values: string;
+  current_level: number | string;
+  next_level: number | string;
+  progress: number | string;
+}
+
+function mapMilestoneRow(row: UserMilestoneRow): Milestone {
+  // current_level and next_level index into the milestone's level values
+  const levels: number[] = JSON.parse(row.levels);
+  const pointValues: number[] = JSON.parse(row.point_values);
+  const nextIndex = Number(row.next_level);
+
+  return {
+    id: row.milestone_id,
+    name: row.name,
+    currentLevel: levels[Number(row.current_level)] ?? 0,
+    nextLevel: levels[nextIndex] ?? 0,
+    progress: Number(row.progress),
+    unit: row.unit,
+    pointValue: pointValues[nextIndex] ?? 0
+  };
+}
+
+export class UserRepository {
+  constructor(private readonly db: Database) {}
+
+  async findById(id: string): Promise<User | null> {
+    const [row] = await this.db.query<UserRow>(
+      `SELECT u.*, w.id AS wallet_id
+       FROM users u
+       LEFT JOIN wallets w ON w.user_id = u.id
+       WHERE u.id = $1`,
+      [id]
+    );
+    if (!row) return null;
+
+    const badges = await this.db.query<{ badge_id: string }>(
+      'SELECT badge_id FROM user_badges WHERE user_id = $1 ORDER BY awarded_at',
+      [id]
+    );
+    const milestones = await this.db.query<UserMilestoneRow>(
+      `SELECT um.milestone_id, m.name, m.unit, m.levels, m.point_values,
+              um.current_level, um.next_level, um.progress
+       FROM user_milestones um
+       JOIN milestones m ON m.id = um.milestone_id
+       WHERE um.user_id = $1
+       ORDER BY um.milestone_id`,
+      [id]
+    );
+
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      createdAt: row.created_at,
+      preferences: {
+        roundUpThreshold: Number(row.round_up_threshold),
+        transferFrequency: row.transfer_frequency,
+        defaultAllocationStrategy: row.default_allocation_strategy,
+        roundUpRules: normalizeRoundUpRules(JSON.parse(row.round_up_rules)),
+        refundPolicy: row.refund_policy,
+        customAllocation: normalizeCustomAllocationRules(JSON.parse(row.custom_allocation))
+      },
+      engagementScore: Number(row.engagement_score),
+      points: Number(row.points),
+      walletId: row.wallet_id ?? '',
+      badges: badges.map(badge => badge.badge_id),
+      milestones: milestones.map(mapMilestoneRow)
+    };
+  }
+
+  async create(
+    user: Pick<User, 'id' | 'email' | 'name' | 'createdAt' | 'preferences'>
+  ): Promise<User> {
+    await this.db.query(
+      `INSERT INTO users
+        (id, email, name, created_at, round_up_threshold, transfer_frequency, default_allocation_strategy,
+         round_up_rules, refund_policy, custom_allocation)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        user.id,
+        user.email,
+        user.name,
+        user.createdAt,
+        user.preferences.roundUpThreshold,
+        user.preferences.transferFrequency,
+        user.preferences.defaultAllocationStrategy,
+        JSON.stringify(user.preferences.roundUpRules),
+        user.preferences.refundPolicy,
+        JSON.stringify(user.preferences.customAllocation)
+      ]
+    );
+    return this.findById(user.id);
+  }
+
+  /**
+   * Saves the user's preferences. Custom allocation rules are checked
+   * whichever strategy is selected, since switching to it uses them as stored.
+   */
+  async updatePreferences(id: string, preferences: UserPreferences): Promise<void> {
+    const customAllocation = normalizeCustomAllocationRules(preferences.customAllocation);
+    validateCustomAllocationRules(customAllocation);
+
+    await this.db.query(
+      `UPDATE users
+       SET round_up_threshold = $2, transfer_frequency = $3, default_allocation_strategy = $4,
+           round_up_rules = $5, refund_policy = $6, custom_allocation = $7
+       WHERE id = $1`,
+      [
+        id,
+        preferences.roundUpThreshold,
+        preferences.transferFrequency,
+        preferences.defaultAllocationStrategy,
+        JSON.stringify(preferences.roundUpRules),
+        preferences.refundPolicy,
+        JSON.stringify(customAllocation)
+      ]
+    );
+  }
+}
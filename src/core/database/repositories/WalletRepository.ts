@@ -0,0 +1,250 @@
+/**
+ * MicroRepay Wallet Repository
+ *
+ * Persistence for round-up wallets and the transfers swept out of them.
+ * Wallet balances are read from the ledger; the `balance` column is a
+ * cached copy that `Ledger.reconcile` checks for drift.
+ */
+
+import { Database } from '../Database';
+import { CurrencyCode, RoundUpWallet, Transfer, UserPreferences } from '../../../types';
+
+interface WalletRow {
+  id: string;
+  user_id: string;
+  balance: number | string;
+  transfer_threshold: number | string;
+  last_transferred_at: string | null;
+  pending_clawback: number | string;
+}
+
+// Ledger balance of the user's round-up wallet account, in major units
+const LEDGER_BALANCE = `(SELECT COALESCE(SUM(l.amount_minor), 0) / 100.0
+   FROM journal_lines l
+   WHERE l.account_id = 'round_up_wallet:' || w.user_id) AS balance`;
+
+interface TransferRow {
+  id: string;
+  amount: number | string;
+  currency: CurrencyCode;
+  date: string;
+}
+
+export interface SweepCandidate {
+  wallet: RoundUpWallet;
+  transferFrequency: UserPreferences['transferFrequency'];
+}
+
+function mapWalletRow(row: WalletRow, transferHistory: Transfer[]): RoundUpWallet {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    balance: Number(row.balance),
+    transferThreshold: Number(row.transfer_threshold),
+    lastTransferredAt: row.last_transferred_at ?? undefined,
+    pendingClawback: Number(row.pending_clawback),
+    transferHistory
+  };
+}
+
+export class WalletRepository {
+  constructor(private readonly db: Database) {}
+
+  async findByUser(userId: string): Promise<RoundUpWallet | null> {
+    const [row] = await this.db.query<WalletRow>(
+      `SELECT w.id, w.user_id, w.transfer_threshold, w.last_transferred_at, w.pending_clawback, ${LEDGER_BALANCE}
+       FROM wallets w
+       WHERE w.user_id = $1`,
+      [userId]
+    );
+    if (!row) return null;
+
+    return mapWalletRow(row, await this.findTransfers(row.id));
+  }
+
+  /**
+   * Every wallet with its owner's transfer frequency, for the sweep
+   * scheduler. Transfer history is not loaded.
+   */
+  async findAllForSweep(): Promise<SweepCandidate[]> {
+    const rows = await this.db.query<WalletRow & { transfer_frequency: UserPreferences['transferFrequency'] }>(
+      `SELECT w.id, w.user_id, w.transfer_threshold, w.last_transferred_at, w.pending_clawback, ${LEDGER_BALANCE},
+              u.transfer_frequency
+       FROM wallets w
+       JOIN users u ON u.id = w.user_id
+       ORDER BY w.id`
+    );
+    return rows.map(row => ({
+      wallet: mapWalletRow(row, []),
+      transferFrequency: row.transfer_frequency
+    }));
+  }
+
+  /**
+   * Reads the wallet and holds a row lock on it until the surrounding
+   * transaction ends, so concurrent sweeps cannot spend the same balance.
+   * Transfer history is not loaded.
+   */
+  async lockByUser(userId: string): Promise<RoundUpWallet | null> {
+    const [row] = await this.db.query<WalletRow>(
+      `SELECT w.id, w.user_id, w.transfer_threshold, w.last_transferred_at, w.pending_clawback, ${LEDGER_BALANCE}
+       FROM wallets w
+       WHERE w.user_id = $1
+       FOR UPDATE`,
+      [userId]
+    );
+    return row ? mapWalletRow(row, []) : null;
+  }
+
+  async create(wallet: Omit<RoundUpWallet, 'pendingClawback' | 'transferHistory'>): Promise<RoundUpWallet> {
+    await this.db.query(
+      `INSERT INTO wallets (id, user_id, balance, transfer_threshold, last_transferred_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        wallet.id,
+        wallet.userId,
+        wallet.balance,
+        wallet.transferThreshold,
+        wallet.lastTransferredAt ?? null
+      ]
+    );
+    return { ...wallet, pendingClawback: 0, transferHistory: [] };
+  }
+
+  async credit(id: string, amount: number): Promise<void> {
+    await this.db.query(
+      'UPDATE wallets SET balance = balance + $2 WHERE id = $1',
+      [id, amount]
+    );
+  }
+
+  /** Holds funds for payments; the wallet counts as transferred once one of them is sent. */
+  async debit(id: string, amount: number): Promise<void> {
+    await this.db.query(
+      'UPDATE wallets SET balance = balance - $2 WHERE id = $1',
+      [id, amount]
+    );
+  }
+
+  async markTransferred(userId: string, transferredAt: string): Promise<void> {
+    await this.db.query(
+      'UPDATE wallets SET last_transferred_at = $2 WHERE user_id = $1',
+      [userId, transferredAt]
+    );
+  }
+
+  /** Takes money back out of the wallet without counting as a transfer, e.g. a reversed round-up. */
+  async withdraw(id: string, amount: number): Promise<void> {
+    await this.db.query(
+      'UPDATE wallets SET balance = balance - $2 WHERE id = $1',
+      [id, amount]
+    );
+  }
+
+  /** Queues swept round-ups to be taken out of the next sweep. */
+  async addClawback(id: string, amount: number): Promise<void> {
+    await this.db.query(
+      'UPDATE wallets SET pending_clawback = pending_clawback + $2 WHERE id = $1',
+      [id, amount]
+    );
+  }
+
+  /** Takes `amount` of the queued clawback out of the wallet balance. */
+  async settleClawback(id: string, amount: number): Promise<void> {
+    await this.db.query(
+      'UPDATE wallets SET balance = balance - $2, pending_clawback = pending_clawback - $2 WHERE id = $1',
+      [id, amount]
+    );
+  }
+
+  /** Records a transfer; `sweepKey` is the idempotency key of the sweep that made it. */
+  async recordTransfer(walletId: string, transfer: Transfer, sweepKey?: string): Promise<void> {
+    await this.db.query(
+      'INSERT INTO transfers (id, wallet_id, amount, currency, date, sweep_key) VALUES ($1, $2, $3, $4, $5, $6)',
+      [transfer.id, walletId, transfer.amount, transfer.currency, transfer.date, sweepKey ?? null]
+    );
+    for (const allocation of transfer.allocations) {
+      await this.db.query(
+        'INSERT INTO transfer_destinations (transfer_id, debt_id, amount) VALUES ($1, $2, $3)',
+        [transfer.id, allocation.debtId, allocation.amount]
+      );
+    }
+  }
+
+  async findTransferBySweepKey(sweepKey: string): Promise<Transfer | null> {
+    const [transfer] = await this.findTransfersWhere('t.sweep_key = $1', [sweepKey]);
+    return transfer ?? null;
+  }
+
+  /**
+   * Sweep keys, oldest first, of the wallet's transfers that still hold
+   * funds for payments never sent: sweeps that stopped partway.
+   */
+  async findHeldSweepKeys(walletId: string, keyPrefix: string): Promise<string[]> {
+    const rows = await this.db.query<{ sweep_key: string }>(
+      `SELECT t.sweep_key
+       FROM transfers t
+       JOIN payments p ON p.transfer_id = t.id
+       WHERE t.wallet_id = $1 AND t.sweep_key LIKE $2 AND p.status = 'created'
+       GROUP BY t.sweep_key
+       ORDER BY MIN(t.date)`,
+      [walletId, `${keyPrefix}%`]
+    );
+    return rows.map(row => row.sweep_key);
+  }
+
+  /**
+   * Takes a debt's allocation out of a transfer whose payment never reached
+   * the creditor. A transfer left with no allocations is kept: its failed
+   * payments still refer to it, and its sweep key stops a retry of the same
+   * sweep from holding the funds again.
+   */
+  async removeAllocation(transferId: string, debtId: string, amount: number): Promise<void> {
+    await this.db.query(
+      'DELETE FROM transfer_destinations WHERE transfer_id = $1 AND debt_id = $2',
+      [transferId, debtId]
+    );
+    await this.db.query(
+      'UPDATE transfers SET amount = amount - $2 WHERE id = $1',
+      [transferId, amount]
+    );
+  }
+
+  /** The wallet's transfers, leaving out those whose payments all failed. */
+  private async findTransfers(walletId: string): Promise<Transfer[]> {
+    return this.findTransfersWhere('t.wallet_id = $1 AND t.amount > 0', [walletId]);
+  }
+
+  private async findTransfersWhere(condition: string, params: string[]): Promise<Transfer[]> {
+    const transfers = await this.db.query<TransferRow>(
+      `SELECT t.id, t.amount, t.currency, t.date FROM transfers t WHERE ${condition} ORDER BY t.date DESC`,
+      params
+    );
+    const destinations = await this.db.query<{
+      transfer_id: string;
+      debt_id: string;
+      amount: number | string;
+    }>(
+      `SELECT td.transfer_id, td.debt_id, td.amount
+       FROM transfer_destinations td
+       JOIN transfers t ON t.id = td.transfer_id
+       WHERE ${condition}`,
+      params
+    );
+
+    return transfers.map(transfer => {
+      const allocations = destinations
+        .filter(destination => destination.transfer_id === transfer.id)
+        .map(destination => ({ debtId: destination.debt_id, amount: Number(destination.amount) }));
+
+      return {
+        id: transfer.id,
+        amount: Number(transfer.amount),
+        currency: transfer.currency,
+        date: transfer.date,
+        destinationIds: allocations.map(allocation => allocation.debtId),
+        allocations
+      };
+    });
+  }
+}
@@ -5,6 +5,8 @@
  * providing engagement mechanics and rewards for users.
  */
 
+import { GamificationRepository } from '../database/repositories/GamificationRepository';
+
 export interface Badge {
   id: string;
   name: string;
@@ -51,11 +53,41 @@ export interface LeaderboardPosition {
   percentile: number | null;
 }
 
+export interface GamificationConfig {
+  pointsPerPayment: number;
+  bonusPoints: {
+    earlyPayment: number;
+    consistentPayment: number;
+    milestoneAchievement: number;
+  };
+  levels: { level: number; points: number }[];
+}
+
+export const DEFAULT_GAMIFICATION_CONFIG: GamificationConfig = {
+  pointsPerPayment: 10,
+  bonusPoints: {
+    earlyPayment: 5,
+    consistentPayment: 15,
+    milestoneAchievement: 50
+  },
+  levels: [
+    { level: 1, points: 0 },
+    { level: 2, points: 100 },
+    { level: 3, points: 500 },
+    { level: 4, points: 1000 },
+    { level: 5, points: 2000 }
+  ]
+};
+
 export class GamificationSystem {
   private readonly badges: Badge[];
   private readonly milestones: Milestone[];
+  private definitionsSynced: Promise<void> | null = null;
 
-  constructor(private readonly db: any) { // Replace with actual database interface
+  constructor(
+    private readonly repository: GamificationRepository,
+    private readonly config: GamificationConfig
+  ) {
     this.badges = this.initializeBadges();
     this.milestones = this.initializeMilestones();
   }
@@ -127,6 +159,7 @@ export class GamificationSystem {
   }
 
   async checkAndAwardBadges(userId: string): Promise<Badge[]> {
+    await this.syncDefinitions();
     const userStats = await this.getUserStats(userId);
     const userBadges = await this.getUserBadges(userId);
     const newBadges: Badge[] = [];
@@ -182,6 +215,7 @@ export class GamificationSystem {
   }
 
   async checkAndUpdateMilestones(userId: string): Promise<Milestone[]> {
+    await this.syncDefinitions();
     const userStats = await this.getUserStats(userId);
     const userMilestones = await this.getUserMilestones(userId);
     const updatedMilestones: Milestone[] = [];
@@ -226,7 +260,10 @@ export class GamificationSystem {
           await this.addPoints(userId, points, `Reached ${milestone.name} level ${milestone.levels[i]} ${milestone.unit}`);
         }
 
-        await this.updateUserMilestone(userId, milestone.id, currentLevelIndex, nextLevelIndex);
+        const progress = nextLevel
+          ? Math.min(1, Math.max(0, (currentValue - currentLevel) / (nextLevel - currentLevel)))
+          : 1;
+        await this.updateUserMilestone(userId, milestone.id, currentLevelIndex, nextLevelIndex, progress);
 
         updatedMilestones.push({
           ...milestone,
@@ -240,47 +277,44 @@ export class GamificationSystem {
   }
 
   async addPoints(userId: string, points: number, reason: string): Promise<{ userId: string; pointsAdded: number; reason: string }> {
-    console.log(`Adding ${points} points to user ${userId} for: ${reason}`);
+    await this.repository.addPoints(userId, points, reason, new Date().toISOString());
     return { userId, pointsAdded: points, reason };
   }
 
   async awardBadge(userId: string, badgeId: string): Promise<{ userId: string; badgeId: string; awardedAt: string }> {
-    console.log(`Awarding badge ${badgeId} to user ${userId}`);
-    return { userId, badgeId, awardedAt: new Date().toISOString() };
+    const awardedAt = new Date().toISOString();
+    await this.repository.awardBadge(userId, badgeId, awardedAt);
+    return { userId, badgeId, awardedAt };
   }
 
   async updateUserMilestone(
     userId: string,
     milestoneId: string,
     currentLevel: number,
-    nextLevel: number
+    nextLevel: number,
+    progress: number = 0
   ): Promise<{ userId: string; milestoneId: string; currentLevel: number; nextLevel: number; updatedAt: string }> {
-    console.log(`Updating milestone ${milestoneId} for user ${userId}: current=${currentLevel}, next=${nextLevel}`);
-    return { userId, milestoneId, currentLevel, nextLevel, updatedAt: new Date().toISOString() };
+    const updatedAt = new Date().toISOString();
+    await this.repository.updateUserMilestone(userId, milestoneId, currentLevel, nextLevel, progress, updatedAt);
+    return { userId, milestoneId, currentLevel, nextLevel, updatedAt };
   }
 
   async getUserStats(userId: string): Promise<UserStats> {
-    return {
-      roundupCount: 45,
-      consecutiveDays: 8,
-      totalContribution: 120.75,
-      interestSaved: 42.30,
-      paidOffDebts: [],
-      daysActive: 14,
-      debtReductionPercentage: 3.5
-    };
+    return this.repository.getUserStats(userId);
   }
 
   async getUserBadges(userId: string): Promise<string[]> {
-    return ['first_roundup'];
+    return this.repository.getUserBadgeIds(userId);
   }
 
   async getUserMilestones(userId: string): Promise<UserMilestone[]> {
-    return [
-      { id: 'total_contributions', currentLevel: 1, nextLevel: 2 },
-      { id: 'days_active', currentLevel: 1, nextLevel: 2 },
-      { id: 'debt_reduction', currentLevel: 0, nextLevel: 0 }
-    ];
+    return this.repository.getUserMilestones(userId);
+  }
+
+  async getUserLevel(userId: string): Promise<number> {
+    const points = await this.repository.getPoints(userId);
+    const reached = this.config.levels.filter(level => points >= level.points);
+    return reached.length > 0 ? reached[reached.length - 1].level : 1;
   }
 
   async getLeaderboardPosition(userId: string): Promise<LeaderboardPosition> {
@@ -296,15 +330,11 @@ export class GamificationSystem {
   }
 
   async getLeaderboard(limit: number = 10): Promise<LeaderboardEntry[]> {
-    return [
-      { id: 'user456', name: 'Jane', points: 1250 },
-      { id: 'user789', name: 'John', points: 980 },
-      { id: 'user123', name: 'Sarah', points: 875 }
-    ].slice(0, limit);
+    return this.repository.getLeaderboard(limit);
   }
 
   async getTotalUserCount(): Promise<number> {
-    return 1242;
+    return this.repository.getTotalUserCount();
   }
 
   async processCompletedPayment(
@@ -312,6 +342,8 @@ export class GamificationSystem {
     amount: number,
     debtId: string
   ): Promise<{ newBadges: Badge[]; updatedMilestones: Milestone[] }> {
+    await this.addPoints(userId, this.config.pointsPerPayment, `Payment of $${amount.toFixed(2)} toward ${debtId}`);
+
     const newBadges = await this.checkAndAwardBadges(userId);
     const updatedMilestones = await this.checkAndUpdateMilestones(userId);
 
@@ -320,4 +352,16 @@ export class GamificationSystem {
       updatedMilestones
     };
   }
-} 
\ No newline at end of file
+
+  private syncDefinitions(): Promise<void> {
+    if (!this.definitionsSynced) {
+      this.definitionsSynced = this.repository
+        .syncDefinitions(this.badges, this.milestones)
+        .catch(error => {
+          this.definitionsSynced = null;
+          throw error;
+        });
+    }
+    return this.definitionsSynced;
+  }
+}
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { IdempotencyConflictError, IdempotencyGuard, OutcomeUnknownError } from './IdempotencyGuard';
+import { IdempotencyRepository } from '../database/repositories/IdempotencyRepository';
+import { ManualClock } from '../scheduler/Clock';
+import { testDatabase } from '../testing/fixtures';
+
+const LEASE_MS = 60_000;
+
+describe('IdempotencyGuard', () => {
+  let repository: IdempotencyRepository;
+  let clock: ManualClock;
+  let guard: IdempotencyGuard;
+
+  beforeEach(async () => {
+    repository = new IdempotencyRepository(await testDatabase());
+    clock = new ManualClock('2026-10-18T12:00:00.000Z');
+    guard = new IdempotencyGuard(repository, { leaseMs: LEASE_MS, clock });
+  });
+
+  /** Claims `key` the way an attempt that dies before finishing would. */
+  const abandon = (key: string, request: unknown) =>
+    repository.claim('pay', key, JSON.stringify(request), clock.now().toISOString());
+
+  it('runs the operation once and replays its result', async () => {
+    let runs = 0;
+    const operation = async () => ({ run: ++runs });
+
+    expect(await guard.run('pay', 'key-1', { amount: 5 }, operation)).toEqual({ run: 1 });
+    expect(await guard.run('pay', 'key-1', { amount: 5 }, operation)).toEqual({ run: 1 });
+    expect(runs).toBe(1);
+  });
+
+  it('keeps keys in different scopes apart', async () => {
+    await guard.run('pay', 'key-1', { amount: 5 }, async () => 'pay');
+
+    expect(await guard.run('refund', 'key-1', { amount: 5 }, async () => 'refund')).toBe('refund');
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    await guard.run('pay', 'key-1', { amount: 5 }, async () => 'done');
+
+    await expect(guard.run('pay', 'key-1', { amount: 6 }, async () => 'again')).rejects.toMatchObject({
+      name: 'IdempotencyConflictError',
+      reason: 'different_request'
+    });
+  });
+
+  it('rejects a key while its first use is running', async () => {
+    let finish!: () => void;
+    const first = guard.run('pay', 'key-1', { amount: 5 }, () => new Promise<string>(resolve => {
+      finish = () => resolve('first');
+    }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const second = guard.run('pay', 'key-1', { amount: 5 }, async () => 'second');
+
+    await expect(second).rejects.toBeInstanceOf(IdempotencyConflictError);
+    await expect(second).rejects.toMatchObject({ reason: 'in_progress' });
+    finish();
+    expect(await first).toBe('first');
+  });
+
+  it('lets a failed key be reclaimed and run again', async () => {
+    await expect(guard.run('pay', 'key-1', { amount: 5 }, async () => {
+      throw new Error('refused');
+    })).rejects.toThrow('refused');
+    expect((await repository.find('pay', 'key-1'))?.status).toBe('failed');
+
+    const resumed: boolean[] = [];
+    const result = await guard.run('pay', 'key-1', { amount: 5 }, async wasResumed => {
+      resumed.push(wasResumed);
+      return 'paid';
+    });
+
+    expect(result).toBe('paid');
+    expect(resumed).toEqual([false]);
+  });
+
+  it('leaves a key whose outcome is unknown unresolved and never runs it again', async () => {
+    await expect(guard.run('pay', 'key-1', { amount: 5 }, async () => {
+      throw new OutcomeUnknownError('timed out');
+    })).rejects.toBeInstanceOf(OutcomeUnknownError);
+    expect((await repository.find('pay', 'key-1'))?.status).toBe('unknown');
+
+    clock.advance(LEASE_MS * 10);
+    let runs = 0;
+    await expect(guard.run('pay', 'key-1', { amount: 5 }, async () => ++runs)).rejects.toMatchObject({
+      reason: 'in_progress'
+    });
+    expect(runs).toBe(0);
+  });
+
+  it('does not take over a claim whose lease is still running', async () => {
+    await abandon('key-1', { amount: 5 });
+    clock.advance(LEASE_MS - 1);
+
+    await expect(guard.run('pay', 'key-1', { amount: 5 }, async () => 'taken')).rejects.toMatchObject({
+      reason: 'in_progress'
+    });
+  });
+
+  it('takes over a claim whose lease ran out, telling the operation it resumes', async () => {
+    await abandon('key-1', { amount: 5 });
+    clock.advance(LEASE_MS);
+
+    const resumed: boolean[] = [];
+    const result = await guard.run('pay', 'key-1', { amount: 5 }, async wasResumed => {
+      resumed.push(wasResumed);
+      return 'taken';
+    });
+
+    expect(result).toBe('taken');
+    expect(resumed).toEqual([true]);
+    expect((await repository.find('pay', 'key-1'))?.status).toBe('completed');
+  });
+
+  it('lets only one caller take over an expired claim', async () => {
+    await abandon('key-1', { amount: 5 });
+    clock.advance(LEASE_MS);
+    const staleBefore = new Date(clock.now().getTime() - LEASE_MS).toISOString();
+
+    expect(await repository.reclaim('pay', 'key-1', clock.now().toISOString(), staleBefore)).toBe(true);
+    expect(await repository.reclaim('pay', 'key-1', clock.now().toISOString(), staleBefore)).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * MicroRepay Idempotency Guard
+ *
+ * Runs money-moving operations at most once per idempotency key. The
+ * first call with a key claims it and stores the operation's result;
+ * replays with the same key and request get that stored result back
+ * instead of running the operation again. A key whose operation failed
+ * may be retried. A key whose operation may or may not have taken effect
+ * stays unresolved until whoever can find out settles it. A claim holds
+ * its key for a lease; a key still in progress once the lease is up was
+ * left by an attempt that died, and the next caller takes it over.
+ */
+
+import { IdempotencyRepository } from '../database/repositories/IdempotencyRepository';
+import { Clock, systemClock } from '../scheduler/Clock';
+
+// Why a key could not be used: its first use is still running (or could
+// not be taken over), or it was issued for a different request
+export type IdempotencyConflictReason = 'in_progress' | 'different_request';
+
+export class IdempotencyConflictError extends Error {
+  constructor(
+    message: string,
+    readonly scope: string,
+    readonly key: string,
+    readonly reason: IdempotencyConflictReason
+  ) {
+    super(message);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+/**
+ * Thrown by an operation that failed in a way that leaves open whether it
+ * took effect, e.g. a payment request that timed out. Its key is neither
+ * failed nor retried; it stays unresolved until the outcome is known.
+ */
+export class OutcomeUnknownError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutcomeUnknownError';
+  }
+}
+
+export function createIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+export interface IdempotencyGuardOptions {
+  leaseMs?: number; // How long a claim holds its key; defaults to 5 minutes
+  clock?: Clock;
+}
+
+export const DEFAULT_IDEMPOTENCY_LEASE_MS = 5 * 60 * 1000;
+
+export class IdempotencyGuard {
+  private readonly leaseMs: number;
+  private readonly clock: Clock;
+
+  constructor(
+    private readonly repository: IdempotencyRepository,
+    options: IdempotencyGuardOptions = {}
+  ) {
+    this.leaseMs = options.leaseMs ?? DEFAULT_IDEMPOTENCY_LEASE_MS;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Runs `operation` unless `key` was already used in `scope`. `request`
+   * identifies what the key was issued for; reusing a key for a different
+   * request, while the first use is still running, or while its outcome is
+   * unknown, is rejected. `operation` is told when it takes over a key
+   * whose lease ran out, since the attempt that died may have got partway.
+   */
+  async run<T>(
+    scope: string,
+    key: string,
+    request: unknown,
+    operation: (resumed: boolean) => Promise<T>
+  ): Promise<T> {
+    if (!key) {
+      throw new Error(`An idempotency key is required for ${scope}`);
+    }
+
+    const fingerprint = JSON.stringify(request);
+    const now = this.clock.now();
+    const claimed = await this.repository.claim(scope, key, fingerprint, now.toISOString());
+    let resumed = false;
+
+    if (!claimed) {
+      const existing = await this.repository.find(scope, key);
+      if (!existing) {
+        throw new IdempotencyConflictError(`Idempotency key ${key} could not be claimed`, scope, key, 'in_progress');
+      }
+      if (existing.request !== fingerprint) {
+        throw new IdempotencyConflictError(
+          `Idempotency key ${key} was already used for a different ${scope} request`,
+          scope,
+          key,
+          'different_request'
+        );
+      }
+      if (existing.status === 'completed') {
+        return JSON.parse(existing.response ?? 'null') as T;
+      }
+      // A failed key, or one whose lease ran out, goes to whoever reclaims it first
+      const staleBefore = new Date(now.getTime() - this.leaseMs).toISOString();
+      if (!(await this.repository.reclaim(scope, key, now.toISOString(), staleBefore))) {
+        throw new IdempotencyConflictError(
+          `A ${scope} request with key ${key} is already in progress`,
+          scope,
+          key,
+          'in_progress'
+        );
+      }
+      resumed = existing.status === 'in_progress';
+    }
+
+    let result: T;
+    try {
+      result = await operation(resumed);
+    } catch (error) {
+      if (error instanceof OutcomeUnknownError) {
+        await this.repository.markUnknown(scope, key, error.message, this.clock.now().toISOString());
+        throw error;
+      }
+      await this.repository.fail(
+        scope,
+        key,
+        error instanceof Error ? error.message : 'Unknown error',
+        this.clock.now().toISOString()
+      );
+      throw error;
+    }
+
+    await this.repository.complete(scope, key, JSON.stringify(result ?? null), this.clock.now().toISOString());
+    return result;
+  }
+}
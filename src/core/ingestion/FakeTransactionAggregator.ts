@@ -0,0 +1,172 @@
+/**
+ * MicroRepay Fake Transaction Aggregator
+ *
+ * In-memory aggregator for tests and local development. Transactions are
+ * scripted per account (authorize, post, refund, chargeback, drop) and
+ * served back as a change log, so every change is delivered once per
+ * cursor and can be replayed by fetching from an earlier cursor.
+ */
+
+import { Money } from '../money/Money';
+import { AggregatedTransaction, TransactionAggregator, TransactionPage } from './TransactionAggregator';
+
+export type FakePurchase = Pick<AggregatedTransaction, 'amount' | 'merchantName' | 'category'> & {
+  date?: string;
+};
+
+type Change =
+  | { kind: 'upsert'; transaction: AggregatedTransaction }
+  | { kind: 'remove'; providerTransactionId: string };
+
+export class FakeTransactionAggregator implements TransactionAggregator {
+  private readonly changes = new Map<string, Change[]>();
+  private readonly transactions = new Map<string, AggregatedTransaction>();
+  readonly requests: { accessToken: string; accountId: string; cursor?: string }[] = [];
+
+  constructor(private readonly pageSize: number = 100) {}
+
+  async fetchTransactions(accessToken: string, accountId: string, cursor?: string): Promise<TransactionPage> {
+    this.requests.push({ accessToken, accountId, cursor });
+
+    const log = this.changes.get(accountId) ?? [];
+    const start = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(start) || start < 0 || start > log.length) {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    const end = Math.min(start + this.pageSize, log.length);
+    const page = log.slice(start, end);
+    return {
+      transactions: page.flatMap(change => (change.kind === 'upsert' ? [{ ...change.transaction }] : [])),
+      removed: page.flatMap(change => (change.kind === 'remove' ? [change.providerTransactionId] : [])),
+      nextCursor: String(end),
+      hasMore: end < log.length
+    };
+  }
+
+  /** A card authorization that has not posted yet. Returns its provider ID. */
+  authorize(accountId: string, purchase: FakePurchase): string {
+    return this.add({ ...this.describe(accountId, purchase), status: 'pending' });
+  }
+
+  /** A purchase that posts straight away. Returns its provider ID. */
+  purchase(accountId: string, purchase: FakePurchase): string {
+    return this.add({ ...this.describe(accountId, purchase), status: 'posted' });
+  }
+
+  /**
+   * Posts a pending transaction, optionally for a different final amount
+   * (e.g. after a tip). By default it posts under a new provider ID that
+   * points back at the pending one, as most aggregators do. Returns the
+   * posted transaction's provider ID.
+   */
+  post(providerTransactionId: string, options: { amount?: number; keepId?: boolean } = {}): string {
+    const pending = this.get(providerTransactionId);
+    if (pending.status !== 'pending') {
+      throw new Error(`Transaction ${providerTransactionId} has already posted`);
+    }
+
+    const posted: AggregatedTransaction = {
+      ...pending,
+      amount: options.amount ?? pending.amount,
+      status: 'posted'
+    };
+    if (options.keepId) {
+      this.record(posted);
+      return providerTransactionId;
+    }
+
+    this.transactions.delete(providerTransactionId);
+    return this.add({ ...posted, providerTransactionId: this.nextId(), pendingTransactionId: providerTransactionId });
+  }
+
+  /**
+   * Refunds a posted purchase in full or in part. Returns the refund's
+   * provider ID. With `unlinked`, the refund does not name its purchase,
+   * as some aggregators leave out.
+   */
+  refund(providerTransactionId: string, amount?: number, options: { unlinked?: boolean } = {}): string {
+    return this.reverse(providerTransactionId, amount, { chargeback: false, ...options });
+  }
+
+  /** Reverses a posted purchase through a card dispute. Returns the chargeback's provider ID. */
+  chargeback(providerTransactionId: string, amount?: number): string {
+    return this.reverse(providerTransactionId, amount, { chargeback: true });
+  }
+
+  /** Drops a pending authorization that will never post. */
+  drop(providerTransactionId: string): void {
+    const pending = this.get(providerTransactionId);
+    if (pending.status !== 'pending') {
+      throw new Error(`Transaction ${providerTransactionId} has already posted`);
+    }
+
+    this.transactions.delete(providerTransactionId);
+    this.log(pending.accountId, { kind: 'remove', providerTransactionId });
+  }
+
+  /** Sends a transaction again unchanged, as aggregators sometimes do. */
+  resend(providerTransactionId: string): void {
+    this.record(this.get(providerTransactionId));
+  }
+
+  private reverse(
+    providerTransactionId: string,
+    amount: number | undefined,
+    options: { chargeback: boolean; unlinked?: boolean }
+  ): string {
+    const original = this.get(providerTransactionId);
+    if (original.status !== 'posted') {
+      throw new Error(`Transaction ${providerTransactionId} has not posted`);
+    }
+
+    return this.add({
+      providerTransactionId: this.nextId(),
+      accountId: original.accountId,
+      amount: Money.of(amount ?? original.amount).negate().toNumber(),
+      merchantName: original.merchantName,
+      category: original.category,
+      date: new Date().toISOString(),
+      status: 'posted',
+      refundedTransactionId: options.unlinked ? undefined : providerTransactionId,
+      chargeback: options.chargeback || undefined
+    });
+  }
+
+  private describe(accountId: string, purchase: FakePurchase): Omit<AggregatedTransaction, 'status'> {
+    return {
+      providerTransactionId: this.nextId(),
+      accountId,
+      amount: purchase.amount,
+      merchantName: purchase.merchantName,
+      category: purchase.category,
+      date: purchase.date ?? new Date().toISOString()
+    };
+  }
+
+  private add(transaction: AggregatedTransaction): string {
+    this.record(transaction);
+    return transaction.providerTransactionId;
+  }
+
+  private record(transaction: AggregatedTransaction): void {
+    this.transactions.set(transaction.providerTransactionId, transaction);
+    this.log(transaction.accountId, { kind: 'upsert', transaction });
+  }
+
+  private log(accountId: string, change: Change): void {
+    this.changes.set(accountId, [...(this.changes.get(accountId) ?? []), change]);
+  }
+
+  private get(providerTransactionId: string): AggregatedTransaction {
+    const transaction = this.transactions.get(providerTransactionId);
+    if (!transaction) {
+      throw new Error(`Unknown transaction ${providerTransactionId}`);
+    }
+    return transaction;
+  }
+
+  private nextId(): string {
+    return `ptx_${Math.random().toString(36).substring(2, 10)}`;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * MicroRepay Transaction Aggregator
+ *
+ * This module defines the interface ingestion uses to pull card and bank
+ * transactions from an open-banking aggregator. Aggregators page through
+ * an account's changes with an opaque cursor: each page holds transactions
+ * added or changed since the cursor, and pending transactions that were
+ * dropped without posting. Refunds and chargebacks arrive as transactions
+ * with a negative amount.
+ */
+
+import { TransactionStatus } from '../../types';
+
+export interface AggregatedTransaction {
+  providerTransactionId: string;
+  accountId: string;
+  amount: number; // Positive for purchases, negative for refunds
+  merchantName: string;
+  category: string;
+  date: string;
+  status: TransactionStatus;
+  // On a posted transaction, the pending one it replaces when the provider
+  // posts under a new ID
+  pendingTransactionId?: string;
+  // On a refund, the purchase it refunds when the provider knows it
+  refundedTransactionId?: string;
+  chargeback?: boolean; // A refund forced through a card dispute
+}
+
+export interface TransactionPage {
+  transactions: AggregatedTransaction[];
+  removed: string[]; // Provider IDs of pending transactions that will never post
+  nextCursor: string;
+  hasMore: boolean;
+}
+
+export interface TransactionAggregator {
+  /** Changes to the account after `cursor`, or from the start without one. */
+  fetchTransactions(accessToken: string, accountId: string, cursor?: string): Promise<TransactionPage>;
+}
@@ -0,0 +1,317 @@
+/**
+ * MicroRepay Transaction Ingestion
+ *
+ * This module pulls card and bank transactions for a user's linked
+ * accounts from a `TransactionAggregator` and stores them for round-ups.
+ *
+ * - Transactions are deduplicated by the provider's transaction ID, so a
+ *   page fetched twice or a transaction sent again changes nothing.
+ * - Pending transactions are stored without a round-up. The round-up is
+ *   only decided and accrued once the transaction posts, whether it posts
+ *   under its own ID or under a new one pointing back at the pending one.
+ * - Pending transactions the provider drops are deleted.
+ * - Refunds and chargebacks are stored as such and never rounded up. Once
+ *   posted, each is matched to the purchase it refunds, by the provider's
+ *   link or else by merchant and amount, and takes back its share of the
+ *   purchase's round-up (see `reverseRoundUp`).
+ *
+ * Each page is applied in one database transaction together with the
+ * account's cursor, so a failed page is fetched again on the next run.
+ */
+
+import { Database } from '../database/Database';
+import { TransactionRepository } from '../database/repositories/TransactionRepository';
+import { UserRepository } from '../database/repositories/UserRepository';
+import type { CreditorIntegration, CreditorLink } from '../integration/CreditorIntegration';
+import { Money } from '../money/Money';
+import { accrueRoundUp } from '../roundup/accrual';
+import { reverseRoundUp } from '../roundup/reversal';
+import { Clock, systemClock } from '../scheduler/Clock';
+import { Transaction, UserPreferences } from '../../types';
+import { AggregatedTransaction, TransactionAggregator, TransactionPage } from './TransactionAggregator';
+
+export type IngestionOutcome = 'pending' | 'posted' | 'updated' | 'duplicate';
+
+export interface IngestionResult {
+  creditorId: string;
+  accountId: string;
+  status: 'ingested' | 'failed';
+  reason?: string;
+  outcomes: Record<IngestionOutcome, number>;
+  removed: number;
+  roundUpTotal: number;
+  reversedTotal: number; // Round-ups taken back by refunds
+}
+
+export interface TransactionIngestionOptions {
+  intervalMs?: number; // How often watched users are ingested; defaults to 5 minutes
+}
+
+type IngestedFields = Pick<
+  Transaction,
+  'providerTransactionId' | 'merchantName' | 'amount' | 'date' | 'category' | 'type' | 'status'
+>;
+
+/**
+ * What ingesting `incoming` does, given the stored transaction it matches:
+ * the one with the same provider ID or, for a transaction posted under a
+ * new ID, the pending one it replaces. Posted transactions are final.
+ */
+export function classifyIngestedTransaction(
+  incoming: Pick<AggregatedTransaction, 'status'>,
+  match?: Pick<Transaction, 'status'>
+): IngestionOutcome {
+  if (match?.status === 'posted') return 'duplicate';
+  if (incoming.status === 'posted') return 'posted';
+  return match ? 'updated' : 'pending';
+}
+
+/** The stored form of an aggregated transaction; refunds keep a positive amount. */
+export function fromAggregatedTransaction(incoming: AggregatedTransaction): IngestedFields {
+  const amount = Money.of(incoming.amount);
+  return {
+    providerTransactionId: incoming.providerTransactionId,
+    merchantName: incoming.merchantName,
+    amount: amount.abs().toNumber(),
+    date: incoming.date,
+    category: incoming.category,
+    type: amount.isNegative() ? (incoming.chargeback ? 'chargeback' : 'refund') : 'purchase',
+    status: incoming.status
+  };
+}
+
+export class TransactionIngestion {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly watched = new Set<string>();
+  private readonly inFlight = new Map<string, Promise<IngestionResult[]>>();
+
+  constructor(
+    private readonly database: Database,
+    private readonly aggregator: TransactionAggregator,
+    private readonly creditors: Pick<CreditorIntegration, 'getUserCreditors'>,
+    private readonly clock: Clock = systemClock,
+    private readonly options: TransactionIngestionOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.runDue();
+    }, this.options.intervalMs ?? 5 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Ingests the user's accounts now and on every later run, e.g. once they link a bank. */
+  watch(userId: string): Promise<IngestionResult[]> {
+    this.watched.add(userId);
+    return this.ingest(userId);
+  }
+
+  unwatch(userId: string): void {
+    this.watched.delete(userId);
+  }
+
+  /** Ingests every watched user. */
+  async runDue(): Promise<IngestionResult[]> {
+    const results: IngestionResult[] = [];
+    for (const userId of this.watched) {
+      results.push(...(await this.ingest(userId)));
+    }
+    return results;
+  }
+
+  /**
+   * Ingests new transactions for each of the user's linked accounts.
+   * Overlapping calls for the same user share the run in progress.
+   */
+  ingest(userId: string): Promise<IngestionResult[]> {
+    let running = this.inFlight.get(userId);
+    if (!running) {
+      running = this.ingestUser(userId).finally(() => {
+        this.inFlight.delete(userId);
+      });
+      this.inFlight.set(userId, running);
+    }
+    return running;
+  }
+
+  private async ingestUser(userId: string): Promise<IngestionResult[]> {
+    const results: IngestionResult[] = [];
+    for (const link of await this.creditors.getUserCreditors(userId)) {
+      results.push(await this.ingestAccount(userId, link));
+    }
+    return results;
+  }
+
+  private async ingestAccount(userId: string, link: CreditorLink): Promise<IngestionResult> {
+    const result: IngestionResult = {
+      creditorId: link.creditorId,
+      accountId: link.accountId,
+      status: 'ingested',
+      outcomes: { pending: 0, posted: 0, updated: 0, duplicate: 0 },
+      removed: 0,
+      roundUpTotal: 0,
+      reversedTotal: 0
+    };
+
+    try {
+      let cursor = await new TransactionRepository(this.database).findCursor(
+        userId,
+        link.creditorId,
+        link.accountId
+      );
+      let page: TransactionPage;
+      do {
+        page = await this.aggregator.fetchTransactions(link.accessToken, link.accountId, cursor);
+        await this.applyPage(userId, link, page, result);
+        cursor = page.nextCursor;
+      } while (page.hasMore);
+    } catch (error) {
+      console.error(`Transaction ingestion failed for account ${link.accountId}:`, error);
+      result.status = 'failed';
+      result.reason = error instanceof Error ? error.message : 'Unknown error';
+    }
+    return result;
+  }
+
+  private async applyPage(
+    userId: string,
+    link: CreditorLink,
+    page: TransactionPage,
+    result: IngestionResult
+  ): Promise<void> {
+    const tally = {
+      outcomes: { ...result.outcomes },
+      removed: result.removed,
+      roundUpTotal: Money.of(result.roundUpTotal),
+      reversedTotal: Money.of(result.reversedTotal)
+    };
+
+    await this.database.transaction(async tx => {
+      const transactions = new TransactionRepository(tx);
+      const user = await new UserRepository(tx).findById(userId);
+      if (!user) {
+        throw new Error(`User ${userId} not found`);
+      }
+
+      for (const incoming of page.transactions) {
+        const { outcome, roundUp, reversed } = await this.applyTransaction(
+          tx,
+          userId,
+          link.accountId,
+          user.preferences,
+          incoming
+        );
+        tally.outcomes[outcome] += 1;
+        tally.roundUpTotal = tally.roundUpTotal.plus(Money.of(roundUp));
+        tally.reversedTotal = tally.reversedTotal.plus(Money.of(reversed));
+      }
+
+      for (const providerTransactionId of page.removed) {
+        const pending = await transactions.findByProviderId(userId, link.accountId, providerTransactionId);
+        if (pending && (await transactions.deletePending(pending.id))) {
+          tally.removed += 1;
+        }
+      }
+
+      await transactions.saveCursor(
+        userId,
+        link.creditorId,
+        link.accountId,
+        page.nextCursor,
+        this.clock.now().toISOString()
+      );
+    });
+
+    // Only counted once the page has committed
+    result.outcomes = tally.outcomes;
+    result.removed = tally.removed;
+    result.roundUpTotal = tally.roundUpTotal.toNumber();
+    result.reversedTotal = tally.reversedTotal.toNumber();
+  }
+
+  private async applyTransaction(
+    tx: Database,
+    userId: string,
+    accountId: string,
+    preferences: Pick<UserPreferences, 'roundUpThreshold' | 'roundUpRules' | 'refundPolicy'>,
+    incoming: AggregatedTransaction
+  ): Promise<{ outcome: IngestionOutcome; roundUp: number; reversed: number }> {
+    const transactions = new TransactionRepository(tx);
+    const match =
+      (await transactions.findByProviderId(userId, accountId, incoming.providerTransactionId)) ??
+      (incoming.pendingTransactionId
+        ? await transactions.findByProviderId(userId, accountId, incoming.pendingTransactionId)
+        : null);
+
+    const outcome = classifyIngestedTransaction(incoming, match ?? undefined);
+    if (outcome === 'duplicate') {
+      return { outcome, roundUp: 0, reversed: 0 };
+    }
+
+    const fields = fromAggregatedTransaction(incoming);
+    const id = match?.id ?? `TXN-${Math.random().toString(36).substring(2, 10).toUpperCase()}`;
+    const roundUp = outcome === 'posted' && fields.type === 'purchase'
+      ? (await accrueRoundUp(tx, preferences, { ...fields, id, userId })).amount
+      : 0;
+    const processed = fields.status === 'posted';
+
+    if (match) {
+      await transactions.updateIngested({ id, ...fields, roundUpAmount: roundUp, processed });
+    } else {
+      await transactions.create({
+        id,
+        userId,
+        accountId,
+        ...fields,
+        roundUpAmount: roundUp,
+        processed,
+        transferredToWallet: false
+      });
+    }
+
+    if (outcome === 'posted' && fields.type !== 'purchase') {
+      const purchase = await this.findRefundedPurchase(tx, userId, accountId, incoming);
+      if (purchase) {
+        const reversal = await reverseRoundUp(tx, preferences.refundPolicy, { id, userId, ...fields }, purchase);
+        await transactions.recordReversal(id, purchase.id, reversal);
+        return { outcome, roundUp, reversed: reversal?.amount ?? 0 };
+      }
+    }
+    return { outcome, roundUp, reversed: 0 };
+  }
+
+  /**
+   * The posted purchase a refund refunds: the one the provider links it to,
+   * or else the latest from the same merchant with enough left to refund.
+   */
+  private async findRefundedPurchase(
+    tx: Database,
+    userId: string,
+    accountId: string,
+    refund: AggregatedTransaction
+  ): Promise<Transaction | null> {
+    const transactions = new TransactionRepository(tx);
+    const linked = refund.refundedTransactionId
+      ? await transactions.findByProviderId(userId, accountId, refund.refundedTransactionId)
+      : null;
+    if (linked) {
+      return linked.type === 'purchase' && linked.status === 'posted' ? linked : null;
+    }
+
+    return transactions.findRefundablePurchase(
+      userId,
+      accountId,
+      refund.merchantName,
+      Money.of(refund.amount).abs().toNumber(),
+      refund.date
+    );
+  }
+}
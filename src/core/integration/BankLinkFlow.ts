@@ -0,0 +1,167 @@
+/**
+ * MicroRepay Bank Link Flow
+ *
+ * This module links bank accounts through a `BankLinkProvider` in three
+ * steps:
+ *
+ * 1. `begin` records a random state for the user and returns the
+ *    provider's authorization URL to send them to.
+ * 2. `handleCallback` takes the code and state the provider redirects back
+ *    with, checks the state belongs to this user and has not expired, and
+ *    exchanges the code for tokens. It returns the accounts the user
+ *    shared so they can choose which to link.
+ * 3. `selectAccounts` stores a link for each chosen account through
+ *    `CreditorIntegration`, with the tokens sealed like any other link.
+ *
+ * Each state and each authorized session can be used once. Tokens are
+ * only held in memory between steps 2 and 3.
+ */
+
+import { Clock, systemClock } from '../scheduler/Clock';
+import type { CreditorIntegration, TokenGrant } from './CreditorIntegration';
+import type { CreditorLinkSummary } from './CreditorLinkStore';
+import { BankAccount, BankLinkProvider } from './BankLinkProvider';
+
+export type BankLinkErrorCode = 'invalid_state' | 'expired' | 'denied' | 'invalid_callback' | 'unknown_account';
+
+export class BankLinkError extends Error {
+  constructor(readonly code: BankLinkErrorCode, message: string) {
+    super(message);
+    this.name = 'BankLinkError';
+  }
+}
+
+export interface BankLinkStart {
+  state: string;
+  authorizationUrl: string;
+}
+
+/** Query parameters the provider redirects back with. */
+export interface BankLinkCallback {
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+export interface BankLinkAuthorization {
+  state: string;
+  institutionId: string;
+  accounts: BankAccount[];
+}
+
+export interface BankLinkFlowOptions {
+  sessionTtlMs?: number; // How long each step may take; defaults to 10 minutes
+}
+
+interface PendingAuthorization {
+  userId: string;
+  institutionId: string;
+  redirectUri: string;
+  startedAt: number;
+}
+
+interface AuthorizedSession {
+  userId: string;
+  institutionId: string;
+  grant: TokenGrant;
+  accounts: BankAccount[];
+  startedAt: number;
+}
+
+function randomState(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class BankLinkFlow {
+  private readonly pending = new Map<string, PendingAuthorization>();
+  private readonly authorized = new Map<string, AuthorizedSession>();
+
+  constructor(
+    private readonly provider: BankLinkProvider,
+    private readonly creditors: Pick<CreditorIntegration, 'linkAccount'>,
+    private readonly clock: Clock = systemClock,
+    private readonly options: BankLinkFlowOptions = {}
+  ) {}
+
+  begin(userId: string, institutionId: string, redirectUri: string): BankLinkStart {
+    const state = randomState();
+    this.pending.set(state, { userId, institutionId, redirectUri, startedAt: this.clock.now().getTime() });
+    return {
+      state,
+      authorizationUrl: this.provider.authorizationUrl({ institutionId, redirectUri, state })
+    };
+  }
+
+  async handleCallback(userId: string, callback: BankLinkCallback): Promise<BankLinkAuthorization> {
+    const state = callback.state ?? '';
+    const request = this.take(this.pending, state, userId);
+
+    if (callback.error) {
+      throw new BankLinkError('denied', `The bank did not authorize the link: ${callback.error}`);
+    }
+    if (!callback.code) {
+      throw new BankLinkError('invalid_callback', 'The bank did not return an authorization code');
+    }
+
+    const grant = await this.provider.exchangeCode(callback.code, request.redirectUri);
+    const accounts = await this.provider.listAccounts(grant.accessToken);
+    this.authorized.set(state, {
+      userId,
+      institutionId: request.institutionId,
+      grant,
+      accounts,
+      startedAt: this.clock.now().getTime()
+    });
+
+    return { state, institutionId: request.institutionId, accounts };
+  }
+
+  async selectAccounts(userId: string, state: string, accountIds: string[]): Promise<CreditorLinkSummary[]> {
+    const session = this.find(this.authorized, state, userId);
+    const unknown = accountIds.find(accountId => !session.accounts.some(account => account.id === accountId));
+    if (unknown !== undefined) {
+      throw new BankLinkError('unknown_account', `Account ${unknown} was not shared by the bank`);
+    }
+    if (accountIds.length === 0) {
+      throw new BankLinkError('unknown_account', 'Select at least one account to link');
+    }
+    this.authorized.delete(state);
+
+    const links: CreditorLinkSummary[] = [];
+    for (const accountId of new Set(accountIds)) {
+      links.push(await this.creditors.linkAccount(userId, {
+        creditorId: session.institutionId,
+        accountId,
+        ...session.grant
+      }));
+    }
+    return links;
+  }
+
+  /** Finds and consumes a step's session. */
+  private take<T extends { userId: string; startedAt: number }>(
+    sessions: Map<string, T>,
+    state: string,
+    userId: string
+  ): T {
+    const session = this.find(sessions, state, userId);
+    sessions.delete(state);
+    return session;
+  }
+
+  private find<T extends { userId: string; startedAt: number }>(
+    sessions: Map<string, T>,
+    state: string,
+    userId: string
+  ): T {
+    const session = sessions.get(state);
+    if (!session || session.userId !== userId) {
+      throw new BankLinkError('invalid_state', 'This bank link request is unknown or was already used');
+    }
+    if (this.clock.now().getTime() - session.startedAt > (this.options.sessionTtlMs ?? 10 * 60 * 1000)) {
+      sessions.delete(state);
+      throw new BankLinkError('expired', 'This bank link request has expired; start again');
+    }
+    return session;
+  }
+}
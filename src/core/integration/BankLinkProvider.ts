@@ -0,0 +1,35 @@
+/**
+ * MicroRepay Bank Link Provider
+ *
+ * This module defines the interface to an open-banking provider that links
+ * bank accounts with an OAuth-style authorization code flow. The user signs
+ * in and consents on the provider's own pages; MicroRepay only ever sees
+ * the authorization code and the tokens it is exchanged for, never the
+ * user's bank credentials.
+ */
+
+import type { TokenGrant } from './CreditorIntegration';
+
+export type BankAccountType = 'checking' | 'savings' | 'credit_card';
+
+export interface BankAccount {
+  id: string;
+  name: string;
+  mask: string; // Last four digits of the account number
+  type: BankAccountType;
+}
+
+export interface BankAuthorizationRequest {
+  institutionId: string;
+  redirectUri: string; // Where the provider sends the user back with a code
+  state: string; // Echoed back unchanged, to tie the callback to this request
+}
+
+export interface BankLinkProvider {
+  /** The provider page the user is sent to for signing in and consenting. */
+  authorizationUrl(request: BankAuthorizationRequest): string;
+  /** Exchanges a one-time authorization code for tokens. */
+  exchangeCode(code: string, redirectUri: string): Promise<TokenGrant>;
+  /** The accounts the user shared with the app. */
+  listAccounts(accessToken: string): Promise<BankAccount[]>;
+}
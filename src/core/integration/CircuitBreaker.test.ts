@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock } from '../scheduler/Clock';
+import { CircuitBreaker, CircuitOpenError } from './CircuitBreaker';
+
+const fail = () => Promise.reject(new Error('creditor down'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and rejects calls without making them', async () => {
+    const clock = new ManualClock('2026-10-18T00:00:00Z');
+    const breaker = new CircuitBreaker('creditor', { failureThreshold: 2, resetTimeoutMs: 1000 }, () => true, clock);
+
+    await expect(breaker.execute(fail)).rejects.toThrow('creditor down');
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('creditor down');
+    expect(breaker.state).toBe('open');
+
+    let called = false;
+    await expect(breaker.execute(async () => (called = true))).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(called).toBe(false);
+  });
+
+  it('closes again after a successful trial call once the timeout passes', async () => {
+    const clock = new ManualClock('2026-10-18T00:00:00Z');
+    const breaker = new CircuitBreaker('creditor', { failureThreshold: 1, resetTimeoutMs: 1000 }, () => true, clock);
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    clock.advance(1000);
+    expect(breaker.state).toBe('half_open');
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('reopens for another timeout when the trial call fails', async () => {
+    const clock = new ManualClock('2026-10-18T00:00:00Z');
+    const breaker = new CircuitBreaker('creditor', { failureThreshold: 1, resetTimeoutMs: 1000 }, () => true, clock);
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    clock.advance(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.state).toBe('open');
+    clock.advance(999);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('does not count errors that are not the creditor failing', async () => {
+    const clock = new ManualClock('2026-10-18T00:00:00Z');
+    const breaker = new CircuitBreaker('creditor', { failureThreshold: 1 }, () => false, clock);
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    expect(breaker.state).toBe('closed');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * MicroRepay Circuit Breaker
+ *
+ * Stops calling a creditor that keeps failing. The breaker starts closed
+ * and counts consecutive failures; at the threshold it opens and rejects
+ * calls without making them. Once the reset timeout has passed it lets a
+ * trial call through (half-open): success closes it again, failure
+ * reopens it for another timeout.
+ */
+
+import { Clock, systemClock } from '../scheduler/Clock';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the circuit; defaults to 5
+  resetTimeoutMs?: number; // How long the circuit stays open; defaults to 30 seconds
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly circuit: string,
+    readonly retryAt: Date
+  ) {
+    super(`Circuit for ${circuit} is open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    options: CircuitBreakerOptions = {},
+    // Decides which errors count against the creditor; others pass through
+    private readonly isFailure: (error: unknown) => boolean = () => true,
+    private readonly clock: Clock = systemClock
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.clock.now().getTime() - this.openedAt >= this.resetTimeoutMs ? 'half_open' : 'open';
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half_open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, new Date((this.openedAt ?? 0) + this.resetTimeoutMs));
+    }
+
+    const trial = state === 'half_open';
+    this.trialInFlight = trial;
+    try {
+      const result = await fn();
+      this.failures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.failures++;
+        if (trial || this.failures >= this.failureThreshold) {
+          this.openedAt = this.clock.now().getTime();
+        }
+      } else if (trial) {
+        // The creditor answered, so it is up again
+        this.failures = 0;
+        this.openedAt = null;
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
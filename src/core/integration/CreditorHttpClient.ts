@@ -0,0 +1,147 @@
+/**
+ * MicroRepay Creditor HTTP Client
+ *
+ * Minimal JSON-over-HTTP client used by the creditor adapters. Every
+ * request is bounded by a timeout, and every failure is raised as a
+ * `CreditorApiError` that says whether retrying can help: timeouts,
+ * network failures, rate limiting and server errors are retryable, while
+ * other client errors and malformed responses are permanent.
+ */
+
+export type CreditorErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'rate_limited'
+  | 'server'
+  | 'client'
+  | 'invalid_response';
+
+export class CreditorApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: CreditorErrorKind,
+    readonly retryable: boolean,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'CreditorApiError';
+  }
+}
+
+export function isRetryableCreditorError(error: unknown): boolean {
+  return error instanceof CreditorApiError && error.retryable;
+}
+
+/**
+ * Whether the creditor may have acted on a request that failed: it timed
+ * out, the connection dropped, or the server failed while handling it.
+ * Rate limiting and client errors mean the request was turned away.
+ */
+export function isUncertainCreditorError(error: unknown): boolean {
+  return error instanceof CreditorApiError &&
+    (error.kind === 'timeout' || error.kind === 'network' || (error.kind === 'server' && error.retryable));
+}
+
+/** Classifies an HTTP error status as retryable or permanent. */
+export function creditorErrorForStatus(status: number, message: string, retryAfterMs?: number): CreditorApiError {
+  if (status === 408) {
+    return new CreditorApiError(message, 'timeout', true, status, retryAfterMs);
+  }
+  if (status === 429) {
+    return new CreditorApiError(message, 'rate_limited', true, status, retryAfterMs);
+  }
+  // 501 and 505 will not start working on a retry
+  if (status >= 500 && status !== 501 && status !== 505) {
+    return new CreditorApiError(message, 'server', true, status, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new CreditorApiError(message, 'server', false, status);
+  }
+  return new CreditorApiError(message, 'client', false, status);
+}
+
+export interface CreditorHttpRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  accessToken?: string; // Omitted for token requests, which authenticate with the API key alone
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export class CreditorHttpClient {
+  constructor(
+    private readonly endpoint: string,
+    private readonly apiKey: string,
+    private readonly timeoutMs: number = 10000
+  ) {}
+
+  async request<T>(request: CreditorHttpRequest): Promise<T> {
+    const url = `${this.endpoint.replace(/\/+$/, '')}${request.path}`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(url, {
+        method: request.method,
+        headers: {
+          Accept: 'application/json',
+          ...(request.accessToken !== undefined ? { Authorization: `Bearer ${request.accessToken}` } : {}),
+          'X-Api-Key': this.apiKey ?? '',
+          ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...request.headers
+        },
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal
+      });
+      text = await response.text();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new CreditorApiError(
+          `${request.method} ${request.path} timed out after ${this.timeoutMs}ms`,
+          'timeout',
+          true
+        );
+      }
+      throw new CreditorApiError(
+        `${request.method} ${request.path} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'network',
+        true
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw creditorErrorForStatus(
+        response.status,
+        `${request.method} ${request.path} returned ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+        this.parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    try {
+      return (text ? JSON.parse(text) : null) as T;
+    } catch {
+      throw new CreditorApiError(
+        `${request.method} ${request.path} returned a body that is not JSON`,
+        'invalid_response',
+        false,
+        response.status
+      );
+    }
+  }
+
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,246 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CreditorConfig, CreditorIntegration, PaymentOutcomeUnknownError } from './CreditorIntegration';
+import { CreditorLinkStore } from './CreditorLinkStore';
+import { CreditorRegistry } from './CreditorRegistry';
+import { MockCreditorServer, startMockCreditorServer } from './MockCreditorServer';
+import { Database } from '../database/Database';
+import { IdempotencyRepository } from '../database/repositories/IdempotencyRepository';
+import { ManualClock } from '../scheduler/Clock';
+import { TokenCipher } from '../security/TokenCipher';
+import { TEST_USER_ID, createUser, testDatabase } from '../testing/fixtures';
+
+const ACCOUNT_ID = 'acc789012';
+const TIMEOUT_MS = 1000;
+
+describe('CreditorIntegration payments to a creditor without idempotency keys', () => {
+  let server: MockCreditorServer;
+  let db: Database;
+  let creditors: CreditorIntegration;
+
+  beforeEach(async () => {
+    server = await startMockCreditorServer();
+    db = await testDatabase();
+    await createUser(db);
+
+    const registry = new CreditorRegistry();
+    registry.register({ id: 'bank', type: 'bank', endpoint: server.url, version: 'v1', timeoutMs: TIMEOUT_MS });
+    const links = new CreditorLinkStore(
+      db,
+      new TokenCipher({ algorithm: 'AES-256-GCM', keyRotation: '30d' }, [{ id: 'k1', key: TokenCipher.generateKey() }])
+    );
+    creditors = new CreditorIntegration(registry, links);
+    await creditors.linkAccount(TEST_USER_ID, { creditorId: 'bank', accountId: ACCOUNT_ID, accessToken: 'token' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const pay = (key: string) => creditors.makePayment(TEST_USER_ID, 'bank', ACCOUNT_ID, 25, { idempotencyKey: key, db });
+  const keyStatus = async (key: string) =>
+    (await new IdempotencyRepository(db).find('creditor_payment', key))?.status;
+  const postCount = () => server.requests.filter(request => request.method === 'POST').length;
+
+  it('fails the key when the creditor refuses the payment, so it can be retried', async () => {
+    server.failNext(422);
+
+    await expect(pay('key-1')).rejects.not.toBeInstanceOf(PaymentOutcomeUnknownError);
+    expect(await keyStatus('key-1')).toBe('failed');
+
+    const result = await pay('key-1');
+    expect(result.success).toBe(true);
+    expect(server.payments.size).toBe(1);
+  });
+
+  it('leaves the key unresolved after a timeout and completes it once the payment is found', async () => {
+    server.delayNext(TIMEOUT_MS + 500);
+
+    await expect(pay('key-1')).rejects.toBeInstanceOf(PaymentOutcomeUnknownError);
+    expect(await keyStatus('key-1')).toBe('unknown');
+    await expect(pay('key-1')).rejects.toMatchObject({ name: 'IdempotencyConflictError', reason: 'in_progress' });
+    expect(postCount()).toBe(1);
+
+    // The creditor finishes the request the client gave up on
+    while (server.payments.size === 0) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    const [taken] = [...server.payments.values()];
+
+    const found = await creditors.resolvePayment(TEST_USER_ID, 'bank', ACCOUNT_ID, 'key-1', db);
+    expect(found?.confirmationNumber).toBe(taken.id);
+    expect(await keyStatus('key-1')).toBe('completed');
+
+    const replay = await pay('key-1');
+    expect(replay.confirmationNumber).toBe(taken.id);
+    expect(server.payments.size).toBe(1);
+  });
+
+  it('fails an unresolved key the creditor has no record of, so it can be retried', async () => {
+    server.failNext(503);
+
+    await expect(pay('key-1')).rejects.toBeInstanceOf(PaymentOutcomeUnknownError);
+    expect(await keyStatus('key-1')).toBe('unknown');
+
+    expect(await creditors.resolvePayment(TEST_USER_ID, 'bank', ACCOUNT_ID, 'key-1', db)).toBeNull();
+    expect(await keyStatus('key-1')).toBe('failed');
+
+    await pay('key-1');
+    expect(server.payments.size).toBe(1);
+  });
+
+  it('leaves a completed key alone when the payment is looked up again', async () => {
+    const result = await pay('key-1');
+
+    const found = await creditors.resolvePayment(TEST_USER_ID, 'bank', ACCOUNT_ID, 'key-1', db);
+
+    expect(found?.confirmationNumber).toBe(result.confirmationNumber);
+    expect(await keyStatus('key-1')).toBe('completed');
+    await expect(pay('key-1')).resolves.toEqual(result);
+  });
+
+  describe('taking over a key left in progress by an attempt that died', () => {
+    const abandon = (key: string) => new IdempotencyRepository(db).claim(
+      'creditor_payment',
+      key,
+      JSON.stringify({ userId: TEST_USER_ID, creditorId: 'bank', accountId: ACCOUNT_ID, amount: 25 }),
+      '2026-01-01T00:00:00.000Z'
+    );
+
+    it('returns the payment the creditor already took instead of paying again', async () => {
+      await abandon('key-1');
+      server.payments.set('MOCK-EARLIER', {
+        id: 'MOCK-EARLIER',
+        accountId: ACCOUNT_ID,
+        amount: 25,
+        reference: 'key-1',
+        status: 'accepted',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      });
+
+      const result = await pay('key-1');
+
+      expect(result.confirmationNumber).toBe('MOCK-EARLIER');
+      expect(postCount()).toBe(0);
+      expect(await keyStatus('key-1')).toBe('completed');
+    });
+
+    it('pays once the creditor confirms it has no record of the payment', async () => {
+      await abandon('key-1');
+
+      const result = await pay('key-1');
+
+      expect(postCount()).toBe(1);
+      expect(server.payments.get(result.confirmationNumber)?.reference).toBe('key-1');
+    });
+  });
+});
+
+describe('CreditorIntegration calls to a failing creditor', () => {
+  let server: MockCreditorServer;
+  let db: Database;
+  let clock: ManualClock;
+
+  beforeEach(async () => {
+    server = await startMockCreditorServer();
+    db = await testDatabase();
+    await createUser(db);
+    clock = new ManualClock('2026-10-18T12:00:00.000Z');
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  /** Links the test user to a creditor on the mock server; retry backoff passes on `clock`. */
+  async function connect(config: Partial<CreditorConfig> = {}): Promise<CreditorIntegration> {
+    const registry = new CreditorRegistry({}, [], undefined, { clock });
+    registry.register({
+      id: 'bank',
+      type: 'bank',
+      endpoint: server.url,
+      version: 'v1',
+      timeoutMs: TIMEOUT_MS,
+      ...config
+    });
+    const links = new CreditorLinkStore(
+      db,
+      new TokenCipher({ algorithm: 'AES-256-GCM', keyRotation: '30d' }, [{ id: 'k1', key: TokenCipher.generateKey() }])
+    );
+    const creditors = new CreditorIntegration(registry, links, clock);
+    await creditors.linkAccount(TEST_USER_ID, { creditorId: 'bank', accountId: ACCOUNT_ID, accessToken: 'token' });
+    return creditors;
+  }
+
+  const balanceOf = async (creditors: CreditorIntegration) => (await creditors.getDebtBalances(TEST_USER_ID))[0];
+  const requestCount = (method: string) => server.requests.filter(request => request.method === method).length;
+  const waited = () => clock.now().getTime() - new Date('2026-10-18T12:00:00.000Z').getTime();
+
+  it('retries a transient failure with exponential backoff', async () => {
+    const creditors = await connect();
+    server.failNext(503, 2);
+
+    expect((await balanceOf(creditors)).status).toBe('ok');
+    expect(requestCount('GET')).toBe(3);
+    expect(waited()).toBe(1000 + 2000);
+  });
+
+  it('waits as long as the creditor asks when that is longer than the backoff', async () => {
+    const creditors = await connect();
+    server.failNext(429, 1, 5);
+
+    expect((await balanceOf(creditors)).status).toBe('ok');
+    expect(waited()).toBe(5000);
+  });
+
+  it('gives up after the last retry', async () => {
+    const creditors = await connect();
+    server.failNext(503, 4);
+
+    expect((await balanceOf(creditors)).status).toBe('error');
+    expect(requestCount('GET')).toBe(4);
+  });
+
+  it('does not retry a request the creditor turned down', async () => {
+    const creditors = await connect();
+    server.failNext(404);
+
+    expect((await balanceOf(creditors)).status).toBe('error');
+    expect(requestCount('GET')).toBe(1);
+  });
+
+  it('retries a request that timed out', async () => {
+    const creditors = await connect();
+    server.delayNext(TIMEOUT_MS + 500);
+
+    expect((await balanceOf(creditors)).status).toBe('ok');
+    expect(requestCount('GET')).toBe(2);
+  });
+
+  it('retries a payment to a creditor that deduplicates by key', async () => {
+    const creditors = await connect({ version: 'v2' });
+    server.failNext(503);
+
+    const result = await creditors.makePayment(TEST_USER_ID, 'bank', ACCOUNT_ID, 25, { idempotencyKey: 'key-1', db });
+
+    expect(result.success).toBe(true);
+    expect(requestCount('POST')).toBe(2);
+    expect(server.payments.size).toBe(1);
+  });
+
+  it('stops calling a creditor whose circuit opened until the reset timeout passes', async () => {
+    const creditors = await connect({ circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } });
+    server.failNext(503, 2);
+
+    const opened = await balanceOf(creditors);
+    expect(opened).toMatchObject({ status: 'error', error: expect.stringContaining('Circuit for creditor bank is open') });
+    expect(requestCount('GET')).toBe(2);
+
+    expect((await balanceOf(creditors)).status).toBe('error');
+    expect(requestCount('GET')).toBe(2);
+
+    clock.advance(60000);
+    expect((await balanceOf(creditors)).status).toBe('ok');
+    expect(requestCount('GET')).toBe(3);
+  });
+});
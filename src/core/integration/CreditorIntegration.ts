@@ -5,18 +5,50 @@
  * updates and payment processing.
  */
 
+import { Database } from '../database/Database';
+import { IdempotencyRepository } from '../database/repositories/IdempotencyRepository';
+import { IdempotencyGuard, OutcomeUnknownError } from '../idempotency/IdempotencyGuard';
+import { Clock, systemClock } from '../scheduler/Clock';
+import {
+  CreditorApiError,
+  CreditorHttpClient,
+  isRetryableCreditorError,
+  isUncertainCreditorError
+} from './CreditorHttpClient';
+import { CreditorApiMapping, resolveApiVersion } from './apiVersions';
+import type { CircuitBreakerOptions } from './CircuitBreaker';
+import type { CreditorLinkStore, CreditorLinkSummary, NewCreditorLink } from './CreditorLinkStore';
+import type { CreditorRegistry, RegisteredCreditor } from './CreditorRegistry';
+import type { RateLimit } from './RateLimiter';
+
 export interface CreditorConfig {
   id: string;
   type: 'bank' | 'credit_card' | 'loan_servicer' | 'generic';
   endpoint: string;
-  version: string;
+  version: string; // Creditor API version, e.g. "v1" or "v2"
+  timeoutMs?: number; // Per-request timeout; defaults to 10 seconds
+  rateLimit?: RateLimit; // Defaults to the registry's default limit, if any
+  circuitBreaker?: CircuitBreakerOptions;
+  syncIntervalMs?: number; // How often balances are synced; defaults to the sync job's interval
 }
 
+export type CreditorLinkStatus = 'active' | 'expired' | 'revoked';
+
 export interface CreditorLink {
+  id: string;
   userId: string;
   creditorId: string;
   accountId: string;
   accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string; // When the access token stops working; undefined if it does not expire
+  status: CreditorLinkStatus;
+}
+
+export interface TokenGrant {
+  accessToken: string;
+  refreshToken?: string; // Omitted when the creditor keeps the previous refresh token valid
+  expiresAt?: string;
 }
 
 export interface BalanceResponse {
@@ -26,249 +58,331 @@ export interface BalanceResponse {
   dueDate: string;
 }
 
+interface AccountBalanceBase {
+  creditorId: string;
+  accountId: string;
+}
+
+export interface FreshAccountBalance extends AccountBalanceBase {
+  status: 'ok';
+  balance: BalanceResponse;
+  fetchedAt: string;
+}
+
+// The last good balance, served because the creditor failed just now
+export interface StaleAccountBalance extends AccountBalanceBase {
+  status: 'stale';
+  balance: BalanceResponse;
+  fetchedAt: string;
+  error: string;
+}
+
+export interface FailedAccountBalance extends AccountBalanceBase {
+  status: 'error';
+  error: string;
+}
+
+export type AccountBalance = FreshAccountBalance | StaleAccountBalance | FailedAccountBalance;
+
 export interface PaymentResponse {
   confirmationNumber: string;
   processedDate: string;
   status: string;
 }
 
+export interface PaymentStatusResponse {
+  confirmationNumber: string;
+  status: string;
+  updatedAt: string;
+  reason?: string;
+}
+
 export interface PaymentRequest {
   amount: number;
   date: string;
   description: string;
+  idempotencyKey: string; // Same key for every attempt at one payment; also sent as its reference
+}
+
+/**
+ * A payment request failed in a way that leaves open whether the creditor
+ * took it: a timeout, a dropped connection or a server error. It must not
+ * be retried or treated as failed until `resolvePayment` finds out.
+ */
+export class PaymentOutcomeUnknownError extends OutcomeUnknownError {
+  constructor(
+    message: string,
+    readonly creditorId: string,
+    readonly accountId: string,
+    readonly idempotencyKey: string
+  ) {
+    super(message);
+    this.name = 'PaymentOutcomeUnknownError';
+  }
 }
 
 export interface CreditorAdapter {
+  // Whether the creditor API deduplicates payments by idempotency key
+  readonly supportsIdempotencyKeys: boolean;
   getBalance(accessToken: string, accountId: string): Promise<BalanceResponse>;
   makePayment(accessToken: string, accountId: string, payment: PaymentRequest): Promise<PaymentResponse>;
+  getPaymentStatus(accessToken: string, accountId: string, confirmationNumber: string): Promise<PaymentStatusResponse>;
+  // The payment sent with `reference`, or null if the creditor has none
+  findPayment(accessToken: string, accountId: string, reference: string): Promise<PaymentStatusResponse | null>;
+  refreshAccessToken(refreshToken: string): Promise<TokenGrant>;
 }
 
-export class BankAdapter implements CreditorAdapter {
-  constructor(
-    private readonly apiKey: string,
-    private readonly endpoint: string,
-    private readonly version: string
-  ) {}
+export interface PaymentOptions {
+  idempotencyKey: string;
+  // Where the key, its outcome and the user's links are read and written.
+  // Never a transaction handle: the key has to outlive a rollback, or a
+  // retry pays the creditor again. Without it the key is not recorded.
+  db?: Database;
+}
 
-  async getBalance(accessToken: string, accountId: string): Promise<BalanceResponse> {
-    console.log(`Getting balance for account ${accountId} from bank API`);
-    
-    return {
-      currentBalance: 15000.50,
-      interestRate: 0.0495,
-      minimumPayment: 150.25,
-      dueDate: "2025-05-15"
-    };
-  }
+export interface PaymentResult {
+  success: boolean;
+  confirmationNumber: string;
+  processedDate: string;
+  status: string; // As reported by the creditor
+  creditorId: string;
+  accountId: string;
+  amount: number;
+}
 
-  async makePayment(accessToken: string, accountId: string, payment: PaymentRequest): Promise<PaymentResponse> {
-    console.log(`Making payment of $${payment.amount} to account ${accountId}`);
-    
-    return {
-      confirmationNumber: `BANK-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
-      processedDate: new Date().toISOString(),
-      status: "processed"
-    };
-  }
+export interface CreditorAdapterOptions {
+  timeoutMs?: number;
+}
+
+/** The result of a payment the creditor took, as found by its reference. */
+function sentPaymentResult(
+  found: PaymentStatusResponse,
+  creditorId: string,
+  accountId: string,
+  amount: number
+): PaymentResult {
+  return {
+    success: true,
+    confirmationNumber: found.confirmationNumber,
+    processedDate: found.updatedAt,
+    status: found.status,
+    creditorId,
+    accountId,
+    amount
+  };
 }
 
-export class CreditCardAdapter implements CreditorAdapter {
+/**
+ * Adapter for a creditor's HTTP API. The configured version picks the
+ * request and response mapping; subclasses name the API resource their
+ * accounts live under.
+ */
+export abstract class HttpCreditorAdapter implements CreditorAdapter {
+  readonly supportsIdempotencyKeys: boolean;
+  protected abstract readonly resource: string;
+  private readonly client: CreditorHttpClient;
+  private readonly mapping: CreditorApiMapping;
+
   constructor(
-    private readonly apiKey: string,
-    private readonly endpoint: string,
-    private readonly version: string
-  ) {}
+    apiKey: string,
+    endpoint: string,
+    version: string,
+    options: CreditorAdapterOptions = {}
+  ) {
+    this.mapping = resolveApiVersion(version);
+    this.client = new CreditorHttpClient(endpoint, apiKey, options.timeoutMs);
+    this.supportsIdempotencyKeys = this.mapping.idempotencyHeader !== undefined;
+  }
 
   async getBalance(accessToken: string, accountId: string): Promise<BalanceResponse> {
-    console.log(`Getting balance for credit card ${accountId}`);
-    
-    return {
-      currentBalance: 2500.75,
-      interestRate: 0.1999,
-      minimumPayment: 50.00,
-      dueDate: "2025-05-20"
-    };
+    const body = await this.client.request({
+      method: 'GET',
+      path: this.mapping.balancePath(this.resource, accountId),
+      accessToken
+    });
+    return this.mapping.toBalance(body);
   }
 
   async makePayment(accessToken: string, accountId: string, payment: PaymentRequest): Promise<PaymentResponse> {
-    console.log(`Making payment of $${payment.amount} to credit card ${accountId}`);
-    
-    return {
-      confirmationNumber: `CC-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
-      processedDate: new Date().toISOString(),
-      status: "processed"
-    };
+    const { idempotencyHeader } = this.mapping;
+    const body = await this.client.request({
+      method: 'POST',
+      path: this.mapping.paymentPath(this.resource, accountId),
+      accessToken,
+      body: this.mapping.toPaymentBody(payment),
+      headers: idempotencyHeader ? { [idempotencyHeader]: payment.idempotencyKey } : undefined
+    });
+    return this.mapping.toPayment(body);
   }
-}
 
-export class LoanServicerAdapter implements CreditorAdapter {
-  constructor(
-    private readonly apiKey: string,
-    private readonly endpoint: string,
-    private readonly version: string
-  ) {}
+  async getPaymentStatus(
+    accessToken: string,
+    accountId: string,
+    confirmationNumber: string
+  ): Promise<PaymentStatusResponse> {
+    const body = await this.client.request({
+      method: 'GET',
+      path: this.mapping.paymentStatusPath(this.resource, accountId, confirmationNumber),
+      accessToken
+    });
+    return this.mapping.toPaymentStatus(body);
+  }
 
-  async getBalance(accessToken: string, accountId: string): Promise<BalanceResponse> {
-    console.log(`Getting balance for loan ${accountId}`);
-    
-    return {
-      currentBalance: 35000.00,
-      interestRate: 0.0399,
-      minimumPayment: 350.00,
-      dueDate: "2025-05-25"
-    };
+  async findPayment(accessToken: string, accountId: string, reference: string): Promise<PaymentStatusResponse | null> {
+    const body = await this.client.request({
+      method: 'GET',
+      path: this.mapping.paymentSearchPath(this.resource, accountId, reference),
+      accessToken
+    });
+    return this.mapping.toPaymentSearchResult(body);
   }
 
-  async makePayment(accessToken: string, accountId: string, payment: PaymentRequest): Promise<PaymentResponse> {
-    console.log(`Making payment of $${payment.amount} to loan ${accountId}`);
-    
-    return {
-      confirmationNumber: `LOAN-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
-      processedDate: new Date().toISOString(),
-      status: "processed"
-    };
+  async refreshAccessToken(refreshToken: string): Promise<TokenGrant> {
+    const body = await this.client.request({
+      method: 'POST',
+      path: this.mapping.tokenPath(),
+      body: this.mapping.toTokenBody(refreshToken)
+    });
+    return this.mapping.toTokenGrant(body, new Date());
   }
 }
 
-export class GenericCreditorAdapter implements CreditorAdapter {
-  constructor(
-    private readonly apiKey: string,
-    private readonly endpoint: string,
-    private readonly version: string
-  ) {}
+export class BankAdapter extends HttpCreditorAdapter {
+  protected readonly resource = 'accounts';
+}
 
-  async getBalance(accessToken: string, accountId: string): Promise<BalanceResponse> {
-    console.log(`Getting balance for generic creditor account ${accountId}`);
-    
-    return {
-      currentBalance: 10000.00,
-      interestRate: 0.0599,
-      minimumPayment: 100.00,
-      dueDate: "2025-05-30"
-    };
-  }
+export class CreditCardAdapter extends HttpCreditorAdapter {
+  protected readonly resource = 'cards';
+}
 
-  async makePayment(accessToken: string, accountId: string, payment: PaymentRequest): Promise<PaymentResponse> {
-    console.log(`Making payment of $${payment.amount} to generic creditor account ${accountId}`);
-    
-    return {
-      confirmationNumber: `GEN-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
-      processedDate: new Date().toISOString(),
-      status: "processed"
-    };
-  }
+export class LoanServicerAdapter extends HttpCreditorAdapter {
+  protected readonly resource = 'loans';
+}
+
+export class GenericCreditorAdapter extends HttpCreditorAdapter {
+  protected readonly resource = 'accounts';
 }
 
 export class CreditorIntegration {
-  private readonly creditorAdapters: Record<string, CreditorAdapter>;
   private readonly retryConfig = {
     maxRetries: 3,
     initialDelay: 1000,
     backoffFactor: 2
   };
+  // Last good balance per linked account, served while its creditor is failing
+  private readonly balanceCache = new Map<string, { balance: BalanceResponse; fetchedAt: string }>();
 
   constructor(
-    private readonly apiKeys: Record<string, string>,
-    private readonly config: { creditors: CreditorConfig[] }
-  ) {
-    this.creditorAdapters = this.initializeAdapters();
-  }
-
-  private initializeAdapters(): Record<string, CreditorAdapter> {
-    const adapters: Record<string, CreditorAdapter> = {};
-
-    for (const creditor of this.config.creditors) {
-      switch (creditor.type) {
-        case 'bank':
-          adapters[creditor.id] = new BankAdapter(
-            this.apiKeys[creditor.id],
-            creditor.endpoint,
-            creditor.version
-          );
-          break;
-
-        case 'credit_card':
-          adapters[creditor.id] = new CreditCardAdapter(
-            this.apiKeys[creditor.id],
-            creditor.endpoint,
-            creditor.version
-          );
-          break;
-
-        case 'loan_servicer':
-          adapters[creditor.id] = new LoanServicerAdapter(
-            this.apiKeys[creditor.id],
-            creditor.endpoint,
-            creditor.version
-          );
-          break;
-
-        default:
-          adapters[creditor.id] = new GenericCreditorAdapter(
-            this.apiKeys[creditor.id],
-            creditor.endpoint,
-            creditor.version
-          );
-      }
-    }
-
-    return adapters;
-  }
+    private readonly registry: CreditorRegistry,
+    private readonly links: CreditorLinkStore,
+    // Waits out the backoff between retries
+    private readonly clock: Clock = systemClock
+  ) {}
 
-  async getDebtBalances(userId: string): Promise<Record<string, any>> {
-    const userCreditors = await this.getUserCreditors(userId);
-    const balances: Record<string, any> = {};
+  /**
+   * Balances of the user's linked accounts, one entry per account,
+   * optionally only those at `creditorIds`. An account whose creditor fails
+   * gets its last good balance marked stale, or an error if it has none.
+   */
+  async getDebtBalances(userId: string, creditorIds?: string[]): Promise<AccountBalance[]> {
+    const userCreditors = (await this.getUserCreditors(userId)).filter(
+      link => !creditorIds || creditorIds.includes(link.creditorId)
+    );
 
-    const promises = userCreditors.map(async (creditorLink) => {
+    return Promise.all(userCreditors.map(async (creditorLink): Promise<AccountBalance> => {
       const { creditorId, accountId, accessToken } = creditorLink;
-      const adapter = this.creditorAdapters[creditorId];
+      const creditor = await this.registry.getCreditor(creditorId);
 
-      if (!adapter) {
+      if (!creditor) {
         console.error(`No adapter found for creditor ID: ${creditorId}`);
-        return;
+        return { status: 'error', creditorId, accountId, error: `No adapter found for creditor ID: ${creditorId}` };
       }
 
+      const cacheKey = `${userId}:${creditorId}:${accountId}`;
       try {
-        const balance = await this.executeWithRetry(() => 
-          adapter.getBalance(accessToken, accountId)
+        const balance = await this.executeWithRetry(() =>
+          this.callCreditor(creditor, adapter => adapter.getBalance(accessToken, accountId))
         );
+        const fetchedAt = new Date().toISOString();
+        this.balanceCache.set(cacheKey, { balance, fetchedAt });
 
-        balances[creditorId] = {
-          accountId,
-          balance: balance.currentBalance,
-          interestRate: balance.interestRate,
-          minimumPayment: balance.minimumPayment,
-          dueDate: balance.dueDate,
-          lastUpdated: new Date().toISOString()
-        };
+        return { status: 'ok', creditorId, accountId, balance, fetchedAt };
       } catch (error) {
         console.error(`Failed to get balance for creditor ${creditorId}:`, error);
-        balances[creditorId] = {
-          accountId,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          lastUpdated: new Date().toISOString()
-        };
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const cached = this.balanceCache.get(cacheKey);
+        return cached
+          ? { status: 'stale', creditorId, accountId, ...cached, error: message }
+          : { status: 'error', creditorId, accountId, error: message };
       }
-    });
-
-    await Promise.allSettled(promises);
-    return balances;
+    }));
   }
 
+  /**
+   * Pays a creditor at most once per idempotency key. With a database, a replay
+   * returns the stored result of the first attempt; the key is also sent to
+   * creditors that deduplicate by key. Payments to creditors that do not are
+   * never retried automatically, since a retry could pay twice. A request
+   * the creditor may have taken throws `PaymentOutcomeUnknownError` and
+   * leaves the key unresolved until `resolvePayment` settles it. Taking
+   * over a key from an attempt that died asks the creditor for the payment
+   * before sending it again.
+   */
   async makePayment(
     userId: string,
     creditorId: string,
     accountId: string,
-    amount: number
-  ): Promise<{
-    success: boolean;
-    confirmationNumber: string;
-    processedDate: string;
-    creditorId: string;
-    accountId: string;
-    amount: number;
-  }> {
-    const userCreditors = await this.getUserCreditors(userId);
+    amount: number,
+    options: PaymentOptions
+  ): Promise<PaymentResult> {
+    const { db, idempotencyKey } = options;
+    if (!db) {
+      return this.submitPayment(this.links, userId, creditorId, accountId, amount, idempotencyKey);
+    }
+    if (db.inTransaction) {
+      throw new Error(
+        'Creditor payments cannot be made inside a transaction; their idempotency key would roll back with it'
+      );
+    }
+
+    const links = this.links.withDatabase(db);
+    return new IdempotencyGuard(new IdempotencyRepository(db)).run(
+      'creditor_payment',
+      idempotencyKey,
+      { userId, creditorId, accountId, amount },
+      async resumed => {
+        if (resumed) {
+          let found: PaymentStatusResponse | null;
+          try {
+            found = await this.findSentPayment(links, userId, creditorId, accountId, idempotencyKey);
+          } catch (error) {
+            throw new PaymentOutcomeUnknownError(
+              `Could not check whether creditor ${creditorId} took an earlier attempt: ${
+                error instanceof Error ? error.message : 'Unknown error'
+              }`,
+              creditorId,
+              accountId,
+              idempotencyKey
+            );
+          }
+          if (found) {
+            return sentPaymentResult(found, creditorId, accountId, amount);
+          }
+        }
+        return this.submitPayment(links, userId, creditorId, accountId, amount, idempotencyKey);
+      }
+    );
+  }
+
+  private async submitPayment(
+    links: CreditorLinkStore,
+    userId: string,
+    creditorId: string,
+    accountId: string,
+    amount: number,
+    idempotencyKey: string
+  ): Promise<PaymentResult> {
+    const userCreditors = await this.getUserCreditors(userId, links);
     const creditorLink = userCreditors.find(
       link => link.creditorId === creditorId && link.accountId === accountId
     );
@@ -277,21 +391,22 @@ export class CreditorIntegration {
       throw new Error(`User ${userId} does not have access to account ${accountId} with creditor ${creditorId}`);
     }
 
-    const adapter = this.creditorAdapters[creditorId];
-    if (!adapter) {
+    const creditor = await this.registry.getCreditor(creditorId);
+    if (!creditor) {
       throw new Error(`No adapter found for creditor ID: ${creditorId}`);
     }
 
     const payment: PaymentRequest = {
       amount,
       date: new Date().toISOString(),
-      description: 'MicroRepay automated payment'
+      description: 'MicroRepay automated payment',
+      idempotencyKey
     };
 
     try {
-      const result = await this.executeWithRetry(() => 
-        adapter.makePayment(creditorLink.accessToken, accountId, payment)
-      );
+      const pay = () =>
+        this.callCreditor(creditor, adapter => adapter.makePayment(creditorLink.accessToken, accountId, payment));
+      const result = creditor.adapter.supportsIdempotencyKeys ? await this.executeWithRetry(pay) : await pay();
 
       await this.logPayment(userId, creditorId, accountId, amount, result.confirmationNumber);
 
@@ -299,38 +414,174 @@ export class CreditorIntegration {
         success: true,
         confirmationNumber: result.confirmationNumber,
         processedDate: result.processedDate,
+        status: result.status,
         creditorId,
         accountId,
         amount
       };
     } catch (error) {
-      await this.logPaymentFailure(
-        userId,
-        creditorId,
-        accountId,
-        amount,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.logPaymentFailure(userId, creditorId, accountId, amount, message);
 
-      throw new Error(`Payment to creditor ${creditorId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (isUncertainCreditorError(error)) {
+        throw new PaymentOutcomeUnknownError(
+          `Payment to creditor ${creditorId} may have been made: ${message}`,
+          creditorId,
+          accountId,
+          idempotencyKey
+        );
+      }
+      throw new Error(`Payment to creditor ${creditorId} failed: ${message}`);
     }
   }
 
-  private async getUserCreditors(userId: string): Promise<CreditorLink[]> {
-    return [
-      {
-        userId,
-        creditorId: 'creditor1',
-        accountId: 'acc123456',
-        accessToken: 'token123'
-      },
-      {
-        userId,
-        creditorId: 'creditor2',
-        accountId: 'acc789012',
-        accessToken: 'token456'
+  /**
+   * Asks the creditor whether it took the payment sent with `idempotencyKey`,
+   * for a payment whose outcome was unknown. With a database, an unresolved
+   * key is settled by the answer: completed with the payment found, or
+   * failed, so it can be retried, if the creditor has no record of it.
+   */
+  async resolvePayment(
+    userId: string,
+    creditorId: string,
+    accountId: string,
+    idempotencyKey: string,
+    db?: Database
+  ): Promise<PaymentStatusResponse | null> {
+    const found = await this.findSentPayment(
+      db ? this.links.withDatabase(db) : this.links,
+      userId,
+      creditorId,
+      accountId,
+      idempotencyKey
+    );
+
+    const keys = db && new IdempotencyRepository(db);
+    const record = keys && (await keys.find('creditor_payment', idempotencyKey));
+    if (keys && record?.status === 'unknown') {
+      const now = new Date().toISOString();
+      if (found) {
+        const { amount } = JSON.parse(record.request) as { amount: number };
+        const result = sentPaymentResult(found, creditorId, accountId, amount);
+        await keys.complete('creditor_payment', idempotencyKey, JSON.stringify(result), now);
+      } else {
+        await keys.fail('creditor_payment', idempotencyKey, 'Creditor has no record of the payment', now);
       }
-    ];
+    }
+
+    return found;
+  }
+
+  private async findSentPayment(
+    links: CreditorLinkStore,
+    userId: string,
+    creditorId: string,
+    accountId: string,
+    reference: string
+  ): Promise<PaymentStatusResponse | null> {
+    const creditorLink = (await this.getUserCreditors(userId, links)).find(
+      link => link.creditorId === creditorId && link.accountId === accountId
+    );
+
+    if (!creditorLink) {
+      throw new Error(`User ${userId} does not have access to account ${accountId} with creditor ${creditorId}`);
+    }
+
+    const creditor = await this.registry.getCreditor(creditorId);
+    if (!creditor) {
+      throw new Error(`No adapter found for creditor ID: ${creditorId}`);
+    }
+
+    return this.executeWithRetry(() =>
+      this.callCreditor(creditor, adapter => adapter.findPayment(creditorLink.accessToken, accountId, reference))
+    );
+  }
+
+  async getPaymentStatus(
+    userId: string,
+    creditorId: string,
+    accountId: string,
+    confirmationNumber: string
+  ): Promise<PaymentStatusResponse> {
+    const userCreditors = await this.getUserCreditors(userId);
+    const creditorLink = userCreditors.find(
+      link => link.creditorId === creditorId && link.accountId === accountId
+    );
+
+    if (!creditorLink) {
+      throw new Error(`User ${userId} does not have access to account ${accountId} with creditor ${creditorId}`);
+    }
+
+    const creditor = await this.registry.getCreditor(creditorId);
+    if (!creditor) {
+      throw new Error(`No adapter found for creditor ID: ${creditorId}`);
+    }
+
+    return this.executeWithRetry(() =>
+      this.callCreditor(creditor, adapter =>
+        adapter.getPaymentStatus(creditorLink.accessToken, accountId, confirmationNumber)
+      )
+    );
+  }
+
+  /**
+   * Stores a newly authorized account link, replacing any earlier link to
+   * the same account. The creditor must be registered, since its adapter
+   * is what calls and refreshes the account later.
+   */
+  async linkAccount(userId: string, link: NewCreditorLink): Promise<CreditorLinkSummary> {
+    if (!(await this.registry.getAdapter(link.creditorId))) {
+      throw new Error(`Creditor ${link.creditorId} is not registered`);
+    }
+    const { id, creditorId, accountId, expiresAt, status } = await this.links.link(userId, link);
+    return { id, userId, creditorId, accountId, expiresAt, status };
+  }
+
+  /**
+   * Exchanges a link's refresh token for new tokens. If the creditor
+   * rejects the refresh token, the link is marked expired and the user has
+   * to link the account again.
+   */
+  async refreshLink(link: CreditorLink, links: CreditorLinkStore = this.links): Promise<CreditorLink> {
+    if (!link.refreshToken) {
+      await links.markExpired(link.id);
+      throw new Error(`Link ${link.id} to creditor ${link.creditorId} has expired and cannot be refreshed`);
+    }
+
+    const creditor = await this.registry.getCreditor(link.creditorId);
+    if (!creditor) {
+      throw new Error(`No adapter found for creditor ID: ${link.creditorId}`);
+    }
+
+    try {
+      const grant = await this.executeWithRetry(() =>
+        this.callCreditor(creditor, adapter => adapter.refreshAccessToken(link.refreshToken!))
+      );
+      return await links.updateTokens(link.id, { ...grant, refreshToken: grant.refreshToken ?? link.refreshToken });
+    } catch (error) {
+      // Only a refusal from the creditor means the refresh token is dead
+      if (error instanceof CreditorApiError && !error.retryable) {
+        await links.markExpired(link.id);
+      }
+      throw error;
+    }
+  }
+
+  /** The user's active links, refreshing any whose access token has expired. */
+  async getUserCreditors(userId: string, links: CreditorLinkStore = this.links): Promise<CreditorLink[]> {
+    const usable: CreditorLink[] = [];
+    for (const link of await links.findActiveByUser(userId)) {
+      if (!links.isExpired(link)) {
+        usable.push(link);
+        continue;
+      }
+      try {
+        usable.push(await this.refreshLink(link, links));
+      } catch (error) {
+        console.error(`Failed to refresh link ${link.id} to creditor ${link.creditorId}:`, error);
+      }
+    }
+    return usable;
   }
 
   private async logPayment(
@@ -353,21 +604,36 @@ export class CreditorIntegration {
     console.error(`Payment failed: ${userId} attempted to pay $${amount} to ${creditorId} (${accountId}), error: ${errorMessage}`);
   }
 
+  /**
+   * Makes one call to a creditor, waiting for its rate limiter and going
+   * through its circuit breaker. An open circuit fails the call at once
+   * with `CircuitOpenError`, which is never retried.
+   */
+  private async callCreditor<T>(
+    creditor: RegisteredCreditor,
+    call: (adapter: CreditorAdapter) => Promise<T>
+  ): Promise<T> {
+    await creditor.rateLimiter?.take();
+    return creditor.breaker.execute(() => call(creditor.adapter));
+  }
+
+  /** Retries transient creditor failures with exponential backoff; permanent ones fail at once. */
   private async executeWithRetry<T>(fn: () => Promise<T>, retryCount = 0): Promise<T> {
     try {
       return await fn();
     } catch (error) {
-      if (retryCount >= this.retryConfig.maxRetries) {
+      if (retryCount >= this.retryConfig.maxRetries || !isRetryableCreditorError(error)) {
         throw error;
       }
 
-      const delay = this.retryConfig.initialDelay * 
+      const backoff = this.retryConfig.initialDelay * 
         Math.pow(this.retryConfig.backoffFactor, retryCount);
+      const delay = Math.max(backoff, (error as CreditorApiError).retryAfterMs ?? 0);
 
       console.log(`Retrying after ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await this.clock.sleep(delay);
 
       return this.executeWithRetry(fn, retryCount + 1);
     }
   }
-} 
\ No newline at end of file
+}
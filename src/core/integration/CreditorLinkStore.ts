@@ -0,0 +1,181 @@
+/**
+ * MicroRepay Creditor Link Store
+ *
+ * Keeps the accounts a user has linked at each creditor, along with the
+ * tokens used to call the creditor on their behalf. Tokens are sealed with
+ * the token cipher before they reach the database and are bound to their
+ * link, so a sealed token copied onto another row fails to open. Tokens
+ * sealed with a retired key, or longer ago than the key rotation period,
+ * are re-sealed the next time they are read.
+ */
+
+import { Database } from '../database/Database';
+import { CreditorLinkRepository, SealedTokens, StoredCreditorLink } from '../database/repositories/CreditorLinkRepository';
+import { Clock, systemClock } from '../scheduler/Clock';
+import { TokenCipher } from '../security/TokenCipher';
+import type { CreditorLink, TokenGrant } from './CreditorIntegration';
+
+export interface NewCreditorLink extends TokenGrant {
+  creditorId: string;
+  accountId: string;
+}
+
+/** A link as shown to its owner: everything but the tokens. */
+export type CreditorLinkSummary = Omit<CreditorLink, 'accessToken' | 'refreshToken'>;
+
+export class CreditorLinkNotFoundError extends Error {
+  constructor(readonly linkId: string) {
+    super(`Creditor link ${linkId} not found`);
+    this.name = 'CreditorLinkNotFoundError';
+  }
+}
+
+export function isLinkExpired(link: Pick<CreditorLink, 'expiresAt'>, now: Date): boolean {
+  return link.expiresAt !== undefined && new Date(link.expiresAt).getTime() <= now.getTime();
+}
+
+export class CreditorLinkStore {
+  constructor(
+    private readonly db: Database,
+    private readonly cipher: TokenCipher,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /** The same store reading and writing through another handle, e.g. a transaction. */
+  withDatabase(db: Database): CreditorLinkStore {
+    return new CreditorLinkStore(db, this.cipher, this.clock);
+  }
+
+  isExpired(link: Pick<CreditorLink, 'expiresAt'>): boolean {
+    return isLinkExpired(link, this.clock.now());
+  }
+
+  /** Links an account, revoking any earlier active link to the same account. */
+  async link(userId: string, input: NewCreditorLink): Promise<CreditorLink> {
+    return this.db.transaction(async tx => {
+      const links = new CreditorLinkRepository(tx);
+      const now = this.clock.now().toISOString();
+
+      for (const existing of await links.findByUser(userId, 'active')) {
+        if (existing.creditorId === input.creditorId && existing.accountId === input.accountId) {
+          await links.updateStatus(existing.id, 'revoked', now);
+        }
+      }
+
+      const id = `LNK-${Math.random().toString(36).substring(2, 10).toUpperCase()}`;
+      const tokens = await this.seal(id, input, now);
+      await links.create({
+        id,
+        userId,
+        creditorId: input.creditorId,
+        accountId: input.accountId,
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: tokens.expiresAt,
+        tokensSealedAt: tokens.sealedAt,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now
+      });
+
+      return {
+        id,
+        userId,
+        creditorId: input.creditorId,
+        accountId: input.accountId,
+        accessToken: input.accessToken,
+        refreshToken: input.refreshToken,
+        expiresAt: input.expiresAt,
+        status: 'active'
+      };
+    });
+  }
+
+  async revoke(userId: string, linkId: string): Promise<void> {
+    const links = new CreditorLinkRepository(this.db);
+    const link = await links.findById(linkId);
+    if (!link || link.userId !== userId) {
+      throw new CreditorLinkNotFoundError(linkId);
+    }
+    if (link.status !== 'revoked') {
+      await links.updateStatus(linkId, 'revoked', this.clock.now().toISOString());
+    }
+  }
+
+  /** Active links with their tokens opened. Expired tokens are returned as-is; see `isExpired`. */
+  async findActiveByUser(userId: string): Promise<CreditorLink[]> {
+    const links = new CreditorLinkRepository(this.db);
+    const stored = await links.findByUser(userId, 'active');
+    return Promise.all(stored.map(link => this.open(link)));
+  }
+
+  async listByUser(userId: string): Promise<CreditorLinkSummary[]> {
+    const stored = await new CreditorLinkRepository(this.db).findByUser(userId);
+    return stored.map(link => ({
+      id: link.id,
+      userId: link.userId,
+      creditorId: link.creditorId,
+      accountId: link.accountId,
+      expiresAt: link.expiresAt,
+      status: link.status === 'active' && this.isExpired(link) ? 'expired' : link.status
+    }));
+  }
+
+  /** Stores tokens from a refresh; the link becomes active again. */
+  async updateTokens(linkId: string, grant: TokenGrant): Promise<CreditorLink> {
+    const links = new CreditorLinkRepository(this.db);
+    const link = await links.findById(linkId);
+    if (!link || link.status === 'revoked') {
+      throw new CreditorLinkNotFoundError(linkId);
+    }
+
+    const now = this.clock.now().toISOString();
+    await links.updateTokens(linkId, await this.seal(linkId, grant, now));
+    return {
+      id: link.id,
+      userId: link.userId,
+      creditorId: link.creditorId,
+      accountId: link.accountId,
+      accessToken: grant.accessToken,
+      refreshToken: grant.refreshToken,
+      expiresAt: grant.expiresAt,
+      status: 'active'
+    };
+  }
+
+  async markExpired(linkId: string): Promise<void> {
+    await new CreditorLinkRepository(this.db).updateStatus(linkId, 'expired', this.clock.now().toISOString());
+  }
+
+  private async seal(linkId: string, grant: TokenGrant, now: string): Promise<SealedTokens> {
+    return {
+      accessToken: await this.cipher.seal(grant.accessToken, `${linkId}:access`),
+      refreshToken: grant.refreshToken
+        ? await this.cipher.seal(grant.refreshToken, `${linkId}:refresh`)
+        : undefined,
+      expiresAt: grant.expiresAt,
+      sealedAt: now
+    };
+  }
+
+  private async open(stored: StoredCreditorLink): Promise<CreditorLink> {
+    const link: CreditorLink = {
+      id: stored.id,
+      userId: stored.userId,
+      creditorId: stored.creditorId,
+      accountId: stored.accountId,
+      accessToken: await this.cipher.open(stored.accessToken, `${stored.id}:access`),
+      refreshToken: stored.refreshToken
+        ? await this.cipher.open(stored.refreshToken, `${stored.id}:refresh`)
+        : undefined,
+      expiresAt: stored.expiresAt,
+      status: stored.status
+    };
+
+    const now = this.clock.now();
+    if (this.cipher.needsResealing(stored.accessToken, stored.tokensSealedAt, now)) {
+      await new CreditorLinkRepository(this.db).updateTokens(stored.id, await this.seal(stored.id, link, now.toISOString()));
+    }
+    return link;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * MicroRepay Creditor Registry
+ *
+ * Keeps the creditors the integration can talk to. Creditor configs are
+ * loaded from sources such as a JSON config file or the `creditors`
+ * table, validated, and turned into adapters by the factory registered
+ * for their `type`. Creditors can also be registered or removed at
+ * runtime, so a new creditor goes live without a restart.
+ *
+ * Each creditor also gets its own circuit breaker and, when it has a rate
+ * limit, its own token bucket. Both survive a reload as long as the
+ * creditor's limits are unchanged.
+ */
+
+import { z } from 'zod';
+import { Database } from '../database/Database';
+import { CreditorRepository } from '../database/repositories/CreditorRepository';
+import { Clock, systemClock } from '../scheduler/Clock';
+import { resolveApiVersion } from './apiVersions';
+import { CircuitBreaker } from './CircuitBreaker';
+import { isRetryableCreditorError } from './CreditorHttpClient';
+import { RateLimit, TokenBucket } from './RateLimiter';
+import {
+  BankAdapter,
+  CreditCardAdapter,
+  CreditorAdapter,
+  CreditorConfig,
+  GenericCreditorAdapter,
+  LoanServicerAdapter
+} from './CreditorIntegration';
+
+export type CreditorAdapterFactory = (config: CreditorConfig, apiKey: string) => CreditorAdapter;
+
+export interface RegisteredCreditor {
+  config: CreditorConfig;
+  adapter: CreditorAdapter;
+  breaker: CircuitBreaker;
+  rateLimiter?: TokenBucket;
+}
+
+export interface CreditorRegistryOptions {
+  defaultRateLimit?: RateLimit; // For creditors without their own rate limit
+  clock?: Clock;
+}
+
+/** Where creditor configs come from; entries are validated by the registry. */
+export interface CreditorSource {
+  name: string;
+  load(): Promise<unknown[]>;
+}
+
+export class CreditorConfigError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[]
+  ) {
+    super(`Invalid creditor config from ${source}: ${issues.join('; ')}`);
+    this.name = 'CreditorConfigError';
+  }
+}
+
+export const creditorConfigSchema = z.object({
+  id: z.string().trim().min(1, 'id is required'),
+  type: z.enum(['bank', 'credit_card', 'loan_servicer', 'generic']),
+  endpoint: z.string().url('endpoint must be a URL'),
+  version: z.string().refine(version => {
+    try {
+      resolveApiVersion(version);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'version is not a supported creditor API version'),
+  timeoutMs: z.number().int().positive().optional(),
+  rateLimit: z
+    .object({
+      requestsPerSecond: z.number().positive(),
+      burst: z.number().int().positive().optional()
+    })
+    .optional(),
+  circuitBreaker: z
+    .object({
+      failureThreshold: z.number().int().positive().optional(),
+      resetTimeoutMs: z.number().int().positive().optional()
+    })
+    .optional(),
+  syncIntervalMs: z.number().int().positive().optional()
+});
+
+/** Applied to creditors without their own limit when rate limiting is enabled. */
+export const DEFAULT_CREDITOR_RATE_LIMIT: RateLimit = { requestsPerSecond: 5, burst: 10 };
+
+export const DEFAULT_ADAPTER_FACTORIES: Record<CreditorConfig['type'], CreditorAdapterFactory> = {
+  bank: (config, apiKey) =>
+    new BankAdapter(apiKey, config.endpoint, config.version, { timeoutMs: config.timeoutMs }),
+  credit_card: (config, apiKey) =>
+    new CreditCardAdapter(apiKey, config.endpoint, config.version, { timeoutMs: config.timeoutMs }),
+  loan_servicer: (config, apiKey) =>
+    new LoanServicerAdapter(apiKey, config.endpoint, config.version, { timeoutMs: config.timeoutMs }),
+  generic: (config, apiKey) =>
+    new GenericCreditorAdapter(apiKey, config.endpoint, config.version, { timeoutMs: config.timeoutMs })
+};
+
+const FS_MODULE = 'node:fs/promises';
+
+/** Reads creditors from a JSON file holding `{ "creditors": [...] }` or a bare array. */
+export function fileCreditorSource(path: string): CreditorSource {
+  return {
+    name: path,
+    async load() {
+      const { readFile }: typeof import('node:fs/promises') = await import(/* @vite-ignore */ FS_MODULE);
+      const parsed: unknown = JSON.parse(await readFile(path, 'utf8'));
+      const creditors = Array.isArray(parsed) ? parsed : (parsed as { creditors?: unknown })?.creditors;
+      if (!Array.isArray(creditors)) {
+        throw new CreditorConfigError(path, ['expected an array of creditors']);
+      }
+      return creditors;
+    }
+  };
+}
+
+/** Reads the enabled creditors from the `creditors` table. */
+export function databaseCreditorSource(db: Database): CreditorSource {
+  return {
+    name: 'creditors table',
+    load: () => new CreditorRepository(db).findEnabled()
+  };
+}
+
+/** Validates one creditor config, throwing `CreditorConfigError` with every problem found. */
+export function parseCreditorConfig(config: unknown, source = 'runtime registration'): CreditorConfig {
+  const result = creditorConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new CreditorConfigError(
+      source,
+      result.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+    );
+  }
+  return result.data as CreditorConfig;
+}
+
+export class CreditorRegistry {
+  private readonly creditors = new Map<string, RegisteredCreditor>();
+  private readonly factories: Partial<Record<CreditorConfig['type'], CreditorAdapterFactory>>;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly apiKeys: Record<string, string> = {},
+    private readonly sources: CreditorSource[] = [],
+    factories: Partial<Record<CreditorConfig['type'], CreditorAdapterFactory>> = DEFAULT_ADAPTER_FACTORIES,
+    private readonly options: CreditorRegistryOptions = {}
+  ) {
+    this.factories = { ...factories };
+  }
+
+  /**
+   * Loads every source once. Fails if any entry is invalid, so a bad
+   * config stops startup rather than silently dropping a creditor.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadSources().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /** Re-reads the sources, registering new creditors and updating changed ones. */
+  async reload(): Promise<void> {
+    this.loading = this.loadSources();
+    return this.loading;
+  }
+
+  registerAdapterFactory(type: CreditorConfig['type'], factory: CreditorAdapterFactory): void {
+    this.factories[type] = factory;
+  }
+
+  /** Validates and registers a creditor, replacing any creditor with the same ID. */
+  register(config: unknown, apiKey?: string, source?: string): CreditorConfig {
+    const creditor = parseCreditorConfig(config, source);
+    const factory = this.factories[creditor.type];
+    if (!factory) {
+      throw new CreditorConfigError(source ?? 'runtime registration', [
+        `no adapter factory registered for type "${creditor.type}"`
+      ]);
+    }
+
+    if (apiKey !== undefined) {
+      this.apiKeys[creditor.id] = apiKey;
+    }
+
+    const previous = this.creditors.get(creditor.id);
+    const limitsUnchanged = previous !== undefined &&
+      JSON.stringify([previous.config.rateLimit, previous.config.circuitBreaker]) ===
+        JSON.stringify([creditor.rateLimit, creditor.circuitBreaker]);
+    const rateLimit = creditor.rateLimit ?? this.options.defaultRateLimit;
+    const clock = this.options.clock ?? systemClock;
+
+    this.creditors.set(creditor.id, {
+      config: creditor,
+      adapter: factory(creditor, this.apiKeys[creditor.id] ?? ''),
+      // Only failures that say something about the creditor's health count
+      breaker: limitsUnchanged
+        ? previous.breaker
+        : new CircuitBreaker(`creditor ${creditor.id}`, creditor.circuitBreaker, isRetryableCreditorError, clock),
+      rateLimiter: limitsUnchanged
+        ? previous.rateLimiter
+        : rateLimit && new TokenBucket(rateLimit, clock)
+    });
+    return creditor;
+  }
+
+  unregister(id: string): boolean {
+    return this.creditors.delete(id);
+  }
+
+  async getAdapter(id: string): Promise<CreditorAdapter | undefined> {
+    return (await this.getCreditor(id))?.adapter;
+  }
+
+  async getCreditor(id: string): Promise<RegisteredCreditor | undefined> {
+    await this.load();
+    return this.creditors.get(id);
+  }
+
+  async list(): Promise<CreditorConfig[]> {
+    await this.load();
+    return [...this.creditors.values()].map(creditor => creditor.config);
+  }
+
+  private async loadSources(): Promise<void> {
+    const loaded: { source: string; config: CreditorConfig }[] = [];
+    const issues: string[] = [];
+
+    for (const source of this.sources) {
+      for (const [index, entry] of (await source.load()).entries()) {
+        try {
+          loaded.push({ source: source.name, config: parseCreditorConfig(entry, `${source.name} [${index}]`) });
+        } catch (error) {
+          if (!(error instanceof CreditorConfigError)) throw error;
+          issues.push(...error.issues.map(issue => `${error.source}: ${issue}`));
+        }
+      }
+    }
+    if (issues.length > 0) {
+      throw new CreditorConfigError('creditor sources', issues);
+    }
+
+    // Later sources override earlier ones, e.g. database entries override the config file
+    for (const { source, config } of loaded) {
+      this.register(config, undefined, source);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * MicroRepay Mock Bank Provider
+ *
+ * An in-memory `BankLinkProvider` for exercising the bank link flow end to
+ * end without a real provider. Its authorization URL points at a local
+ * consent page, which reads the request back with `readAuthorizationRequest`
+ * and answers it with `approve` or `deny`. Codes are single use, expire
+ * after a minute and are bound to the redirect URI they were issued for.
+ *
+ * Unlike the mock creditor server it has no Node dependencies, so the app
+ * can use it in the browser.
+ */
+
+import { Clock, systemClock } from '../scheduler/Clock';
+import type { TokenGrant } from './CreditorIntegration';
+import { BankAccount, BankAuthorizationRequest, BankLinkProvider } from './BankLinkProvider';
+
+export interface MockBankProviderOptions {
+  authorizePath?: string; // Path of the consent page; defaults to /mock-bank/authorize
+  accounts?: Record<string, BankAccount[]>; // Per institution; others get a checking account and a card
+  tokenTtlMs?: number; // Defaults to an hour
+}
+
+const CODE_TTL_MS = 60 * 1000;
+
+function defaultAccounts(institutionId: string): BankAccount[] {
+  return [
+    { id: `${institutionId}-checking`, name: 'Everyday Checking', mask: '4321', type: 'checking' },
+    { id: `${institutionId}-card`, name: 'Rewards Credit Card', mask: '8765', type: 'credit_card' }
+  ];
+}
+
+export class MockBankProvider implements BankLinkProvider {
+  private readonly codes = new Map<string, { institutionId: string; redirectUri: string; expiresAt: number }>();
+  private readonly tokens = new Map<string, string>(); // Access token to institution
+
+  constructor(
+    private readonly options: MockBankProviderOptions = {},
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  authorizationUrl(request: BankAuthorizationRequest): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      institution: request.institutionId,
+      redirect_uri: request.redirectUri,
+      state: request.state
+    });
+    return `${this.options.authorizePath ?? '/mock-bank/authorize'}?${params}`;
+  }
+
+  /** The request behind an authorization URL's query string, as the consent page sees it. */
+  readAuthorizationRequest(params: URLSearchParams): BankAuthorizationRequest {
+    const institutionId = params.get('institution');
+    const redirectUri = params.get('redirect_uri');
+    const state = params.get('state');
+    if (params.get('response_type') !== 'code' || !institutionId || !redirectUri || !state) {
+      throw new Error('Invalid authorization request');
+    }
+    return { institutionId, redirectUri, state };
+  }
+
+  accountsFor(institutionId: string): BankAccount[] {
+    return this.options.accounts?.[institutionId] ?? defaultAccounts(institutionId);
+  }
+
+  /** The user consented; returns where to send them back to, with a code. */
+  approve(request: BankAuthorizationRequest): string {
+    const code = `code_${this.randomId()}`;
+    this.codes.set(code, {
+      institutionId: request.institutionId,
+      redirectUri: request.redirectUri,
+      expiresAt: this.clock.now().getTime() + CODE_TTL_MS
+    });
+    return this.redirect(request, { code });
+  }
+
+  /** The user declined; returns where to send them back to, with the error. */
+  deny(request: BankAuthorizationRequest): string {
+    return this.redirect(request, { error: 'access_denied' });
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<TokenGrant> {
+    const issued = this.codes.get(code);
+    this.codes.delete(code);
+    if (!issued || issued.expiresAt <= this.clock.now().getTime() || issued.redirectUri !== redirectUri) {
+      throw new Error('Invalid authorization code');
+    }
+
+    const accessToken = `access_${this.randomId()}`;
+    this.tokens.set(accessToken, issued.institutionId);
+    return {
+      accessToken,
+      refreshToken: `refresh_${this.randomId()}`,
+      expiresAt: new Date(this.clock.now().getTime() + (this.options.tokenTtlMs ?? 60 * 60 * 1000)).toISOString()
+    };
+  }
+
+  async listAccounts(accessToken: string): Promise<BankAccount[]> {
+    const institutionId = this.tokens.get(accessToken);
+    if (!institutionId) {
+      throw new Error('Invalid access token');
+    }
+    return this.accountsFor(institutionId);
+  }
+
+  private redirect(request: BankAuthorizationRequest, params: Record<string, string>): string {
+    const url = new URL(request.redirectUri);
+    for (const [name, value] of Object.entries({ ...params, state: request.state })) {
+      url.searchParams.set(name, value);
+    }
+    return url.toString();
+  }
+
+  private randomId(): string {
+    return Math.random().toString(36).substring(2, 10) + Math.random().toString(36).substring(2, 10);
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * MicroRepay Mock Creditor Server
+ *
+ * A local HTTP server that speaks the v1 and v2 creditor APIs, for
+ * exercising the HTTP creditor adapters without a real creditor. It keeps
+ * accounts and payments in memory, deduplicates v2 payments by
+ * idempotency key, finds payments by the reference they were sent with,
+ * and can inject failures and latency so retry and timeout handling can
+ * be tested. Its token endpoint accepts any refresh token once, rotating
+ * it on every refresh.
+ *
+ * Node only; nothing in the app imports it.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface MockCreditorAccount {
+  balance: number;
+  interestRate: number; // Fraction, e.g. 0.1999
+  minimumPayment: number;
+  dueDate: string;
+}
+
+export interface MockCreditorPayment {
+  id: string;
+  accountId: string;
+  amount: number;
+  reference?: string;
+  status: string;
+  reason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockCreditorRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+export interface MockCreditorServerOptions {
+  port?: number; // Defaults to a free port
+  apiKey?: string; // When set, requests must send it as X-Api-Key
+  accounts?: Record<string, MockCreditorAccount>;
+}
+
+export interface MockCreditorServer {
+  url: string;
+  accounts: Record<string, MockCreditorAccount>;
+  payments: Map<string, MockCreditorPayment>;
+  requests: MockCreditorRequest[];
+  /** Answers the next `times` requests with `status` instead of handling them. */
+  failNext(status: number, times?: number, retryAfterSeconds?: number): void;
+  /** Delays the next `times` responses by `ms`. */
+  delayNext(ms: number, times?: number): void;
+  setPaymentStatus(id: string, status: string, reason?: string): void;
+  /** Makes the token endpoint reject `refreshToken` from now on. */
+  revokeRefreshToken(refreshToken: string): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_ACCOUNTS: Record<string, MockCreditorAccount> = {
+  acc123456: { balance: 15000.5, interestRate: 0.0495, minimumPayment: 150.25, dueDate: '2025-05-15' },
+  acc789012: { balance: 2500.75, interestRate: 0.1999, minimumPayment: 50, dueDate: '2025-05-20' }
+};
+
+const toMinor = (amount: number) => Math.round(amount * 100);
+
+export async function startMockCreditorServer(
+  options: MockCreditorServerOptions = {}
+): Promise<MockCreditorServer> {
+  const accounts = { ...(options.accounts ?? DEFAULT_ACCOUNTS) };
+  const payments = new Map<string, MockCreditorPayment>();
+  const idempotentPayments = new Map<string, string>();
+  const requests: MockCreditorRequest[] = [];
+  const usedRefreshTokens = new Set<string>();
+  const failures: { status: number; retryAfterSeconds?: number }[] = [];
+  const delays: number[] = [];
+
+  const send = (res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  };
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<unknown>((resolve, reject) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        try {
+          resolve(data ? JSON.parse(data) : undefined);
+        } catch (error) {
+          reject(error);
+        }
+      });
+      req.on('error', reject);
+    });
+
+  const formatPayment = (version: string, payment: MockCreditorPayment) =>
+    version === 'v1'
+      ? {
+          confirmation_number: payment.id,
+          processed_at: payment.createdAt,
+          updated_at: payment.updatedAt,
+          status: payment.status,
+          return_reason: payment.reason
+        }
+      : {
+          id: payment.id,
+          createdAt: payment.createdAt,
+          updatedAt: payment.updatedAt,
+          state: payment.status,
+          failureReason: payment.reason
+        };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname: path, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    let body: unknown;
+    try {
+      body = await readBody(req);
+    } catch {
+      return send(res, 400, { error: 'Body is not JSON' });
+    }
+    requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+
+    const delay = delays.shift();
+    if (delay) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    const failure = failures.shift();
+    if (failure) {
+      return send(
+        res,
+        failure.status,
+        { error: 'Injected failure' },
+        failure.retryAfterSeconds !== undefined ? { 'Retry-After': String(failure.retryAfterSeconds) } : {}
+      );
+    }
+
+    if (options.apiKey && req.headers['x-api-key'] !== options.apiKey) {
+      return send(res, 401, { error: 'Invalid API key' });
+    }
+
+    const [version, , accountId, action, paymentId] = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (req.method === 'POST' && (version === 'v1' || version === 'v2') && path === `/${version}/oauth/token`) {
+      const grant = (body ?? {}) as Record<string, unknown>;
+      const refreshToken = version === 'v1' ? grant.refresh_token : grant.refreshToken;
+      if (typeof refreshToken !== 'string' || !refreshToken || usedRefreshTokens.has(refreshToken)) {
+        return send(res, 400, { error: 'invalid_grant' });
+      }
+      usedRefreshTokens.add(refreshToken);
+
+      const suffix = Math.random().toString(36).substring(2, 10).toUpperCase();
+      return send(
+        res,
+        200,
+        version === 'v1'
+          ? { access_token: `MOCK-AT-${suffix}`, refresh_token: `MOCK-RT-${suffix}`, expires_in: 3600 }
+          : { accessToken: `MOCK-AT-${suffix}`, refreshToken: `MOCK-RT-${suffix}`, expiresIn: 3600 }
+      );
+    }
+
+    const account = accounts[accountId];
+    if ((version !== 'v1' && version !== 'v2') || !account) {
+      return send(res, 404, { error: 'Not found' });
+    }
+
+    if (req.method === 'GET' && action === 'balance') {
+      return send(
+        res,
+        200,
+        version === 'v1'
+          ? {
+              current_balance: account.balance,
+              interest_rate: account.interestRate * 100,
+              minimum_payment: account.minimumPayment,
+              due_date: account.dueDate
+            }
+          : {
+              balance: { amountMinor: toMinor(account.balance), currency: 'USD' },
+              apr: account.interestRate,
+              minimumDue: { amountMinor: toMinor(account.minimumPayment), currency: 'USD' },
+              dueDate: account.dueDate
+            }
+      );
+    }
+
+    if (req.method === 'POST' && action === 'payments' && !paymentId) {
+      const key = version === 'v2' ? req.headers['idempotency-key'] : undefined;
+      const existing = typeof key === 'string' ? idempotentPayments.get(key) : undefined;
+      if (existing) {
+        return send(res, 200, formatPayment(version, payments.get(existing)!));
+      }
+
+      const request = (body ?? {}) as { amount?: number | { amountMinor?: number }; reference?: string };
+      const amount = version === 'v1'
+        ? Number(request.amount)
+        : Number((request.amount as { amountMinor?: number })?.amountMinor) / 100;
+      if (!(amount > 0)) {
+        return send(res, 422, { error: 'Payment amount must be positive' });
+      }
+
+      const now = new Date().toISOString();
+      const payment: MockCreditorPayment = {
+        id: `MOCK-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+        accountId,
+        amount,
+        reference: typeof request.reference === 'string' ? request.reference : undefined,
+        status: 'accepted',
+        createdAt: now,
+        updatedAt: now
+      };
+      payments.set(payment.id, payment);
+      if (typeof key === 'string') {
+        idempotentPayments.set(key, payment.id);
+      }
+      return send(res, 201, formatPayment(version, payment));
+    }
+
+    if (req.method === 'GET' && action === 'payments' && !paymentId) {
+      const reference = searchParams.get('reference');
+      const matches = [...payments.values()]
+        .filter(payment => payment.accountId === accountId && (reference === null || payment.reference === reference))
+        .map(payment => formatPayment(version, payment));
+      return send(res, 200, version === 'v1' ? { payments: matches } : { data: matches });
+    }
+
+    if (req.method === 'GET' && action === 'payments' && paymentId) {
+      const payment = payments.get(paymentId);
+      return payment && payment.accountId === accountId
+        ? send(res, 200, formatPayment(version, payment))
+        : send(res, 404, { error: 'Payment not found' });
+    }
+
+    return send(res, 404, { error: 'Not found' });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => send(res, 500, { error: String(error) }));
+  });
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    accounts,
+    payments,
+    requests,
+    failNext(status, times = 1, retryAfterSeconds) {
+      for (let i = 0; i < times; i++) failures.push({ status, retryAfterSeconds });
+    },
+    delayNext(ms, times = 1) {
+      for (let i = 0; i < times; i++) delays.push(ms);
+    },
+    setPaymentStatus(id, status, reason) {
+      const payment = payments.get(id);
+      if (!payment) {
+        throw new Error(`Mock payment ${id} not found`);
+      }
+      payment.status = status;
+      payment.reason = reason;
+      payment.updatedAt = new Date().toISOString();
+      if (status === 'settled') {
+        accounts[payment.accountId].balance = (toMinor(accounts[payment.accountId].balance) - toMinor(payment.amount)) / 100;
+      }
+    },
+    revokeRefreshToken(refreshToken) {
+      usedRefreshTokens.add(refreshToken);
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      // Requests a client gave up on would otherwise hold the server open
+      server.closeAllConnections();
+    })
+  };
+}
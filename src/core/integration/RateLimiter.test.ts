@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock } from '../scheduler/Clock';
+import { TokenBucket } from './RateLimiter';
+
+describe('TokenBucket', () => {
+  it('allows a burst, then one request per refill interval', () => {
+    const clock = new ManualClock('2026-10-18T00:00:00Z');
+    const bucket = new TokenBucket({ requestsPerSecond: 2, burst: 3 }, clock);
+
+    expect([bucket.tryTake(), bucket.tryTake(), bucket.tryTake()]).toEqual([0, 0, 0]);
+    expect(bucket.tryTake()).toBe(500);
+
+    clock.advance(500);
+    expect(bucket.tryTake()).toBe(0);
+    expect(bucket.tryTake()).toBe(500);
+  });
+
+  it('never holds more than its burst', () => {
+    const clock = new ManualClock('2026-10-18T00:00:00Z');
+    const bucket = new TokenBucket({ requestsPerSecond: 1 }, clock);
+
+    clock.advance(60000);
+    expect(bucket.tryTake()).toBe(0);
+    expect(bucket.tryTake()).toBe(1000);
+  });
+
+  it('waits on its clock for the next token', async () => {
+    const clock = new ManualClock('2026-10-18T00:00:00Z');
+    const bucket = new TokenBucket({ requestsPerSecond: 4, burst: 1 }, clock);
+
+    await bucket.take();
+    await bucket.take();
+    await bucket.take();
+
+    expect(clock.now().toISOString()).toBe('2026-10-18T00:00:00.500Z');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * MicroRepay Rate Limiter
+ *
+ * Token bucket used to cap the request rate to each creditor. The bucket
+ * holds up to `burst` tokens and refills at `requestsPerSecond`; every
+ * request takes one token, and callers wait for the next token when the
+ * bucket is empty.
+ */
+
+import { Clock, systemClock } from '../scheduler/Clock';
+
+export interface RateLimit {
+  requestsPerSecond: number;
+  burst?: number; // Requests allowed back to back; defaults to requestsPerSecond, at least 1
+}
+
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(
+    limit: RateLimit,
+    private readonly clock: Clock = systemClock
+  ) {
+    if (!(limit.requestsPerSecond > 0)) {
+      throw new Error('Rate limit must allow a positive number of requests per second');
+    }
+    this.capacity = Math.max(1, limit.burst ?? Math.floor(limit.requestsPerSecond));
+    this.refillPerMs = limit.requestsPerSecond / 1000;
+    this.tokens = this.capacity;
+    this.refilledAt = clock.now().getTime();
+  }
+
+  /** Takes a token if one is available; otherwise returns the ms until the next one. */
+  tryTake(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  /** Waits until a token is available and takes it. */
+  async take(): Promise<void> {
+    for (let wait = this.tryTake(); wait > 0; wait = this.tryTake()) {
+      await this.clock.sleep(wait);
+    }
+  }
+
+  private refill(): void {
+    const now = this.clock.now().getTime();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) * this.refillPerMs);
+    this.refilledAt = now;
+  }
+}
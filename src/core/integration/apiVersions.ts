@@ -0,0 +1,222 @@
+/**
+ * MicroRepay Creditor API Versions
+ *
+ * Request and response mapping for each creditor API version we speak.
+ * Adapters pick a mapping from their `CreditorConfig.version`, so the
+ * rest of the integration only ever sees our own balance and payment
+ * shapes.
+ *
+ * - v1: snake_case JSON, dollar amounts, APRs as percentages, no
+ *   idempotency support.
+ *
+ * Both versions refresh access tokens with an OAuth-style refresh grant.
+ * - v2: camelCase JSON, integer minor-unit amounts, APRs as fractions,
+ *   deduplicates payments by the `Idempotency-Key` header.
+ *
+ * Both versions store the reference sent with a payment and can search
+ * payments by it, which is how a payment whose response was lost is found.
+ */
+
+import { Money } from '../money/Money';
+import { CreditorApiError } from './CreditorHttpClient';
+import type {
+  BalanceResponse,
+  PaymentRequest,
+  PaymentResponse,
+  PaymentStatusResponse,
+  TokenGrant
+} from './CreditorIntegration';
+
+export type CreditorApiVersion = 'v1' | 'v2';
+
+export interface CreditorApiMapping {
+  version: CreditorApiVersion;
+  // Header that carries the idempotency key; undefined if unsupported
+  idempotencyHeader?: string;
+  balancePath(resource: string, accountId: string): string;
+  toBalance(body: unknown): BalanceResponse;
+  paymentPath(resource: string, accountId: string): string;
+  toPaymentBody(payment: PaymentRequest): unknown;
+  toPayment(body: unknown): PaymentResponse;
+  paymentStatusPath(resource: string, accountId: string, confirmationNumber: string): string;
+  toPaymentStatus(body: unknown): PaymentStatusResponse;
+  paymentSearchPath(resource: string, accountId: string, reference: string): string;
+  // The payment found by a reference search, or null if there is none
+  toPaymentSearchResult(body: unknown): PaymentStatusResponse | null;
+  tokenPath(): string;
+  toTokenBody(refreshToken: string): unknown;
+  toTokenGrant(body: unknown, receivedAt: Date): TokenGrant;
+}
+
+type Fields = Record<string, unknown>;
+
+function fields(body: unknown, version: CreditorApiVersion): Fields {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new CreditorApiError(`Creditor ${version} response is not a JSON object`, 'invalid_response', false);
+  }
+  return body as Fields;
+}
+
+function numberField(body: Fields, name: string, version: CreditorApiVersion): number {
+  const value = typeof body[name] === 'string' ? Number(body[name]) : body[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new CreditorApiError(`Creditor ${version} response has no numeric "${name}"`, 'invalid_response', false);
+  }
+  return value;
+}
+
+function stringField(body: Fields, name: string, version: CreditorApiVersion): string {
+  const value = body[name];
+  if (typeof value !== 'string' || value === '') {
+    throw new CreditorApiError(`Creditor ${version} response has no "${name}"`, 'invalid_response', false);
+  }
+  return value;
+}
+
+function optionalString(body: Fields, name: string): string | undefined {
+  return typeof body[name] === 'string' ? (body[name] as string) : undefined;
+}
+
+function expiresAt(expiresInSeconds: number | undefined, receivedAt: Date): string | undefined {
+  return expiresInSeconds === undefined
+    ? undefined
+    : new Date(receivedAt.getTime() + expiresInSeconds * 1000).toISOString();
+}
+
+function path(...segments: string[]): string {
+  return `/${segments.map(encodeURIComponent).join('/')}`;
+}
+
+function firstMatch(
+  body: unknown,
+  listField: string,
+  version: CreditorApiVersion,
+  toStatus: (body: unknown) => PaymentStatusResponse
+): PaymentStatusResponse | null {
+  const matches = fields(body, version)[listField];
+  if (!Array.isArray(matches)) {
+    throw new CreditorApiError(`Creditor ${version} response has no "${listField}" list`, 'invalid_response', false);
+  }
+  return matches.length > 0 ? toStatus(matches[0]) : null;
+}
+
+const v1: CreditorApiMapping = {
+  version: 'v1',
+  balancePath: (resource, accountId) => path('v1', resource, accountId, 'balance'),
+  toBalance(body) {
+    const data = fields(body, 'v1');
+    return {
+      currentBalance: numberField(data, 'current_balance', 'v1'),
+      interestRate: numberField(data, 'interest_rate', 'v1') / 100,
+      minimumPayment: numberField(data, 'minimum_payment', 'v1'),
+      dueDate: stringField(data, 'due_date', 'v1')
+    };
+  },
+  paymentPath: (resource, accountId) => path('v1', resource, accountId, 'payments'),
+  toPaymentBody: payment => ({
+    amount: payment.amount,
+    payment_date: payment.date,
+    memo: payment.description,
+    reference: payment.idempotencyKey
+  }),
+  toPayment(body) {
+    const data = fields(body, 'v1');
+    return {
+      confirmationNumber: stringField(data, 'confirmation_number', 'v1'),
+      processedDate: stringField(data, 'processed_at', 'v1'),
+      status: stringField(data, 'status', 'v1')
+    };
+  },
+  paymentStatusPath: (resource, accountId, confirmationNumber) =>
+    path('v1', resource, accountId, 'payments', confirmationNumber),
+  toPaymentStatus(body) {
+    const data = fields(body, 'v1');
+    return {
+      confirmationNumber: stringField(data, 'confirmation_number', 'v1'),
+      status: stringField(data, 'status', 'v1'),
+      updatedAt: stringField(data, 'updated_at', 'v1'),
+      reason: optionalString(data, 'return_reason')
+    };
+  },
+  paymentSearchPath: (resource, accountId, reference) =>
+    `${path('v1', resource, accountId, 'payments')}?reference=${encodeURIComponent(reference)}`,
+  toPaymentSearchResult: body => firstMatch(body, 'payments', 'v1', v1.toPaymentStatus),
+  tokenPath: () => path('v1', 'oauth', 'token'),
+  toTokenBody: refreshToken => ({ grant_type: 'refresh_token', refresh_token: refreshToken }),
+  toTokenGrant(body, receivedAt) {
+    const data = fields(body, 'v1');
+    return {
+      accessToken: stringField(data, 'access_token', 'v1'),
+      refreshToken: optionalString(data, 'refresh_token'),
+      expiresAt: expiresAt(data.expires_in === undefined ? undefined : numberField(data, 'expires_in', 'v1'), receivedAt)
+    };
+  }
+};
+
+const v2: CreditorApiMapping = {
+  version: 'v2',
+  idempotencyHeader: 'Idempotency-Key',
+  balancePath: (resource, accountId) => path('v2', resource, accountId, 'balance'),
+  toBalance(body) {
+    const data = fields(body, 'v2');
+    const balance = fields(data.balance, 'v2');
+    const minimumDue = fields(data.minimumDue, 'v2');
+    return {
+      currentBalance: Money.ofMinor(numberField(balance, 'amountMinor', 'v2')).toNumber(),
+      interestRate: numberField(data, 'apr', 'v2'),
+      minimumPayment: Money.ofMinor(numberField(minimumDue, 'amountMinor', 'v2')).toNumber(),
+      dueDate: stringField(data, 'dueDate', 'v2')
+    };
+  },
+  paymentPath: (resource, accountId) => path('v2', resource, accountId, 'payments'),
+  toPaymentBody: payment => ({
+    amount: { amountMinor: Money.of(payment.amount).minor, currency: 'USD' },
+    scheduledFor: payment.date,
+    description: payment.description,
+    reference: payment.idempotencyKey
+  }),
+  toPayment(body) {
+    const data = fields(body, 'v2');
+    return {
+      confirmationNumber: stringField(data, 'id', 'v2'),
+      processedDate: stringField(data, 'createdAt', 'v2'),
+      status: stringField(data, 'state', 'v2')
+    };
+  },
+  paymentStatusPath: (resource, accountId, confirmationNumber) =>
+    path('v2', resource, accountId, 'payments', confirmationNumber),
+  toPaymentStatus(body) {
+    const data = fields(body, 'v2');
+    return {
+      confirmationNumber: stringField(data, 'id', 'v2'),
+      status: stringField(data, 'state', 'v2'),
+      updatedAt: stringField(data, 'updatedAt', 'v2'),
+      reason: optionalString(data, 'failureReason')
+    };
+  },
+  paymentSearchPath: (resource, accountId, reference) =>
+    `${path('v2', resource, accountId, 'payments')}?reference=${encodeURIComponent(reference)}`,
+  toPaymentSearchResult: body => firstMatch(body, 'data', 'v2', v2.toPaymentStatus),
+  tokenPath: () => path('v2', 'oauth', 'token'),
+  toTokenBody: refreshToken => ({ grantType: 'refresh_token', refreshToken }),
+  toTokenGrant(body, receivedAt) {
+    const data = fields(body, 'v2');
+    return {
+      accessToken: stringField(data, 'accessToken', 'v2'),
+      refreshToken: optionalString(data, 'refreshToken'),
+      expiresAt: expiresAt(data.expiresIn === undefined ? undefined : numberField(data, 'expiresIn', 'v2'), receivedAt)
+    };
+  }
+};
+
+const API_VERSIONS: Record<CreditorApiVersion, CreditorApiMapping> = { v1, v2 };
+
+/** Mapping for a configured version such as "v2", "2" or "2.1". */
+export function resolveApiVersion(version: string): CreditorApiMapping {
+  const major = version.trim().toLowerCase().replace(/^v/, '').split('.')[0];
+  const mapping = API_VERSIONS[`v${major}` as CreditorApiVersion];
+  if (!mapping) {
+    throw new Error(`Unsupported creditor API version "${version}"`);
+  }
+  return mapping;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Ledger } from './Ledger';
+import { ledgerAccountId } from './journal';
+import { Database } from '../database/Database';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import { TEST_USER_ID, createDebt, createUser, fundWallet, holdPayment, testDatabase } from '../testing/fixtures';
+
+const WALLET_ID = `wallet-${TEST_USER_ID}`;
+
+/** Funds the wallet and holds $10 of it for a `created` payment to debt-1, the way a sweep does. */
+async function heldPayment(): Promise<{ db: Database; ledger: Ledger }> {
+  const db = await testDatabase();
+  await createUser(db);
+  await createDebt(db, { id: 'debt-1' });
+  await fundWallet(db, 12.5);
+  await holdPayment(db, { id: 'PAY-1', debtId: 'debt-1', amount: 10 });
+
+  return { db, ledger: new Ledger(db) };
+}
+
+async function setStatus(db: Database, status: string): Promise<void> {
+  await db.query('UPDATE payments SET status = $1 WHERE id = $2', [status, 'PAY-1']);
+}
+
+describe('Ledger', () => {
+  it('reconciles funds held in clearing against created round-up payments', async () => {
+    const { ledger } = await heldPayment();
+
+    expect(await ledger.getWalletBalance(TEST_USER_ID)).toBe(250);
+    expect(await ledger.getBalance(ledgerAccountId('sweep_clearing', TEST_USER_ID))).toBe(1000);
+    expect((await ledger.reconcile(TEST_USER_ID)).discrepancies).toEqual([]);
+  });
+
+  it('moves a submitted payment from clearing to its debt', async () => {
+    const { db, ledger } = await heldPayment();
+
+    await ledger.recordCreditorPayment(TEST_USER_ID, 'debt-1', 'PAY-1', 10);
+    await setStatus(db, 'submitted');
+
+    expect(await ledger.getBalance(ledgerAccountId('sweep_clearing', TEST_USER_ID))).toBe(0);
+    expect(await ledger.getBalance(ledgerAccountId('debt', TEST_USER_ID, 'debt-1'))).toBe(1000);
+    expect((await ledger.reconcile(TEST_USER_ID)).balanced).toBe(true);
+  });
+
+  it('flags a payment whose status changed without a ledger entry', async () => {
+    const { db, ledger } = await heldPayment();
+
+    await setStatus(db, 'submitted');
+
+    const report = await ledger.reconcile(TEST_USER_ID);
+    expect(report.balanced).toBe(false);
+    expect(report.discrepancies.map(d => [d.kind, d.driftMinor])).toEqual([
+      ['debt', -1000],
+      ['clearing', 1000]
+    ]);
+  });
+
+  it('flags wallet drift when the stored balance moves without an entry', async () => {
+    const { db, ledger } = await heldPayment();
+
+    await new WalletRepository(db).credit(WALLET_ID, 5);
+
+    const report = await ledger.reconcile(TEST_USER_ID);
+    expect(report.discrepancies).toEqual([
+      {
+        kind: 'wallet',
+        accountId: ledgerAccountId('round_up_wallet', TEST_USER_ID),
+        ledgerMinor: 250,
+        storedMinor: 750,
+        driftMinor: -500
+      }
+    ]);
+  });
+
+  it('returns a returned payment to the wallet through clearing', async () => {
+    const { db, ledger } = await heldPayment();
+    await ledger.recordCreditorPayment(TEST_USER_ID, 'debt-1', 'PAY-1', 10);
+    await setStatus(db, 'settled');
+
+    await ledger.recordPaymentReturn(TEST_USER_ID, 'PAY-1', 10, 'NSF');
+    await new WalletRepository(db).credit(WALLET_ID, 10);
+    await setStatus(db, 'returned');
+
+    expect(await ledger.getWalletBalance(TEST_USER_ID)).toBe(1250);
+    expect(await ledger.getBalance(ledgerAccountId('debt', TEST_USER_ID, 'debt-1'))).toBe(0);
+    expect((await ledger.reconcile(TEST_USER_ID)).balanced).toBe(true);
+  });
+
+  it('reverses an entry once', async () => {
+    const { ledger } = await heldPayment();
+    const payment = await ledger.recordCreditorPayment(TEST_USER_ID, 'debt-1', 'PAY-1', 10);
+
+    const reversal = await ledger.reverse(payment.id, 'entered in error');
+
+    expect(reversal.reversesEntryId).toBe(payment.id);
+    expect(await ledger.getBalance(ledgerAccountId('debt', TEST_USER_ID, 'debt-1'))).toBe(0);
+    await expect(ledger.reverse(payment.id, 'again')).rejects.toThrow(/already reversed/);
+  });
+
+  it('refuses an entry whose lines do not sum to zero', async () => {
+    const db = await testDatabase();
+    await createUser(db);
+    const ledger = new Ledger(db);
+
+    await expect(ledger.post({
+      id: 'JE-BAD',
+      userId: TEST_USER_ID,
+      type: 'fee',
+      description: 'unbalanced',
+      createdAt: '2026-10-18T00:00:00.000Z',
+      lines: [
+        { accountId: ledgerAccountId('round_up_wallet', TEST_USER_ID), amountMinor: -100 },
+        { accountId: ledgerAccountId('fees', TEST_USER_ID), amountMinor: 90 }
+      ]
+    })).rejects.toThrow();
+    expect(await ledger.findEntry('JE-BAD')).toBeNull();
+  });
+});
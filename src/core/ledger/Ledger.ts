@@ -0,0 +1,306 @@
+/**
+ * MicroRepay Ledger
+ *
+ * Persists double-entry journal entries for every movement of round-up
+ * money and reconciles the ledger against the balances stored on wallets
+ * and payments.
+ */
+
+import { Database } from '../database/Database';
+import {
+  assertBalanced,
+  buildCreditorPayment,
+  buildFee,
+  buildPaymentReturn,
+  buildReversal,
+  buildRoundUpAccrual,
+  buildRoundUpClawback,
+  buildRoundUpReversal,
+  buildSweep,
+  JournalEntry,
+  JournalEntryType,
+  LedgerAccountType,
+  ledgerAccountId,
+  toMinorUnits
+} from './journal';
+
+export interface LedgerDiscrepancy {
+  kind: 'wallet' | 'debt' | 'clearing' | 'unbalanced_entry';
+  accountId: string;
+  ledgerMinor: number;
+  storedMinor: number;
+  driftMinor: number;
+}
+
+export interface ReconciliationReport {
+  userId: string;
+  checkedAt: string;
+  balanced: boolean;
+  discrepancies: LedgerDiscrepancy[];
+}
+
+interface JournalEntryRow {
+  id: string;
+  user_id: string;
+  type: JournalEntryType;
+  description: string;
+  reference_id: string | null;
+  reverses_entry_id: string | null;
+  created_at: string;
+}
+
+export class Ledger {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Writes a balanced entry and its lines atomically. Nested inside the
+   * caller's transaction when given a transaction handle.
+   */
+  async post(entry: JournalEntry): Promise<JournalEntry> {
+    assertBalanced(entry);
+
+    await this.db.transaction(async tx => {
+      for (const line of entry.lines) {
+        await this.ensureAccount(tx, entry.userId, line.accountId);
+      }
+
+      await tx.query(
+        `INSERT INTO journal_entries (id, user_id, type, description, reference_id, reverses_entry_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          entry.id,
+          entry.userId,
+          entry.type,
+          entry.description,
+          entry.referenceId ?? null,
+          entry.reversesEntryId ?? null,
+          entry.createdAt
+        ]
+      );
+
+      for (const [index, line] of entry.lines.entries()) {
+        await tx.query(
+          'INSERT INTO journal_lines (entry_id, line_no, account_id, amount_minor) VALUES ($1, $2, $3, $4)',
+          [entry.id, index + 1, line.accountId, line.amountMinor]
+        );
+      }
+    });
+
+    return entry;
+  }
+
+  async recordRoundUpAccrual(userId: string, transactionId: string, amount: number): Promise<JournalEntry> {
+    return this.post(buildRoundUpAccrual(userId, transactionId, toMinorUnits(amount), new Date().toISOString()));
+  }
+
+  async recordRoundUpReversal(
+    userId: string,
+    transactionId: string,
+    refundId: string,
+    amount: number
+  ): Promise<JournalEntry> {
+    return this.post(
+      buildRoundUpReversal(userId, transactionId, refundId, toMinorUnits(amount), new Date().toISOString())
+    );
+  }
+
+  async recordRoundUpClawback(userId: string, amount: number): Promise<JournalEntry> {
+    return this.post(buildRoundUpClawback(userId, toMinorUnits(amount), new Date().toISOString()));
+  }
+
+  async recordSweep(userId: string, transferId: string, amount: number): Promise<JournalEntry> {
+    return this.post(buildSweep(userId, transferId, toMinorUnits(amount), new Date().toISOString()));
+  }
+
+  async recordCreditorPayment(
+    userId: string,
+    debtId: string,
+    paymentId: string,
+    amount: number
+  ): Promise<JournalEntry> {
+    return this.post(
+      buildCreditorPayment(userId, debtId, paymentId, toMinorUnits(amount), new Date().toISOString())
+    );
+  }
+
+  /**
+   * Unwinds a round-up payment that did not reach the creditor: the payment
+   * entry is reversed back into clearing and the funds return to the wallet.
+   */
+  async recordPaymentReturn(userId: string, paymentId: string, amount: number, reason: string): Promise<JournalEntry> {
+    const [payment] = (await this.findEntriesByReference(paymentId)).filter(
+      entry => entry.type === 'creditor_payment'
+    );
+    if (!payment) {
+      throw new Error(`No ledger payment entry found for payment ${paymentId}`);
+    }
+
+    await this.reverse(payment.id, reason);
+    return this.post(buildPaymentReturn(userId, paymentId, toMinorUnits(amount), new Date().toISOString()));
+  }
+
+  /**
+   * Puts the funds held for a round-up payment back into the wallet when
+   * the payment failed before reaching its creditor.
+   */
+  async recordPaymentRelease(userId: string, paymentId: string, amount: number): Promise<JournalEntry> {
+    return this.post(buildPaymentReturn(userId, paymentId, toMinorUnits(amount), new Date().toISOString()));
+  }
+
+  async recordFee(userId: string, amount: number, description: string): Promise<JournalEntry> {
+    return this.post(buildFee(userId, toMinorUnits(amount), description, new Date().toISOString()));
+  }
+
+  async reverse(entryId: string, reason: string): Promise<JournalEntry> {
+    const original = await this.findEntry(entryId);
+    if (!original) {
+      throw new Error(`Journal entry ${entryId} not found`);
+    }
+
+    const [existing] = await this.db.query<{ id: string }>(
+      'SELECT id FROM journal_entries WHERE reverses_entry_id = $1',
+      [entryId]
+    );
+    if (existing) {
+      throw new Error(`Journal entry ${entryId} was already reversed by ${existing.id}`);
+    }
+
+    return this.post(buildReversal(original, reason, new Date().toISOString()));
+  }
+
+  async findEntry(entryId: string): Promise<JournalEntry | null> {
+    const [row] = await this.db.query<JournalEntryRow>(
+      'SELECT * FROM journal_entries WHERE id = $1',
+      [entryId]
+    );
+    if (!row) return null;
+
+    const lines = await this.db.query<{ account_id: string; amount_minor: number | string }>(
+      'SELECT account_id, amount_minor FROM journal_lines WHERE entry_id = $1 ORDER BY line_no',
+      [entryId]
+    );
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      description: row.description,
+      referenceId: row.reference_id ?? undefined,
+      reversesEntryId: row.reverses_entry_id ?? undefined,
+      createdAt: row.created_at,
+      lines: lines.map(line => ({
+        accountId: line.account_id,
+        amountMinor: Number(line.amount_minor)
+      }))
+    };
+  }
+
+  async findEntriesByReference(referenceId: string): Promise<JournalEntry[]> {
+    const rows = await this.db.query<{ id: string }>(
+      'SELECT id FROM journal_entries WHERE reference_id = $1 ORDER BY created_at',
+      [referenceId]
+    );
+    const entries = await Promise.all(rows.map(row => this.findEntry(row.id)));
+    return entries.filter((entry): entry is JournalEntry => entry !== null);
+  }
+
+  /** Balance of an account in minor units. */
+  async getBalance(accountId: string): Promise<number> {
+    const [row] = await this.db.query<{ balance: number | string }>(
+      'SELECT COALESCE(SUM(amount_minor), 0) AS balance FROM journal_lines WHERE account_id = $1',
+      [accountId]
+    );
+    return Number(row?.balance ?? 0);
+  }
+
+  async getWalletBalance(userId: string): Promise<number> {
+    return this.getBalance(ledgerAccountId('round_up_wallet', userId));
+  }
+
+  /**
+   * Compares ledger balances with the balances stored elsewhere. Flags wallet
+   * drift, debts whose ledger payments disagree with recorded round-up
+   * payments, clearing that holds more or less than the round-up payments
+   * not yet sent to their creditors, and any unbalanced entry.
+   */
+  async reconcile(userId: string): Promise<ReconciliationReport> {
+    const discrepancies: LedgerDiscrepancy[] = [];
+    const flag = (
+      kind: LedgerDiscrepancy['kind'],
+      accountId: string,
+      ledgerMinor: number,
+      storedMinor: number
+    ) => {
+      if (ledgerMinor !== storedMinor) {
+        discrepancies.push({ kind, accountId, ledgerMinor, storedMinor, driftMinor: ledgerMinor - storedMinor });
+      }
+    };
+
+    const [wallet] = await this.db.query<{ balance: number | string }>(
+      'SELECT balance FROM wallets WHERE user_id = $1',
+      [userId]
+    );
+    const walletAccountId = ledgerAccountId('round_up_wallet', userId);
+    flag(
+      'wallet',
+      walletAccountId,
+      await this.getBalance(walletAccountId),
+      wallet ? toMinorUnits(Number(wallet.balance)) : 0
+    );
+
+    const debts = await this.db.query<{ id: string; paid: number | string }>(
+      `SELECT d.id, COALESCE(SUM(p.amount), 0) AS paid
+       FROM debts d
+       LEFT JOIN payments p
+         ON p.debt_id = d.id AND p.source_funds = 'round_up'
+         AND p.status IN ('submitted', 'accepted', 'settled')
+       WHERE d.user_id = $1
+       GROUP BY d.id`,
+      [userId]
+    );
+    for (const debt of debts) {
+      const accountId = ledgerAccountId('debt', userId, debt.id);
+      flag('debt', accountId, await this.getBalance(accountId), toMinorUnits(Number(debt.paid)));
+    }
+
+    const [held] = await this.db.query<{ amount: number | string }>(
+      `SELECT COALESCE(SUM(amount), 0) AS amount
+       FROM payments
+       WHERE user_id = $1 AND source_funds = 'round_up' AND status = 'created' AND transfer_id IS NOT NULL`,
+      [userId]
+    );
+    const clearingAccountId = ledgerAccountId('sweep_clearing', userId);
+    flag('clearing', clearingAccountId, await this.getBalance(clearingAccountId), toMinorUnits(Number(held.amount)));
+
+    const unbalanced = await this.db.query<{ entry_id: string; total: number | string }>(
+      `SELECT l.entry_id, SUM(l.amount_minor) AS total
+       FROM journal_lines l
+       JOIN journal_entries e ON e.id = l.entry_id
+       WHERE e.user_id = $1
+       GROUP BY l.entry_id
+       HAVING SUM(l.amount_minor) <> 0`,
+      [userId]
+    );
+    for (const row of unbalanced) {
+      flag('unbalanced_entry', row.entry_id, Number(row.total), 0);
+    }
+
+    return {
+      userId,
+      checkedAt: new Date().toISOString(),
+      balanced: discrepancies.length === 0,
+      discrepancies
+    };
+  }
+
+  private async ensureAccount(db: Database, userId: string, accountId: string): Promise<void> {
+    const [type, referenceId] = accountId.split(':') as [LedgerAccountType, string];
+
+    await db.query(
+      `INSERT INTO ledger_accounts (id, user_id, type, reference_id, created_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (id) DO NOTHING`,
+      [accountId, userId, type, type === 'debt' ? referenceId : null, new Date().toISOString()]
+    );
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * MicroRepay Journal
+ *
+ * Double-entry bookkeeping primitives for round-up money movement. Every
+ * movement is a journal entry whose lines sum to zero: positive amounts
+ * are debits, negative amounts are credits, both in integer minor units
+ * (cents). An account's balance is the sum of its lines.
+ *
+ * These helpers are storage-agnostic; `Ledger` persists the entries.
+ */
+
+import { Money } from '../money/Money';
+
+export type LedgerAccountType =
+  | 'funding_source'
+  | 'round_up_wallet'
+  | 'sweep_clearing'
+  | 'debt'
+  | 'fees';
+
+export type JournalEntryType =
+  | 'round_up_accrual'
+  | 'round_up_reversal'
+  | 'round_up_clawback'
+  | 'sweep'
+  | 'creditor_payment'
+  | 'payment_return'
+  | 'reversal'
+  | 'fee';
+
+export interface JournalLine {
+  accountId: string;
+  amountMinor: number;
+}
+
+export interface JournalEntry {
+  id: string;
+  userId: string;
+  type: JournalEntryType;
+  description: string;
+  referenceId?: string;
+  reversesEntryId?: string;
+  createdAt: string;
+  lines: JournalLine[];
+}
+
+export function ledgerAccountId(type: LedgerAccountType, userId: string, debtId?: string): string {
+  if (type === 'debt') {
+    if (!debtId) {
+      throw new Error('Debt ledger accounts require a debt ID');
+    }
+    return `debt:${debtId}`;
+  }
+  return `${type}:${userId}`;
+}
+
+export function toMinorUnits(amount: number): number {
+  return Money.of(amount).minor;
+}
+
+export function fromMinorUnits(amountMinor: number): number {
+  return Money.ofMinor(amountMinor).toNumber();
+}
+
+export function assertBalanced(entry: JournalEntry): void {
+  if (entry.lines.length < 2) {
+    throw new Error(`Journal entry ${entry.id} needs at least two lines`);
+  }
+  if (entry.lines.some(line => !Number.isInteger(line.amountMinor))) {
+    throw new Error(`Journal entry ${entry.id} has a fractional minor-unit amount`);
+  }
+
+  const total = entry.lines.reduce((sum, line) => sum + line.amountMinor, 0);
+  if (total !== 0) {
+    throw new Error(`Journal entry ${entry.id} is unbalanced by ${total} minor units`);
+  }
+}
+
+export function accountBalance(entries: JournalEntry[], accountId: string): number {
+  return entries.reduce(
+    (balance, entry) =>
+      balance + entry.lines
+        .filter(line => line.accountId === accountId)
+        .reduce((sum, line) => sum + line.amountMinor, 0),
+    0
+  );
+}
+
+function entryId(): string {
+  return `JE-${Math.random().toString(36).substring(2, 10).toUpperCase()}`;
+}
+
+function transfer(
+  userId: string,
+  type: JournalEntryType,
+  description: string,
+  debitAccountId: string,
+  creditAccountId: string,
+  amountMinor: number,
+  createdAt: string,
+  referenceId?: string
+): JournalEntry {
+  if (amountMinor <= 0) {
+    throw new Error(`${type} amount must be positive`);
+  }
+
+  return {
+    id: entryId(),
+    userId,
+    type,
+    description,
+    referenceId,
+    createdAt,
+    lines: [
+      { accountId: debitAccountId, amountMinor },
+      { accountId: creditAccountId, amountMinor: -amountMinor }
+    ]
+  };
+}
+
+/** Moves a purchase's round-up from the funding source into the wallet. */
+export function buildRoundUpAccrual(
+  userId: string,
+  transactionId: string,
+  amountMinor: number,
+  createdAt: string
+): JournalEntry {
+  return transfer(
+    userId,
+    'round_up_accrual',
+    `Round-up from transaction ${transactionId}`,
+    ledgerAccountId('round_up_wallet', userId),
+    ledgerAccountId('funding_source', userId),
+    amountMinor,
+    createdAt,
+    transactionId
+  );
+}
+
+/**
+ * Returns part or all of a refunded purchase's round-up from the wallet to
+ * the funding source, before it was swept.
+ */
+export function buildRoundUpReversal(
+  userId: string,
+  transactionId: string,
+  refundId: string,
+  amountMinor: number,
+  createdAt: string
+): JournalEntry {
+  return transfer(
+    userId,
+    'round_up_reversal',
+    `Round-up from transaction ${transactionId} reversed by refund ${refundId}`,
+    ledgerAccountId('funding_source', userId),
+    ledgerAccountId('round_up_wallet', userId),
+    amountMinor,
+    createdAt,
+    transactionId
+  );
+}
+
+/**
+ * Returns swept round-ups of refunded purchases to the funding source out
+ * of the wallet's next sweep.
+ */
+export function buildRoundUpClawback(
+  userId: string,
+  amountMinor: number,
+  createdAt: string
+): JournalEntry {
+  return transfer(
+    userId,
+    'round_up_clawback',
+    'Clawback of swept round-ups from refunded purchases',
+    ledgerAccountId('funding_source', userId),
+    ledgerAccountId('round_up_wallet', userId),
+    amountMinor,
+    createdAt
+  );
+}
+
+/** Moves swept wallet funds into clearing until creditors are paid. */
+export function buildSweep(
+  userId: string,
+  transferId: string,
+  amountMinor: number,
+  createdAt: string
+): JournalEntry {
+  return transfer(
+    userId,
+    'sweep',
+    `Wallet sweep ${transferId}`,
+    ledgerAccountId('sweep_clearing', userId),
+    ledgerAccountId('round_up_wallet', userId),
+    amountMinor,
+    createdAt,
+    transferId
+  );
+}
+
+/** Pays a debt out of clearing. */
+export function buildCreditorPayment(
+  userId: string,
+  debtId: string,
+  paymentId: string,
+  amountMinor: number,
+  createdAt: string
+): JournalEntry {
+  return transfer(
+    userId,
+    'creditor_payment',
+    `Payment ${paymentId} to debt ${debtId}`,
+    ledgerAccountId('debt', userId, debtId),
+    ledgerAccountId('sweep_clearing', userId),
+    amountMinor,
+    createdAt,
+    paymentId
+  );
+}
+
+/** Puts the funds of a returned or failed payment back into the wallet. */
+export function buildPaymentReturn(
+  userId: string,
+  paymentId: string,
+  amountMinor: number,
+  createdAt: string
+): JournalEntry {
+  return transfer(
+    userId,
+    'payment_return',
+    `Funds returned from payment ${paymentId}`,
+    ledgerAccountId('round_up_wallet', userId),
+    ledgerAccountId('sweep_clearing', userId),
+    amountMinor,
+    createdAt,
+    paymentId
+  );
+}
+
+export function buildFee(
+  userId: string,
+  amountMinor: number,
+  description: string,
+  createdAt: string
+): JournalEntry {
+  return transfer(
+    userId,
+    'fee',
+    description,
+    ledgerAccountId('fees', userId),
+    ledgerAccountId('round_up_wallet', userId),
+    amountMinor,
+    createdAt
+  );
+}
+
+/** Mirrors an entry with every line negated. */
+export function buildReversal(original: JournalEntry, reason: string, createdAt: string): JournalEntry {
+  if (original.type === 'reversal') {
+    throw new Error(`Journal entry ${original.id} is itself a reversal`);
+  }
+
+  return {
+    id: entryId(),
+    userId: original.userId,
+    type: 'reversal',
+    description: `Reversal of ${original.id}: ${reason}`,
+    referenceId: original.referenceId,
+    reversesEntryId: original.id,
+    createdAt,
+    lines: original.lines.map(line => ({
+      accountId: line.accountId,
+      amountMinor: -line.amountMinor
+    }))
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * MicroRepay Money
+ *
+ * Immutable currency amounts held as integer minor units (cents for USD)
+ * together with their currency code. All arithmetic stays in integers;
+ * anything that can produce a fraction of a minor unit takes an explicit
+ * rounding mode, and splitting an amount never gains or loses a cent.
+ */
+
+import { CurrencyCode } from '../../types';
+
+export type RoundingMode =
+  | 'half_up'    // nearest, ties away from zero
+  | 'half_even'  // nearest, ties to the even neighbour (banker's rounding)
+  | 'up'         // away from zero
+  | 'down'       // toward zero
+  | 'ceiling'    // toward positive infinity
+  | 'floor';     // toward negative infinity
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+// Number of minor-unit digits per currency (ISO 4217 exponent)
+const CURRENCY_EXPONENTS: Record<CurrencyCode, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CAD: 2,
+  JPY: 0
+};
+
+/**
+ * Rounds `value * 10^scale` to an integer. The value is processed as a
+ * decimal string so inputs such as 1.005 are not distorted by their binary
+ * representation before rounding.
+ */
+export function roundScaled(value: number | string, scale: number, mode: RoundingMode): number {
+  const text = typeof value === 'number' ? decimalString(value) : value.trim();
+  const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+
+  const negative = match[1] === '-';
+  const fraction = match[3] ?? '';
+  const kept = (match[2] || '0') + fraction.slice(0, scale).padEnd(scale, '0');
+  const rest = fraction.slice(scale);
+
+  let magnitude = Number(kept);
+  if (!Number.isSafeInteger(magnitude)) {
+    throw new Error(`Amount out of range: ${value}`);
+  }
+
+  if (/[1-9]/.test(rest)) {
+    const tail = rest.slice(1);
+    const aboveHalf = rest[0] > '5' || (rest[0] === '5' && /[1-9]/.test(tail));
+    const isHalf = rest[0] === '5' && !/[1-9]/.test(tail);
+
+    let roundAway: boolean;
+    switch (mode) {
+      case 'half_up':
+        roundAway = aboveHalf || isHalf;
+        break;
+      case 'half_even':
+        roundAway = aboveHalf || (isHalf && magnitude % 2 === 1);
+        break;
+      case 'up':
+        roundAway = true;
+        break;
+      case 'down':
+        roundAway = false;
+        break;
+      case 'ceiling':
+        roundAway = !negative;
+        break;
+      case 'floor':
+        roundAway = negative;
+        break;
+    }
+    if (roundAway) magnitude += 1;
+  }
+
+  return negative && magnitude !== 0 ? -magnitude : magnitude;
+}
+
+function decimalString(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+  const text = String(value);
+  return /e/i.test(text) ? value.toFixed(20) : text;
+}
+
+export class Money {
+  private constructor(
+    readonly minor: number,
+    readonly currency: CurrencyCode
+  ) {}
+
+  static ofMinor(minor: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+    if (!Number.isSafeInteger(minor)) {
+      throw new Error(`Minor units must be a safe integer, got ${minor}`);
+    }
+    Money.exponent(currency);
+    return new Money(minor === 0 ? 0 : minor, currency);
+  }
+
+  /** Creates an amount from major units, e.g. `Money.of(12.34)` is 1234 cents. */
+  static of(
+    amount: number | string,
+    currency: CurrencyCode = DEFAULT_CURRENCY,
+    mode: RoundingMode = 'half_even'
+  ): Money {
+    return Money.ofMinor(roundScaled(amount, Money.exponent(currency), mode), currency);
+  }
+
+  static zero(currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+    return new Money(0, currency);
+  }
+
+  static sum(amounts: Money[], currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+    return amounts.reduce((total, amount) => total.plus(amount), Money.zero(currency));
+  }
+
+  static min(first: Money, ...rest: Money[]): Money {
+    return rest.reduce((lowest, amount) => (amount.lessThan(lowest) ? amount : lowest), first);
+  }
+
+  static max(first: Money, ...rest: Money[]): Money {
+    return rest.reduce((highest, amount) => (amount.greaterThan(highest) ? amount : highest), first);
+  }
+
+  private static exponent(currency: CurrencyCode): number {
+    const exponent = CURRENCY_EXPONENTS[currency];
+    if (exponent === undefined) {
+      throw new Error(`Unsupported currency: ${currency}`);
+    }
+    return exponent;
+  }
+
+  plus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.ofMinor(this.minor + other.minor, this.currency);
+  }
+
+  minus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.ofMinor(this.minor - other.minor, this.currency);
+  }
+
+  times(factor: number, mode: RoundingMode = 'half_even'): Money {
+    return Money.ofMinor(roundScaled(this.minor * factor, 0, mode), this.currency);
+  }
+
+  dividedBy(divisor: number, mode: RoundingMode = 'half_even'): Money {
+    if (divisor === 0) {
+      throw new Error('Cannot divide money by zero');
+    }
+    return Money.ofMinor(roundScaled(this.minor / divisor, 0, mode), this.currency);
+  }
+
+  negate(): Money {
+    return Money.ofMinor(-this.minor, this.currency);
+  }
+
+  abs(): Money {
+    return Money.ofMinor(Math.abs(this.minor), this.currency);
+  }
+
+  /** Rounds to a multiple of `increment`, e.g. the next whole dollar. */
+  roundToIncrement(increment: Money, mode: RoundingMode): Money {
+    this.assertSameCurrency(increment);
+    if (increment.minor <= 0) {
+      throw new Error('Rounding increment must be positive');
+    }
+    const steps = roundScaled(this.minor / increment.minor, 0, mode);
+    return Money.ofMinor(steps * increment.minor, this.currency);
+  }
+
+  /**
+   * Splits the amount in proportion to `ratios` using the largest-remainder
+   * method. The parts always add back up to this amount exactly; leftover
+   * minor units go to the parts with the largest remainders, earliest first.
+   */
+  allocate(ratios: number[]): Money[] {
+    if (ratios.length === 0) {
+      throw new Error('Cannot allocate across zero parts');
+    }
+    if (ratios.some(ratio => ratio < 0 || !Number.isFinite(ratio))) {
+      throw new Error('Allocation ratios must be finite and non-negative');
+    }
+    const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (totalRatio <= 0) {
+      throw new Error('Allocation ratios must not all be zero');
+    }
+
+    const sign = this.minor < 0 ? -1 : 1;
+    const magnitude = Math.abs(this.minor);
+    const exact = ratios.map(ratio => (magnitude * ratio) / totalRatio);
+    const shares = exact.map(share => Math.floor(share));
+    let leftover = magnitude - shares.reduce((sum, share) => sum + share, 0);
+
+    const byRemainder = exact
+      .map((share, index) => ({ index, remainder: share - shares[index] }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+    for (const { index } of byRemainder) {
+      if (leftover === 0) break;
+      shares[index] += 1;
+      leftover -= 1;
+    }
+
+    return shares.map(share => Money.ofMinor(sign * share, this.currency));
+  }
+
+  /** Splits the amount into `parts` near-equal amounts. */
+  split(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw new Error(`Cannot split money into ${parts} parts`);
+    }
+    return this.allocate(new Array(parts).fill(1));
+  }
+
+  isZero(): boolean {
+    return this.minor === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minor > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0;
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.minor - other.minor);
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  /** The amount in major units, for storage and APIs that take plain numbers. */
+  toNumber(): number {
+    return this.minor / 10 ** Money.exponent(this.currency);
+  }
+
+  format(locale = 'en-US'): string {
+    const exponent = Money.exponent(this.currency);
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency,
+      minimumFractionDigits: exponent,
+      maximumFractionDigits: exponent
+    }).format(this.toNumber());
+  }
+
+  toString(): string {
+    return `${this.toNumber().toFixed(Money.exponent(this.currency))} ${this.currency}`;
+  }
+
+  toJSON(): { minor: number; currency: CurrencyCode } {
+    return { minor: this.minor, currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} and ${other.currency}`);
+    }
+  }
+}
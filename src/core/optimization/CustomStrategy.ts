@@ -0,0 +1,179 @@
+/**
+ * MicroRepay Custom Strategy
+ *
+ * This module implements the allocation strategy users configure
+ * themselves. Funds are allocated in this order:
+ *
+ * 1. Pinned debts get their fixed amount.
+ * 2. The target debt gets what it needs each month, beyond its minimum
+ *    payment, to be paid off by its target date.
+ * 3. Weighted debts split what is left by their percentages.
+ * 4. Anything still unallocated, because weights add up to less than 100%
+ *    or a debt owes less than its share, goes to the highest interest rate
+ *    first.
+ *
+ * Excluded debts get nothing, and no debt is paid more than it owes.
+ */
+
+import { Money } from '../money/Money';
+import { CustomAllocationRules } from '../../types';
+import type { AllocationReason, DebtAccount, OptimizationStrategy, PaymentSchedule } from './OptimizationEngine';
+import { paymentsBefore, payoffPayment } from './RateSchedule';
+
+export const DEFAULT_CUSTOM_ALLOCATION_RULES: CustomAllocationRules = {
+  weights: {},
+  pins: {},
+  excludedDebtIds: [],
+  target: null
+};
+
+/** Fills in any rule missing from stored or partially edited rules. */
+export function normalizeCustomAllocationRules(rules?: Partial<CustomAllocationRules>): CustomAllocationRules {
+  return {
+    ...DEFAULT_CUSTOM_ALLOCATION_RULES,
+    ...rules,
+    weights: { ...(rules?.weights ?? {}) },
+    pins: { ...(rules?.pins ?? {}) },
+    excludedDebtIds: [...(rules?.excludedDebtIds ?? [])],
+    target: rules?.target ? { ...rules.target } : null
+  };
+}
+
+/** Throws if the rules cannot be allocated with. */
+export function validateCustomAllocationRules(rules: CustomAllocationRules): void {
+  const excluded = new Set(rules.excludedDebtIds);
+
+  let totalWeight = 0;
+  for (const [debtId, weight] of Object.entries(rules.weights)) {
+    if (!(weight >= 0 && weight <= 100)) {
+      throw new Error(`Weight for debt ${debtId} must be between 0 and 100, got ${weight}`);
+    }
+    if (excluded.has(debtId) && weight > 0) {
+      throw new Error(`Debt ${debtId} is excluded and cannot have a weight`);
+    }
+    totalWeight += weight;
+  }
+  if (totalWeight > 100) {
+    throw new Error(`Weights must add up to 100% or less, got ${totalWeight}%`);
+  }
+
+  for (const [debtId, amount] of Object.entries(rules.pins)) {
+    if (!(amount >= 0) || !Number.isFinite(amount)) {
+      throw new Error(`Pinned amount for debt ${debtId} must be zero or more, got ${amount}`);
+    }
+    if (excluded.has(debtId) && amount > 0) {
+      throw new Error(`Debt ${debtId} is excluded and cannot have a pinned amount`);
+    }
+  }
+
+  if (rules.target) {
+    if (Number.isNaN(new Date(rules.target.payoffDate).getTime())) {
+      throw new Error(`Target payoff date must be a date, got "${rules.target.payoffDate}"`);
+    }
+    if (excluded.has(rules.target.debtId)) {
+      throw new Error(`Debt ${rules.target.debtId} is excluded and cannot be the target`);
+    }
+  }
+}
+
+export class CustomStrategy implements OptimizationStrategy {
+  name = 'Custom Strategy';
+  description = 'Follows your own weights, pinned amounts and payoff target';
+
+  private readonly rules: CustomAllocationRules;
+
+  constructor(rules: Partial<CustomAllocationRules> = DEFAULT_CUSTOM_ALLOCATION_RULES) {
+    this.rules = normalizeCustomAllocationRules(rules);
+    validateCustomAllocationRules(this.rules);
+  }
+
+  calculatePayments(
+    accounts: DebtAccount[],
+    availableFunds: number,
+    startDate: string
+  ): PaymentSchedule[] {
+    const excluded = new Set(this.rules.excludedDebtIds);
+    const eligible = accounts.filter(account => !excluded.has(account.id));
+
+    // What each debt still owes after this allocation, and what it gets, in payment order
+    const owed = new Map(eligible.map(account => [account.id, Money.max(Money.of(account.currentBalance), Money.zero())]));
+    const allocated = new Map<string, { amount: Money; reasons: AllocationReason[] }>();
+    let remainingFunds = Money.of(availableFunds);
+
+    const pay = (account: DebtAccount, amount: Money, detail: string) => {
+      const payment = Money.min(amount, remainingFunds, owed.get(account.id));
+      if (!payment.isPositive()) return;
+
+      const entry = allocated.get(account.id) ?? { amount: Money.zero(), reasons: [] };
+      allocated.set(account.id, {
+        amount: entry.amount.plus(payment),
+        reasons: [...entry.reasons, { kind: 'strategy', amount: payment.toNumber(), detail }]
+      });
+      owed.set(account.id, owed.get(account.id).minus(payment));
+      remainingFunds = remainingFunds.minus(payment);
+    };
+
+    // 1. Pins
+    for (const account of eligible) {
+      const pin = this.rules.pins[account.id];
+      if (pin) {
+        pay(account, Money.of(pin), `Pinned amount of ${Money.of(pin).format()}`);
+      }
+    }
+
+    // 2. The target debt's monthly need
+    const target = this.rules.target && eligible.find(account => account.id === this.rules.target.debtId);
+    if (target) {
+      pay(
+        target,
+        this.targetNeed(target, owed.get(target.id), startDate),
+        `Needed this month to pay it off by ${this.rules.target.payoffDate.substring(0, 10)}`
+      );
+    }
+
+    // 3. Weights, with the unweighted share left for the rest
+    const weighted = eligible.filter(account => (this.rules.weights[account.id] ?? 0) > 0);
+    const totalWeight = weighted.reduce((total, account) => total + this.rules.weights[account.id], 0);
+    if (weighted.length > 0 && remainingFunds.isPositive()) {
+      const shares = remainingFunds.allocate([
+        ...weighted.map(account => this.rules.weights[account.id]),
+        Math.max(100 - totalWeight, 0)
+      ]);
+      weighted.forEach((account, index) =>
+        pay(account, shares[index], `${this.rules.weights[account.id]}% weight`)
+      );
+    }
+
+    // 4. Whatever is left, highest interest rate first
+    for (const account of [...eligible].sort((a, b) => b.interestRate - a.interestRate)) {
+      if (!remainingFunds.isPositive()) break;
+      pay(
+        account,
+        remainingFunds,
+        `Highest interest rate still owing (${(account.interestRate * 100).toFixed(2)}% APR)`
+      );
+    }
+
+    return Array.from(allocated.entries()).map(([debtId, entry], index) => ({
+      debtId,
+      accountId: eligible.find(account => account.id === debtId).accountId,
+      amount: entry.amount.toNumber(),
+      date: startDate,
+      priority: index + 1,
+      reasons: entry.reasons
+    }));
+  }
+
+  /**
+   * Monthly payment that pays `balance` off by the target date at the
+   * debt's interest rate, less the minimum payment the user already makes.
+   * Past the date, the whole balance is due.
+   */
+  private targetNeed(account: DebtAccount, balance: Money, startDate: string): Money {
+    const payments = paymentsBefore(new Date(startDate), new Date(this.rules.target.payoffDate));
+    if (payments <= 1) return balance;
+
+    const payment = payoffPayment(balance, account.interestRate, payments);
+    return Money.max(payment.minus(Money.of(account.minimumPayment)), Money.zero());
+  }
+}
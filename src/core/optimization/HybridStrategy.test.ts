@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Money } from '../money/Money';
+import { DebtAccount, HybridStrategy, HybridStrategyOptions } from './OptimizationEngine';
+
+const START_DATE = '2026-10-18T00:00:00.000Z';
+const RUNS = 500;
+
+// Deterministic so a failing case can be replayed from its seed
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface HybridCase {
+  options: HybridStrategyOptions;
+  accounts: DebtAccount[];
+  availableFunds: number;
+}
+
+function randomCase(random: () => number): HybridCase {
+  const cents = (max: number) => Math.round(random() * max * 100) / 100;
+  const accounts: DebtAccount[] = Array.from({ length: Math.floor(random() * 8) }, (_, index) => ({
+    id: `debt-${index}`,
+    creditorId: `creditor-${index}`,
+    // Account numbers are only unique per creditor
+    accountId: `account-${index % 3}`,
+    // Some debts are already paid off, or overpaid
+    currentBalance: random() < 0.15 ? -cents(50) * Math.round(random()) : cents(5000),
+    interestRate: Math.round(random() * 3000) / 10000,
+    minimumPayment: cents(100),
+    dueDate: '2026-11-15T00:00:00.000Z'
+  }));
+
+  return {
+    options: {
+      highInterestThreshold: Math.round(random() * 3000) / 10000,
+      lowBalanceThreshold: cents(3000),
+      highInterestShare: Math.round(random() * 100) / 100
+    },
+    accounts,
+    availableFunds: random() < 0.1 ? 0 : cents(random() < 0.5 ? 500 : 20000)
+  };
+}
+
+function forEachCase(check: (testCase: HybridCase) => void): void {
+  for (let seed = 1; seed <= RUNS; seed++) {
+    const testCase = randomCase(seededRandom(seed));
+    try {
+      check(testCase);
+    } catch (error) {
+      throw new Error(`Seed ${seed} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+const payOff = ({ options, accounts, availableFunds }: HybridCase) =>
+  new HybridStrategy(options).calculatePayments(accounts, availableFunds, START_DATE);
+
+describe('HybridStrategy', () => {
+  it('never pays a debt more than it owes', () => {
+    forEachCase(testCase => {
+      for (const payment of payOff(testCase)) {
+        const account = testCase.accounts.find(candidate => candidate.id === payment.debtId)!;
+        expect(payment.amount).toBeGreaterThan(0);
+        expect(Money.of(payment.amount).greaterThan(Money.of(account.currentBalance))).toBe(false);
+      }
+    });
+  });
+
+  it('pays each debt at most once', () => {
+    forEachCase(testCase => {
+      const debtIds = payOff(testCase).map(payment => payment.debtId);
+      expect(new Set(debtIds).size).toBe(debtIds.length);
+    });
+  });
+
+  it('spends the funds or everything owed, whichever is less', () => {
+    forEachCase(testCase => {
+      const spent = Money.sum(payOff(testCase).map(payment => Money.of(payment.amount)));
+      const owed = Money.sum(
+        testCase.accounts.map(account => Money.max(Money.of(account.currentBalance), Money.zero()))
+      );
+      expect(spent.minor).toBe(Money.min(Money.of(testCase.availableFunds), owed).minor);
+    });
+  });
+
+  it('sends a bucket it cannot spend to the other bucket, then the remaining debts', () => {
+    const debt = (id: string, currentBalance: number, interestRate: number): DebtAccount => ({
+      id,
+      creditorId: 'creditor',
+      accountId: id,
+      currentBalance,
+      interestRate,
+      minimumPayment: 25,
+      dueDate: START_DATE
+    });
+    // High interest and low balance, low balance only, neither
+    const accounts = [debt('card', 100, 0.24), debt('store', 300, 0.05), debt('car', 8000, 0.07)];
+
+    const payments = new HybridStrategy().calculatePayments(accounts, 1000, START_DATE);
+
+    expect(payments.map(payment => [payment.accountId, payment.amount])).toEqual([
+      ['card', 100],
+      ['store', 300],
+      ['car', 600]
+    ]);
+  });
+});
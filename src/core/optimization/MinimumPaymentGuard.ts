@@ -0,0 +1,122 @@
+/**
+ * MicroRepay Minimum Payment Guard
+ *
+ * This module protects due dates before any strategy sees the funds. A
+ * debt whose next due date falls within the window, or has already passed,
+ * first gets whatever its minimum payment still lacks, soonest due first.
+ * Payments made during the current billing cycle, the month leading up to
+ * the due date, count toward the minimum; failed, returned and reversed
+ * payments do not. The strategy allocates what is left.
+ */
+
+import { Money } from '../money/Money';
+import { Payment, PaymentStatus } from '../../types';
+import type { DebtAccount, PaymentSchedule } from './OptimizationEngine';
+
+export const DEFAULT_DUE_WINDOW_DAYS = 7;
+
+export type CyclePayment = Pick<Payment, 'debtId' | 'amount' | 'date' | 'status'>;
+
+export interface MinimumPaymentGuardOptions {
+  dueWindowDays?: number; // Days ahead a due date is protected; defaults to 7
+}
+
+export interface GuardedFunds {
+  schedule: PaymentSchedule[]; // Minimums covered, soonest due first
+  accounts: DebtAccount[]; // Balances left after those payments
+  remainingFunds: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Payments that never reached, or were taken back from, the creditor
+const UNPAID_STATUSES: PaymentStatus[] = ['failed', 'returned', 'reversed'];
+
+export class MinimumPaymentGuard {
+  private readonly dueWindowDays: number;
+
+  constructor(options: MinimumPaymentGuardOptions = {}) {
+    this.dueWindowDays = options.dueWindowDays ?? DEFAULT_DUE_WINDOW_DAYS;
+    if (!(this.dueWindowDays >= 0)) {
+      throw new Error(`Due date window must be zero or more days, got ${this.dueWindowDays}`);
+    }
+  }
+
+  /**
+   * What the debt's minimum payment still lacks, if it is due within the
+   * window of `asOf`; zero otherwise. Never more than the balance.
+   */
+  unmetMinimum(account: DebtAccount, asOf: string, paymentsThisCycle: CyclePayment[] = []): Money {
+    const dueDate = new Date(account.dueDate);
+    if (dueDate.getTime() > new Date(asOf).getTime() + this.dueWindowDays * DAY_MS) {
+      return Money.zero();
+    }
+
+    const cycleStart = new Date(dueDate.getTime());
+    cycleStart.setUTCMonth(cycleStart.getUTCMonth() - 1);
+    const paid = Money.sum(
+      paymentsThisCycle
+        .filter(
+          payment =>
+            payment.debtId === account.id &&
+            !UNPAID_STATUSES.includes(payment.status) &&
+            new Date(payment.date).getTime() > cycleStart.getTime()
+        )
+        .map(payment => Money.of(payment.amount))
+    );
+
+    const unmet = Money.max(Money.of(account.minimumPayment).minus(paid), Money.zero());
+    return Money.min(unmet, Money.max(Money.of(account.currentBalance), Money.zero()));
+  }
+
+  /** Covers unmet minimums due within the window out of `availableFunds`. */
+  protect(
+    accounts: DebtAccount[],
+    availableFunds: number,
+    startDate: string,
+    paymentsThisCycle: CyclePayment[] = []
+  ): GuardedFunds {
+    const schedule: PaymentSchedule[] = [];
+    const paidTo = new Map<string, Money>();
+    let remainingFunds = Money.of(availableFunds);
+
+    const dueFirst = [...accounts].sort(
+      (a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+    );
+    for (const account of dueFirst) {
+      if (!remainingFunds.isPositive()) break;
+
+      const unmet = this.unmetMinimum(account, startDate, paymentsThisCycle);
+      const paymentAmount = Money.min(unmet, remainingFunds);
+      if (!paymentAmount.isPositive()) continue;
+
+      const shortfall = unmet.minus(paymentAmount);
+      schedule.push({
+        debtId: account.id,
+        accountId: account.accountId,
+        amount: paymentAmount.toNumber(),
+        date: startDate,
+        priority: schedule.length + 1,
+        reasons: [{
+          kind: 'minimum_due',
+          amount: paymentAmount.toNumber(),
+          detail: `Minimum payment due ${account.dueDate.substring(0, 10)}` +
+            (shortfall.isPositive() ? `, ${shortfall.format()} still short` : '')
+        }]
+      });
+      paidTo.set(account.id, paymentAmount);
+      remainingFunds = remainingFunds.minus(paymentAmount);
+    }
+
+    return {
+      schedule,
+      accounts: accounts.map(account => {
+        const paid = paidTo.get(account.id);
+        return paid
+          ? { ...account, currentBalance: Money.of(account.currentBalance).minus(paid).toNumber() }
+          : account;
+      }),
+      remainingFunds: remainingFunds.toNumber()
+    };
+  }
+}
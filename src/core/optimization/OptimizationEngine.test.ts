@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { DebtAccount, OptimizationEngine } from './OptimizationEngine';
+
+const START_DATE = '2026-10-18T00:00:00.000Z';
+
+describe('OptimizationEngine', () => {
+  it('keeps apart debts whose creditors use the same account number', () => {
+    const debt = (id: string, creditorId: string, interestRate: number): DebtAccount => ({
+      id,
+      creditorId,
+      accountId: '0001',
+      currentBalance: 1000,
+      interestRate,
+      minimumPayment: 25,
+      dueDate: '2026-10-25T00:00:00.000Z'
+    });
+    const accounts = [debt('card', 'bank-a', 0.24), debt('loan', 'bank-b', 0.06)];
+
+    const payments = new OptimizationEngine().optimizePayments('avalanche', accounts, 100, START_DATE);
+
+    // Both minimums first, then the rest to the higher rate
+    expect(payments.map(payment => [payment.debtId, payment.amount])).toEqual([
+      ['card', 75],
+      ['loan', 25]
+    ]);
+  });
+});
@@ -5,6 +5,21 @@
  * and debt reduction strategies.
  */
 
+import { Money } from '../money/Money';
+import type { AccountBalance } from '../integration/CreditorIntegration';
+import { CustomAllocationRules, Debt, RateSchedule } from '../../types';
+import { CustomStrategy, DEFAULT_CUSTOM_ALLOCATION_RULES } from './CustomStrategy';
+import { CyclePayment, MinimumPaymentGuard } from './MinimumPaymentGuard';
+import { PromoRateGuard } from './PromoRateGuard';
+import { rateOn } from './RateSchedule';
+import {
+  PayoffPlan,
+  PayoffProjection,
+  PayoffSimulation,
+  PayoffSimulator,
+  PayoffSimulatorOptions
+} from './PayoffSimulator';
+
 export interface DebtAccount {
   id: string;
   creditorId: string;
@@ -13,13 +28,98 @@ export interface DebtAccount {
   interestRate: number;
   minimumPayment: number;
   dueDate: string;
+  rateSchedule?: RateSchedule; // Promotional APR and the rate it reverts to
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `date` moved by whole months, on the same day or the month's last day if it has fewer. */
+function addMonthsClamped(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+  return result;
+}
+
+/** The first date of the debt's monthly due date cycle on or after `from`. */
+export function nextDueDate(dueDate: string, from: Date): Date {
+  const anchor = new Date(dueDate);
+  let months = (from.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (from.getUTCMonth() - anchor.getUTCMonth());
+  while (addMonthsClamped(anchor, months) < from) months += 1;
+  while (addMonthsClamped(anchor, months - 1) >= from) months -= 1;
+  return addMonthsClamped(anchor, months);
+}
+
+/**
+ * Debt accounts for the linked accounts we track as debts. Only balances
+ * the creditor has just reported are used unless `allowStale` is set;
+ * accounts whose creditor failed are left out.
+ */
+export function debtAccountsFromBalances(
+  balances: AccountBalance[],
+  trackedDebts: Pick<Debt, 'id' | 'creditorId' | 'accountId' | 'rateSchedule'>[],
+  allowStale = false
+): DebtAccount[] {
+  return balances.flatMap(entry => {
+    const debt = trackedDebts.find(
+      tracked => tracked.creditorId === entry.creditorId && tracked.accountId === entry.accountId
+    );
+    if (!debt || entry.status === 'error' || (entry.status === 'stale' && !allowStale)) {
+      return [];
+    }
+
+    return [{
+      id: debt.id,
+      creditorId: entry.creditorId,
+      accountId: entry.accountId,
+      currentBalance: entry.balance.currentBalance,
+      interestRate: entry.balance.interestRate,
+      minimumPayment: entry.balance.minimumPayment,
+      dueDate: entry.balance.dueDate,
+      rateSchedule: debt.rateSchedule
+    }];
+  });
 }
 
 export interface PaymentSchedule {
+  debtId: string; // The DebtAccount paid; its creditor account number alone is not unique
   accountId: string;
   amount: number;
   date: string;
   priority: number;
+  reasons?: AllocationReason[]; // Why the amount was allocated, as the optimizer explains it
+  fundedFrom?: string; // Scheduled payments only: when the funds it is planned from start coming in
+}
+
+export interface AllocationReason {
+  kind: 'minimum_due' | 'promo_expiry' | 'strategy';
+  amount: number; // The part of the payment this reason accounts for
+  detail: string;
+}
+
+export interface ForwardSchedulePlan {
+  startDate?: string; // Defaults to now
+  months?: number; // How far ahead to schedule; defaults to 3
+  monthlyRoundUps: number; // Round-ups expected to come in each month
+  walletBalance?: number; // Already in the wallet, scheduled for the next due dates
+  leadDays?: number; // Days before a due date a payment is made; defaults to 3
+}
+
+export interface AllocationConstraints {
+  dueWindowDays?: number; // Minimums due within this many days are covered first
+  paymentsThisCycle?: CyclePayment[]; // The user's payments, counted toward their minimums
+}
+
+export interface StrategyComparison {
+  strategy: string; // Key to optimize with, e.g. 'avalanche'
+  name: string;
+  description: string;
+  payoffDate: string | null; // Null when not paid off within the horizon
+  totalInterest: number;
+  monthsToFirstPayoff: number | null;
+  simulation: PayoffSimulation;
 }
 
 export interface OptimizationStrategy {
@@ -51,25 +151,31 @@ export class AvalancheStrategy implements OptimizationStrategy {
     startDate: string
   ): PaymentSchedule[] {
     const schedule: PaymentSchedule[] = [];
-    let remainingFunds = availableFunds;
+    let remainingFunds = Money.of(availableFunds);
 
     for (const account of accounts) {
-      if (remainingFunds <= 0) break;
+      if (!remainingFunds.isPositive()) break;
 
-      const paymentAmount = Math.min(
+      const paymentAmount = Money.min(
         remainingFunds,
-        account.currentBalance
+        Money.of(account.currentBalance)
       );
 
-      if (paymentAmount > 0) {
+      if (paymentAmount.isPositive()) {
         schedule.push({
+          debtId: account.id,
           accountId: account.accountId,
-          amount: paymentAmount,
+          amount: paymentAmount.toNumber(),
           date: startDate,
-          priority: schedule.length + 1
+          priority: schedule.length + 1,
+          reasons: [{
+            kind: 'strategy',
+            amount: paymentAmount.toNumber(),
+            detail: `Highest interest rate still owing (${(account.interestRate * 100).toFixed(2)}% APR)`
+          }]
         });
 
-        remainingFunds -= paymentAmount;
+        remainingFunds = remainingFunds.minus(paymentAmount);
       }
     }
 
@@ -96,25 +202,31 @@ export class SnowballStrategy implements OptimizationStrategy {
     startDate: string
   ): PaymentSchedule[] {
     const schedule: PaymentSchedule[] = [];
-    let remainingFunds = availableFunds;
+    let remainingFunds = Money.of(availableFunds);
 
     for (const account of accounts) {
-      if (remainingFunds <= 0) break;
+      if (!remainingFunds.isPositive()) break;
 
-      const paymentAmount = Math.min(
+      const paymentAmount = Money.min(
         remainingFunds,
-        account.currentBalance
+        Money.of(account.currentBalance)
       );
 
-      if (paymentAmount > 0) {
+      if (paymentAmount.isPositive()) {
         schedule.push({
+          debtId: account.id,
           accountId: account.accountId,
-          amount: paymentAmount,
+          amount: paymentAmount.toNumber(),
           date: startDate,
-          priority: schedule.length + 1
+          priority: schedule.length + 1,
+          reasons: [{
+            kind: 'strategy',
+            amount: paymentAmount.toNumber(),
+            detail: `Smallest balance still owing (${Money.of(account.currentBalance).format()})`
+          }]
         });
 
-        remainingFunds -= paymentAmount;
+        remainingFunds = remainingFunds.minus(paymentAmount);
       }
     }
 
@@ -122,168 +234,315 @@ export class SnowballStrategy implements OptimizationStrategy {
   }
 }
 
+export interface HybridStrategyOptions {
+  highInterestThreshold?: number; // Rates at or above it are high interest; defaults to 0.15 (15% APR)
+  lowBalanceThreshold?: number; // Balances at or below it are low; defaults to $1,000
+  highInterestShare?: number; // Fraction of funds for high-interest debts; defaults to 0.7
+}
+
+export const DEFAULT_HYBRID_STRATEGY_OPTIONS: Required<HybridStrategyOptions> = {
+  highInterestThreshold: 0.15,
+  lowBalanceThreshold: 1000,
+  highInterestShare: 0.7
+};
+
 export class HybridStrategy implements OptimizationStrategy {
   name = 'Hybrid Strategy';
   description = 'Combines avalanche and snowball approaches based on debt characteristics';
 
+  private readonly options: Required<HybridStrategyOptions>;
+
+  constructor(options: HybridStrategyOptions = {}) {
+    this.options = { ...DEFAULT_HYBRID_STRATEGY_OPTIONS, ...options };
+
+    const { highInterestThreshold, lowBalanceThreshold, highInterestShare } = this.options;
+    if (!(highInterestThreshold >= 0)) {
+      throw new Error(`High-interest threshold must be zero or more, got ${highInterestThreshold}`);
+    }
+    if (!(lowBalanceThreshold >= 0)) {
+      throw new Error(`Low-balance threshold must be zero or more, got ${lowBalanceThreshold}`);
+    }
+    if (!(highInterestShare >= 0 && highInterestShare <= 1)) {
+      throw new Error(`High-interest share must be between 0 and 1, got ${highInterestShare}`);
+    }
+  }
+
+  /**
+   * Splits the funds between high-interest debts, highest rate first, and
+   * low-balance debts, smallest first. A bucket's unspent funds go to the
+   * other bucket, and what neither can use goes to the remaining debts,
+   * highest rate first. A debt in both groups is never paid more than it
+   * owes.
+   */
   calculatePayments(
     accounts: DebtAccount[],
     availableFunds: number,
     startDate: string
   ): PaymentSchedule[] {
-    // Split accounts into high-interest and low-balance groups
-    const highInterestThreshold = 0.15; // 15% APR
-    const lowBalanceThreshold = 1000; // $1,000
-
-    const highInterestAccounts = accounts.filter(
-      account => account.interestRate >= highInterestThreshold
-    ).sort((a, b) => b.interestRate - a.interestRate);
-
-    const lowBalanceAccounts = accounts.filter(
-      account => account.currentBalance <= lowBalanceThreshold
-    ).sort((a, b) => a.currentBalance - b.currentBalance);
-
-    // Allocate 70% of funds to high-interest debts
-    const highInterestFunds = availableFunds * 0.7;
-    const lowBalanceFunds = availableFunds * 0.3;
-
-    const schedule: PaymentSchedule[] = [];
-
-    // Process high-interest accounts first
-    let remainingHighInterestFunds = highInterestFunds;
-    for (const account of highInterestAccounts) {
-      if (remainingHighInterestFunds <= 0) break;
-
-      const paymentAmount = Math.min(
-        remainingHighInterestFunds,
-        account.currentBalance
-      );
-
-      if (paymentAmount > 0) {
-        schedule.push({
-          accountId: account.accountId,
-          amount: paymentAmount,
-          date: startDate,
-          priority: schedule.length + 1
+    const { highInterestThreshold, lowBalanceThreshold, highInterestShare } = this.options;
+    const open = accounts.filter(account => account.currentBalance > 0);
+
+    const highInterestAccounts = open
+      .filter(account => account.interestRate >= highInterestThreshold)
+      .sort((a, b) => b.interestRate - a.interestRate);
+    const lowBalanceAccounts = open
+      .filter(account => account.currentBalance <= lowBalanceThreshold)
+      .sort((a, b) => a.currentBalance - b.currentBalance);
+    const otherAccounts = open
+      .filter(account => !highInterestAccounts.includes(account) && !lowBalanceAccounts.includes(account))
+      .sort((a, b) => b.interestRate - a.interestRate);
+
+    // What each debt still owes, shared by both buckets, and what it gets, in payment order
+    const owed = new Map(open.map(account => [account.id, Money.of(account.currentBalance)]));
+    const allocated = new Map<string, { account: DebtAccount; amount: Money; reasons: AllocationReason[] }>();
+
+    const payAll = (group: DebtAccount[], funds: Money, detail: (account: DebtAccount) => string): Money => {
+      let remainingFunds = funds;
+      for (const account of group) {
+        if (!remainingFunds.isPositive()) break;
+
+        const paymentAmount = Money.min(remainingFunds, owed.get(account.id));
+        if (!paymentAmount.isPositive()) continue;
+
+        const entry = allocated.get(account.id) ?? { account, amount: Money.zero(), reasons: [] };
+        allocated.set(account.id, {
+          account,
+          amount: entry.amount.plus(paymentAmount),
+          reasons: [...entry.reasons, { kind: 'strategy', amount: paymentAmount.toNumber(), detail: detail(account) }]
         });
-
-        remainingHighInterestFunds -= paymentAmount;
+        owed.set(account.id, owed.get(account.id).minus(paymentAmount));
+        remainingFunds = remainingFunds.minus(paymentAmount);
       }
-    }
-
-    // Process low-balance accounts
-    let remainingLowBalanceFunds = lowBalanceFunds;
-    for (const account of lowBalanceAccounts) {
-      if (remainingLowBalanceFunds <= 0) break;
-
-      const paymentAmount = Math.min(
-        remainingLowBalanceFunds,
-        account.currentBalance
-      );
-
-      if (paymentAmount > 0) {
-        schedule.push({
-          accountId: account.accountId,
-          amount: paymentAmount,
-          date: startDate,
-          priority: schedule.length + 1
-        });
-
-        remainingLowBalanceFunds -= paymentAmount;
-      }
-    }
+      return remainingFunds;
+    };
 
-    return schedule;
+    const highShare = `${Math.round(highInterestShare * 100)}% share`;
+    const lowShare = `${Math.round((1 - highInterestShare) * 100)}% share`;
+    const highInterest = (account: DebtAccount) =>
+      `High-interest debt (${(account.interestRate * 100).toFixed(2)}% APR)`;
+    const lowBalance = (account: DebtAccount) =>
+      `Low balance (${Money.of(account.currentBalance).format()})`;
+
+    // Split the funds without losing a cent to rounding
+    const [highInterestFunds, lowBalanceFunds] = Money.of(availableFunds).allocate([
+      highInterestShare,
+      1 - highInterestShare
+    ]);
+    const highInterestLeft = payAll(highInterestAccounts, highInterestFunds, account =>
+      `${highInterest(account)}, from the ${highShare}`
+    );
+    const lowBalanceLeft = payAll(lowBalanceAccounts, lowBalanceFunds, account =>
+      `${lowBalance(account)}, from the ${lowShare}`
+    );
+
+    // Each bucket's unspent funds go to the other bucket, then to every other debt
+    const spilledToLow = payAll(lowBalanceAccounts, highInterestLeft, account =>
+      `${lowBalance(account)}, from the unspent ${highShare}`
+    );
+    const spilledToHigh = payAll(highInterestAccounts, lowBalanceLeft, account =>
+      `${highInterest(account)}, from the unspent ${lowShare}`
+    );
+    payAll(otherAccounts, spilledToLow.plus(spilledToHigh), account =>
+      `Highest interest rate still owing (${(account.interestRate * 100).toFixed(2)}% APR), from funds neither group needed`
+    );
+
+    return Array.from(allocated.values()).map((entry, index) => ({
+      debtId: entry.account.id,
+      accountId: entry.account.accountId,
+      amount: entry.amount.toNumber(),
+      date: startDate,
+      priority: index + 1,
+      reasons: entry.reasons
+    }));
   }
 }
 
+export interface OptimizationEngineOptions {
+  customRules?: Partial<CustomAllocationRules>; // The rules the 'custom' strategy allocates by
+  hybrid?: HybridStrategyOptions;
+}
+
 export class OptimizationEngine {
   private strategies: Map<string, OptimizationStrategy>;
+  // Why a strategy could not be built from its options
+  private unavailable = new Map<string, string>();
 
-  constructor() {
-    this.strategies = new Map([
+  constructor(options: OptimizationEngineOptions = {}) {
+    this.strategies = new Map<string, OptimizationStrategy>([
       ['avalanche', new AvalancheStrategy()],
       ['snowball', new SnowballStrategy()],
-      ['hybrid', new HybridStrategy()]
+      ['hybrid', new HybridStrategy(options.hybrid)]
     ]);
+
+    // Invalid custom rules only make the custom strategy unavailable, so
+    // rules saved before they were checked cannot break the others
+    try {
+      this.strategies.set('custom', new CustomStrategy(options.customRules ?? DEFAULT_CUSTOM_ALLOCATION_RULES));
+    } catch (error) {
+      this.unavailable.set('custom', error instanceof Error ? error.message : 'Unknown error');
+    }
   }
 
   getAvailableStrategies(): OptimizationStrategy[] {
     return Array.from(this.strategies.values());
   }
 
+  /**
+   * Allocates `availableFunds` across the debts. Unmet minimums due within
+   * the window are covered first, then what promotional balances need to
+   * be paid off before their rate reverts; the strategy allocates the rest
+   * by the rates charged on `startDate`. Each debt appears once in the
+   * schedule, with every reason it was paid.
+   */
   optimizePayments(
     strategyName: string,
     accounts: DebtAccount[],
     availableFunds: number,
-    startDate: string = new Date().toISOString()
+    startDate: string = new Date().toISOString(),
+    constraints: AllocationConstraints = {}
   ): PaymentSchedule[] {
-    const strategy = this.strategies.get(strategyName.toLowerCase());
-    
-    if (!strategy) {
-      throw new Error(`Unknown optimization strategy: ${strategyName}`);
-    }
+    const strategy = this.getStrategy(strategyName);
+    const charged = accounts.map(account => ({ ...account, interestRate: rateOn(account, new Date(startDate)) }));
+    const guarded = new MinimumPaymentGuard({ dueWindowDays: constraints.dueWindowDays }).protect(
+      charged,
+      availableFunds,
+      startDate,
+      constraints.paymentsThisCycle
+    );
+    const promoted = new PromoRateGuard().protect(guarded.accounts, guarded.remainingFunds, startDate);
+    const allocated = promoted.remainingFunds > 0
+      ? strategy.calculatePayments(promoted.accounts, promoted.remainingFunds, startDate)
+      : [];
+
+    return this.mergeSchedules([
+      ...guarded.schedule,
+      ...promoted.schedule,
+      ...allocated.map(payment => ({
+        ...payment,
+        reasons: payment.reasons ?? [{ kind: 'strategy' as const, amount: payment.amount, detail: strategy.name }]
+      }))
+    ]);
+  }
 
-    return strategy.calculatePayments(accounts, availableFunds, startDate);
+  /**
+   * Schedules the wallet balance and the expected round-ups as payments
+   * for the months ahead. The strategy allocates the wallet balance now,
+   * and each month's round-ups against the balances projected for that
+   * month, after the user's own minimum payments. A payment is dated
+   * `leadDays` before the debt's next due date once its funds are in: right
+   * away for the wallet balance, after its month for round-ups.
+   */
+  scheduleForward(
+    strategyName: string,
+    accounts: DebtAccount[],
+    plan: ForwardSchedulePlan,
+    options: Pick<PayoffSimulatorOptions, 'compounding'> = {}
+  ): PaymentSchedule[] {
+    const start = new Date(plan.startDate ?? new Date().toISOString());
+    const leadDays = plan.leadDays ?? 3;
+    const strategy = this.getStrategy(strategyName);
+    const simulatorOptions = { ...options, rollOverMinimums: false, recordPayments: true };
+
+    const fromWallet = plan.walletBalance
+      ? new PayoffSimulator(strategy, { ...simulatorOptions, maxMonths: 1 }).simulate(accounts, {
+          startDate: start.toISOString(),
+          lumpSums: [{ date: start.toISOString(), amount: plan.walletBalance }]
+        }).payments ?? []
+      : [];
+    // The round-ups are allocated against what the wallet payments leave owing
+    const fromRoundUps = new PayoffSimulator(strategy, { ...simulatorOptions, maxMonths: plan.months ?? 3 }).simulate(
+      accounts,
+      { startDate: start.toISOString(), monthlyRoundUps: plan.monthlyRoundUps, scheduledPayments: fromWallet }
+    ).payments ?? [];
+
+    const scheduleAfter = (payment: PaymentSchedule, fundedBy: Date): PaymentSchedule[] => {
+      const account = accounts.find(candidate => candidate.id === payment.debtId);
+      if (!account) return [];
+
+      const dueDate = nextDueDate(account.dueDate, new Date(fundedBy.getTime() + leadDays * DAY_MS));
+      return [{
+        ...payment,
+        date: new Date(dueDate.getTime() - leadDays * DAY_MS).toISOString(),
+        fundedFrom: payment.date
+      }];
+    };
+    return [
+      ...fromWallet.flatMap(payment => scheduleAfter(payment, start)),
+      ...fromRoundUps.flatMap(payment => scheduleAfter(payment, addMonthsClamped(new Date(payment.date), 1)))
+    ];
   }
 
-  calculateProjectedSavings(
+  /**
+   * Simulates paying the debts off month by month under the strategy and
+   * compares the plan with paying only the minimums.
+   */
+  projectPayoff(
+    strategyName: string,
     accounts: DebtAccount[],
-    paymentSchedule: PaymentSchedule[]
-  ): {
-    totalInterestSaved: number;
-    monthsToPayoff: number;
-    totalPayments: number;
-  } {
-    let totalInterestSaved = 0;
-    let monthsToPayoff = 0;
-    let totalPayments = 0;
-
-    // Create a copy of accounts to simulate payments
-    const simulatedAccounts = accounts.map(account => ({
-      ...account,
-      remainingBalance: account.currentBalance
-    }));
+    plan: PayoffPlan = {},
+    options: PayoffSimulatorOptions = {}
+  ): PayoffProjection {
+    return new PayoffSimulator(this.getStrategy(strategyName), options).project(accounts, plan);
+  }
 
-    // Simulate payments month by month
-    while (simulatedAccounts.some(account => account.remainingBalance > 0)) {
-      monthsToPayoff++;
-      
-      // Apply monthly interest
-      for (const account of simulatedAccounts) {
-        if (account.remainingBalance > 0) {
-          const monthlyInterest = account.remainingBalance * (account.interestRate / 12);
-          account.remainingBalance += monthlyInterest;
-        }
-      }
+  /**
+   * Simulates paying the debts off with each registered strategy, putting
+   * `monthlyRoundUps` toward them every month on top of the minimums.
+   */
+  compareStrategies(
+    accounts: DebtAccount[],
+    monthlyRoundUps: number,
+    plan: Omit<PayoffPlan, 'monthlyRoundUps'> = {},
+    options: PayoffSimulatorOptions = {}
+  ): StrategyComparison[] {
+    const startDate = plan.startDate ?? new Date().toISOString();
+
+    return Array.from(this.strategies.entries()).map(([key, strategy]) => {
+      const simulation = new PayoffSimulator(strategy, options).simulate(accounts, {
+        ...plan,
+        startDate,
+        monthlyRoundUps
+      });
+      return {
+        strategy: key,
+        name: strategy.name,
+        description: strategy.description,
+        payoffDate: simulation.payoffDate,
+        totalInterest: simulation.totalInterest,
+        monthsToFirstPayoff: simulation.monthsToFirstPayoff,
+        simulation
+      };
+    });
+  }
 
-      // Apply scheduled payments
-      for (const payment of paymentSchedule) {
-        const account = simulatedAccounts.find(acc => acc.accountId === payment.accountId);
-        if (account && account.remainingBalance > 0) {
-          const paymentAmount = Math.min(payment.amount, account.remainingBalance);
-          account.remainingBalance -= paymentAmount;
-          totalPayments += paymentAmount;
-        }
-      }
+  /** One entry per debt, in the order each was first paid. */
+  private mergeSchedules(payments: PaymentSchedule[]): PaymentSchedule[] {
+    const merged = new Map<string, PaymentSchedule>();
+
+    for (const payment of payments) {
+      const existing = merged.get(payment.debtId);
+      merged.set(payment.debtId, existing
+        ? {
+            ...existing,
+            amount: Money.of(existing.amount).plus(Money.of(payment.amount)).toNumber(),
+            reasons: [...(existing.reasons ?? []), ...(payment.reasons ?? [])]
+          }
+        : payment);
     }
 
-    // Calculate interest saved compared to minimum payments
-    const originalTotal = accounts.reduce((sum, account) => {
-      const monthlyPayment = account.minimumPayment;
-      const monthlyInterest = account.currentBalance * (account.interestRate / 12);
-      const monthsToPayoff = Math.ceil(
-        account.currentBalance / (monthlyPayment - monthlyInterest)
-      );
-      return sum + (monthlyPayment * monthsToPayoff);
-    }, 0);
+    return Array.from(merged.values()).map((payment, index) => ({ ...payment, priority: index + 1 }));
+  }
 
-    totalInterestSaved = originalTotal - totalPayments;
+  private getStrategy(strategyName: string): OptimizationStrategy {
+    const strategy = this.strategies.get(strategyName.toLowerCase());
 
-    return {
-      totalInterestSaved,
-      monthsToPayoff,
-      totalPayments
-    };
+    const unavailable = this.unavailable.get(strategyName.toLowerCase());
+    if (unavailable) {
+      throw new Error(`The ${strategyName} strategy is unavailable: ${unavailable}`);
+    }
+    if (!strategy) {
+      throw new Error(`Unknown optimization strategy: ${strategyName}`);
+    }
+    return strategy;
   }
-} 
\ No newline at end of file
+}
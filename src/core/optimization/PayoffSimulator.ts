@@ -0,0 +1,354 @@
+/**
+ * MicroRepay Payoff Simulator
+ *
+ * This module projects how a user's debts amortize month by month. Each
+ * simulated month:
+ *
+ * 1. Payments already scheduled for the month are applied to their debts.
+ * 2. Every open debt gets its minimum payment. Minimums stay at their
+ *    current amount for the whole simulation.
+ * 3. The month's round-ups and lump sums, plus the minimum payments freed
+ *    up by paid-off debts, first cover what promotional balances need to
+ *    be paid off before their rate reverts. The optimization strategy
+ *    allocates the rest by the rates charged that month.
+ * 4. Interest accrues on what is left, compounded monthly or daily, at the
+ *    rate in effect. A promotional rate ends on its day with daily
+ *    compounding, and from the next month with monthly compounding.
+ *
+ * Comparing a plan with the minimums-only baseline gives the interest and
+ * time MicroRepay saves. A debt whose minimum payment does not cover its
+ * monthly interest, once any promotion has ended, never amortizes on
+ * minimums alone; such debts are reported rather than simulated forever.
+ * A simulation stops once every remaining debt has grown for a year with
+ * no extra funds to come, and in any case at a fixed horizon.
+ */
+
+import { Money } from '../money/Money';
+import type { DebtAccount, OptimizationStrategy, PaymentSchedule } from './OptimizationEngine';
+import { PromoRateGuard } from './PromoRateGuard';
+import { longTermRate, rateOn } from './RateSchedule';
+
+export type CompoundingPeriod = 'daily' | 'monthly';
+
+export interface PayoffSimulatorOptions {
+  compounding?: CompoundingPeriod; // Defaults to monthly
+  maxMonths?: number; // Horizon; defaults to 50 years
+  rollOverMinimums?: boolean; // Freed-up minimums go to the remaining debts; defaults to true
+  recordPayments?: boolean; // Return what the strategy allocated each month
+}
+
+export interface LumpSum {
+  date: string;
+  amount: number;
+}
+
+export interface PayoffPlan {
+  startDate?: string; // Defaults to now
+  monthlyRoundUps?: number; // Round-ups swept to debts every month
+  scheduledPayments?: PaymentSchedule[]; // Payments to specific debts, applied in the month of their date
+  lumpSums?: LumpSum[]; // Extra funds allocated by the strategy in the month of their date
+}
+
+export interface DebtPayoff {
+  debtId: string;
+  accountId: string;
+  payoffDate: string | null; // Null when not paid off within the horizon
+  monthsToPayoff: number | null;
+  interestPaid: number;
+  totalPaid: number;
+  remainingBalance: number;
+}
+
+export interface PayoffSimulation {
+  paidOff: boolean; // Every debt was paid off within the horizon
+  stalled: boolean; // Stopped early because the remaining debts kept growing
+  payoffDate: string | null;
+  monthsToPayoff: number | null;
+  monthsToFirstPayoff: number | null; // Until the first debt with a balance today is paid off
+  totalInterest: number;
+  totalPaid: number;
+  debts: DebtPayoff[];
+  balances: { date: string; balance: number }[]; // Total owed at the end of each month
+  payments?: PaymentSchedule[]; // With `recordPayments`, dated at the start of their month
+}
+
+export interface PayoffProjection {
+  withMicroRepay: PayoffSimulation;
+  withoutMicroRepay: PayoffSimulation; // Minimum payments only
+  totalInterestSaved: number | null; // Null when minimums alone never pay the debts off
+  monthsSaved: number | null; // Null unless both pay off within the horizon
+  nonAmortizingDebtIds: string[]; // Debts whose minimum payment does not cover their interest
+}
+
+interface SimulatedDebt {
+  account: DebtAccount;
+  balance: Money;
+  interestPaid: Money;
+  totalPaid: Money;
+  paidOffMonth: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+/** Interest on `balance` between two dates at an annual rate. */
+export function accruedInterest(
+  balance: Money,
+  annualRate: number,
+  from: Date,
+  to: Date,
+  compounding: CompoundingPeriod
+): Money {
+  if (!balance.isPositive() || annualRate <= 0) {
+    return Money.zero(balance.currency);
+  }
+  if (compounding === 'monthly') {
+    return balance.times(annualRate / 12);
+  }
+
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  return balance.times(Math.pow(1 + annualRate / 365, days) - 1);
+}
+
+/**
+ * Interest on the debt's `balance` between two dates, at the rates it is
+ * charged. With daily compounding, a promotion ending in between is
+ * charged up to its end date.
+ */
+function debtInterest(
+  balance: Money,
+  account: DebtAccount,
+  from: Date,
+  to: Date,
+  compounding: CompoundingPeriod
+): Money {
+  const promoEnd = account.rateSchedule ? new Date(account.rateSchedule.promoEndsAt) : null;
+  if (compounding === 'daily' && promoEnd && promoEnd > from && promoEnd < to) {
+    const beforeEnd = accruedInterest(balance, rateOn(account, from), from, promoEnd, compounding);
+    return beforeEnd.plus(
+      accruedInterest(balance.plus(beforeEnd), rateOn(account, promoEnd), promoEnd, to, compounding)
+    );
+  }
+  return accruedInterest(balance, rateOn(account, from), from, to, compounding);
+}
+
+/**
+ * Whether the debt's minimum payment covers a month of its interest once
+ * any promotion has ended, counting from `asOf` or the promotion's end,
+ * whichever is later.
+ */
+export function isAmortizing(
+  account: DebtAccount,
+  asOf: Date,
+  compounding: CompoundingPeriod = 'monthly'
+): boolean {
+  const balance = Money.of(account.currentBalance);
+  if (!balance.isPositive()) return true;
+
+  const promoEndsAt = account.rateSchedule ? new Date(account.rateSchedule.promoEndsAt) : asOf;
+  const from = promoEndsAt > asOf ? promoEndsAt : asOf;
+  const interest = accruedInterest(balance, longTermRate(account), from, addMonths(from, 1), compounding);
+  return Money.of(account.minimumPayment).greaterThan(interest);
+}
+
+export class PayoffSimulator {
+  constructor(
+    private readonly strategy: OptimizationStrategy,
+    private readonly options: PayoffSimulatorOptions = {}
+  ) {}
+
+  /** Projects the plan and compares it with paying only the minimums. */
+  project(accounts: DebtAccount[], plan: PayoffPlan = {}): PayoffProjection {
+    const startDate = plan.startDate ?? new Date().toISOString();
+    const withMicroRepay = this.simulate(accounts, { ...plan, startDate });
+    const withoutMicroRepay = this.simulate(accounts, { startDate });
+
+    return {
+      withMicroRepay,
+      withoutMicroRepay,
+      totalInterestSaved: withoutMicroRepay.paidOff
+        ? Money.of(withoutMicroRepay.totalInterest).minus(Money.of(withMicroRepay.totalInterest)).toNumber()
+        : null,
+      monthsSaved:
+        withMicroRepay.monthsToPayoff !== null && withoutMicroRepay.monthsToPayoff !== null
+          ? withoutMicroRepay.monthsToPayoff - withMicroRepay.monthsToPayoff
+          : null,
+      nonAmortizingDebtIds: accounts
+        .filter(account => !isAmortizing(account, new Date(startDate), this.options.compounding))
+        .map(account => account.id)
+    };
+  }
+
+  simulate(accounts: DebtAccount[], plan: PayoffPlan = {}): PayoffSimulation {
+    const compounding = this.options.compounding ?? 'monthly';
+    const maxMonths = this.options.maxMonths ?? 600;
+    const rollOver = this.options.rollOverMinimums ?? true;
+    const start = new Date(plan.startDate ?? new Date().toISOString());
+
+    const debts: SimulatedDebt[] = accounts.map(account => {
+      const balance = Money.max(Money.of(account.currentBalance), Money.zero());
+      return {
+        account,
+        balance,
+        interestPaid: Money.zero(),
+        totalPaid: Money.zero(),
+        paidOffMonth: balance.isPositive() ? null : 0
+      };
+    });
+    // What the user pays toward minimums today; debts already paid off add nothing
+    const minimumBudget = Money.sum(
+      debts.filter(debt => debt.balance.isPositive()).map(debt => Money.of(debt.account.minimumPayment))
+    );
+
+    const lastInflow = Math.max(
+      0,
+      ...[...(plan.scheduledPayments ?? []), ...(plan.lumpSums ?? [])].map(inflow => new Date(inflow.date).getTime())
+    );
+    const balances: PayoffSimulation['balances'] = [];
+    const payments: PaymentSchedule[] = [];
+    let monthsGrowing = 0;
+    let stalled = false;
+
+    let month = 0;
+    while (month < maxMonths && debts.some(debt => debt.balance.isPositive())) {
+      const from = addMonths(start, month);
+      const to = addMonths(start, month + 1);
+      const date = from.toISOString();
+      const openingBalances = debts.map(debt => debt.balance);
+      const inMonth = (when: string) => {
+        const time = new Date(when).getTime();
+        return month === 0 ? time < to.getTime() : time >= from.getTime() && time < to.getTime();
+      };
+      month += 1;
+
+      // 1. Payments already scheduled for this month
+      for (const payment of plan.scheduledPayments ?? []) {
+        const debt = debts.find(candidate => candidate.account.id === payment.debtId);
+        if (debt && inMonth(payment.date)) {
+          this.pay(debt, Money.of(payment.amount), month);
+        }
+      }
+
+      // 2. Minimum payments
+      let minimumsPaid = Money.zero();
+      for (const debt of debts) {
+        minimumsPaid = minimumsPaid.plus(this.pay(debt, Money.of(debt.account.minimumPayment), month));
+      }
+
+      // 3. Round-ups, lump sums and freed-up minimums, promotional balances first
+      let extra = Money.of(plan.monthlyRoundUps ?? 0).plus(
+        Money.sum((plan.lumpSums ?? []).filter(lump => inMonth(lump.date)).map(lump => Money.of(lump.amount)))
+      );
+      if (rollOver) {
+        extra = extra.plus(minimumBudget.minus(minimumsPaid));
+      }
+      if (extra.isPositive()) {
+        const open = debts
+          .filter(debt => debt.balance.isPositive())
+          .map(debt => ({
+            ...debt.account,
+            currentBalance: debt.balance.toNumber(),
+            interestRate: rateOn(debt.account, from)
+          }));
+        const promoted = new PromoRateGuard().protect(open, extra.toNumber(), date);
+        const allocated = promoted.remainingFunds > 0
+          ? this.strategy.calculatePayments(promoted.accounts, promoted.remainingFunds, date)
+          : [];
+        for (const payment of [...promoted.schedule, ...allocated]) {
+          const debt = debts.find(candidate => candidate.account.id === payment.debtId);
+          if (debt) {
+            const paid = this.pay(debt, Money.of(payment.amount), month);
+            if (this.options.recordPayments && paid.isPositive()) {
+              this.record(payments, { ...payment, amount: paid.toNumber() });
+            }
+          }
+        }
+      }
+
+      // 4. Interest on what is left
+      for (const debt of debts) {
+        const interest = debtInterest(debt.balance, debt.account, from, to, compounding);
+        debt.balance = debt.balance.plus(interest);
+        debt.interestPaid = debt.interestPaid.plus(interest);
+      }
+
+      balances.push({ date: to.toISOString(), balance: Money.sum(debts.map(debt => debt.balance)).toNumber() });
+
+      // Debts that outgrow every payment for a year will not be paid off
+      const growing = debts.every(
+        (debt, index) => !debt.balance.isPositive() || debt.balance.greaterThan(openingBalances[index])
+      );
+      monthsGrowing = growing && to.getTime() > lastInflow ? monthsGrowing + 1 : 0;
+      if (monthsGrowing >= 12) {
+        stalled = true;
+        break;
+      }
+    }
+
+    const payoffMonths = debts.map(debt => debt.paidOffMonth);
+    const paidOff = payoffMonths.every(paidOffMonth => paidOffMonth !== null);
+    const monthsToPayoff = paidOff ? Math.max(0, ...(payoffMonths as number[])) : null;
+    const firstPayoffs = payoffMonths.filter(
+      (paidOffMonth): paidOffMonth is number => paidOffMonth !== null && paidOffMonth > 0
+    );
+    const payoffDate = (paidOffMonth: number | null) =>
+      paidOffMonth === null ? null : addMonths(start, Math.max(paidOffMonth - 1, 0)).toISOString();
+
+    return {
+      paidOff,
+      stalled,
+      payoffDate: payoffDate(monthsToPayoff),
+      monthsToPayoff,
+      monthsToFirstPayoff: firstPayoffs.length > 0 ? Math.min(...firstPayoffs) : null,
+      totalInterest: Money.sum(debts.map(debt => debt.interestPaid)).toNumber(),
+      totalPaid: Money.sum(debts.map(debt => debt.totalPaid)).toNumber(),
+      debts: debts.map(debt => ({
+        debtId: debt.account.id,
+        accountId: debt.account.accountId,
+        payoffDate: payoffDate(debt.paidOffMonth),
+        monthsToPayoff: debt.paidOffMonth,
+        interestPaid: debt.interestPaid.toNumber(),
+        totalPaid: debt.totalPaid.toNumber(),
+        remainingBalance: debt.balance.toNumber()
+      })),
+      balances,
+      ...(this.options.recordPayments ? { payments } : {})
+    };
+  }
+
+  /** Adds a payment to those recorded, as one entry per debt and month. */
+  private record(payments: PaymentSchedule[], payment: PaymentSchedule): void {
+    const index = payments.findIndex(
+      recorded => recorded.debtId === payment.debtId && recorded.date === payment.date
+    );
+    if (index === -1) {
+      payments.push(payment);
+      return;
+    }
+
+    const recorded = payments[index];
+    payments[index] = {
+      ...recorded,
+      amount: Money.of(recorded.amount).plus(Money.of(payment.amount)).toNumber(),
+      reasons: [...(recorded.reasons ?? []), ...(payment.reasons ?? [])]
+    };
+  }
+
+  /** Pays up to `amount` toward the debt, never more than it owes. Returns what was paid. */
+  private pay(debt: SimulatedDebt, amount: Money, month: number): Money {
+    const payment = Money.min(amount, debt.balance);
+    if (!payment.isPositive()) return Money.zero();
+
+    debt.balance = debt.balance.minus(payment);
+    debt.totalPaid = debt.totalPaid.plus(payment);
+    if (!debt.balance.isPositive()) {
+      debt.paidOffMonth = month;
+    }
+    return payment;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * MicroRepay Promotional Rate Guard
+ *
+ * This module gets promotional balances paid off before their rate
+ * reverts. A debt whose promotional APR has yet to end, and will rise when
+ * it does, first gets what it needs each month, beyond its minimum
+ * payment, to be paid off by the end of the promotion, soonest ending
+ * first. The strategy allocates what is left; once the promotion has
+ * ended, the debt is ranked by the rate it reverted to like any other.
+ */
+
+import { Money } from '../money/Money';
+import type { DebtAccount, PaymentSchedule } from './OptimizationEngine';
+import type { GuardedFunds } from './MinimumPaymentGuard';
+import { activePromotion, paymentsBefore, payoffPayment } from './RateSchedule';
+
+export class PromoRateGuard {
+  /**
+   * What the debt needs this month, beyond its minimum payment, to be paid
+   * off before its promotion ends; zero for a debt without one. Never more
+   * than the balance.
+   */
+  promotionNeed(account: DebtAccount, asOf: string): Money {
+    const promotion = activePromotion(account, new Date(asOf));
+    const balance = Money.max(Money.of(account.currentBalance), Money.zero());
+    if (!promotion || !balance.isPositive()) {
+      return Money.zero();
+    }
+
+    // The rate reverts on the end date, so the last payment has to come before it
+    const payments = paymentsBefore(new Date(asOf), new Date(new Date(promotion.promoEndsAt).getTime() - 1));
+    const need = Money.max(
+      payoffPayment(balance, promotion.promoRate, payments).minus(Money.of(account.minimumPayment)),
+      Money.zero()
+    );
+    return Money.min(need, balance);
+  }
+
+  /** Covers what promotional balances need this month out of `availableFunds`. */
+  protect(accounts: DebtAccount[], availableFunds: number, startDate: string): GuardedFunds {
+    const schedule: PaymentSchedule[] = [];
+    const paidTo = new Map<string, Money>();
+    let remainingFunds = Money.of(availableFunds);
+
+    const endingFirst = accounts
+      .filter(account => activePromotion(account, new Date(startDate)))
+      .sort(
+        (a, b) => new Date(a.rateSchedule.promoEndsAt).getTime() - new Date(b.rateSchedule.promoEndsAt).getTime()
+      );
+    for (const account of endingFirst) {
+      if (!remainingFunds.isPositive()) break;
+
+      const need = this.promotionNeed(account, startDate);
+      const paymentAmount = Money.min(need, remainingFunds);
+      if (!paymentAmount.isPositive()) continue;
+
+      const shortfall = need.minus(paymentAmount);
+      const { promoEndsAt, reversionRate } = account.rateSchedule;
+      schedule.push({
+        debtId: account.id,
+        accountId: account.accountId,
+        amount: paymentAmount.toNumber(),
+        date: startDate,
+        priority: schedule.length + 1,
+        reasons: [{
+          kind: 'promo_expiry',
+          amount: paymentAmount.toNumber(),
+          detail: `Needed this month to pay it off before its rate rises to ${(reversionRate * 100).toFixed(2)}% APR ` +
+            `on ${promoEndsAt.substring(0, 10)}` +
+            (shortfall.isPositive() ? `, ${shortfall.format()} still short` : '')
+        }]
+      });
+      paidTo.set(account.id, paymentAmount);
+      remainingFunds = remainingFunds.minus(paymentAmount);
+    }
+
+    return {
+      schedule,
+      accounts: accounts.map(account => {
+        const paid = paidTo.get(account.id);
+        return paid
+          ? { ...account, currentBalance: Money.of(account.currentBalance).minus(paid).toNumber() }
+          : account;
+      }),
+      remainingFunds: remainingFunds.toNumber()
+    };
+  }
+}
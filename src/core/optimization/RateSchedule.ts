@@ -0,0 +1,67 @@
+/**
+ * MicroRepay Rate Schedules
+ *
+ * This module works out the APR a debt is charged on a given date, and
+ * what it takes to pay a balance off by a date. A debt with a rate
+ * schedule is charged its promotional rate until the promotion ends and
+ * its reversion rate from then on; any other debt is charged the APR its
+ * creditor reports.
+ */
+
+import { Money } from '../money/Money';
+import { RateSchedule } from '../../types';
+import type { DebtAccount } from './OptimizationEngine';
+
+type RatedAccount = Pick<DebtAccount, 'interestRate' | 'rateSchedule'>;
+
+/** Throws if the schedule cannot be charged by. */
+export function validateRateSchedule(schedule: RateSchedule): void {
+  if (!(schedule.promoRate >= 0 && schedule.promoRate <= 1)) {
+    throw new Error(`Promotional rate must be between 0 and 1, got ${schedule.promoRate}`);
+  }
+  if (!(schedule.reversionRate >= 0 && schedule.reversionRate <= 1)) {
+    throw new Error(`Reversion rate must be between 0 and 1, got ${schedule.reversionRate}`);
+  }
+  if (Number.isNaN(new Date(schedule.promoEndsAt).getTime())) {
+    throw new Error(`Promotion end date must be a date, got "${schedule.promoEndsAt}"`);
+  }
+}
+
+/** The APR the debt is charged on `date`. */
+export function rateOn(account: RatedAccount, date: Date): number {
+  const schedule = account.rateSchedule;
+  if (!schedule) return account.interestRate;
+
+  return date.getTime() < new Date(schedule.promoEndsAt).getTime() ? schedule.promoRate : schedule.reversionRate;
+}
+
+/** The APR the debt is charged once any promotion has ended. */
+export function longTermRate(account: RatedAccount): number {
+  return account.rateSchedule ? account.rateSchedule.reversionRate : account.interestRate;
+}
+
+/** The debt's schedule while its promotion has yet to end and its rate will rise when it does. */
+export function activePromotion(account: RatedAccount, asOf: Date): RateSchedule | null {
+  const schedule = account.rateSchedule;
+  return schedule &&
+    asOf.getTime() < new Date(schedule.promoEndsAt).getTime() &&
+    schedule.reversionRate > schedule.promoRate
+    ? schedule
+    : null;
+}
+
+/** Monthly payments left before `to`, counting the one due in the month of `from`. */
+export function paymentsBefore(from: Date, to: Date): number {
+  const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+  return months + (to.getUTCDate() >= from.getUTCDate() ? 1 : 0);
+}
+
+/** The monthly payment that pays `balance` off in `payments` months at an annual rate. */
+export function payoffPayment(balance: Money, annualRate: number, payments: number): Money {
+  if (payments <= 1) return balance;
+
+  const monthlyRate = annualRate / 12;
+  return monthlyRate > 0
+    ? balance.times(monthlyRate / (1 - Math.pow(1 + monthlyRate, -payments)))
+    : balance.dividedBy(payments);
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { InvalidPaymentTransitionError, PaymentLifecycle, paymentStatusFromCreditor } from './PaymentLifecycle';
+import { Database } from '../database/Database';
+import { DebtRepository } from '../database/repositories/DebtRepository';
+import { PaymentRepository } from '../database/repositories/PaymentRepository';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import { Ledger } from '../ledger/Ledger';
+import { TEST_USER_ID, createDebt, createUser, fundWallet, holdPayment, testDatabase } from '../testing/fixtures';
+
+describe('PaymentLifecycle', () => {
+  let db: Database;
+  let lifecycle: PaymentLifecycle;
+
+  beforeEach(async () => {
+    db = await testDatabase();
+    await createUser(db);
+    await createDebt(db, { id: 'debt-1', currentBalance: 500 });
+    await fundWallet(db, 25);
+    lifecycle = new PaymentLifecycle(db);
+  });
+
+  const debtBalance = async () => (await new DebtRepository(db).findById('debt-1'))?.currentBalance;
+  const walletBalance = async () => (await new WalletRepository(db).findByUser(TEST_USER_ID))?.balance;
+  const points = async () => {
+    const [user] = await db.query<{ points: number }>('SELECT points FROM users WHERE id = $1', [TEST_USER_ID]);
+    return Number(user.points);
+  };
+  const reconciled = async () => (await new Ledger(db).reconcile(TEST_USER_ID)).discrepancies;
+
+  /** Sends a held $10 round-up payment to its creditor. */
+  async function submitted(confirmationNumber?: string) {
+    await holdPayment(db, { id: 'PAY-1', debtId: 'debt-1', amount: 10 });
+    await new Ledger(db).recordCreditorPayment(TEST_USER_ID, 'debt-1', 'PAY-1', 10);
+    return lifecycle.transition('PAY-1', 'submitted', { source: 'system', confirmationNumber });
+  }
+
+  it('maps creditor statuses onto payment statuses', () => {
+    expect(paymentStatusFromCreditor(' Posted ')).toBe('settled');
+    expect(paymentStatusFromCreditor('processing')).toBe('accepted');
+    expect(paymentStatusFromCreditor('declined')).toBe('failed');
+    expect(paymentStatusFromCreditor('on_hold')).toBeNull();
+  });
+
+  it('records every transition in the payment history', async () => {
+    await submitted();
+    await lifecycle.transition('PAY-1', 'accepted', { source: 'callback' });
+    await lifecycle.transition('PAY-1', 'settled', { source: 'poll', occurredAt: '2026-10-20T00:00:00.000Z' });
+
+    const history = await lifecycle.getHistory('PAY-1');
+    expect(history.map(transition => [transition.fromStatus, transition.toStatus, transition.source])).toEqual([
+      [null, 'created', 'system'],
+      ['created', 'submitted', 'system'],
+      ['submitted', 'accepted', 'callback'],
+      ['accepted', 'settled', 'poll']
+    ]);
+    expect((await new PaymentRepository(db).findById('PAY-1'))?.settledAt).toBe('2026-10-20T00:00:00.000Z');
+  });
+
+  it('lowers the debt and awards points only when the payment settles', async () => {
+    await submitted();
+    await lifecycle.transition('PAY-1', 'accepted', { source: 'callback' });
+    expect(await debtBalance()).toBe(500);
+    expect(await points()).toBe(0);
+
+    await lifecycle.transition('PAY-1', 'settled', { source: 'callback' });
+    const awarded = await points();
+    await lifecycle.transition('PAY-1', 'settled', { source: 'poll' });
+
+    expect(await debtBalance()).toBe(490);
+    expect(awarded).toBeGreaterThanOrEqual(10);
+    expect(await points()).toBe(awarded);
+    expect(await reconciled()).toEqual([]);
+  });
+
+  it('leaves the balance to the next sync for a payment in flight at the last one', async () => {
+    await submitted();
+    await new PaymentRepository(db).markBalanceSynced(['PAY-1'], '2026-10-19T00:00:00.000Z');
+
+    await lifecycle.transition('PAY-1', 'settled', { source: 'poll' });
+
+    expect(await debtBalance()).toBe(500);
+  });
+
+  it('rejects a move the lifecycle does not allow', async () => {
+    await submitted();
+    await lifecycle.transition('PAY-1', 'settled', { source: 'poll' });
+
+    await expect(lifecycle.transition('PAY-1', 'accepted', { source: 'callback' }))
+      .rejects.toBeInstanceOf(InvalidPaymentTransitionError);
+  });
+
+  it('releases the held funds of a payment that fails before reaching its creditor', async () => {
+    await holdPayment(db, { id: 'PAY-1', debtId: 'debt-1', amount: 10 });
+    expect(await walletBalance()).toBe(15);
+
+    await lifecycle.transition('PAY-1', 'failed', { source: 'system', reason: 'refused' });
+
+    expect(await walletBalance()).toBe(25);
+    expect(await points()).toBe(0);
+    expect(await reconciled()).toEqual([]);
+  });
+
+  it('returns the funds of a settled payment the creditor returned and owes the debt again', async () => {
+    await submitted();
+    await lifecycle.transition('PAY-1', 'settled', { source: 'poll' });
+
+    await lifecycle.transition('PAY-1', 'returned', { source: 'callback', reason: 'NSF' });
+
+    expect(await debtBalance()).toBe(500);
+    expect(await walletBalance()).toBe(25);
+    expect(await reconciled()).toEqual([]);
+  });
+
+  it('applies creditor events to the payment with that confirmation number', async () => {
+    await submitted('CONF-9');
+
+    const payment = await lifecycle.handleCreditorEvent({ confirmationNumber: 'CONF-9', status: 'completed' });
+
+    expect(payment.status).toBe('settled');
+    await expect(lifecycle.handleCreditorEvent({ confirmationNumber: 'CONF-9', status: 'on_hold' }))
+      .rejects.toThrow(/Unknown creditor payment status/);
+    await expect(lifecycle.handleCreditorEvent({ confirmationNumber: 'NOPE', status: 'settled' }))
+      .rejects.toThrow(/No payment found/);
+  });
+
+  it('records a confirmation number learned after the payment was submitted', async () => {
+    await submitted();
+
+    await lifecycle.transition('PAY-1', 'submitted', { source: 'poll', confirmationNumber: 'CONF-LATE' });
+
+    expect((await new PaymentRepository(db).findByConfirmationNumber('CONF-LATE'))?.id).toBe('PAY-1');
+  });
+});
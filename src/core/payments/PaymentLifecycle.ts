@@ -0,0 +1,266 @@
+/**
+ * MicroRepay Payment Lifecycle
+ *
+ * This module moves payments through their states:
+ *
+ *   created -> submitted -> accepted -> settled
+ *
+ * with failed, returned and reversed branches. Every transition is
+ * recorded in the payment's history. Transitions are driven by creditor
+ * callbacks or by polling the creditor, and apply their side effects in
+ * the same database transaction: a debt's balance only drops once its
+ * payment settles, and a round-up payment that is returned, reversed or
+ * fails puts its funds back into the wallet, whether they had left it or
+ * were still held for the payment. A payment that was in flight when its
+ * debt's balance was synced leaves the balance to the next sync. Points
+ * for a payment are awarded when it settles, never before.
+ */
+
+import { Database } from '../database/Database';
+import { DebtRepository } from '../database/repositories/DebtRepository';
+import { GamificationRepository } from '../database/repositories/GamificationRepository';
+import { PaymentRepository } from '../database/repositories/PaymentRepository';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import { DEFAULT_GAMIFICATION_CONFIG, GamificationConfig, GamificationSystem } from '../gamification/GamificationSystem';
+import { Ledger } from '../ledger/Ledger';
+import { Money } from '../money/Money';
+import { Payment, PaymentStatus, PaymentTransition } from '../../types';
+
+export interface PaymentStatusUpdate {
+  source: PaymentTransition['source'];
+  reason?: string;
+  occurredAt?: string; // Defaults to now
+  confirmationNumber?: string;
+}
+
+/** A status reported by a creditor, through a callback or a status poll. */
+export interface CreditorPaymentEvent {
+  confirmationNumber: string;
+  status: string;
+  reason?: string;
+  occurredAt?: string;
+}
+
+export class InvalidPaymentTransitionError extends Error {
+  constructor(
+    readonly paymentId: string,
+    readonly fromStatus: PaymentStatus,
+    readonly toStatus: PaymentStatus
+  ) {
+    super(`Payment ${paymentId} cannot move from ${fromStatus} to ${toStatus}`);
+    this.name = 'InvalidPaymentTransitionError';
+  }
+}
+
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  created: ['submitted', 'failed'],
+  // Polling can miss the accepted state, so settlement may follow submission
+  submitted: ['accepted', 'settled', 'failed'],
+  accepted: ['settled', 'returned', 'failed'],
+  settled: ['returned', 'reversed'],
+  returned: [],
+  reversed: [],
+  failed: []
+};
+
+// Statuses in which the payment's funds have left the wallet
+const FUNDED_STATUSES: readonly PaymentStatus[] = ['submitted', 'accepted', 'settled'];
+
+const CREDITOR_STATUSES: Record<string, PaymentStatus> = {
+  pending: 'submitted',
+  submitted: 'submitted',
+  received: 'submitted',
+  accepted: 'accepted',
+  processed: 'accepted',
+  processing: 'accepted',
+  settled: 'settled',
+  posted: 'settled',
+  completed: 'settled',
+  returned: 'returned',
+  reversed: 'reversed',
+  failed: 'failed',
+  rejected: 'failed',
+  declined: 'failed'
+};
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from].includes(to);
+}
+
+export function isFinalPaymentStatus(status: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[status].length === 0;
+}
+
+/** Maps a creditor's status vocabulary onto ours; null if it is not recognised. */
+export function paymentStatusFromCreditor(status: string): PaymentStatus | null {
+  return CREDITOR_STATUSES[status.trim().toLowerCase()] ?? null;
+}
+
+export class PaymentLifecycle {
+  constructor(
+    private readonly db: Database,
+    private readonly gamification: GamificationConfig = DEFAULT_GAMIFICATION_CONFIG
+  ) {}
+
+  /** Stores a new payment in the created state. */
+  async create(payment: Omit<Payment, 'status' | 'settledAt'>, createdAt: string): Promise<Payment> {
+    const created: Payment = { ...payment, status: 'created' };
+
+    await this.db.transaction(async tx => {
+      const payments = new PaymentRepository(tx);
+      await payments.create(created);
+      await payments.recordTransition({
+        paymentId: payment.id,
+        fromStatus: null,
+        toStatus: 'created',
+        source: 'system',
+        occurredAt: createdAt
+      });
+    });
+
+    return created;
+  }
+
+  /**
+   * Moves a payment to `to` and applies the side effects of the move.
+   * Repeating the payment's current status is a no-op, so duplicate
+   * callbacks are harmless, except that it records a confirmation number
+   * the payment did not have yet.
+   */
+  async transition(paymentId: string, to: PaymentStatus, update: PaymentStatusUpdate): Promise<Payment> {
+    let result: Payment;
+
+    await this.db.transaction(async tx => {
+      const payments = new PaymentRepository(tx);
+      const payment = await payments.lockById(paymentId);
+      if (!payment) {
+        throw new Error(`Payment ${paymentId} not found`);
+      }
+      if (payment.status === to) {
+        if (update.confirmationNumber && !payment.confirmationNumber) {
+          await payments.updateStatus(paymentId, to, update.confirmationNumber);
+        }
+        result = { ...payment, confirmationNumber: payment.confirmationNumber ?? update.confirmationNumber };
+        return;
+      }
+      if (!canTransition(payment.status, to)) {
+        throw new InvalidPaymentTransitionError(paymentId, payment.status, to);
+      }
+
+      const occurredAt = update.occurredAt ?? new Date().toISOString();
+      const settledAt = to === 'settled' ? occurredAt : undefined;
+
+      await payments.updateStatus(paymentId, to, update.confirmationNumber, settledAt);
+      await payments.recordTransition({
+        paymentId,
+        fromStatus: payment.status,
+        toStatus: to,
+        source: update.source,
+        reason: update.reason,
+        occurredAt
+      });
+      await this.applySideEffects(tx, payment, to, update.reason);
+
+      result = {
+        ...payment,
+        status: to,
+        confirmationNumber: update.confirmationNumber ?? payment.confirmationNumber,
+        settledAt: settledAt ?? payment.settledAt
+      };
+    });
+
+    return result;
+  }
+
+  /** Applies a status reported by the creditor to the payment it refers to. */
+  async handleCreditorEvent(
+    event: CreditorPaymentEvent,
+    source: PaymentTransition['source'] = 'callback'
+  ): Promise<Payment> {
+    const payment = await new PaymentRepository(this.db).findByConfirmationNumber(event.confirmationNumber);
+    if (!payment) {
+      throw new Error(`No payment found with confirmation number ${event.confirmationNumber}`);
+    }
+
+    const status = paymentStatusFromCreditor(event.status);
+    if (!status) {
+      throw new Error(`Unknown creditor payment status "${event.status}" for payment ${payment.id}`);
+    }
+
+    return this.transition(payment.id, status, {
+      source,
+      reason: event.reason,
+      occurredAt: event.occurredAt
+    });
+  }
+
+  async getHistory(paymentId: string): Promise<PaymentTransition[]> {
+    return new PaymentRepository(this.db).findTransitions(paymentId);
+  }
+
+  private async applySideEffects(
+    tx: Database,
+    payment: Payment,
+    to: PaymentStatus,
+    reason?: string
+  ): Promise<void> {
+    const amount = Money.of(payment.amount, payment.currency);
+
+    if (to === 'settled') {
+      await new GamificationSystem(new GamificationRepository(tx), this.gamification)
+        .processCompletedPayment(payment.userId, payment.amount, payment.debtId);
+    }
+
+    // A balance sync taken while the payment was in flight stored the
+    // creditor's balance, which may already count it
+    if (!payment.balanceSyncedAt) {
+      if (to === 'settled') {
+        await this.adjustDebtBalance(tx, payment.debtId, amount.negate());
+      } else if (payment.status === 'settled') {
+        // Returned or reversed after settling: the debt is owed again
+        await this.adjustDebtBalance(tx, payment.debtId, amount);
+      }
+    }
+
+    // Failed before reaching the creditor: release the funds its transfer held
+    if (to === 'failed' && payment.status === 'created' && payment.sourceFunds === 'round_up' && payment.transferId) {
+      const wallets = new WalletRepository(tx);
+      const wallet = await wallets.lockByUser(payment.userId);
+      if (!wallet) {
+        throw new Error(`User ${payment.userId} has no round-up wallet`);
+      }
+
+      await new Ledger(tx).recordPaymentRelease(payment.userId, payment.id, payment.amount);
+      await wallets.credit(wallet.id, payment.amount);
+      await wallets.removeAllocation(payment.transferId, payment.debtId, payment.amount);
+      return;
+    }
+
+    const unfunded = !FUNDED_STATUSES.includes(to);
+    if (unfunded && FUNDED_STATUSES.includes(payment.status) && payment.sourceFunds === 'round_up') {
+      const wallets = new WalletRepository(tx);
+      const wallet = await wallets.lockByUser(payment.userId);
+      if (!wallet) {
+        throw new Error(`User ${payment.userId} has no round-up wallet`);
+      }
+
+      await new Ledger(tx).recordPaymentReturn(
+        payment.userId,
+        payment.id,
+        payment.amount,
+        reason ?? `Payment ${to}`
+      );
+      await wallets.credit(wallet.id, payment.amount);
+    }
+  }
+
+  private async adjustDebtBalance(tx: Database, debtId: string, change: Money): Promise<void> {
+    const debts = new DebtRepository(tx);
+    const balance = await debts.lockBalance(debtId);
+    if (balance === null) {
+      throw new Error(`Debt ${debtId} not found`);
+    }
+
+    await debts.updateBalance(debtId, Money.of(balance, change.currency).plus(change).toNumber());
+  }
+}
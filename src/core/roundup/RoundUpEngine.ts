@@ -0,0 +1,218 @@
+/**
+ * MicroRepay Round-Up Engine
+ *
+ * This module decides how much of each purchase is rounded up into the
+ * user's wallet. A user's `roundUpThreshold` sets the increment purchases
+ * are rounded to, and their `RoundUpRules` choose the rounding mode, a
+ * multiplier, how exact amounts are treated, per-category overrides,
+ * merchant exclusions and daily/weekly caps.
+ */
+
+import { Money } from '../money/Money';
+import {
+  RoundUpCategoryOverride,
+  RoundUpMode,
+  RoundUpRules,
+  Transaction,
+  UserPreferences
+} from '../../types';
+
+export type RoundUpOutcome =
+  | 'applied'
+  | 'capped'
+  | 'cap_reached'
+  | 'exact_amount_skipped'
+  | 'excluded_merchant'
+  | 'excluded_category';
+
+export interface RoundUpDecision {
+  amount: number;
+  baseAmount: number; // Before the multiplier and caps
+  outcome: RoundUpOutcome;
+}
+
+export type RoundUpPurchase = Pick<Transaction, 'amount' | 'merchantName' | 'category' | 'date'>;
+
+export type RoundUpHistory = Pick<Transaction, 'roundUpAmount' | 'date'>[];
+
+interface ResolvedRule {
+  mode: RoundUpMode;
+  increment: number;
+  fixedAmount: number;
+  percentage: number;
+  multiplier: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_ROUND_UP_RULES: RoundUpRules = {
+  mode: 'increment',
+  fixedAmount: 0.5,
+  percentage: 0.05,
+  multiplier: 1,
+  exactAmountBehavior: 'full_increment',
+  categoryOverrides: {},
+  excludedMerchants: [],
+  dailyCap: null,
+  weeklyCap: null
+};
+
+/** Fills in any rule missing from stored or partially edited rules. */
+export function normalizeRoundUpRules(rules?: Partial<RoundUpRules>): RoundUpRules {
+  return {
+    ...DEFAULT_ROUND_UP_RULES,
+    ...rules,
+    categoryOverrides: { ...(rules?.categoryOverrides ?? {}) },
+    excludedMerchants: [...(rules?.excludedMerchants ?? [])]
+  };
+}
+
+export class RoundUpEngine {
+  private readonly rules: RoundUpRules;
+  private readonly excludedMerchants: Set<string>;
+
+  constructor(
+    private readonly increment: number = 1,
+    rules: Partial<RoundUpRules> = DEFAULT_ROUND_UP_RULES
+  ) {
+    this.rules = normalizeRoundUpRules(rules);
+    this.excludedMerchants = new Set(
+      this.rules.excludedMerchants.map(merchant => this.normalizeName(merchant)).filter(merchant => merchant !== '')
+    );
+
+    this.validateRule(this.resolveRule(), 'default');
+    for (const category of Object.keys(this.rules.categoryOverrides)) {
+      this.validateRule(this.resolveRule(category), `category "${category}"`);
+    }
+    for (const [name, cap] of [['Daily', this.rules.dailyCap], ['Weekly', this.rules.weeklyCap]] as const) {
+      if (cap !== null && !(cap >= 0)) {
+        throw new Error(`${name} round-up cap must be zero or more, got ${cap}`);
+      }
+    }
+  }
+
+  static fromPreferences(preferences: Pick<UserPreferences, 'roundUpThreshold' | 'roundUpRules'>): RoundUpEngine {
+    return new RoundUpEngine(preferences.roundUpThreshold, preferences.roundUpRules);
+  }
+
+  /**
+   * Round-up for an amount under the default rule and multiplier, ignoring
+   * merchant, category and cap rules.
+   */
+  roundUp(amount: number): number {
+    const rule = this.resolveRule();
+    return this.applyRule(Money.of(amount, 'USD', 'half_up'), rule)
+      .times(rule.multiplier, 'half_up')
+      .toNumber();
+  }
+
+  /**
+   * Full round-up decision for a purchase. `history` holds the user's
+   * earlier round-ups and is only used to enforce the daily and weekly caps.
+   */
+  calculate(purchase: RoundUpPurchase, history: RoundUpHistory = []): RoundUpDecision {
+    if (!(purchase.amount >= 0)) {
+      throw new Error('INVALID_TRANSACTION_AMOUNT');
+    }
+
+    if (this.excludedMerchants.has(this.normalizeName(purchase.merchantName))) {
+      return { amount: 0, baseAmount: 0, outcome: 'excluded_merchant' };
+    }
+    if (this.rules.categoryOverrides[purchase.category]?.excluded) {
+      return { amount: 0, baseAmount: 0, outcome: 'excluded_category' };
+    }
+
+    const rule = this.resolveRule(purchase.category);
+    const base = this.applyRule(Money.of(purchase.amount, 'USD', 'half_up'), rule);
+    if (base.isZero()) {
+      return { amount: 0, baseAmount: 0, outcome: 'exact_amount_skipped' };
+    }
+
+    const multiplied = base.times(rule.multiplier, 'half_up');
+    const remaining = this.remainingCap(purchase.date, history);
+
+    if (remaining && !remaining.isPositive()) {
+      return { amount: 0, baseAmount: base.toNumber(), outcome: 'cap_reached' };
+    }
+    if (remaining && multiplied.greaterThan(remaining)) {
+      return { amount: remaining.toNumber(), baseAmount: base.toNumber(), outcome: 'capped' };
+    }
+    return { amount: multiplied.toNumber(), baseAmount: base.toNumber(), outcome: 'applied' };
+  }
+
+  private applyRule(amount: Money, rule: ResolvedRule): Money {
+    switch (rule.mode) {
+      case 'fixed':
+        return Money.of(rule.fixedAmount);
+      case 'percentage':
+        return amount.times(rule.percentage, 'half_up');
+      case 'increment': {
+        const increment = Money.of(rule.increment);
+        const roundUp = amount.roundToIncrement(increment, 'ceiling').minus(amount);
+
+        // Exact amounts either round up a whole increment or contribute nothing
+        if (roundUp.isZero() && this.rules.exactAmountBehavior === 'full_increment') {
+          return increment;
+        }
+        return roundUp;
+      }
+    }
+  }
+
+  private resolveRule(category?: string): ResolvedRule {
+    const override: RoundUpCategoryOverride = category ? this.rules.categoryOverrides[category] ?? {} : {};
+
+    return {
+      mode: override.mode ?? this.rules.mode,
+      increment: override.increment ?? this.increment,
+      fixedAmount: override.fixedAmount ?? this.rules.fixedAmount,
+      percentage: override.percentage ?? this.rules.percentage,
+      multiplier: override.multiplier ?? this.rules.multiplier
+    };
+  }
+
+  private validateRule(rule: ResolvedRule, label: string): void {
+    if (rule.mode === 'increment' && !(Money.of(rule.increment).isPositive())) {
+      throw new Error(`Round-up increment for ${label} rule must be at least one cent`);
+    }
+    if (rule.mode === 'fixed' && !(rule.fixedAmount >= 0)) {
+      throw new Error(`Fixed round-up for ${label} rule must be zero or more`);
+    }
+    if (rule.mode === 'percentage' && !(rule.percentage >= 0 && rule.percentage <= 1)) {
+      throw new Error(`Round-up percentage for ${label} rule must be between 0 and 1`);
+    }
+    if (!(rule.multiplier > 0)) {
+      throw new Error(`Round-up multiplier for ${label} rule must be positive`);
+    }
+  }
+
+  /** Smallest headroom left under the daily and weekly caps, or null if uncapped. */
+  private remainingCap(date: string, history: RoundUpHistory): Money | null {
+    const { dailyCap, weeklyCap } = this.rules;
+    if (dailyCap === null && weeklyCap === null) return null;
+
+    const time = new Date(date).getTime();
+    const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+    // Weeks start on Monday (UTC)
+    const weekStart = dayStart - ((new Date(dayStart).getUTCDay() + 6) % 7) * DAY_MS;
+
+    const usedSince = (start: number) => Money.sum(
+      history
+        .filter(entry => {
+          const entryTime = new Date(entry.date).getTime();
+          return entryTime >= start && entryTime < dayStart + DAY_MS;
+        })
+        .map(entry => Money.of(entry.roundUpAmount))
+    );
+
+    const headroom: Money[] = [];
+    if (dailyCap !== null) headroom.push(Money.of(dailyCap).minus(usedSince(dayStart)));
+    if (weeklyCap !== null) headroom.push(Money.of(weeklyCap).minus(usedSince(weekStart)));
+
+    return Money.max(Money.zero(), Money.min(headroom[0], ...headroom.slice(1)));
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * MicroRepay Round-Up Accrual
+ *
+ * Applies a user's round-up rules to a settled purchase and accrues the
+ * round-up into their wallet: a journal entry on the ledger plus the
+ * wallet's cached balance. Shared by manually added purchases and those
+ * ingested from an aggregator.
+ */
+
+import { Database } from '../database/Database';
+import { TransactionRepository } from '../database/repositories/TransactionRepository';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import { Ledger } from '../ledger/Ledger';
+import { Transaction, UserPreferences } from '../../types';
+import { RoundUpDecision, RoundUpEngine, RoundUpPurchase } from './RoundUpEngine';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Decides and accrues the round-up for `purchase`. Must run inside a
+ * database transaction; the wallet stays locked until it ends. The caller
+ * stores the purchase itself with the decided amount.
+ */
+export async function accrueRoundUp(
+  tx: Database,
+  preferences: Pick<UserPreferences, 'roundUpThreshold' | 'roundUpRules'>,
+  purchase: RoundUpPurchase & Pick<Transaction, 'id' | 'userId'>
+): Promise<RoundUpDecision> {
+  const wallets = new WalletRepository(tx);
+  const wallet = await wallets.lockByUser(purchase.userId);
+  if (!wallet) {
+    throw new Error(`User ${purchase.userId} has no round-up wallet`);
+  }
+
+  // A week of history covers both the daily and weekly caps
+  const since = new Date(new Date(purchase.date).getTime() - WEEK_MS).toISOString();
+  const history = await new TransactionRepository(tx).findByUserSince(purchase.userId, since);
+  const decision = RoundUpEngine.fromPreferences(preferences).calculate(
+    purchase,
+    history.filter(transaction => transaction.id !== purchase.id)
+  );
+
+  if (decision.amount > 0) {
+    await new Ledger(tx).recordRoundUpAccrual(purchase.userId, purchase.id, decision.amount);
+    await wallets.credit(wallet.id, decision.amount);
+  }
+  return decision;
+}
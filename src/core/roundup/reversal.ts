@@ -0,0 +1,102 @@
+/**
+ * MicroRepay Round-Up Reversal
+ *
+ * Takes back the round-up of a purchase that was refunded or charged back.
+ * A round-up still in the wallet is reversed out of it: a journal entry
+ * returning it to the funding source plus the wallet's cached balance.
+ * Once swept, the round-up has been paid to a creditor and cannot be pulled
+ * back, so the user's refund policy decides: absorb it, leaving the payment
+ * in place, or claw it back out of the wallet's next sweep.
+ *
+ * Partial refunds reverse the same share of the round-up; the refund that
+ * completes the purchase's refunds reverses whatever is left.
+ */
+
+import { Database } from '../database/Database';
+import { TransactionRepository } from '../database/repositories/TransactionRepository';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import { Ledger } from '../ledger/Ledger';
+import { Money } from '../money/Money';
+import { RoundUpReversal, Transaction, UserPreferences } from '../../types';
+
+/**
+ * How much of `purchase`'s round-up a refund of `refundAmount` reverses,
+ * given the refunds already matched to it.
+ */
+export function refundedRoundUp(
+  purchase: Pick<Transaction, 'amount' | 'roundUpAmount'>,
+  refundAmount: number,
+  earlierRefunds: Pick<Transaction, 'amount' | 'roundUpReversal'>[]
+): number {
+  const roundUp = Money.of(purchase.roundUpAmount);
+  const remaining = roundUp.minus(
+    Money.sum(earlierRefunds.map(refund => Money.of(refund.roundUpReversal?.amount ?? 0)))
+  );
+  if (!remaining.isPositive()) return 0;
+
+  const refunded = Money.sum(earlierRefunds.map(refund => Money.of(refund.amount))).plus(Money.of(refundAmount));
+  if (!refunded.lessThan(Money.of(purchase.amount))) {
+    return remaining.toNumber();
+  }
+
+  const share = roundUp.times(refundAmount / purchase.amount);
+  return Money.min(share, remaining).toNumber();
+}
+
+/**
+ * Reverses the share of `purchase`'s round-up that `refund` takes back.
+ * Must run inside a database transaction; the wallet stays locked until it
+ * ends. Returns null when there is nothing to reverse. The caller records
+ * the result on the refund.
+ */
+export async function reverseRoundUp(
+  tx: Database,
+  policy: UserPreferences['refundPolicy'],
+  refund: Pick<Transaction, 'id' | 'userId' | 'amount'>,
+  purchase: Transaction
+): Promise<RoundUpReversal | null> {
+  const earlierRefunds = (await new TransactionRepository(tx).findRefundsOf(purchase.id)).filter(
+    transaction => transaction.id !== refund.id
+  );
+  const amount = refundedRoundUp(purchase, refund.amount, earlierRefunds);
+  if (amount <= 0) return null;
+
+  const wallets = new WalletRepository(tx);
+  const wallet = await wallets.lockByUser(refund.userId);
+  if (!wallet) {
+    throw new Error(`User ${refund.userId} has no round-up wallet`);
+  }
+
+  // Still in the wallet unless it was swept or has since been spent on fees
+  if (!purchase.transferredToWallet && !Money.of(wallet.balance).lessThan(Money.of(amount))) {
+    await new Ledger(tx).recordRoundUpReversal(refund.userId, purchase.id, refund.id, amount);
+    await wallets.withdraw(wallet.id, amount);
+    return { amount, method: 'wallet' };
+  }
+
+  if (policy === 'claw_back') {
+    await wallets.addClawback(wallet.id, amount);
+    return { amount, method: 'claw_back' };
+  }
+  return { amount, method: 'absorbed' };
+}
+
+/**
+ * Takes the wallet's queued clawback out of its balance, as far as the
+ * balance covers it. Must run inside a database transaction. Returns the
+ * amount settled; the rest stays queued for the sweep after.
+ */
+export async function settleClawback(tx: Database, userId: string): Promise<number> {
+  const wallets = new WalletRepository(tx);
+  const wallet = await wallets.lockByUser(userId);
+  if (!wallet) {
+    throw new Error(`User ${userId} has no round-up wallet`);
+  }
+
+  const amount = Money.min(Money.of(wallet.pendingClawback), Money.of(wallet.balance));
+  if (!amount.isPositive()) return 0;
+
+  await new Ledger(tx).recordRoundUpClawback(userId, amount.toNumber());
+  await wallets.settleClawback(wallet.id, amount.toNumber());
+  return amount.toNumber();
+}
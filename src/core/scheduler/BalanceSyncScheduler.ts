@@ -0,0 +1,255 @@
+/**
+ * MicroRepay Balance Sync Scheduler
+ *
+ * This module periodically pulls each debt's balance, APR, minimum payment
+ * and due date from its creditor and stores them on the debt. Each
+ * creditor is synced on its own cadence (`CreditorConfig.syncIntervalMs`).
+ * Every sync is recorded in the debt's balance history, and changes our
+ * own records do not explain raise drift alerts:
+ *
+ * - the balance moved further than interest and our payments account
+ *   for, e.g. a fee or a payment made outside MicroRepay;
+ * - the APR changed, other than a promotional rate reverting on schedule.
+ *
+ * Settled payments already lower the local balance, so the local balance
+ * is what we expect the creditor to report, give or take interest and
+ * payments it may or may not count yet: those in flight, and those in
+ * flight at the last sync. A sync marks the payments in flight at the
+ * time, and they leave the balance alone when they settle, since the
+ * stored balance is the creditor's and may already count them.
+ */
+
+import { Database } from '../database/Database';
+import { BalanceHistoryRepository } from '../database/repositories/BalanceHistoryRepository';
+import { DebtRepository, DebtSyncCandidate } from '../database/repositories/DebtRepository';
+import { PaymentRepository } from '../database/repositories/PaymentRepository';
+import type { AccountBalance, CreditorIntegration } from '../integration/CreditorIntegration';
+import type { CreditorRegistry } from '../integration/CreditorRegistry';
+import { Money } from '../money/Money';
+import { rateOn } from '../optimization/RateSchedule';
+import { BalanceSnapshot, Debt, DriftAlert, DriftAlertKind } from '../../types';
+import { Clock, systemClock } from './Clock';
+
+export type BalanceSyncStatus = 'synced' | 'skipped' | 'failed';
+
+export interface BalanceSyncResult {
+  debtId: string;
+  userId: string;
+  creditorId: string;
+  status: BalanceSyncStatus;
+  reason?: string;
+  alerts: DriftAlert[];
+}
+
+export interface BalanceSyncSchedulerOptions {
+  intervalMs?: number; // How often to look for due debts; defaults to 15 minutes
+  defaultSyncIntervalMs?: number; // For creditors without their own cadence; defaults to 6 hours
+}
+
+export interface DriftFinding {
+  kind: DriftAlertKind;
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Slack for rounding and small adjustments on top of accrued interest
+const DRIFT_TOLERANCE = Money.of(1);
+const RATE_TOLERANCE = 0.0001;
+
+/**
+ * Differences between a debt's local terms and those its creditor reported
+ * `elapsedMs` after the previous sync. `unconfirmedPayments` is what the
+ * debt's payments the creditor may not have counted yet add up to.
+ */
+export function detectBalanceDrift(
+  local: Pick<Debt, 'currentBalance' | 'interestRate' | 'rateSchedule'>,
+  reported: Pick<BalanceSnapshot, 'balance' | 'interestRate' | 'recordedAt'>,
+  elapsedMs: number,
+  unconfirmedPayments = 0
+): DriftFinding[] {
+  const findings: DriftFinding[] = [];
+  const expected = Money.of(local.currentBalance);
+  const actual = Money.of(reported.balance);
+  const interest = expected.times(local.interestRate * (Math.max(elapsedMs, 0) / (365 * DAY_MS)));
+
+  const ceiling = expected.plus(interest).plus(DRIFT_TOLERANCE);
+  const floor = expected.minus(Money.of(unconfirmedPayments)).minus(DRIFT_TOLERANCE);
+  if (actual.greaterThan(ceiling)) {
+    findings.push({
+      kind: 'unexplained_increase',
+      expected: expected.toNumber(),
+      actual: actual.toNumber(),
+      message: `Balance rose to ${actual.format()}, ${actual.minus(ceiling).format()} more than interest explains`
+    });
+  } else if (actual.lessThan(floor)) {
+    findings.push({
+      kind: 'unexplained_decrease',
+      expected: expected.toNumber(),
+      actual: actual.toNumber(),
+      message: `Balance fell to ${actual.format()}, ${floor.minus(actual).format()} more than our payments explain`
+    });
+  }
+
+  // A promotion ending is a change we expect, not drift
+  const scheduledRate = rateOn(local, new Date(reported.recordedAt));
+  if (
+    Math.abs(reported.interestRate - local.interestRate) >= RATE_TOLERANCE &&
+    Math.abs(reported.interestRate - scheduledRate) >= RATE_TOLERANCE
+  ) {
+    findings.push({
+      kind: 'rate_change',
+      expected: local.interestRate,
+      actual: reported.interestRate,
+      message: `APR changed from ${(local.interestRate * 100).toFixed(2)}% to ${(reported.interestRate * 100).toFixed(2)}%`
+    });
+  }
+
+  return findings;
+}
+
+export class BalanceSyncScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<BalanceSyncResult[]> | null = null;
+
+  constructor(
+    private readonly database: Database,
+    private readonly creditors: Pick<CreditorIntegration, 'getDebtBalances'>,
+    private readonly registry: Pick<CreditorRegistry, 'list'>,
+    private readonly clock: Clock = systemClock,
+    private readonly options: BalanceSyncSchedulerOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.runDue();
+    }, this.options.intervalMs ?? 15 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Syncs every debt whose creditor cadence has elapsed. Overlapping calls
+   * share the run already in progress.
+   */
+  runDue(): Promise<BalanceSyncResult[]> {
+    if (!this.running) {
+      this.running = this.syncDue().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async syncDue(): Promise<BalanceSyncResult[]> {
+    const now = this.clock.now();
+    const cadences = new Map(
+      (await this.registry.list()).map(config => [config.id, config.syncIntervalMs])
+    );
+    const defaultCadence = this.options.defaultSyncIntervalMs ?? 6 * 60 * 60 * 1000;
+
+    const results: BalanceSyncResult[] = [];
+    const dueByUser = new Map<string, DebtSyncCandidate[]>();
+    for (const debt of await new DebtRepository(this.database).findAllForSync()) {
+      const next = new Date(debt.lastSyncedAt).getTime() + (cadences.get(debt.creditorId) ?? defaultCadence);
+      if (now.getTime() < next) {
+        results.push(this.result(debt, 'skipped', `Next sync is not before ${new Date(next).toISOString()}`));
+        continue;
+      }
+      dueByUser.set(debt.userId, [...(dueByUser.get(debt.userId) ?? []), debt]);
+    }
+
+    for (const [userId, debts] of dueByUser) {
+      let balances: AccountBalance[];
+      try {
+        balances = await this.creditors.getDebtBalances(userId, [...new Set(debts.map(debt => debt.creditorId))]);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        results.push(...debts.map(debt => this.result(debt, 'failed', reason)));
+        continue;
+      }
+
+      for (const debt of debts) {
+        const reported = balances.find(
+          entry => entry.creditorId === debt.creditorId && entry.accountId === debt.accountId
+        );
+        if (!reported) {
+          results.push(this.result(debt, 'skipped', 'Account is not linked'));
+        } else if (reported.status !== 'ok') {
+          // Only balances the creditor has just reported are applied
+          results.push(this.result(debt, 'failed', reported.error));
+        } else {
+          results.push(await this.apply(debt, {
+            debtId: debt.id,
+            recordedAt: now.toISOString(),
+            balance: reported.balance.currentBalance,
+            interestRate: reported.balance.interestRate,
+            minimumPayment: reported.balance.minimumPayment,
+            dueDate: reported.balance.dueDate
+          }, now));
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async apply(debt: DebtSyncCandidate, snapshot: BalanceSnapshot, now: Date): Promise<BalanceSyncResult> {
+    try {
+      const alerts = await this.database.transaction(async tx => {
+        const debts = new DebtRepository(tx);
+        const payments = new PaymentRepository(tx);
+        const history = new BalanceHistoryRepository(tx);
+
+        // Locked so a payment settling mid-sync cannot be counted twice;
+        // payments first, in the order settling a payment locks them
+        const inFlight = await payments.lockUnsettledByDebt(debt.id);
+        const local = await debts.lockTerms(debt.id);
+        if (!local) {
+          throw new Error(`Debt ${debt.id} not found`);
+        }
+
+        const unconfirmed = Money.sum(
+          [...inFlight, ...(await payments.findSettledSinceSync(debt.id, debt.lastSyncedAt))].map(payment =>
+            Money.of(payment.amount)
+          )
+        );
+        const elapsed = now.getTime() - new Date(debt.lastSyncedAt).getTime();
+        const findings = detectBalanceDrift(local, snapshot, elapsed, unconfirmed.toNumber());
+        const alerts: DriftAlert[] = findings.map(finding => ({
+          id: `DRF-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+          userId: debt.userId,
+          debtId: debt.id,
+          ...finding,
+          detectedAt: snapshot.recordedAt
+        }));
+
+        await debts.applySnapshot(snapshot);
+        await payments.markBalanceSynced(inFlight.map(payment => payment.id), snapshot.recordedAt);
+        await history.record(snapshot);
+        for (const alert of alerts) {
+          await history.createAlert(alert);
+        }
+        return alerts;
+      });
+
+      return { ...this.result(debt, 'synced'), alerts };
+    } catch (error) {
+      console.error(`Balance sync failed for debt ${debt.id}:`, error);
+      return this.result(debt, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private result(debt: DebtSyncCandidate, status: BalanceSyncStatus, reason?: string): BalanceSyncResult {
+    return { debtId: debt.id, userId: debt.userId, creditorId: debt.creditorId, status, reason, alerts: [] };
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * MicroRepay Clock
+ *
+ * Source of the current time for scheduled jobs. Jobs take a `Clock`
+ * instead of calling `new Date()` or `setTimeout` so they can be driven
+ * deterministically.
+ */
+
+export interface Clock {
+  now(): Date;
+  /** Resolves once `ms` have passed on this clock. */
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/** A clock that only moves when told to. */
+export class ManualClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date | string) {
+    this.current = new Date(start);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(time: Date | string): void {
+    this.current = new Date(time);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+
+  /** Moves the clock forward by `ms` rather than waiting for it. */
+  async sleep(ms: number): Promise<void> {
+    this.advance(ms);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentStatusPoller } from './PaymentStatusPoller';
+import { ManualClock } from './Clock';
+import { Database } from '../database/Database';
+import { PaymentRepository } from '../database/repositories/PaymentRepository';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import type { PaymentStatusResponse } from '../integration/CreditorIntegration';
+import { Ledger } from '../ledger/Ledger';
+import { PaymentLifecycle } from '../payments/PaymentLifecycle';
+import { TEST_USER_ID, createDebt, createUser, fundWallet, holdPayment, testDatabase } from '../testing/fixtures';
+
+const NOW = '2026-10-18T12:00:00.000Z';
+
+/** A $10 round-up payment counted as sent although its creditor's response was lost. */
+async function unconfirmedPayment(): Promise<Database> {
+  const db = await testDatabase();
+  await createUser(db);
+  await createDebt(db, { id: 'debt-1' });
+  await fundWallet(db, 10);
+  await holdPayment(db, { id: 'PAY-1', debtId: 'debt-1', amount: 10, creditorReference: 'sweep-1:account-debt-1' });
+  await new Ledger(db).recordCreditorPayment(TEST_USER_ID, 'debt-1', 'PAY-1', 10);
+  await new PaymentLifecycle(db).transition('PAY-1', 'submitted', { source: 'system', reason: 'timed out' });
+  return db;
+}
+
+function pollerFinding(db: Database, found: PaymentStatusResponse | null, lookups: string[] = []): PaymentStatusPoller {
+  return new PaymentStatusPoller(
+    db,
+    {
+      getPaymentStatus: async () => {
+        throw new Error('A payment without a confirmation number cannot be polled by it');
+      },
+      resolvePayment: async (_userId, _creditorId, _accountId, reference) => {
+        lookups.push(reference);
+        return found;
+      }
+    },
+    new ManualClock(NOW)
+  );
+}
+
+describe('PaymentStatusPoller', () => {
+  it('looks up a payment without a confirmation number by its reference', async () => {
+    const db = await unconfirmedPayment();
+    const lookups: string[] = [];
+
+    const results = await pollerFinding(
+      db,
+      { confirmationNumber: 'CONF-1', status: 'accepted', updatedAt: NOW },
+      lookups
+    ).pollInFlight();
+
+    expect(lookups).toEqual(['sweep-1:account-debt-1']);
+    expect(results).toEqual([{ paymentId: 'PAY-1', previousStatus: 'submitted', status: 'accepted' }]);
+    const payment = await new PaymentRepository(db).findById('PAY-1');
+    expect(payment).toMatchObject({ status: 'accepted', confirmationNumber: 'CONF-1' });
+  });
+
+  it('records the confirmation number of a payment found still submitted', async () => {
+    const db = await unconfirmedPayment();
+
+    await pollerFinding(db, { confirmationNumber: 'CONF-1', status: 'pending', updatedAt: NOW }).pollInFlight();
+
+    const payment = await new PaymentRepository(db).findById('PAY-1');
+    expect(payment).toMatchObject({ status: 'submitted', confirmationNumber: 'CONF-1' });
+  });
+
+  it('fails a payment the creditor has no record of and returns its funds', async () => {
+    const db = await unconfirmedPayment();
+
+    const [result] = await pollerFinding(db, null).pollInFlight();
+
+    expect(result.status).toBe('failed');
+    expect((await new WalletRepository(db).findByUser(TEST_USER_ID))?.balance).toBe(10);
+    expect((await new Ledger(db).reconcile(TEST_USER_ID)).balanced).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * MicroRepay Payment Status Poller
+ *
+ * This module periodically asks creditors for the status of every payment
+ * still in flight (submitted or accepted) and feeds the answers into the
+ * payment lifecycle. It covers creditors that never call back, and
+ * callbacks that were lost. A payment whose creditor response was lost has
+ * no confirmation number; it is looked up by the reference it was sent
+ * with, and fails, returning its funds, only if the creditor has no record
+ * of it.
+ */
+
+import { Database } from '../database/Database';
+import { DebtRepository } from '../database/repositories/DebtRepository';
+import { PaymentRepository } from '../database/repositories/PaymentRepository';
+import type { CreditorIntegration } from '../integration/CreditorIntegration';
+import { PaymentLifecycle, paymentStatusFromCreditor } from '../payments/PaymentLifecycle';
+import { Payment, PaymentStatus } from '../../types';
+import { Clock, systemClock } from './Clock';
+
+export interface PaymentPollResult {
+  paymentId: string;
+  previousStatus: PaymentStatus;
+  status: PaymentStatus;
+  error?: string;
+}
+
+export interface PaymentStatusPollerOptions {
+  intervalMs?: number;
+}
+
+export class PaymentStatusPoller {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<PaymentPollResult[]> | null = null;
+
+  constructor(
+    private readonly database: Database,
+    private readonly creditors: Pick<CreditorIntegration, 'getPaymentStatus' | 'resolvePayment'>,
+    private readonly clock: Clock = systemClock,
+    private readonly options: PaymentStatusPollerOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.pollInFlight();
+    }, this.options.intervalMs ?? 15 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Polls every in-flight payment once. Overlapping calls share the run
+   * already in progress.
+   */
+  pollInFlight(): Promise<PaymentPollResult[]> {
+    if (!this.running) {
+      this.running = this.pollPayments().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async pollPayments(): Promise<PaymentPollResult[]> {
+    const payments = await new PaymentRepository(this.database).findInFlight();
+    const debts = new DebtRepository(this.database);
+    const lifecycle = new PaymentLifecycle(this.database);
+    const results: PaymentPollResult[] = [];
+
+    for (const payment of payments) {
+      try {
+        const debt = await debts.findById(payment.debtId);
+        if (!debt) {
+          throw new Error(`Debt ${payment.debtId} not found`);
+        }
+        if (!payment.confirmationNumber) {
+          const updated = await this.resolveUnconfirmed(payment, debt.creditorId, debt.accountId, lifecycle);
+          results.push({ paymentId: payment.id, previousStatus: payment.status, status: updated.status });
+          continue;
+        }
+
+        const response = await this.creditors.getPaymentStatus(
+          payment.userId,
+          debt.creditorId,
+          debt.accountId,
+          payment.confirmationNumber
+        );
+        const updated = await lifecycle.handleCreditorEvent(
+          {
+            confirmationNumber: payment.confirmationNumber,
+            status: response.status,
+            reason: response.reason,
+            occurredAt: response.updatedAt ?? this.clock.now().toISOString()
+          },
+          'poll'
+        );
+
+        results.push({ paymentId: payment.id, previousStatus: payment.status, status: updated.status });
+      } catch (error) {
+        console.error(`Payment status poll failed for ${payment.id}:`, error);
+        results.push({
+          paymentId: payment.id,
+          previousStatus: payment.status,
+          status: payment.status,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async resolveUnconfirmed(
+    payment: Payment,
+    creditorId: string,
+    accountId: string,
+    lifecycle: PaymentLifecycle
+  ): Promise<Payment> {
+    if (!payment.creditorReference) {
+      throw new Error('Payment has neither a confirmation number nor a reference to poll with');
+    }
+
+    const found = await this.creditors.resolvePayment(
+      payment.userId,
+      creditorId,
+      accountId,
+      payment.creditorReference,
+      this.database
+    );
+    if (!found) {
+      return lifecycle.transition(payment.id, 'failed', {
+        source: 'poll',
+        reason: 'Creditor has no record of the payment',
+        occurredAt: this.clock.now().toISOString()
+      });
+    }
+
+    const status = paymentStatusFromCreditor(found.status);
+    if (!status) {
+      throw new Error(`Unknown creditor payment status "${found.status}" for payment ${payment.id}`);
+    }
+    return lifecycle.transition(payment.id, status, {
+      source: 'poll',
+      reason: found.reason,
+      occurredAt: found.updatedAt ?? this.clock.now().toISOString(),
+      confirmationNumber: found.confirmationNumber
+    });
+  }
+}
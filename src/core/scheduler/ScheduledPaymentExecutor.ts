@@ -0,0 +1,124 @@
+/**
+ * MicroRepay Scheduled Payment Executor
+ *
+ * This module periodically executes the scheduled payments whose date has
+ * come. Each one is paid out of the user's wallet to its debt through
+ * `MicroRepayService.processRoundup`, with the payment given rather than
+ * optimized, and keyed by the scheduled payment so a retry never pays it
+ * twice. A payment the wallet cannot cover fails and is not retried; the
+ * next plan schedules the funds again. A payment whose earlier attempt is
+ * still in progress stays scheduled and is tried again on the next run.
+ */
+
+import { Database } from '../database/Database';
+import { ScheduledPaymentRepository } from '../database/repositories/ScheduledPaymentRepository';
+import { IdempotencyConflictError } from '../idempotency/IdempotencyGuard';
+import type { MicroRepayService } from '../MicroRepayService';
+import { ScheduledPaymentStatus } from '../../types';
+import { Clock, systemClock } from './Clock';
+
+export interface ScheduledPaymentResult {
+  scheduledPaymentId: string;
+  userId: string;
+  status: Extract<ScheduledPaymentStatus, 'scheduled' | 'executed' | 'failed'>;
+  transferId?: string;
+  reason?: string;
+}
+
+export interface ScheduledPaymentExecutorOptions {
+  intervalMs?: number;
+}
+
+export class ScheduledPaymentExecutor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<ScheduledPaymentResult[]> | null = null;
+
+  constructor(
+    private readonly database: Database,
+    private readonly service: Pick<MicroRepayService, 'processRoundup'>,
+    private readonly clock: Clock = systemClock,
+    private readonly options: ScheduledPaymentExecutorOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.runDue();
+    }, this.options.intervalMs ?? 60 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Executes every scheduled payment that is due. Overlapping calls share
+   * the run already in progress.
+   */
+  runDue(): Promise<ScheduledPaymentResult[]> {
+    if (!this.running) {
+      this.running = this.executeDue().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async executeDue(): Promise<ScheduledPaymentResult[]> {
+    const now = this.clock.now().toISOString();
+    const scheduled = new ScheduledPaymentRepository(this.database);
+    const results: ScheduledPaymentResult[] = [];
+
+    for (const payment of await scheduled.findDue(now)) {
+      try {
+        // The request matches on every run, so a retry is recognised as one
+        const result = await this.service.processRoundup(payment.userId, payment.amount, {
+          idempotencyKey: `scheduled:${payment.id}`,
+          date: now,
+          payments: [{
+            debtId: payment.debtId,
+            accountId: payment.accountId,
+            amount: payment.amount,
+            date: payment.scheduledFor,
+            priority: 1
+          }]
+        });
+        if (result.failedPayments.length > 0) {
+          throw new Error(result.failedPayments[0].reason);
+        }
+        if (!result.transfer) {
+          throw new Error('The debt is paid off or its balance could not be refreshed');
+        }
+
+        await scheduled.updateStatus(payment.id, 'executed', now, { transferId: result.transfer.id });
+        results.push({
+          scheduledPaymentId: payment.id,
+          userId: payment.userId,
+          status: 'executed',
+          transferId: result.transfer.id
+        });
+      } catch (error) {
+        if (error instanceof IdempotencyConflictError && error.reason === 'in_progress') {
+          results.push({
+            scheduledPaymentId: payment.id,
+            userId: payment.userId,
+            status: 'scheduled',
+            reason: error.message
+          });
+          continue;
+        }
+
+        console.error(`Scheduled payment ${payment.id} failed:`, error);
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        await scheduled.updateStatus(payment.id, 'failed', now, { failureReason: reason });
+        results.push({ scheduledPaymentId: payment.id, userId: payment.userId, status: 'failed', reason });
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { WalletSweepScheduler } from './WalletSweepScheduler';
+import { ManualClock } from './Clock';
+import { Database } from '../database/Database';
+import { TransactionRepository } from '../database/repositories/TransactionRepository';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import { IdempotencyConflictError } from '../idempotency/IdempotencyGuard';
+import type { MicroRepayService, RoundupOptions, RoundupResult } from '../MicroRepayService';
+import { TEST_USER_ID, createDebt, createUser, fundWallet, holdPayment, testDatabase } from '../testing/fixtures';
+
+const NOW = '2026-10-18T12:00:00.000Z';
+const WALLET_ID = `wallet-${TEST_USER_ID}`;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SweepService = Pick<MicroRepayService, 'processRoundup' | 'resumeRoundup'>;
+
+interface Calls {
+  processed: Array<{ amount: number; options: RoundupOptions }>;
+  resumed: string[];
+}
+
+/** Pays out every round-up as one transfer and records what it was asked to do. */
+function recordingService(calls: Calls, overrides: Partial<SweepService> = {}): SweepService {
+  const result = (amount: number): RoundupResult => ({
+    success: true,
+    transactionId: 'TRX-1',
+    transfer: { id: 'TRF-1', amount, currency: 'USD', date: NOW, destinationIds: ['debt-1'], allocations: [] },
+    paymentSchedule: [],
+    projectedSavings: {} as RoundupResult['projectedSavings'],
+    failedPayments: []
+  });
+  return {
+    processRoundup: async (_userId, amount, options) => {
+      calls.processed.push({ amount, options });
+      return result(amount);
+    },
+    resumeRoundup: async idempotencyKey => {
+      calls.resumed.push(idempotencyKey);
+      return result(10);
+    },
+    ...overrides
+  };
+}
+
+async function purchase(db: Database, id: string, roundUpAmount: number, date: string): Promise<void> {
+  await new TransactionRepository(db).create({
+    id,
+    userId: TEST_USER_ID,
+    accountId: 'checking-1',
+    merchantName: 'Coffee Shop',
+    amount: 10 - roundUpAmount,
+    roundUpAmount,
+    date,
+    category: 'food',
+    type: 'purchase',
+    status: 'posted',
+    processed: true,
+    transferredToWallet: false
+  });
+}
+
+async function walletWith(amount: number): Promise<Database> {
+  const db = await testDatabase();
+  await createUser(db);
+  await createDebt(db, { id: 'debt-1' });
+  await fundWallet(db, amount);
+  return db;
+}
+
+describe('WalletSweepScheduler', () => {
+  it('sweeps a due wallet and counts only the purchases it pays out in full', async () => {
+    const db = await walletWith(5);
+    await purchase(db, 'TXN-1', 2, '2026-10-01T00:00:00.000Z');
+    await purchase(db, 'TXN-2', 2, '2026-10-02T00:00:00.000Z');
+    await purchase(db, 'TXN-3', 2, '2026-10-03T00:00:00.000Z');
+    const calls: Calls = { processed: [], resumed: [] };
+
+    const [result] = await new WalletSweepScheduler(db, recordingService(calls), new ManualClock(NOW)).runDue();
+
+    expect(result.status).toBe('swept');
+    expect(calls.processed).toEqual([
+      {
+        amount: 5,
+        options: { idempotencyKey: `sweep:${WALLET_ID}:${NOW}`, date: NOW, transactionIds: ['TXN-1', 'TXN-2'] }
+      }
+    ]);
+  });
+
+  it('waits out the transfer frequency after a transfer', async () => {
+    const db = await walletWith(5);
+    await new WalletRepository(db).markTransferred(TEST_USER_ID, NOW);
+    const clock = new ManualClock(NOW);
+    const calls: Calls = { processed: [], resumed: [] };
+    const scheduler = new WalletSweepScheduler(db, recordingService(calls), clock);
+
+    clock.advance(6 * DAY_MS);
+    const [early] = await scheduler.runDue();
+    clock.advance(DAY_MS);
+    const [due] = await scheduler.runDue();
+
+    expect(early).toMatchObject({ status: 'skipped', reason: expect.stringContaining('weekly sweep') });
+    expect(due.status).toBe('swept');
+    expect(calls.processed).toHaveLength(1);
+  });
+
+  it('finishes a sweep that stopped after holding its funds before sweeping again', async () => {
+    const db = await walletWith(12.5);
+    await holdPayment(db, { id: 'PAY-1', debtId: 'debt-1', amount: 10 }, NOW, `sweep:${WALLET_ID}:2026-10-17T12:00:00.000Z`);
+    const calls: Calls = { processed: [], resumed: [] };
+
+    const [result] = await new WalletSweepScheduler(db, recordingService(calls), new ManualClock(NOW)).runDue();
+
+    expect(result.status).toBe('swept');
+    expect(calls.resumed).toEqual([`sweep:${WALLET_ID}:2026-10-17T12:00:00.000Z`]);
+    expect(calls.processed).toEqual([]);
+  });
+
+  it('leaves a held sweep alone while another attempt is still sending it', async () => {
+    const db = await walletWith(12.5);
+    await holdPayment(db, { id: 'PAY-1', debtId: 'debt-1', amount: 10 }, NOW, `sweep:${WALLET_ID}:2026-10-17T12:00:00.000Z`);
+    const calls: Calls = { processed: [], resumed: [] };
+    const service = recordingService(calls, {
+      resumeRoundup: async idempotencyKey => {
+        throw new IdempotencyConflictError('in progress', 'process_roundup', idempotencyKey, 'in_progress');
+      }
+    });
+
+    const [result] = await new WalletSweepScheduler(db, service, new ManualClock(NOW)).runDue();
+
+    expect(result).toMatchObject({ status: 'skipped', reason: 'An earlier sweep is still in progress' });
+    expect(calls.processed).toEqual([]);
+  });
+});
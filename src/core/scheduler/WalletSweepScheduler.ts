@@ -0,0 +1,255 @@
+/**
+ * MicroRepay Wallet Sweep Scheduler
+ *
+ * This module periodically checks every round-up wallet and sweeps the
+ * ones that are due: the balance has reached the wallet's transfer
+ * threshold and enough time has passed since the last transfer for the
+ * user's transfer frequency. A sweep pays the whole balance out through
+ * `MicroRepayService.processRoundup`, which records the transfer and its
+ * per-debt splits and marks the swept purchases as transferred. Round-ups
+ * of refunded purchases queued for clawback are taken out of the balance
+ * first, scheduled payments planned from funds that should be in the
+ * wallet by now are held back, and only the rest is paid out. Payments
+ * planned from round-ups still to come hold nothing back yet. A sweep
+ * that stopped after holding its funds is finished before the wallet is
+ * looked at again.
+ */
+
+import { Database } from '../database/Database';
+import { SweepCandidate, WalletRepository } from '../database/repositories/WalletRepository';
+import { TransactionRepository } from '../database/repositories/TransactionRepository';
+import { ScheduledPaymentRepository } from '../database/repositories/ScheduledPaymentRepository';
+import { IdempotencyConflictError } from '../idempotency/IdempotencyGuard';
+import type { MicroRepayService, RoundupResult } from '../MicroRepayService';
+import { Money } from '../money/Money';
+import { settleClawback } from '../roundup/reversal';
+import { Transfer, UserPreferences } from '../../types';
+import { Clock, systemClock } from './Clock';
+
+export type SweepStatus = 'swept' | 'skipped' | 'failed';
+
+export interface SweepResult {
+  walletId: string;
+  userId: string;
+  status: SweepStatus;
+  reason?: string;
+  transfer?: Transfer;
+  clawedBack?: number; // Queued clawback taken out of the balance before sweeping
+}
+
+export interface WalletSweepSchedulerOptions {
+  intervalMs?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SWEEP_KEY_PREFIX = 'sweep:';
+
+const SWEEP_INTERVALS: Record<UserPreferences['transferFrequency'], number> = {
+  immediate: 0,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS
+};
+
+/**
+ * Earliest time the next sweep may run. Null when the wallet may be swept
+ * as soon as it reaches its threshold.
+ */
+export function nextSweepAt(
+  frequency: UserPreferences['transferFrequency'],
+  lastTransferredAt?: string
+): Date | null {
+  if (!lastTransferredAt || SWEEP_INTERVALS[frequency] === 0) return null;
+  return new Date(new Date(lastTransferredAt).getTime() + SWEEP_INTERVALS[frequency]);
+}
+
+/** Why a wallet is not due for a sweep at `now`, or null if it is due. */
+export function sweepBlocker(candidate: SweepCandidate, now: Date): string | null {
+  const { wallet, transferFrequency } = candidate;
+  const balance = Money.of(wallet.balance);
+
+  if (!balance.isPositive()) {
+    return 'Wallet is empty';
+  }
+  if (balance.lessThan(Money.of(wallet.transferThreshold))) {
+    return 'Balance is below the transfer threshold';
+  }
+
+  const next = nextSweepAt(transferFrequency, wallet.lastTransferredAt);
+  if (next && now < next) {
+    return `Next ${transferFrequency} sweep is not before ${next.toISOString()}`;
+  }
+  return null;
+}
+
+function sweepResult({ wallet }: SweepCandidate, result: RoundupResult): SweepResult {
+  if (!result.transfer) {
+    return {
+      walletId: wallet.id,
+      userId: wallet.userId,
+      status: result.failedPayments.length > 0 ? 'failed' : 'skipped',
+      reason: result.failedPayments.length > 0
+        ? result.failedPayments.map(payment => payment.reason).join('; ')
+        : 'No open debts to pay'
+    };
+  }
+  return { walletId: wallet.id, userId: wallet.userId, status: 'swept', transfer: result.transfer };
+}
+
+export class WalletSweepScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<SweepResult[]> | null = null;
+
+  constructor(
+    private readonly database: Database,
+    private readonly service: Pick<MicroRepayService, 'processRoundup' | 'resumeRoundup'>,
+    private readonly clock: Clock = systemClock,
+    private readonly options: WalletSweepSchedulerOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.runDue();
+    }, this.options.intervalMs ?? 60 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluates every wallet once and sweeps the due ones. Overlapping calls
+   * share the run already in progress.
+   */
+  runDue(): Promise<SweepResult[]> {
+    if (!this.running) {
+      this.running = this.evaluateWallets().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async evaluateWallets(): Promise<SweepResult[]> {
+    const now = this.clock.now();
+    const candidates = await new WalletRepository(this.database).findAllForSweep();
+    const results: SweepResult[] = [];
+
+    for (const candidate of candidates) {
+      const resumed = await this.resumeHeldSweep(candidate, now);
+      if (resumed) {
+        results.push(resumed);
+        continue;
+      }
+
+      const blocker = sweepBlocker(candidate, now);
+      results.push(
+        blocker
+          ? { walletId: candidate.wallet.id, userId: candidate.wallet.userId, status: 'skipped', reason: blocker }
+          : await this.sweep(candidate, now)
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Finishes the oldest sweep of the wallet that holds funds for payments
+   * it never sent, under its own key so nothing is held or paid twice.
+   * Null when no sweep stopped partway.
+   */
+  private async resumeHeldSweep(candidate: SweepCandidate, now: Date): Promise<SweepResult | null> {
+    const { wallet } = candidate;
+    const [sweepKey] = await new WalletRepository(this.database).findHeldSweepKeys(wallet.id, SWEEP_KEY_PREFIX);
+    if (!sweepKey) return null;
+
+    try {
+      return sweepResult(candidate, await this.service.resumeRoundup(sweepKey, now.toISOString()));
+    } catch (error) {
+      if (error instanceof IdempotencyConflictError && error.reason === 'in_progress') {
+        return {
+          walletId: wallet.id,
+          userId: wallet.userId,
+          status: 'skipped',
+          reason: 'An earlier sweep is still in progress'
+        };
+      }
+      console.error(`Resuming sweep ${sweepKey} failed for ${wallet.id}:`, error);
+      return {
+        walletId: wallet.id,
+        userId: wallet.userId,
+        status: 'failed',
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async sweep(candidate: SweepCandidate, now: Date): Promise<SweepResult> {
+    const { wallet } = candidate;
+
+    try {
+      const clawedBack = wallet.pendingClawback > 0
+        ? await this.database.transaction(tx => settleClawback(tx, wallet.userId))
+        : 0;
+      const afterClawback = Money.of(wallet.balance).minus(Money.of(clawedBack));
+      if (!afterClawback.isPositive()) {
+        return {
+          walletId: wallet.id,
+          userId: wallet.userId,
+          status: 'skipped',
+          reason: 'The balance went to clawing back refunded round-ups',
+          clawedBack
+        };
+      }
+
+      const setAside = Money.of(
+        await new ScheduledPaymentRepository(this.database).sumScheduled(wallet.userId, now.toISOString())
+      );
+      const balance = afterClawback.minus(setAside);
+      if (!balance.isPositive()) {
+        return {
+          walletId: wallet.id,
+          userId: wallet.userId,
+          status: 'skipped',
+          reason: 'The balance is set aside for scheduled payments',
+          clawedBack
+        };
+      }
+
+      // Only purchases whose round-ups fit in full in what is paid out count
+      // as transferred; the rest wait for a later sweep
+      const transactionIds: string[] = [];
+      let covered = Money.zero();
+      for (const transaction of await new TransactionRepository(this.database).findUntransferred(wallet.userId)) {
+        covered = covered.plus(Money.of(transaction.roundUpAmount));
+        if (covered.greaterThan(balance)) break;
+        transactionIds.push(transaction.id);
+      }
+
+      // Each run sweeps under a key of its own. One that stops after holding
+      // its funds is finished under that key by a later run rather than
+      // swept again; the wallet lock keeps two runs from holding the same funds.
+      const idempotencyKey = `${SWEEP_KEY_PREFIX}${wallet.id}:${now.toISOString()}`;
+      const result = await this.service.processRoundup(wallet.userId, balance.toNumber(), {
+        idempotencyKey,
+        date: now.toISOString(),
+        transactionIds
+      });
+
+      return { ...sweepResult(candidate, result), clawedBack };
+    } catch (error) {
+      console.error(`Wallet sweep failed for ${wallet.id}:`, error);
+      return {
+        walletId: wallet.id,
+        userId: wallet.userId,
+        status: 'failed',
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * MicroRepay Token Cipher
+ *
+ * Encrypts secrets such as creditor access tokens before they are stored,
+ * using the encryption settings declared in the security framework
+ * (AES-GCM through WebCrypto). Sealed values carry the ID of the key that
+ * sealed them, so keys can be rotated: the first configured key seals new
+ * values, and older keys stay available for opening existing ones until
+ * those are re-sealed.
+ */
+
+import { EncryptionConfig, SecurityFramework } from './SecurityFramework';
+
+export interface CipherKey {
+  id: string;
+  key: string; // Base64-encoded raw key
+}
+
+const SEALED_FORMAT = 'v1';
+const IV_BYTES = 12;
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  min: 60 * 1000,
+  minutes: 60 * 1000,
+  h: 60 * 60 * 1000,
+  hours: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000
+};
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+/** Key length in bits for a GCM algorithm name such as "AES-256-GCM". */
+function parseAlgorithm(algorithm: string): number {
+  const match = /^AES-(128|192|256)-GCM$/i.exec(algorithm.trim());
+  if (!match) {
+    throw new Error(`Unsupported token encryption algorithm "${algorithm}"; expected AES-GCM`);
+  }
+  return Number(match[1]);
+}
+
+/** Milliseconds in a rotation period such as "30d" or "90 days". */
+export function parseRotationPeriod(period: string): number {
+  const match = /^(\d+)\s*([a-z]+)$/i.exec(period.trim());
+  const unit = match ? DURATION_UNITS[match[2].toLowerCase()] : undefined;
+  if (!match || !unit) {
+    throw new Error(`Unsupported key rotation period "${period}"`);
+  }
+  return Number(match[1]) * unit;
+}
+
+/**
+ * Keys from a comma-separated list of `id:base64key` pairs, current key
+ * first, e.g. the value of an environment variable.
+ */
+export function parseCipherKeys(value: string | undefined): CipherKey[] {
+  return (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [id, key] = entry.split(':');
+      if (!id || !key) {
+        throw new Error('Token keys must be listed as "id:base64key"');
+      }
+      return { id, key };
+    });
+}
+
+export class TokenCipher {
+  private readonly keyBits: number;
+  private readonly rotationMs: number;
+  private readonly cryptoKeys = new Map<string, Promise<CryptoKey>>();
+
+  constructor(
+    encryption: EncryptionConfig,
+    private readonly keys: CipherKey[]
+  ) {
+    this.keyBits = parseAlgorithm(encryption.algorithm);
+    this.rotationMs = parseRotationPeriod(encryption.keyRotation);
+  }
+
+  static fromSecurityFramework(security: Pick<SecurityFramework, 'encryption'>, keys: CipherKey[]): TokenCipher {
+    return new TokenCipher(security.encryption, keys);
+  }
+
+  /** A random base64 key of the given length, for configuring a new key. */
+  static generateKey(bits = 256): string {
+    return toBase64(crypto.getRandomValues(new Uint8Array(bits / 8)));
+  }
+
+  /**
+   * Encrypts `plaintext`. `context` is authenticated but not encrypted;
+   * pass the owner of the secret so a sealed value cannot be moved to
+   * another record.
+   */
+  async seal(plaintext: string, context: string): Promise<string> {
+    const current = this.keys[0];
+    if (!current) {
+      throw new Error('No token encryption key is configured');
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+      await this.cryptoKey(current),
+      new TextEncoder().encode(plaintext)
+    );
+
+    return [SEALED_FORMAT, current.id, toBase64(iv), toBase64(new Uint8Array(ciphertext))].join(':');
+  }
+
+  async open(sealed: string, context: string): Promise<string> {
+    const [format, keyId, iv, ciphertext] = sealed.split(':');
+    if (format !== SEALED_FORMAT || !iv || !ciphertext) {
+      throw new Error('Sealed token is malformed');
+    }
+
+    const key = this.keys.find(candidate => candidate.id === keyId);
+    if (!key) {
+      throw new Error(`Token was sealed with unknown key "${keyId}"`);
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(context) },
+        await this.cryptoKey(key),
+        fromBase64(ciphertext)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      throw new Error('Sealed token failed authentication');
+    }
+  }
+
+  /**
+   * Whether a sealed value should be re-sealed: it was sealed with an
+   * older key, or longer ago than the configured key rotation period.
+   */
+  needsResealing(sealed: string, sealedAt: string, now: Date = new Date()): boolean {
+    const keyId = sealed.split(':')[1];
+    return keyId !== this.keys[0]?.id || now.getTime() - new Date(sealedAt).getTime() >= this.rotationMs;
+  }
+
+  private cryptoKey(key: CipherKey): Promise<CryptoKey> {
+    let cryptoKey = this.cryptoKeys.get(key.id);
+    if (!cryptoKey) {
+      const raw = fromBase64(key.key);
+      if (raw.length * 8 !== this.keyBits) {
+        throw new Error(`Token key "${key.id}" must be ${this.keyBits} bits`);
+      }
+      cryptoKey = crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+      this.cryptoKeys.set(key.id, cryptoKey);
+    }
+    return cryptoKey;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * MicroRepay Test Fixtures
+ *
+ * Builders for the rows the core modules' tests start from: an in-memory
+ * database with the full schema, a user with a round-up wallet, and debts.
+ * Wallet funds are posted through the ledger so reconciliation holds.
+ *
+ * Test only; nothing in the app imports it.
+ */
+
+import { Database } from '../database/Database';
+import { SqliteDriver } from '../database/SqliteDriver';
+import { DebtRepository } from '../database/repositories/DebtRepository';
+import { WalletRepository } from '../database/repositories/WalletRepository';
+import { Ledger } from '../ledger/Ledger';
+import { PaymentLifecycle } from '../payments/PaymentLifecycle';
+import { Debt, Payment } from '../../types';
+
+export const TEST_USER_ID = 'user-1';
+
+export async function testDatabase(): Promise<Database> {
+  const db = new Database(undefined, new SqliteDriver());
+  await db.connect();
+  return db;
+}
+
+/** A user with an empty wallet that sweeps from $1. */
+export async function createUser(db: Database, userId = TEST_USER_ID): Promise<void> {
+  await db.query(
+    `INSERT INTO users (id, email, name, created_at) VALUES ($1, $2, $3, $4)`,
+    [userId, `${userId}@example.com`, 'Test User', '2026-01-01T00:00:00.000Z']
+  );
+  await new WalletRepository(db).create({ id: `wallet-${userId}`, userId, balance: 0, transferThreshold: 1 });
+}
+
+/** Adds round-ups to the user's wallet, with their ledger entry. */
+export async function fundWallet(db: Database, amount: number, userId = TEST_USER_ID): Promise<void> {
+  await new Ledger(db).recordRoundUpAccrual(userId, `TXN-${Math.random().toString(36).substring(2, 10)}`, amount);
+  await new WalletRepository(db).credit(`wallet-${userId}`, amount);
+}
+
+export async function createDebt(
+  db: Database,
+  debt: Partial<Omit<Debt, 'paymentHistory'>> & Pick<Debt, 'id'>
+): Promise<Debt> {
+  return new DebtRepository(db).create({
+    userId: TEST_USER_ID,
+    creditorId: 'creditor-1',
+    accountId: `account-${debt.id}`,
+    creditorName: 'Test Bank',
+    accountType: 'credit_card',
+    currentBalance: 1000,
+    originalBalance: 1000,
+    interestRate: 0.2,
+    minimumPayment: 25,
+    dueDate: '2026-11-15T00:00:00.000Z',
+    lastSyncedAt: '2026-10-01T00:00:00.000Z',
+    ...debt
+  });
+}
+
+/**
+ * Holds wallet funds for a round-up payment the way a sweep does: a
+ * transfer, its sweep entry and wallet debit, and the payment, created.
+ */
+export async function holdPayment(
+  db: Database,
+  payment: Pick<Payment, 'id' | 'debtId' | 'amount'> & Partial<Payment>,
+  at = '2026-10-18T00:00:00.000Z',
+  sweepKey?: string
+): Promise<Payment> {
+  const userId = payment.userId ?? TEST_USER_ID;
+  const transferId = `TRF-${payment.id}`;
+  const wallets = new WalletRepository(db);
+  await wallets.recordTransfer(`wallet-${userId}`, {
+    id: transferId,
+    amount: payment.amount,
+    currency: 'USD',
+    date: at,
+    destinationIds: [payment.debtId],
+    allocations: [{ debtId: payment.debtId, amount: payment.amount }]
+  }, sweepKey);
+  await new Ledger(db).recordSweep(userId, transferId, payment.amount);
+  await wallets.debit(`wallet-${userId}`, payment.amount);
+
+  return new PaymentLifecycle(db).create({
+    userId,
+    currency: 'USD',
+    date: at,
+    sourceFunds: 'round_up',
+    transferId,
+    ...payment
+  }, at);
+}
@@ -1,6 +1,16 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { DEFAULT_CURRENCY, Money } from "@/core/money/Money"
+import type { CurrencyCode } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatMoney(amount: number, currency: CurrencyCode = DEFAULT_CURRENCY) {
+  return Money.of(amount, currency).format()
+}
+
+export function sumMoney(amounts: number[], currency: CurrencyCode = DEFAULT_CURRENCY) {
+  return Money.sum(amounts.map((amount) => Money.of(amount, currency)), currency).toNumber()
+}
@@ -1,13 +1,21 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building, CreditCard, ChevronRight, Lock, CheckCircle2 } from "lucide-react";
+import { Building, CreditCard, ChevronRight, Lock, CheckCircle2, AlertCircle } from "lucide-react";
+import {
+  beginMockBankLink,
+  completeMockBankLink,
+  selectMockBankAccounts,
+  startMockTransactionIngestion,
+} from "@/services/mockData";
+import { BankLinkAuthorization } from "@/core/integration/BankLinkFlow";
 
 const BankCard = ({ bank, onClick }: { bank: Bank; onClick: () => void }) => (
   <div 
@@ -39,55 +47,56 @@ interface Bank {
   popular?: boolean;
 }
 
+const popularBanks: Bank[] = [
+  { 
+    id: "capital_one", 
+    name: "Capital One", 
+    description: "Credit cards, checking & savings",
+    popular: true
+  },
+  { 
+    id: "chase", 
+    name: "Chase", 
+    description: "Credit cards, checking & savings",
+    popular: true 
+  },
+  { 
+    id: "bank_of_america", 
+    name: "Bank of America", 
+    description: "Credit cards, checking & savings",
+    popular: true 
+  },
+  { 
+    id: "wells_fargo", 
+    name: "Wells Fargo", 
+    description: "Banking, credit cards, loans",
+    popular: true 
+  },
+];
+
+const otherBanks: Bank[] = [
+  { id: "citi", name: "Citibank", description: "Credit cards, checking & savings" },
+  { id: "discover", name: "Discover", description: "Credit cards & banking" },
+  { id: "us_bank", name: "U.S. Bank", description: "Banking, loans, credit cards" },
+  { id: "pnc", name: "PNC Bank", description: "Banking & investments" },
+  { id: "td_bank", name: "TD Bank", description: "Banking, credit cards & loans" },
+  { id: "american_express", name: "American Express", description: "Credit cards & services" },
+];
+
+const allBanks = [...popularBanks, ...otherBanks];
+
 const ConnectBank = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedBank, setSelectedBank] = useState<Bank | null>(null);
-  const [credentials, setCredentials] = useState({
-    username: "",
-    password: ""
-  });
+  const [authorization, setAuthorization] = useState<BankLinkAuthorization | null>(null);
+  const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
+  const [linkError, setLinkError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
-
-  const popularBanks: Bank[] = [
-    { 
-      id: "capital_one", 
-      name: "Capital One", 
-      description: "Credit cards, checking & savings",
-      popular: true
-    },
-    { 
-      id: "chase", 
-      name: "Chase", 
-      description: "Credit cards, checking & savings",
-      popular: true 
-    },
-    { 
-      id: "bank_of_america", 
-      name: "Bank of America", 
-      description: "Credit cards, checking & savings",
-      popular: true 
-    },
-    { 
-      id: "wells_fargo", 
-      name: "Wells Fargo", 
-      description: "Banking, credit cards, loans",
-      popular: true 
-    },
-  ];
-
-  const otherBanks: Bank[] = [
-    { id: "citi", name: "Citibank", description: "Credit cards, checking & savings" },
-    { id: "discover", name: "Discover", description: "Credit cards & banking" },
-    { id: "us_bank", name: "U.S. Bank", description: "Banking, loans, credit cards" },
-    { id: "pnc", name: "PNC Bank", description: "Banking & investments" },
-    { id: "td_bank", name: "TD Bank", description: "Banking, credit cards & loans" },
-    { id: "american_express", name: "American Express", description: "Credit cards & services" },
-  ];
-
-  const allBanks = [...popularBanks, ...otherBanks];
+  const callbackHandled = useRef(false);
 
   const filteredBanks = searchTerm
     ? allBanks.filter(bank => 
@@ -95,48 +104,100 @@ const ConnectBank = () => {
       )
     : [];
 
+  // The bank sends the user back here with an authorization code, or an error
+  useEffect(() => {
+    const state = searchParams.get("state");
+    if (!state || callbackHandled.current) return;
+    callbackHandled.current = true;
+
+    setIsLoading(true);
+    completeMockBankLink({
+      state,
+      code: searchParams.get("code") ?? undefined,
+      error: searchParams.get("error") ?? undefined,
+    })
+      .then(result => {
+        setSelectedBank(allBanks.find(bank => bank.id === result.institutionId) ?? {
+          id: result.institutionId,
+          name: result.institutionId,
+          description: "",
+        });
+        setAuthorization(result);
+        setSelectedAccounts(result.accounts.map(account => account.id));
+      })
+      .catch(error => {
+        setLinkError(error instanceof Error ? error.message : "The bank link could not be completed.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [searchParams]);
+
   const handleSelectBank = (bank: Bank) => {
     setSelectedBank(bank);
   };
 
-  const handleCredentialsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCredentials({
-      ...credentials,
-      [e.target.name]: e.target.value
-    });
+  // Send the user to their bank to sign in and approve access
+  const handleContinueToBank = () => {
+    if (!selectedBank) return;
+
+    const { authorizationUrl } = beginMockBankLink(
+      selectedBank.id,
+      `${window.location.origin}/connect-bank/callback`
+    );
+    if (authorizationUrl.startsWith("/")) {
+      navigate(authorizationUrl);
+    } else {
+      window.location.assign(authorizationUrl);
+    }
   };
 
-  const handleConnect = (e: React.FormEvent) => {
+  const toggleAccount = (accountId: string, checked: boolean) => {
+    setSelectedAccounts(prev =>
+      checked ? [...prev, accountId] : prev.filter(id => id !== accountId)
+    );
+  };
+
+  const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedBank) return;
+    if (!selectedBank || !authorization) return;
     
     setIsLoading(true);
-    
-    // Simulate bank connection
-    setTimeout(() => {
-      // Store connected bank in user preferences
-      const userPreferences = localStorage.getItem("userPreferences");
-      const parsedPreferences = userPreferences ? JSON.parse(userPreferences) : {};
-      
-      localStorage.setItem("userPreferences", JSON.stringify({
-        ...parsedPreferences,
-        bankAccount: selectedBank.id
-      }));
-      
-      setIsLoading(false);
+    try {
+      const links = await selectMockBankAccounts(authorization.state, selectedAccounts);
+
+      // Start pulling the accounts' transactions so round-ups begin right away
+      let imported = 0;
+      for (const link of links) {
+        try {
+          const summary = await startMockTransactionIngestion(link.accountId);
+          imported += summary.outcomes.pending + summary.outcomes.posted;
+        } catch (error) {
+          console.error(`Failed to start transaction ingestion for ${link.accountId}:`, error);
+        }
+      }
+
       setIsConnected(true);
-      
       toast({
         title: "Bank connected successfully",
-        description: `Your ${selectedBank.name} account is now linked to MicroRepay.`,
+        description: `${links.length} ${selectedBank.name} account${links.length === 1 ? " is" : "s are"} now linked to MicroRepay. ${imported} recent transaction${imported === 1 ? "" : "s"} imported.`,
       });
       
       // Redirect after successful connection
       setTimeout(() => {
         navigate("/dashboard");
       }, 2000);
-    }, 1500);
+    } catch (error) {
+      setLinkError(error instanceof Error ? error.message : "The bank link could not be completed.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startOver = () => {
+    setSelectedBank(null);
+    setAuthorization(null);
+    setLinkError(null);
+    navigate("/connect-bank", { replace: true });
   };
 
   const renderBankSelection = () => (
@@ -212,7 +273,7 @@ const ConnectBank = () => {
     </div>
   );
 
-  const renderCredentialsForm = () => (
+  const renderContinueToBank = () => (
     <div>
       <div className="mb-6">
         <div className="flex items-center space-x-3">
@@ -221,57 +282,95 @@ const ConnectBank = () => {
           </div>
           <div>
             <h2 className="font-medium">{selectedBank?.name}</h2>
-            <p className="text-sm text-gray-500">Enter your credentials</p>
+            <p className="text-sm text-gray-500">{selectedBank?.description}</p>
           </div>
         </div>
       </div>
       
-      <form onSubmit={handleConnect} className="space-y-4">
-        <div className="space-y-2">
-          <Label htmlFor="username">Username</Label>
-          <Input
-            id="username"
-            name="username"
-            value={credentials.username}
-            onChange={handleCredentialsChange}
-            required
-          />
-        </div>
-        
-        <div className="space-y-2">
-          <Label htmlFor="password">Password</Label>
-          <Input
-            id="password"
-            name="password"
-            type="password"
-            value={credentials.password}
-            onChange={handleCredentialsChange}
-            required
-          />
-        </div>
-        
-        <div className="flex items-center space-x-2 text-sm text-gray-500 mt-4">
+      <div className="space-y-3 text-sm text-gray-600">
+        <p>
+          You'll be taken to {selectedBank?.name} to sign in and choose what to share.
+          MicroRepay gets read access to your balances and transactions.
+        </p>
+        <div className="flex items-center space-x-2 text-gray-500">
           <Lock className="w-4 h-4" />
-          <p>Your credentials are securely encrypted and never stored.</p>
+          <p>Your username and password are entered at your bank and never reach MicroRepay.</p>
         </div>
-        
-        <div className="flex space-x-2 pt-4">
-          <Button 
-            type="button" 
-            variant="outline"
-            onClick={() => setSelectedBank(null)}
-          >
-            Back
-          </Button>
-          <Button 
-            type="submit" 
-            className="w-full bg-primary-gradient"
-            disabled={!credentials.username || !credentials.password || isLoading}
-          >
-            {isLoading ? "Connecting..." : "Connect Account"}
-          </Button>
+      </div>
+      
+      <div className="flex space-x-2 pt-6">
+        <Button 
+          type="button" 
+          variant="outline"
+          onClick={() => setSelectedBank(null)}
+        >
+          Back
+        </Button>
+        <Button 
+          type="button" 
+          className="w-full bg-primary-gradient"
+          onClick={handleContinueToBank}
+        >
+          Continue to {selectedBank?.name}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderAccountSelection = () => (
+    <form onSubmit={handleConnect} className="space-y-4">
+      {authorization?.accounts.map((account) => (
+        <div key={account.id} className="flex items-center space-x-3 border rounded-lg p-4">
+          <Checkbox
+            id={account.id}
+            checked={selectedAccounts.includes(account.id)}
+            onCheckedChange={(checked) => toggleAccount(account.id, checked === true)}
+          />
+          <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center">
+            {account.type === "credit_card" ? (
+              <CreditCard className="w-5 h-5 text-blue-600" />
+            ) : (
+              <Building className="w-5 h-5 text-blue-600" />
+            )}
+          </div>
+          <Label htmlFor={account.id} className="flex-1 cursor-pointer">
+            <span className="block font-medium">{account.name}</span>
+            <span className="block text-sm text-gray-500">•••• {account.mask}</span>
+          </Label>
         </div>
-      </form>
+      ))}
+      
+      <div className="flex space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={startOver}>
+          Cancel
+        </Button>
+        <Button 
+          type="submit" 
+          className="w-full bg-primary-gradient"
+          disabled={selectedAccounts.length === 0 || isLoading}
+        >
+          {isLoading ? "Linking..." : `Link ${selectedAccounts.length} account${selectedAccounts.length === 1 ? "" : "s"}`}
+        </Button>
+      </div>
+    </form>
+  );
+
+  const renderLinkError = () => (
+    <div className="py-8 text-center">
+      <div className="mx-auto w-16 h-16 rounded-full bg-red-100 flex items-center justify-center mb-4">
+        <AlertCircle className="w-8 h-8 text-red-600" />
+      </div>
+      <h2 className="text-xl font-bold mb-2">Bank Not Connected</h2>
+      <p className="text-gray-500 mb-6">{linkError}</p>
+      <Button variant="outline" onClick={startOver}>
+        Try Again
+      </Button>
+    </div>
+  );
+
+  const renderLinkInProgress = () => (
+    <div className="py-8 text-center text-gray-500">
+      Finishing the connection with your bank...
     </div>
   );
 
@@ -282,7 +381,7 @@ const ConnectBank = () => {
       </div>
       <h2 className="text-xl font-bold mb-2">Successfully Connected!</h2>
       <p className="text-gray-500 mb-6">
-        Your {selectedBank?.name} account has been successfully linked to MicroRepay.
+        Your {selectedBank?.name} accounts have been successfully linked to MicroRepay.
       </p>
       <p className="text-sm text-gray-400 mb-6">
         Redirecting to dashboard...
@@ -304,25 +403,35 @@ const ConnectBank = () => {
           <CardHeader className={selectedBank || isConnected ? "border-b" : ""}>
             <CardTitle>{isConnected 
               ? "Connection Successful" 
-              : selectedBank 
-                ? `Connect to ${selectedBank.name}` 
-                : "Select Your Bank"
+              : authorization
+                ? "Choose Accounts"
+                : selectedBank 
+                  ? `Connect to ${selectedBank.name}` 
+                  : "Select Your Bank"
             }</CardTitle>
             <CardDescription>
               {isConnected 
                 ? "Your bank account is now linked to MicroRepay" 
-                : selectedBank 
-                  ? "Enter your online banking credentials" 
-                  : "Choose your bank from the list or search by name"
+                : authorization
+                  ? `Pick the ${selectedBank?.name} accounts to use for round-ups`
+                  : selectedBank 
+                    ? "Sign in securely at your bank" 
+                    : "Choose your bank from the list or search by name"
               }
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-6">
-            {isConnected 
-              ? renderSuccess()
-              : selectedBank 
-                ? renderCredentialsForm() 
-                : renderBankSelection()
+            {linkError
+              ? renderLinkError()
+              : isConnected 
+                ? renderSuccess()
+                : authorization
+                  ? renderAccountSelection()
+                  : searchParams.has("state")
+                    ? renderLinkInProgress()
+                    : selectedBank 
+                      ? renderContinueToBank() 
+                      : renderBankSelection()
             }
           </CardContent>
         </Card>
@@ -28,7 +28,7 @@ const Dashboard = () => {
           {/* Main cards - full width on mobile, variable on larger screens */}
           <div className="col-span-1 md:col-span-2 lg:col-span-2">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-              <WalletCard wallet={wallet} />
+              <WalletCard wallet={wallet} transferFrequency={mockData.user.preferences.transferFrequency} />
               <DebtSummaryCard debts={debts} />
             </div>
             
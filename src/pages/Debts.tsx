@@ -1,23 +1,45 @@
 import { useState } from "react";
-import { CircleDollarSign, TrendingDown, Plus } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { AlertTriangle, CircleDollarSign, Hourglass, TrendingDown, Plus, RefreshCw } from "lucide-react";
 import Layout from "@/components/Layout";
-import { getMockDebts } from "@/services/mockData";
-import { Debt } from "@/types";
+import { acknowledgeMockDriftAlert, getMockDebts, getMockDriftAlerts } from "@/services/mockData";
+import { Debt, DriftAlert, DriftAlertKind } from "@/types";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import PaymentDialog from "@/components/PaymentDialog";
+import PaymentCalendar from "@/components/PaymentCalendar";
+import { formatMoney, sumMoney } from "@/lib/utils";
+
+// Balances older than this are flagged as possibly out of date
+const SYNC_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Promotional rates ending sooner than this are highlighted
+const PROMO_ENDING_SOON_DAYS = 60;
+
+const DRIFT_ALERT_TITLES: Record<DriftAlertKind, string> = {
+  unexplained_increase: "Unexpected balance increase",
+  unexplained_decrease: "Unexpected balance decrease",
+  rate_change: "Interest rate changed",
+};
 
 const Debts = () => {
   const [debts, setDebts] = useState<Debt[]>(getMockDebts());
+  const [driftAlerts, setDriftAlerts] = useState<DriftAlert[]>(getMockDriftAlerts());
   const [selectedDebt, setSelectedDebt] = useState<Debt | null>(null);
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
   
   // Calculate total debt and paid-off amounts
-  const totalCurrentDebt = debts.reduce((sum, debt) => sum + debt.currentBalance, 0);
-  const totalOriginalDebt = debts.reduce((sum, debt) => sum + debt.originalBalance, 0);
-  const totalPaidOff = totalOriginalDebt - totalCurrentDebt;
+  const totalCurrentDebt = sumMoney(debts.map((debt) => debt.currentBalance));
+  const totalOriginalDebt = sumMoney(debts.map((debt) => debt.originalBalance));
+  const totalPaidOff = sumMoney([totalOriginalDebt, -totalCurrentDebt]);
   const percentPaidOff = (totalPaidOff / totalOriginalDebt) * 100;
 
+  const dismissDriftAlert = (alertId: string) => {
+    acknowledgeMockDriftAlert(alertId);
+    setDriftAlerts(getMockDriftAlerts());
+  };
+
   const handlePaymentComplete = () => {
     // Refresh the debts list
     setDebts(getMockDebts());
@@ -37,17 +59,19 @@ const Debts = () => {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <div className="col-span-1 card-element p-6">
             <h3 className="text-sm font-medium text-gray-500 mb-1">Total Current Balance</h3>
-            <p className="text-2xl font-bold">${totalCurrentDebt.toFixed(2)}</p>
+            <p className="text-2xl font-bold">{formatMoney(totalCurrentDebt)}</p>
           </div>
           <div className="col-span-1 card-element p-6">
             <h3 className="text-sm font-medium text-gray-500 mb-1">Total Paid Off</h3>
-            <p className="text-2xl font-bold text-skyblue">${totalPaidOff.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-skyblue">{formatMoney(totalPaidOff)}</p>
           </div>
           <div className="col-span-1 card-element p-6">
             <h3 className="text-sm font-medium text-gray-500 mb-1">Payoff Progress</h3>
             <p className="text-2xl font-bold">{percentPaidOff.toFixed(1)}%</p>
           </div>
         </div>
+
+        <PaymentCalendar debts={debts} />
         
         <div className="grid grid-cols-1 gap-6">
           {debts.map((debt) => {
@@ -58,6 +82,18 @@ const Debts = () => {
             const dueDate = new Date(debt.dueDate);
             const today = new Date();
             const daysUntilDue = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+
+            // Sync freshness and unresolved drift for this debt
+            const lastSynced = new Date(debt.lastSyncedAt);
+            const isSyncStale = today.getTime() - lastSynced.getTime() > SYNC_STALE_AFTER_MS;
+            const debtAlerts = driftAlerts.filter((alert) => alert.debtId === debt.id);
+
+            // When a promotional APR ends and what it reverts to
+            const promo = debt.rateSchedule;
+            const promoEndsAt = promo ? new Date(promo.promoEndsAt) : null;
+            const daysUntilPromoEnds = promoEndsAt
+              ? Math.ceil((promoEndsAt.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
+              : null;
             
             return (
               <div key={debt.id} className="card-element">
@@ -66,26 +102,64 @@ const Debts = () => {
                     <div>
                       <h3 className="text-xl font-bold">{debt.creditorName}</h3>
                       <p className="text-sm text-gray-500 capitalize">{debt.accountType.replace('_', ' ')}</p>
+                      <p className={`text-xs mt-1 flex items-center ${isSyncStale ? "text-amber-600" : "text-gray-400"}`}>
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Synced {formatDistanceToNow(lastSynced, { addSuffix: true })}
+                        {isSyncStale && " · balance may be out of date"}
+                      </p>
                     </div>
-                    <div className="bg-gray-100 px-3 py-1 rounded-full text-sm">
-                      {(debt.interestRate * 100).toFixed(2)}% APR
+                    <div className="flex flex-col items-end">
+                      <div className="bg-gray-100 px-3 py-1 rounded-full text-sm">
+                        {(debt.interestRate * 100).toFixed(2)}% APR
+                      </div>
+                      {promo && promoEndsAt && (
+                        <p
+                          className={`text-xs mt-2 flex items-center ${
+                            daysUntilPromoEnds > 0 && daysUntilPromoEnds <= PROMO_ENDING_SOON_DAYS
+                              ? "text-amber-600"
+                              : "text-gray-500"
+                          }`}
+                        >
+                          <Hourglass className="h-3 w-3 mr-1" />
+                          {daysUntilPromoEnds > 0
+                            ? `${(promo.promoRate * 100).toFixed(2)}% promo ends ${format(promoEndsAt, "MMM d, yyyy")}, then ${(promo.reversionRate * 100).toFixed(2)}% APR`
+                            : `Promo ended ${format(promoEndsAt, "MMM d, yyyy")}; now ${(promo.reversionRate * 100).toFixed(2)}% APR`}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
+
+                {debtAlerts.length > 0 && (
+                  <div className="px-6 pt-6 space-y-3">
+                    {debtAlerts.map((alert) => (
+                      <Alert key={alert.id} className="border-amber-200 bg-amber-50">
+                        <AlertTriangle className="h-4 w-4 text-amber-600" />
+                        <AlertTitle>{DRIFT_ALERT_TITLES[alert.kind]}</AlertTitle>
+                        <AlertDescription className="flex justify-between items-center gap-4">
+                          <span>{alert.message}</span>
+                          <Button size="sm" variant="ghost" onClick={() => dismissDriftAlert(alert.id)}>
+                            Dismiss
+                          </Button>
+                        </AlertDescription>
+                      </Alert>
+                    ))}
+                  </div>
+                )}
                 
                 <div className="p-6">
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
                     <div>
                       <p className="text-sm text-gray-500 mb-1">Current Balance</p>
-                      <p className="text-2xl font-bold">${debt.currentBalance.toFixed(2)}</p>
+                      <p className="text-2xl font-bold">{formatMoney(debt.currentBalance)}</p>
                     </div>
                     <div>
                       <p className="text-sm text-gray-500 mb-1">Original Balance</p>
-                      <p className="text-lg font-medium">${debt.originalBalance.toFixed(2)}</p>
+                      <p className="text-lg font-medium">{formatMoney(debt.originalBalance)}</p>
                     </div>
                     <div>
                       <p className="text-sm text-gray-500 mb-1">Minimum Payment</p>
-                      <p className="text-lg font-medium">${debt.minimumPayment.toFixed(2)}</p>
+                      <p className="text-lg font-medium">{formatMoney(debt.minimumPayment)}</p>
                     </div>
                   </div>
                   
@@ -102,6 +176,11 @@ const Debts = () => {
                       <p className="text-sm text-gray-500">
                         Due in <span className="font-medium">{daysUntilDue}</span> days
                       </p>
+                      {daysUntilPromoEnds > 0 && (
+                        <p className="text-sm text-gray-500">
+                          Promo rate ends in <span className="font-medium">{daysUntilPromoEnds}</span> days
+                        </p>
+                      )}
                     </div>
                     <div className="flex space-x-3">
                       <Button size="sm" variant="outline">
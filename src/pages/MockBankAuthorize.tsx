@@ -0,0 +1,105 @@
+import { useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Building, CreditCard, ShieldCheck } from "lucide-react";
+import {
+  approveMockBankAuthorization,
+  denyMockBankAuthorization,
+  getMockBankAccounts,
+  readMockBankAuthorization,
+} from "@/services/mockData";
+
+// Stands in for a bank's own sign-in and consent page during development.
+// A real provider hosts this page; the user is already "signed in" here.
+const MockBankAuthorize = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  const request = useMemo(() => {
+    try {
+      return readMockBankAuthorization(searchParams);
+    } catch {
+      return null;
+    }
+  }, [searchParams]);
+
+  // Follow the provider's redirect back to the app
+  const redirectTo = (target: string) => {
+    const url = new URL(target);
+    if (url.origin === window.location.origin) {
+      navigate(url.pathname + url.search, { replace: true });
+    } else {
+      window.location.assign(url.toString());
+    }
+  };
+
+  if (!request) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <p className="text-gray-500">This authorization request is invalid.</p>
+      </div>
+    );
+  }
+
+  const bankName = request.institutionId
+    .split("_")
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="border-b">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center">
+              <Building className="w-5 h-5 text-gray-700" />
+            </div>
+            <div>
+              <CardTitle>{bankName}</CardTitle>
+              <CardDescription>Mock bank · signed in as demo user</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-start space-x-2">
+            <ShieldCheck className="w-5 h-5 text-green-600 mt-0.5" />
+            <p className="text-sm text-gray-600">
+              MicroRepay is asking for read access to the balances and transactions of these accounts:
+            </p>
+          </div>
+          <div className="space-y-2">
+            {getMockBankAccounts(request.institutionId).map(account => (
+              <div key={account.id} className="flex items-center space-x-3 border rounded-lg p-3">
+                {account.type === "credit_card" ? (
+                  <CreditCard className="w-4 h-4 text-gray-500" />
+                ) : (
+                  <Building className="w-4 h-4 text-gray-500" />
+                )}
+                <span className="text-sm font-medium">{account.name}</span>
+                <span className="text-sm text-gray-500">•••• {account.mask}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter className="flex space-x-2">
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => redirectTo(denyMockBankAuthorization(request))}
+          >
+            Cancel
+          </Button>
+          <Button
+            className="w-full"
+            onClick={() => redirectTo(approveMockBankAuthorization(request))}
+          >
+            Allow access
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default MockBankAuthorize;
@@ -0,0 +1,268 @@
+import { useMemo, useState } from "react";
+import { CalendarCheck, Plus, Trash2, TrendingDown, Trophy } from "lucide-react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { compareMockStrategies, estimateMockMonthlyRoundUps } from "@/services/mockData";
+import { formatMoney } from "@/lib/utils";
+
+const STRATEGY_COLORS: Record<string, string> = {
+  avalanche: "#845EC2",
+  snowball: "#00B8D9",
+  hybrid: "#FF7E5F",
+  custom: "#2ECC71",
+};
+
+interface PlannedLumpSum {
+  id: number;
+  date: string;
+  amount: string;
+}
+
+const formatMonths = (months: number | null) => {
+  if (months === null) return "Not within 50 years";
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [years > 0 ? `${years} yr` : "", rest > 0 || years === 0 ? `${rest} mo` : ""].filter(Boolean).join(" ");
+};
+
+const formatMonth = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+
+// Compares how the user's debts pay off under each strategy, for a chosen
+// monthly round-up amount and any extra one-off payments
+const Planner = () => {
+  const estimatedRoundUps = useMemo(() => estimateMockMonthlyRoundUps(), []);
+  const [monthlyRoundUps, setMonthlyRoundUps] = useState(Math.round(estimatedRoundUps));
+  const [lumpSums, setLumpSums] = useState<PlannedLumpSum[]>([]);
+
+  const comparisons = useMemo(
+    () =>
+      compareMockStrategies(
+        monthlyRoundUps,
+        lumpSums
+          .filter(lump => lump.date && Number(lump.amount) > 0)
+          .map(lump => ({ date: new Date(lump.date).toISOString(), amount: Number(lump.amount) }))
+      ),
+    [monthlyRoundUps, lumpSums]
+  );
+
+  const best = comparisons.reduce<(typeof comparisons)[number] | null>(
+    (lowest, comparison) =>
+      comparison.payoffDate !== null && (!lowest || comparison.totalInterest < lowest.totalInterest)
+        ? comparison
+        : lowest,
+    null
+  );
+
+  // One row per month with each strategy's remaining total: zero once paid
+  // off, and left out after a simulation that stalled
+  const chartData = useMemo(() => {
+    const longest = comparisons.reduce(
+      (months, comparison) => Math.max(months, comparison.simulation.balances.length),
+      0
+    );
+    const timeline = comparisons.find(comparison => comparison.simulation.balances.length === longest);
+    return (timeline?.simulation.balances ?? []).map((point, index) => ({
+      month: formatMonth(point.date),
+      ...Object.fromEntries(
+        comparisons.map(comparison => [
+          comparison.strategy,
+          comparison.simulation.balances[index]?.balance ?? (comparison.simulation.paidOff ? 0 : undefined),
+        ])
+      ),
+    }));
+  }, [comparisons]);
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    comparisons.map(comparison => [
+      comparison.strategy,
+      { label: comparison.name, color: STRATEGY_COLORS[comparison.strategy] ?? "#1A2B42" },
+    ])
+  );
+
+  const addLumpSum = () => {
+    setLumpSums(prev => [...prev, { id: Date.now(), date: "", amount: "" }]);
+  };
+
+  const updateLumpSum = (id: number, changes: Partial<PlannedLumpSum>) => {
+    setLumpSums(prev => prev.map(lump => (lump.id === id ? { ...lump, ...changes } : lump)));
+  };
+
+  const removeLumpSum = (id: number) => {
+    setLumpSums(prev => prev.filter(lump => lump.id !== id));
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold">Payoff Planner</h1>
+          <p className="text-gray-500">
+            See how each repayment strategy pays off your debts, on top of your minimum payments.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>What if...</CardTitle>
+              <CardDescription>Adjust your round-ups and add extra payments</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <Label>Round-ups per month</Label>
+                  <span className="font-medium">{formatMoney(monthlyRoundUps)}</span>
+                </div>
+                <Slider
+                  value={[monthlyRoundUps]}
+                  min={0}
+                  max={Math.max(200, Math.ceil(estimatedRoundUps * 4))}
+                  step={5}
+                  onValueChange={([value]) => setMonthlyRoundUps(value)}
+                />
+                <p className="text-xs text-gray-500">
+                  Your round-ups over the last 30 days came to {formatMoney(estimatedRoundUps)}.
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Extra payments</Label>
+                {lumpSums.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    Add a one-off amount, like a tax refund or bonus, to see what it changes.
+                  </p>
+                )}
+                {lumpSums.map(lump => (
+                  <div key={lump.id} className="flex items-center space-x-2">
+                    <Input
+                      type="date"
+                      value={lump.date}
+                      onChange={e => updateLumpSum(lump.id, { date: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="50"
+                      placeholder="Amount"
+                      value={lump.amount}
+                      onChange={e => updateLumpSum(lump.id, { amount: e.target.value })}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => removeLumpSum(lump.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" className="w-full" onClick={addLumpSum}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add extra payment
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Remaining balance</CardTitle>
+              <CardDescription>Total owed month by month under each strategy</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {chartData.length > 0 ? (
+                <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                  <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} minTickGap={32} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={72}
+                      tickFormatter={value => formatMoney(Number(value))}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {comparisons.map(comparison => (
+                      <Line
+                        key={comparison.strategy}
+                        dataKey={comparison.strategy}
+                        type="monotone"
+                        stroke={`var(--color-${comparison.strategy})`}
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-gray-500">You have no open debts to plan for.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+          {comparisons.map(comparison => (
+            <Card
+              key={comparison.strategy}
+              className={best?.strategy === comparison.strategy ? "border-purple border-2" : ""}
+            >
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>{comparison.name}</CardTitle>
+                  {best?.strategy === comparison.strategy && (
+                    <span className="flex items-center px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full">
+                      <Trophy className="h-3 w-3 mr-1" />
+                      Least interest
+                    </span>
+                  )}
+                </div>
+                <CardDescription>{comparison.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center text-sm text-gray-500">
+                    <CalendarCheck className="h-4 w-4 mr-2" />
+                    Debt-free
+                  </span>
+                  <span className="font-medium">
+                    {comparison.payoffDate ? formatMonth(comparison.payoffDate) : "Not within 50 years"}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center text-sm text-gray-500">
+                    <TrendingDown className="h-4 w-4 mr-2" />
+                    Total interest
+                  </span>
+                  <span className="font-medium">{formatMoney(comparison.totalInterest)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">First debt paid off in</span>
+                  <span className="font-medium">{formatMonths(comparison.monthsToFirstPayoff)}</span>
+                </div>
+                {comparison.simulation.stalled && (
+                  <p className="text-xs text-coral">
+                    Your payments do not cover the interest on some debts, so they keep growing.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Planner;
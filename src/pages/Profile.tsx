@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,9 +13,54 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { BadgeCheck, CreditCard, User, Wallet, Shield, Bell, Building, DollarSign } from "lucide-react";
+import {
+  getMockCreditorLinks,
+  getMockDebts,
+  getMockUser,
+  linkMockCreditor,
+  mockCategories,
+  unlinkMockCreditor,
+  updateMockPreferences,
+} from "@/services/mockData";
+import { normalizeRoundUpRules, RoundUpEngine } from "@/core/roundup/RoundUpEngine";
+import { CustomStrategy, normalizeCustomAllocationRules } from "@/core/optimization/CustomStrategy";
+import {
+  CustomAllocationRules,
+  RefundRoundUpPolicy,
+  RoundUpCategoryOverride,
+  RoundUpMode,
+  RoundUpRules,
+  UserPreferences,
+} from "@/types";
+import { formatMoney } from "@/lib/utils";
+
+// Category override choices offered in the round-up settings
+const categoryOverrideOptions: Record<string, RoundUpCategoryOverride | null> = {
+  default: null,
+  skip: { excluded: true },
+  double: { multiplier: 2 },
+  triple: { multiplier: 3 },
+};
+
+const getCategoryOverrideOption = (override?: RoundUpCategoryOverride) => {
+  if (!override) return "default";
+  if (override.excluded) return "skip";
+  if (override.multiplier === 2) return "double";
+  if (override.multiplier === 3) return "triple";
+  return "default";
+};
+
+const parseCap = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+// Weights and pins are per debt; clearing the field removes the rule
+const setDebtRule = (rules: Record<string, number>, debtId: string, value: string) => {
+  const { [debtId]: _removed, ...rest } = rules;
+  return value.trim() === "" ? rest : { ...rest, [debtId]: parseFloat(value) };
+};
 
 const Profile = () => {
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   
   // User profile state
@@ -30,16 +76,22 @@ const Profile = () => {
   
   // User preferences state
   const [preferences, setPreferences] = useState<{
-    debtStrategy: string;
+    debtStrategy: UserPreferences["defaultAllocationStrategy"];
+    customAllocation: CustomAllocationRules;
     roundupAmount: number;
     roundupFrequency: string;
+    roundUpRules: RoundUpRules;
+    refundPolicy: RefundRoundUpPolicy;
     bankAccount: string;
     notifications: boolean;
     emailUpdates: boolean;
     twoFactorAuth: boolean;
   }>({
-    debtStrategy: "avalanche",
-    roundupAmount: 5,
+    debtStrategy: getMockUser().preferences.defaultAllocationStrategy,
+    customAllocation: getMockUser().preferences.customAllocation,
+    roundupAmount: getMockUser().preferences.roundUpThreshold,
+    roundUpRules: getMockUser().preferences.roundUpRules,
+    refundPolicy: getMockUser().preferences.refundPolicy,
     roundupFrequency: "daily",
     bankAccount: "capital_one",
     notifications: true,
@@ -53,7 +105,7 @@ const Profile = () => {
     creditors: { id: string; name: string; connected: boolean }[];
   }>({
     banks: [
-      { id: "capital_one", name: "Capital One", connected: true },
+      { id: "capital_one", name: "Capital One", connected: false },
       { id: "chase", name: "Chase", connected: false },
       { id: "bank_of_america", name: "Bank of America", connected: false },
     ],
@@ -63,6 +115,13 @@ const Profile = () => {
       { id: "mortgage", name: "Mortgage Provider", connected: false },
     ],
   });
+  const [pendingCreditor, setPendingCreditor] = useState<string | null>(null);
+
+  const openDebts = getMockDebts().filter(debt => debt.currentBalance > 0);
+  const totalCustomWeight = Object.values(preferences.customAllocation.weights).reduce(
+    (total, weight) => total + weight,
+    0
+  );
   
   // Load user data on mount
   useEffect(() => {
@@ -81,12 +140,79 @@ const Profile = () => {
     
     if (storedPreferences) {
       const parsedPreferences = JSON.parse(storedPreferences);
+      const roundUpRules = normalizeRoundUpRules(parsedPreferences.roundUpRules);
+      const customAllocation = normalizeCustomAllocationRules(parsedPreferences.customAllocation);
       setPreferences(prev => ({
         ...prev,
         ...parsedPreferences,
+        roundUpRules,
+        customAllocation,
       }));
+      updateMockPreferences({
+        defaultAllocationStrategy: parsedPreferences.debtStrategy ?? getMockUser().preferences.defaultAllocationStrategy,
+        customAllocation,
+        roundUpThreshold: parsedPreferences.roundupAmount ?? getMockUser().preferences.roundUpThreshold,
+        roundUpRules,
+        refundPolicy: parsedPreferences.refundPolicy ?? getMockUser().preferences.refundPolicy,
+      });
     }
+
+    // Banks and creditors are connected when they have an active link
+    getMockCreditorLinks().then(links => {
+      setConnectedAccounts(prev => ({
+        ...prev,
+        banks: prev.banks.map(bank => ({
+          ...bank,
+          connected: links.some(link => link.creditorId === bank.id && link.status === "active"),
+        })),
+        creditors: prev.creditors.map(creditor => ({
+          ...creditor,
+          connected: links.some(link => link.creditorId === creditor.id && link.status === "active"),
+        })),
+      }));
+    });
   }, []);
+
+  const updateRoundUpRules = (rules: Partial<RoundUpRules>) => {
+    setPreferences(prev => ({
+      ...prev,
+      roundUpRules: { ...prev.roundUpRules, ...rules },
+    }));
+  };
+
+  const updateCustomAllocation = (rules: Partial<CustomAllocationRules>) => {
+    setPreferences(prev => ({
+      ...prev,
+      customAllocation: { ...prev.customAllocation, ...rules },
+    }));
+  };
+
+  // Excluding a debt drops every other rule it had
+  const setDebtExcluded = (debtId: string, excluded: boolean) => {
+    const { weights, pins, excludedDebtIds, target } = preferences.customAllocation;
+    updateCustomAllocation(
+      excluded
+        ? {
+            weights: setDebtRule(weights, debtId, ""),
+            pins: setDebtRule(pins, debtId, ""),
+            excludedDebtIds: [...excludedDebtIds, debtId],
+            target: target?.debtId === debtId ? null : target,
+          }
+        : { excludedDebtIds: excludedDebtIds.filter(id => id !== debtId) }
+    );
+  };
+
+  const updateCategoryOverride = (category: string, option: string) => {
+    const categoryOverrides = { ...preferences.roundUpRules.categoryOverrides };
+    const override = categoryOverrideOptions[option];
+
+    if (override) {
+      categoryOverrides[category] = override;
+    } else {
+      delete categoryOverrides[category];
+    }
+    updateRoundUpRules({ categoryOverrides });
+  };
   
   const handleUpdateProfile = (e: React.FormEvent) => {
     e.preventDefault();
@@ -107,11 +233,47 @@ const Profile = () => {
   
   const handleUpdatePreferences = (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Reject rules the round-up engine would not accept
+    try {
+      RoundUpEngine.fromPreferences({
+        roundUpThreshold: preferences.roundupAmount,
+        roundUpRules: preferences.roundUpRules,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid round-up settings",
+        description: error instanceof Error ? error.message : "Please check your round-up settings.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Reject custom allocation rules the strategy would not accept, even
+    // while another strategy is selected: they are saved either way
+    try {
+      new CustomStrategy(preferences.customAllocation);
+    } catch (error) {
+      toast({
+        title: "Invalid custom strategy",
+        description: error instanceof Error ? error.message : "Please check your custom strategy.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     
     // Mock API call to update preferences
     setTimeout(() => {
       localStorage.setItem("userPreferences", JSON.stringify(preferences));
+      updateMockPreferences({
+        defaultAllocationStrategy: preferences.debtStrategy,
+        customAllocation: preferences.customAllocation,
+        roundUpThreshold: preferences.roundupAmount,
+        roundUpRules: preferences.roundUpRules,
+        refundPolicy: preferences.refundPolicy,
+      });
       
       toast({
         title: "Preferences updated",
@@ -122,22 +284,68 @@ const Profile = () => {
     }, 1000);
   };
   
-  const connectAccount = (type: 'banks' | 'creditors', id: string) => {
-    setConnectedAccounts(prev => {
-      const updated = {...prev};
-      const accountIndex = updated[type].findIndex(a => a.id === id);
-      
-      if (accountIndex !== -1) {
-        updated[type][accountIndex].connected = !updated[type][accountIndex].connected;
+  // Banks are linked by signing in at the bank, starting from the Connect Bank page
+  const toggleBankLink = async (id: string) => {
+    const bank = connectedAccounts.banks.find(b => b.id === id);
+    if (!bank) return;
+    if (!bank.connected) {
+      navigate("/connect-bank");
+      return;
+    }
+
+    setPendingCreditor(id);
+    try {
+      await unlinkMockCreditor(id);
+      setConnectedAccounts(prev => ({
+        ...prev,
+        banks: prev.banks.map(b => (b.id === id ? { ...b, connected: false } : b)),
+      }));
+      toast({
+        title: "Bank disconnected",
+        description: `${bank.name} has been unlinked and its access revoked.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not update connection",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingCreditor(null);
+    }
+  };
+  
+  const toggleCreditorLink = async (id: string) => {
+    const creditor = connectedAccounts.creditors.find(c => c.id === id);
+    if (!creditor) return;
+
+    setPendingCreditor(id);
+    try {
+      if (creditor.connected) {
+        await unlinkMockCreditor(id);
+      } else {
+        await linkMockCreditor(id);
       }
-      
-      return updated;
-    });
-    
-    toast({
-      title: "Account updated",
-      description: "Your connected account status has been updated.",
-    });
+
+      setConnectedAccounts(prev => ({
+        ...prev,
+        creditors: prev.creditors.map(c => (c.id === id ? { ...c, connected: !creditor.connected } : c)),
+      }));
+      toast({
+        title: creditor.connected ? "Creditor disconnected" : "Creditor connected",
+        description: creditor.connected
+          ? `${creditor.name} has been unlinked and its access revoked.`
+          : `${creditor.name} is now linked for payments.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not update connection",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingCreditor(null);
+    }
   };
   
   const getInitials = (name: string) => {
@@ -249,7 +457,12 @@ const Profile = () => {
                       <Label>Debt Repayment Strategy</Label>
                       <RadioGroup 
                         value={preferences.debtStrategy} 
-                        onValueChange={val => setPreferences({...preferences, debtStrategy: val})}
+                        onValueChange={val =>
+                          setPreferences({
+                            ...preferences,
+                            debtStrategy: val as UserPreferences["defaultAllocationStrategy"],
+                          })
+                        }
                         className="space-y-2"
                       >
                         <div className="flex items-center space-x-2">
@@ -264,26 +477,295 @@ const Profile = () => {
                           <RadioGroupItem value="hybrid" id="strategy-hybrid" />
                           <Label htmlFor="strategy-hybrid">Hybrid (Smart balance of both)</Label>
                         </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="custom" id="strategy-custom" />
+                          <Label htmlFor="strategy-custom">Custom (Your own weights and targets)</Label>
+                        </div>
                       </RadioGroup>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="px-0 h-auto"
+                        onClick={() => navigate("/planner")}
+                      >
+                        Not sure? Compare strategies in the planner
+                      </Button>
+                    </div>
+
+                    {preferences.debtStrategy === "custom" && (
+                      <div className="space-y-4 rounded-lg border p-4">
+                        <div>
+                          <Label>Custom Strategy</Label>
+                          <p className="text-xs text-gray-500">
+                            Pinned amounts are paid first, then your target debt, then the rest is split by weight.
+                            Anything left over goes to the highest interest rate first.
+                          </p>
+                        </div>
+                        {openDebts.map(debt => {
+                          const excluded = preferences.customAllocation.excludedDebtIds.includes(debt.id);
+                          return (
+                            <div key={debt.id} className="space-y-2">
+                              <div className="flex items-center justify-between">
+                                <span className="text-sm font-medium">
+                                  {debt.creditorName} · {formatMoney(debt.currentBalance)}
+                                </span>
+                                <div className="flex items-center space-x-2">
+                                  <Label htmlFor={`exclude-${debt.id}`} className="text-xs text-gray-500">
+                                    Exclude
+                                  </Label>
+                                  <Switch
+                                    id={`exclude-${debt.id}`}
+                                    checked={excluded}
+                                    onCheckedChange={checked => setDebtExcluded(debt.id, checked)}
+                                  />
+                                </div>
+                              </div>
+                              <div className="grid grid-cols-2 gap-4">
+                                <Input
+                                  type="number"
+                                  step="5"
+                                  min="0"
+                                  max="100"
+                                  placeholder="Weight (%)"
+                                  disabled={excluded}
+                                  value={preferences.customAllocation.weights[debt.id] ?? ""}
+                                  onChange={e =>
+                                    updateCustomAllocation({
+                                      weights: setDebtRule(preferences.customAllocation.weights, debt.id, e.target.value),
+                                    })
+                                  }
+                                />
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  placeholder="Pinned amount ($)"
+                                  disabled={excluded}
+                                  value={preferences.customAllocation.pins[debt.id] ?? ""}
+                                  onChange={e =>
+                                    updateCustomAllocation({
+                                      pins: setDebtRule(preferences.customAllocation.pins, debt.id, e.target.value),
+                                    })
+                                  }
+                                />
+                              </div>
+                            </div>
+                          );
+                        })}
+                        <p className="text-xs text-gray-500">
+                          Weights add up to {totalCustomWeight}% of what is left after pinned amounts.
+                        </p>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label>Pay Off By Date</Label>
+                            <Select
+                              value={preferences.customAllocation.target?.debtId ?? "none"}
+                              onValueChange={val =>
+                                updateCustomAllocation({
+                                  target:
+                                    val === "none"
+                                      ? null
+                                      : { debtId: val, payoffDate: preferences.customAllocation.target?.payoffDate ?? "" },
+                                })
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No target</SelectItem>
+                                {openDebts
+                                  .filter(debt => !preferences.customAllocation.excludedDebtIds.includes(debt.id))
+                                  .map(debt => (
+                                    <SelectItem key={debt.id} value={debt.id}>
+                                      {debt.creditorName}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="target-date">Target Date</Label>
+                            <Input
+                              id="target-date"
+                              type="date"
+                              disabled={!preferences.customAllocation.target}
+                              value={preferences.customAllocation.target?.payoffDate ?? ""}
+                              onChange={e =>
+                                updateCustomAllocation({
+                                  target: preferences.customAllocation.target && {
+                                    ...preferences.customAllocation.target,
+                                    payoffDate: e.target.value,
+                                  },
+                                })
+                              }
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    
+                    <div className="space-y-2">
+                      <Label>Round-Up Rule</Label>
+                      <Select 
+                        value={preferences.roundUpRules.mode} 
+                        onValueChange={val => updateRoundUpRules({ mode: val as RoundUpMode })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="increment">Round up to the nearest amount</SelectItem>
+                          <SelectItem value="fixed">Fixed amount per purchase</SelectItem>
+                          <SelectItem value="percentage">Percentage of each purchase</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
                     
+                    {preferences.roundUpRules.mode === "increment" && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between mb-2">
+                          <Label>Round-Up Amount</Label>
+                          <span className="font-medium">{formatMoney(preferences.roundupAmount)}</span>
+                        </div>
+                        <Slider
+                          value={[preferences.roundupAmount]}
+                          onValueChange={val => setPreferences({...preferences, roundupAmount: val[0]})}
+                          min={1}
+                          max={10}
+                          step={1}
+                          className="py-4"
+                        />
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>$1</span>
+                          <span>$5</span>
+                          <span>$10</span>
+                        </div>
+                      </div>
+                    )}
+                    
+                    {preferences.roundUpRules.mode === "fixed" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="fixed-amount">Amount Per Purchase ($)</Label>
+                        <Input
+                          id="fixed-amount"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={preferences.roundUpRules.fixedAmount}
+                          onChange={e => updateRoundUpRules({ fixedAmount: parseFloat(e.target.value) })}
+                        />
+                      </div>
+                    )}
+                    
+                    {preferences.roundUpRules.mode === "percentage" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="percentage">Percentage of Purchase (%)</Label>
+                        <Input
+                          id="percentage"
+                          type="number"
+                          step="0.5"
+                          min="0"
+                          max="100"
+                          value={preferences.roundUpRules.percentage * 100}
+                          onChange={e => updateRoundUpRules({ percentage: parseFloat(e.target.value) / 100 })}
+                        />
+                      </div>
+                    )}
+                    
                     <div className="space-y-2">
-                      <div className="flex justify-between mb-2">
-                        <Label>Round-Up Amount</Label>
-                        <span className="font-medium">${preferences.roundupAmount}.00</span>
+                      <Label>Round-Up Multiplier</Label>
+                      <Select 
+                        value={preferences.roundUpRules.multiplier.toString()} 
+                        onValueChange={val => updateRoundUpRules({ multiplier: parseFloat(val) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">1x</SelectItem>
+                          <SelectItem value="2">2x</SelectItem>
+                          <SelectItem value="3">3x</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="exact-amounts" className="flex-grow">
+                        Round up purchases that are already a whole amount
+                      </Label>
+                      <Switch 
+                        id="exact-amounts"
+                        checked={preferences.roundUpRules.exactAmountBehavior === "full_increment"}
+                        onCheckedChange={checked => 
+                          updateRoundUpRules({ exactAmountBehavior: checked ? "full_increment" : "skip" })
+                        }
+                      />
+                    </div>
+                    
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="daily-cap">Daily Cap ($)</Label>
+                        <Input
+                          id="daily-cap"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="No cap"
+                          value={preferences.roundUpRules.dailyCap ?? ""}
+                          onChange={e => updateRoundUpRules({ dailyCap: parseCap(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="weekly-cap">Weekly Cap ($)</Label>
+                        <Input
+                          id="weekly-cap"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="No cap"
+                          value={preferences.roundUpRules.weeklyCap ?? ""}
+                          onChange={e => updateRoundUpRules({ weeklyCap: parseCap(e.target.value) })}
+                        />
                       </div>
-                      <Slider
-                        value={[preferences.roundupAmount]}
-                        onValueChange={val => setPreferences({...preferences, roundupAmount: val[0]})}
-                        min={1}
-                        max={10}
-                        step={1}
-                        className="py-4"
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="excluded-merchants">Excluded Merchants</Label>
+                      <Input
+                        id="excluded-merchants"
+                        placeholder="e.g. Rent Co, Utility Provider"
+                        value={preferences.roundUpRules.excludedMerchants.join(", ")}
+                        onChange={e => 
+                          updateRoundUpRules({
+                            excludedMerchants: e.target.value.split(",").map(merchant => merchant.trimStart()),
+                          })
+                        }
                       />
-                      <div className="flex justify-between text-xs text-gray-500">
-                        <span>$1</span>
-                        <span>$5</span>
-                        <span>$10</span>
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label>Category Rules</Label>
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        {mockCategories.map(category => (
+                          <div key={category} className="flex items-center justify-between gap-2">
+                            <span className="text-sm">{category}</span>
+                            <Select 
+                              value={getCategoryOverrideOption(preferences.roundUpRules.categoryOverrides[category])} 
+                              onValueChange={val => updateCategoryOverride(category, val)}
+                            >
+                              <SelectTrigger className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="default">Default</SelectItem>
+                                <SelectItem value="skip">Skip</SelectItem>
+                                <SelectItem value="double">2x</SelectItem>
+                                <SelectItem value="triple">3x</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
                       </div>
                     </div>
                     
@@ -304,6 +786,26 @@ const Profile = () => {
                       </Select>
                     </div>
                     
+                    <div className="space-y-2">
+                      <Label>Refunds After Transfer</Label>
+                      <Select 
+                        value={preferences.refundPolicy} 
+                        onValueChange={val => setPreferences({...preferences, refundPolicy: val as RefundRoundUpPolicy})}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="absorb">Keep the round-up on my debt</SelectItem>
+                          <SelectItem value="claw_back">Take it out of my next transfer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">
+                        Round-ups of refunded purchases still in your wallet are always taken back.
+                        This applies once they have been paid to a creditor.
+                      </p>
+                    </div>
+                    
                     <div className="space-y-2">
                       <Label>Notifications</Label>
                       <div className="space-y-2">
@@ -371,13 +873,16 @@ const Profile = () => {
                           variant={bank.connected ? "destructive" : "default"}
                           size="sm"
                           className={bank.connected ? "" : "bg-primary-gradient"}
-                          onClick={() => connectAccount('banks', bank.id)}
+                          disabled={pendingCreditor === bank.id}
+                          onClick={() => toggleBankLink(bank.id)}
                         >
-                          {bank.connected ? "Disconnect" : "Connect"}
+                          {pendingCreditor === bank.id
+                            ? "Disconnecting..."
+                            : bank.connected ? "Disconnect" : "Connect"}
                         </Button>
                       </div>
                     ))}
-                    <Button variant="outline" className="w-full mt-2">
+                    <Button variant="outline" className="w-full mt-2" onClick={() => navigate("/connect-bank")}>
                       + Add New Bank
                     </Button>
                   </div>
@@ -410,9 +915,12 @@ const Profile = () => {
                           variant={creditor.connected ? "destructive" : "default"}
                           size="sm"
                           className={creditor.connected ? "" : "bg-primary-gradient"}
-                          onClick={() => connectAccount('creditors', creditor.id)}
+                          disabled={pendingCreditor === creditor.id}
+                          onClick={() => toggleCreditorLink(creditor.id)}
                         >
-                          {creditor.connected ? "Disconnect" : "Connect"}
+                          {pendingCreditor === creditor.id
+                            ? creditor.connected ? "Disconnecting..." : "Connecting..."
+                            : creditor.connected ? "Disconnect" : "Connect"}
                         </Button>
                       </div>
                     ))}
@@ -3,9 +3,10 @@ import { useState } from "react";
 import { CreditCard, Filter, ArrowDown, ArrowUp } from "lucide-react";
 import Layout from "@/components/Layout";
 import { getMockTransactions } from "@/services/mockData";
-import { Transaction } from "@/types";
+import { RoundUpReversalMethod, Transaction } from "@/types";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { formatMoney, sumMoney } from "@/lib/utils";
 import {
   Select,
   SelectContent,
@@ -14,6 +15,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+const reversalLabels: Record<RoundUpReversalMethod, { label: string; description: string }> = {
+  wallet: { label: "Reversed", description: "Round-up taken back out of the wallet" },
+  claw_back: { label: "Clawed back", description: "Round-up was already paid; it comes out of the next transfer" },
+  absorbed: { label: "Absorbed", description: "Round-up was already paid and stays with the creditor" },
+};
+
 const Transactions = () => {
   const [transactions, setTransactions] = useState<Transaction[]>(getMockTransactions());
   const [searchTerm, setSearchTerm] = useState("");
@@ -33,10 +40,7 @@ const Transactions = () => {
   });
   
   // Calculate total round-up amount
-  const totalRoundUp = transactions.reduce(
-    (sum, transaction) => sum + transaction.roundUpAmount,
-    0
-  );
+  const totalRoundUp = sumMoney(transactions.map((transaction) => transaction.roundUpAmount));
 
   return (
     <Layout>
@@ -77,7 +81,7 @@ const Transactions = () => {
           </div>
           <div className="col-span-1 card-element p-6">
             <h3 className="text-sm font-medium text-gray-500 mb-1">Total Round-up Amount</h3>
-            <p className="text-2xl font-bold text-skyblue">${totalRoundUp.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-skyblue">{formatMoney(totalRoundUp)}</p>
           </div>
           <div className="col-span-1 card-element p-6">
             <h3 className="text-sm font-medium text-gray-500 mb-1">Time Period</h3>
@@ -125,13 +129,37 @@ const Transactions = () => {
                     </td>
                     <td className="p-4 text-gray-600">{transaction.category}</td>
                     <td className="p-4 text-right font-medium">
-                      ${transaction.amount.toFixed(2)}
+                      {transaction.type !== "purchase"
+                        ? formatMoney(-transaction.amount)
+                        : formatMoney(transaction.amount)}
                     </td>
                     <td className="p-4 text-right font-medium text-skyblue">
-                      ${transaction.roundUpAmount.toFixed(2)}
+                      {transaction.roundUpReversal ? (
+                        <span className="text-gray-500">{formatMoney(-transaction.roundUpReversal.amount)}</span>
+                      ) : (
+                        formatMoney(transaction.roundUpAmount)
+                      )}
                     </td>
                     <td className="p-4 text-center">
-                      {transaction.transferredToWallet ? (
+                      {transaction.status === "pending" ? (
+                        <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+                          Authorizing
+                        </span>
+                      ) : transaction.type !== "purchase" ? (
+                        <div className="flex items-center justify-center gap-1">
+                          <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
+                            {transaction.type === "chargeback" ? "Chargeback" : "Refund"}
+                          </span>
+                          {transaction.roundUpReversal && (
+                            <span
+                              className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full"
+                              title={reversalLabels[transaction.roundUpReversal.method].description}
+                            >
+                              {reversalLabels[transaction.roundUpReversal.method].label}
+                            </span>
+                          )}
+                        </div>
+                      ) : transaction.transferredToWallet ? (
                         <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
                           Transferred
                         </span>
@@ -0,0 +1,13 @@
+import { MicroRepayService } from '../core/MicroRepayService';
+
+// The app's one service instance. It owns the database, so a payment's
+// idempotency key recorded by one submit is still there for the next;
+// a service per submit would start from an empty database every time.
+let service: MicroRepayService | null = null;
+
+export function getMicroRepayService(): MicroRepayService {
+  if (!service) {
+    service = new MicroRepayService();
+  }
+  return service;
+}
@@ -1,6 +1,46 @@
 
-import { MockData, Badge, Debt, Transaction, User, RoundUpWallet } from '../types';
+import {
+  MockData,
+  Badge,
+  Debt,
+  DriftAlert,
+  ScheduledPayment,
+  Transaction,
+  User,
+  RoundUpWallet,
+  UserPreferences
+} from '../types';
 import { calculateRoundUp } from '../utils/calculateRoundUp';
+import { normalizeRoundUpRules, RoundUpDecision, RoundUpEngine } from '../core/roundup/RoundUpEngine';
+import {
+  accountBalance,
+  buildCreditorPayment,
+  buildRoundUpAccrual,
+  buildRoundUpReversal,
+  buildSweep,
+  fromMinorUnits,
+  JournalEntry,
+  ledgerAccountId,
+  toMinorUnits
+} from '../core/ledger/journal';
+import { TokenCipher } from '../core/security/TokenCipher';
+import { CreditorLinkSummary, isLinkExpired, NewCreditorLink } from '../core/integration/CreditorLinkStore';
+import type { TokenGrant } from '../core/integration/CreditorIntegration';
+import type { BankAccount, BankAuthorizationRequest } from '../core/integration/BankLinkProvider';
+import { BankLinkAuthorization, BankLinkCallback, BankLinkFlow, BankLinkStart } from '../core/integration/BankLinkFlow';
+import { MockBankProvider } from '../core/integration/MockBankProvider';
+import type { StoredCreditorLink } from '../core/database/repositories/CreditorLinkRepository';
+import { FakeTransactionAggregator } from '../core/ingestion/FakeTransactionAggregator';
+import type { AggregatedTransaction } from '../core/ingestion/TransactionAggregator';
+import {
+  classifyIngestedTransaction,
+  fromAggregatedTransaction,
+  IngestionOutcome
+} from '../core/ingestion/TransactionIngestion';
+import { refundedRoundUp } from '../core/roundup/reversal';
+import { DebtAccount, OptimizationEngine, StrategyComparison } from '../core/optimization/OptimizationEngine';
+import { normalizeCustomAllocationRules } from '../core/optimization/CustomStrategy';
+import type { LumpSum } from '../core/optimization/PayoffSimulator';
 
 // Generate mock badges
 const mockBadges: Badge[] = [
@@ -69,6 +109,12 @@ const mockBadges: Badge[] = [
   }
 ];
 
+// Spending categories used by mock transactions
+export const mockCategories = [
+  'Food & Drink', 'Groceries', 'Transportation', 'Entertainment',
+  'Shopping', 'Health', 'Bills & Utilities', 'Travel'
+];
+
 // Generate mock transactions
 const generateMockTransactions = (): Transaction[] => {
   const merchants = [
@@ -76,18 +122,13 @@ const generateMockTransactions = (): Transaction[] => {
     'Online Shopping', 'Pharmacy', 'Movie Theater', 'Clothing Store'
   ];
   
-  const categories = [
-    'Food & Drink', 'Groceries', 'Transportation', 'Entertainment',
-    'Shopping', 'Health', 'Bills & Utilities', 'Travel'
-  ];
-  
   const transactions: Transaction[] = [];
   
   // Generate 20 mock transactions
   for (let i = 0; i < 20; i++) {
     const amount = parseFloat((Math.random() * 100 + 1).toFixed(2));
     const merchantIndex = Math.floor(Math.random() * merchants.length);
-    const categoryIndex = Math.floor(Math.random() * categories.length);
+    const categoryIndex = Math.floor(Math.random() * mockCategories.length);
     
     // Generate date within the last 30 days
     const date = new Date();
@@ -101,7 +142,9 @@ const generateMockTransactions = (): Transaction[] => {
       amount,
       roundUpAmount: calculateRoundUp(amount),
       date: date.toISOString(),
-      category: categories[categoryIndex],
+      category: mockCategories[categoryIndex],
+      type: 'purchase',
+      status: 'posted',
       processed: Math.random() > 0.2, // 80% processed
       transferredToWallet: Math.random() > 0.3, // 70% transferred
     };
@@ -138,23 +181,25 @@ const generateMockDebts = (): Debt[] => {
           userId: 'user-001',
           debtId: 'debt-001',
           amount: 125.00,
+          currency: 'USD',
           date: '2025-04-15T10:30:00Z',
           confirmationNumber: 'PMT-12345',
           sourceFunds: 'round_up',
-          status: 'completed'
+          status: 'settled'
         },
         {
           id: 'payment-002',
           userId: 'user-001',
           debtId: 'debt-001',
           amount: 85.00,
+          currency: 'USD',
           date: '2025-03-18T14:20:00Z',
           confirmationNumber: 'PMT-12245',
           sourceFunds: 'direct',
-          status: 'completed'
+          status: 'settled'
         }
       ],
-      lastSyncedAt: new Date().toISOString()
+      lastSyncedAt: new Date(Date.now() - 10 * 60 * 1000).toISOString()
     },
     {
       id: 'debt-002',
@@ -174,13 +219,14 @@ const generateMockDebts = (): Debt[] => {
           userId: 'user-001',
           debtId: 'debt-002',
           amount: 230.00,
+          currency: 'USD',
           date: '2025-04-10T09:45:00Z',
           confirmationNumber: 'PMT-54321',
           sourceFunds: 'scheduled',
-          status: 'completed'
+          status: 'settled'
         }
       ],
-      lastSyncedAt: new Date().toISOString()
+      lastSyncedAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString()
     },
     {
       id: 'debt-003',
@@ -200,19 +246,64 @@ const generateMockDebts = (): Debt[] => {
           userId: 'user-001',
           debtId: 'debt-003',
           amount: 350.00,
+          currency: 'USD',
           date: '2025-04-18T11:15:00Z',
           confirmationNumber: 'PMT-98765',
           sourceFunds: 'direct',
-          status: 'completed'
+          status: 'settled'
         }
       ],
-      lastSyncedAt: new Date().toISOString()
+      lastSyncedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString() // Creditor has been unreachable
+    },
+    {
+      id: 'debt-004',
+      userId: 'user-001',
+      creditorId: 'creditor-004',
+      accountId: 'cc-account-002',
+      creditorName: 'Balance Transfer Card',
+      accountType: 'credit_card',
+      currentBalance: 2180.00,
+      originalBalance: 3000.00,
+      interestRate: 0, // 0% balance transfer promo
+      minimumPayment: 35.00,
+      dueDate: '2025-05-28',
+      paymentHistory: [],
+      lastSyncedAt: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
+      rateSchedule: {
+        promoRate: 0,
+        promoEndsAt: new Date(Date.now() + 75 * 24 * 60 * 60 * 1000).toISOString(),
+        reversionRate: 0.2499 // 24.99%
+      }
     }
   ];
   
   return debts;
 };
 
+// Drift alerts raised by the balance sync for the mock debts
+const mockDriftAlerts: DriftAlert[] = [
+  {
+    id: 'DRF-LATEFEE1',
+    userId: 'user-001',
+    debtId: 'debt-001',
+    kind: 'unexplained_increase',
+    expected: 4196.76,
+    actual: 4235.76,
+    message: 'Balance rose to $4,235.76, $35.00 more than interest explains',
+    detectedAt: new Date(Date.now() - 10 * 60 * 1000).toISOString()
+  },
+  {
+    id: 'DRF-APRCHNG1',
+    userId: 'user-001',
+    debtId: 'debt-002',
+    kind: 'rate_change',
+    expected: 0.0425,
+    actual: 0.045,
+    message: 'APR changed from 4.25% to 4.50%',
+    detectedAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString()
+  }
+];
+
 // Generate mock user
 const generateMockUser = (): User => {
   return {
@@ -223,7 +314,13 @@ const generateMockUser = (): User => {
     preferences: {
       roundUpThreshold: 5.00,
       transferFrequency: 'weekly',
-      defaultAllocationStrategy: 'avalanche'
+      defaultAllocationStrategy: 'avalanche',
+      roundUpRules: normalizeRoundUpRules({
+        exactAmountBehavior: 'skip',
+        weeklyCap: 50
+      }),
+      refundPolicy: 'absorb',
+      customAllocation: normalizeCustomAllocationRules()
     },
     engagementScore: 0.75,
     points: 245,
@@ -252,26 +349,55 @@ const generateMockUser = (): User => {
   };
 };
 
+// Generate mock ledger: round-ups accrued so far, then two sweeps paid out to debts
+const generateMockLedger = (): JournalEntry[] => {
+  return [
+    buildRoundUpAccrual('user-001', 'opening-balance', 8840, '2025-04-20T09:00:00Z'),
+    buildSweep('user-001', 'transfer-002', 3215, '2025-04-28T10:15:00Z'),
+    buildCreditorPayment('user-001', 'debt-001', 'payment-003', 2000, '2025-04-28T10:15:00Z'),
+    buildCreditorPayment('user-001', 'debt-003', 'payment-004', 1215, '2025-04-28T10:15:00Z'),
+    buildSweep('user-001', 'transfer-001', 2750, '2025-05-05T14:30:00Z'),
+    buildCreditorPayment('user-001', 'debt-001', 'payment-001', 1500, '2025-05-05T14:30:00Z'),
+    buildCreditorPayment('user-001', 'debt-002', 'payment-002', 1250, '2025-05-05T14:30:00Z')
+  ];
+};
+
+export const mockLedger: JournalEntry[] = generateMockLedger();
+
+const mockWalletBalance = (): number =>
+  fromMinorUnits(accountBalance(mockLedger, ledgerAccountId('round_up_wallet', 'user-001')));
+
 // Generate mock wallet
 const generateMockWallet = (): RoundUpWallet => {
   return {
     id: 'wallet-001',
     userId: 'user-001',
-    balance: 28.75,
+    balance: mockWalletBalance(),
     transferThreshold: 25.00,
     lastTransferredAt: '2025-05-05T14:30:00Z',
+    pendingClawback: 0,
     transferHistory: [
       {
         id: 'transfer-001',
         amount: 27.50,
+        currency: 'USD',
         date: '2025-05-05T14:30:00Z',
-        destinationIds: ['debt-001', 'debt-002']
+        destinationIds: ['debt-001', 'debt-002'],
+        allocations: [
+          { debtId: 'debt-001', amount: 15.00 },
+          { debtId: 'debt-002', amount: 12.50 }
+        ]
       },
       {
         id: 'transfer-002',
         amount: 32.15,
+        currency: 'USD',
         date: '2025-04-28T10:15:00Z',
-        destinationIds: ['debt-001', 'debt-003']
+        destinationIds: ['debt-001', 'debt-003'],
+        allocations: [
+          { debtId: 'debt-001', amount: 20.00 },
+          { debtId: 'debt-003', amount: 12.15 }
+        ]
       }
     ]
   };
@@ -286,6 +412,71 @@ export const mockData: MockData = {
   badges: mockBadges
 };
 
+// Creditor links for the mock user. Tokens are sealed as the creditor link
+// store seals them, with a key generated for this page load.
+const mockTokenCipher = new TokenCipher(
+  { algorithm: 'AES-256-GCM', keyRotation: '30d' },
+  [{ id: 'mock', key: TokenCipher.generateKey() }]
+);
+const mockCreditorLinks: StoredCreditorLink[] = [];
+
+const mockTokenGrant = (): TokenGrant => {
+  const token = Math.random().toString(36).substring(2, 10);
+  return {
+    accessToken: `mock-access-${token}`,
+    refreshToken: `mock-refresh-${token}`,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+  };
+};
+
+const createMockCreditorLink = async (input: NewCreditorLink): Promise<StoredCreditorLink> => {
+  const now = new Date();
+  const id = `LNK-${Math.random().toString(36).substring(2, 10).toUpperCase()}`;
+  const link: StoredCreditorLink = {
+    id,
+    userId: 'user-001',
+    creditorId: input.creditorId,
+    accountId: input.accountId,
+    accessToken: await mockTokenCipher.seal(input.accessToken, `${id}:access`),
+    refreshToken: input.refreshToken
+      ? await mockTokenCipher.seal(input.refreshToken, `${id}:refresh`)
+      : undefined,
+    expiresAt: input.expiresAt,
+    tokensSealedAt: now.toISOString(),
+    status: 'active',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  };
+  mockCreditorLinks.push(link);
+  return link;
+};
+
+const revokeMockCreditorLinks = (creditorId: string, accountId?: string) => {
+  const now = new Date().toISOString();
+  mockCreditorLinks
+    .filter(link =>
+      link.creditorId === creditorId &&
+      (accountId === undefined || link.accountId === accountId) &&
+      link.status === 'active'
+    )
+    .forEach(link => Object.assign(link, { status: 'revoked', updatedAt: now, revokedAt: now }));
+};
+
+const mockCreditorLinksReady = Promise.all(
+  ['visa', 'student_loan'].map(creditorId =>
+    createMockCreditorLink({ creditorId, accountId: `${creditorId}-account`, ...mockTokenGrant() })
+  )
+);
+
+const summarizeMockCreditorLink = (link: StoredCreditorLink): CreditorLinkSummary => ({
+  id: link.id,
+  userId: link.userId,
+  creditorId: link.creditorId,
+  accountId: link.accountId,
+  expiresAt: link.expiresAt,
+  status: link.status === 'active' && isLinkExpired(link, new Date()) ? 'expired' : link.status
+});
+
 // Service functions
 export const getMockUser = (): User => mockData.user;
 export const getMockTransactions = (): Transaction[] => mockData.transactions;
@@ -293,9 +484,221 @@ export const getMockWallet = (): RoundUpWallet => mockData.wallet;
 export const getMockDebts = (): Debt[] => mockData.debts;
 export const getMockBadges = (): Badge[] => mockData.badges;
 
+// Update the mock user's preferences, e.g. their round-up rules
+export const updateMockPreferences = (preferences: Partial<UserPreferences>): UserPreferences => {
+  mockData.user.preferences = { ...mockData.user.preferences, ...preferences };
+  return mockData.user.preferences;
+};
+
+// Round-up a purchase would get under the mock user's rules
+export const previewMockRoundUp = (
+  amount: number,
+  merchantName: string,
+  category: string,
+  date: string = new Date().toISOString()
+): RoundUpDecision =>
+  RoundUpEngine.fromPreferences(mockData.user.preferences).calculate(
+    { amount, merchantName, category, date },
+    mockData.transactions
+  );
+
+// The mock user's open debts as the optimizer sees them
+const mockDebtAccounts = (): DebtAccount[] =>
+  mockData.debts
+    .filter(debt => debt.currentBalance > 0)
+    .map(debt => ({
+      id: debt.id,
+      creditorId: debt.creditorId,
+      accountId: debt.accountId,
+      currentBalance: debt.currentBalance,
+      interestRate: debt.interestRate,
+      minimumPayment: debt.minimumPayment,
+      dueDate: debt.dueDate,
+      rateSchedule: debt.rateSchedule
+    }));
+
+// Round-ups the mock user accrued over the last 30 days, net of those refunds took back
+export const estimateMockMonthlyRoundUps = (): number => {
+  const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+  return Math.max(
+    fromMinorUnits(
+      mockData.transactions
+        .filter(transaction => new Date(transaction.date).getTime() >= since)
+        .reduce(
+          (total, transaction) =>
+            total + toMinorUnits(transaction.roundUpAmount) - toMinorUnits(transaction.roundUpReversal?.amount ?? 0),
+          0
+        )
+    ),
+    0
+  );
+};
+
+// The custom strategy follows the mock user's own rules
+const mockOptimizationEngine = (): OptimizationEngine =>
+  new OptimizationEngine({ customRules: mockData.user.preferences.customAllocation });
+
+// Payoff of the mock user's debts under each strategy
+export const compareMockStrategies = (monthlyRoundUps: number, lumpSums: LumpSum[] = []): StrategyComparison[] =>
+  mockOptimizationEngine().compareStrategies(mockDebtAccounts(), monthlyRoundUps, { lumpSums });
+
+let mockScheduledPayments: ScheduledPayment[] = [];
+
+const findMockScheduledPayment = (id: string): ScheduledPayment => {
+  const payment = mockScheduledPayments.find(candidate => candidate.id === id);
+  if (!payment) {
+    throw new Error(`Scheduled payment ${id} not found`);
+  }
+  if (payment.status !== 'scheduled') {
+    throw new Error(`Scheduled payment ${id} is already ${payment.status}`);
+  }
+  return payment;
+};
+
+export const getMockScheduledPayments = (): ScheduledPayment[] => mockScheduledPayments;
+
+// Plan the mock user's payments for the months ahead, keeping the ones they skipped or rescheduled
+export const scheduleMockPayments = (months = 3): ScheduledPayment[] => {
+  const now = new Date().toISOString();
+  const kept = mockScheduledPayments.filter(
+    payment => payment.status !== 'scheduled' || payment.scheduledFor !== payment.plannedFor
+  );
+  const setAside = kept
+    .filter(payment => payment.status === 'scheduled' && payment.fundedFrom <= now)
+    .reduce((total, payment) => total + toMinorUnits(payment.amount), 0);
+
+  const plan = mockOptimizationEngine().scheduleForward(
+    mockData.user.preferences.defaultAllocationStrategy,
+    mockDebtAccounts(),
+    {
+      startDate: now,
+      months,
+      monthlyRoundUps: estimateMockMonthlyRoundUps(),
+      walletBalance: fromMinorUnits(Math.max(toMinorUnits(mockData.wallet.balance) - setAside, 0))
+    }
+  );
+
+  mockScheduledPayments = [
+    ...kept,
+    ...plan.flatMap(payment => {
+      const covered = kept.some(
+        keptPayment =>
+          keptPayment.debtId === payment.debtId &&
+          keptPayment.plannedFor.substring(0, 10) === payment.date.substring(0, 10)
+      );
+      return covered
+        ? []
+        : [{
+            id: `SCH-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+            userId: mockData.user.id,
+            debtId: payment.debtId,
+            accountId: payment.accountId,
+            amount: payment.amount,
+            currency: 'USD' as const,
+            scheduledFor: payment.date,
+            plannedFor: payment.date,
+            fundedFrom: payment.fundedFrom ?? now,
+            status: 'scheduled' as const,
+            reasons: (payment.reasons ?? []).map(reason => reason.detail),
+            createdAt: now,
+            updatedAt: now
+          }];
+    })
+  ].sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+  return mockScheduledPayments;
+};
+
+export const skipMockScheduledPayment = (id: string): ScheduledPayment => {
+  const payment = findMockScheduledPayment(id);
+  payment.status = 'skipped';
+  payment.updatedAt = new Date().toISOString();
+  return payment;
+};
+
+export const rescheduleMockScheduledPayment = (id: string, date: string): ScheduledPayment => {
+  const scheduledFor = new Date(date);
+  if (Number.isNaN(scheduledFor.getTime())) {
+    throw new Error(`Cannot reschedule to "${date}": not a date`);
+  }
+  if (scheduledFor.getTime() < Date.now()) {
+    throw new Error(`Cannot reschedule to ${date}: the date has passed`);
+  }
+
+  const payment = findMockScheduledPayment(id);
+  payment.scheduledFor = scheduledFor.toISOString();
+  payment.updatedAt = new Date().toISOString();
+  mockScheduledPayments.sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+  return payment;
+};
+
+// The mock user's creditor links, without their tokens
+export const getMockCreditorLinks = async (): Promise<CreditorLinkSummary[]> => {
+  await mockCreditorLinksReady;
+  return mockCreditorLinks.map(summarizeMockCreditorLink);
+};
+
+// Link a creditor for the mock user, replacing any earlier link to it
+export const linkMockCreditor = async (creditorId: string): Promise<CreditorLinkSummary> => {
+  await mockCreditorLinksReady;
+  revokeMockCreditorLinks(creditorId);
+  return summarizeMockCreditorLink(
+    await createMockCreditorLink({ creditorId, accountId: `${creditorId}-account`, ...mockTokenGrant() })
+  );
+};
+
+export const unlinkMockCreditor = async (creditorId: string): Promise<void> => {
+  await mockCreditorLinksReady;
+  revokeMockCreditorLinks(creditorId);
+};
+
+// Banks are linked through a mock open-banking provider. Its consent page is
+// part of the app, but plays the bank's role: MicroRepay itself only ever
+// sees the authorization code and tokens.
+const mockBankProvider = new MockBankProvider();
+const mockBankLinks = new BankLinkFlow(mockBankProvider, {
+  linkAccount: async (userId: string, link: NewCreditorLink) => {
+    await mockCreditorLinksReady;
+    revokeMockCreditorLinks(link.creditorId, link.accountId);
+    return summarizeMockCreditorLink(await createMockCreditorLink(link));
+  }
+});
+
+export const beginMockBankLink = (bankId: string, redirectUri: string): BankLinkStart =>
+  mockBankLinks.begin('user-001', bankId, redirectUri);
+
+export const completeMockBankLink = (callback: BankLinkCallback): Promise<BankLinkAuthorization> =>
+  mockBankLinks.handleCallback('user-001', callback);
+
+export const selectMockBankAccounts = (state: string, accountIds: string[]): Promise<CreditorLinkSummary[]> =>
+  mockBankLinks.selectAccounts('user-001', state, accountIds);
+
+// The mock provider's side of the flow, used by its consent page
+export const readMockBankAuthorization = (params: URLSearchParams): BankAuthorizationRequest =>
+  mockBankProvider.readAuthorizationRequest(params);
+
+export const getMockBankAccounts = (bankId: string): BankAccount[] => mockBankProvider.accountsFor(bankId);
+
+export const approveMockBankAuthorization = (request: BankAuthorizationRequest): string =>
+  mockBankProvider.approve(request);
+
+export const denyMockBankAuthorization = (request: BankAuthorizationRequest): string =>
+  mockBankProvider.deny(request);
+
+// Drift alerts the mock user has not dismissed yet
+export const getMockDriftAlerts = (): DriftAlert[] =>
+  mockDriftAlerts.filter(alert => !alert.acknowledgedAt);
+
+export const acknowledgeMockDriftAlert = (alertId: string): void => {
+  const alert = mockDriftAlerts.find(candidate => candidate.id === alertId);
+  if (alert) {
+    alert.acknowledgedAt = new Date().toISOString();
+  }
+};
+
 // Add a new mock transaction
 export const addMockTransaction = (amount: number, merchantName: string, category: string): Transaction => {
-  const roundUpAmount = calculateRoundUp(amount);
+  const date = new Date().toISOString();
+  const roundUpAmount = previewMockRoundUp(amount, merchantName, category, date).amount;
   
   const newTransaction: Transaction = {
     id: `tx-${mockData.transactions.length.toString().padStart(3, '0')}`,
@@ -304,8 +707,10 @@ export const addMockTransaction = (amount: number, merchantName: string, categor
     merchantName,
     amount,
     roundUpAmount,
-    date: new Date().toISOString(),
+    date,
     category,
+    type: 'purchase',
+    status: 'posted',
     processed: true,
     transferredToWallet: false
   };
@@ -313,8 +718,169 @@ export const addMockTransaction = (amount: number, merchantName: string, categor
   // Add to beginning of array (newest first)
   mockData.transactions.unshift(newTransaction);
   
-  // Update wallet balance
-  mockData.wallet.balance += roundUpAmount;
+  // Accrue the round-up on the ledger and re-derive the wallet balance
+  if (roundUpAmount > 0) {
+    mockLedger.push(
+      buildRoundUpAccrual('user-001', newTransaction.id, toMinorUnits(roundUpAmount), newTransaction.date)
+    );
+  }
+  mockData.wallet.balance = mockWalletBalance();
   
   return newTransaction;
 };
+
+// Linked bank accounts feed transactions through a fake aggregator, the
+// same way ingestion pulls them from a real one
+const mockAggregator = new FakeTransactionAggregator();
+const mockIngestionCursors = new Map<string, string>();
+
+export interface MockIngestionSummary {
+  accountId: string;
+  outcomes: Record<IngestionOutcome, number>;
+  removed: number;
+}
+
+// Take back the share of a purchase's round-up a posted refund refunds: out of
+// the wallet if it was not swept yet, otherwise by the mock user's refund policy
+const reverseMockRoundUp = (refund: Transaction, incoming: AggregatedTransaction): void => {
+  const purchase = mockData.transactions.find(transaction =>
+    transaction.accountId === refund.accountId &&
+    transaction.type === 'purchase' &&
+    transaction.status === 'posted' &&
+    (incoming.refundedTransactionId
+      ? transaction.providerTransactionId === incoming.refundedTransactionId
+      : transaction.merchantName === refund.merchantName && transaction.amount >= refund.amount)
+  );
+  if (!purchase) return;
+
+  refund.refundOf = purchase.id;
+  const earlierRefunds = mockData.transactions.filter(
+    transaction => transaction.refundOf === purchase.id && transaction.id !== refund.id
+  );
+  const amount = refundedRoundUp(purchase, refund.amount, earlierRefunds);
+  if (amount <= 0) return;
+
+  if (!purchase.transferredToWallet && mockWalletBalance() >= amount) {
+    mockLedger.push(buildRoundUpReversal('user-001', purchase.id, refund.id, toMinorUnits(amount), refund.date));
+    refund.roundUpReversal = { amount, method: 'wallet' };
+  } else if (mockData.user.preferences.refundPolicy === 'claw_back') {
+    mockData.wallet.pendingClawback += amount;
+    refund.roundUpReversal = { amount, method: 'claw_back' };
+  } else {
+    refund.roundUpReversal = { amount, method: 'absorbed' };
+  }
+};
+
+// Pull the account's new transactions into the mock user's history. Round-ups
+// are only accrued once a transaction posts; refunds are never rounded up and
+// reverse the round-up of the purchase they refund.
+const ingestMockAccount = async (accountId: string): Promise<MockIngestionSummary> => {
+  const summary: MockIngestionSummary = {
+    accountId,
+    outcomes: { pending: 0, posted: 0, updated: 0, duplicate: 0 },
+    removed: 0
+  };
+
+  let page;
+  do {
+    page = await mockAggregator.fetchTransactions('mock-access', accountId, mockIngestionCursors.get(accountId));
+
+    for (const incoming of page.transactions) {
+      const match = mockData.transactions.find(transaction =>
+        transaction.accountId === accountId &&
+        (transaction.providerTransactionId === incoming.providerTransactionId ||
+          transaction.providerTransactionId === incoming.pendingTransactionId)
+      );
+      const outcome = classifyIngestedTransaction(incoming, match);
+      summary.outcomes[outcome] += 1;
+      if (outcome === 'duplicate') continue;
+
+      const fields = fromAggregatedTransaction(incoming);
+      const transaction: Transaction = {
+        id: match?.id ?? `tx-${mockData.transactions.length.toString().padStart(3, '0')}`,
+        userId: 'user-001',
+        accountId,
+        ...fields,
+        roundUpAmount: 0,
+        processed: fields.status === 'posted',
+        transferredToWallet: false
+      };
+      if (outcome === 'posted' && fields.type === 'purchase') {
+        transaction.roundUpAmount = previewMockRoundUp(
+          fields.amount,
+          fields.merchantName,
+          fields.category,
+          fields.date
+        ).amount;
+        if (transaction.roundUpAmount > 0) {
+          mockLedger.push(
+            buildRoundUpAccrual('user-001', transaction.id, toMinorUnits(transaction.roundUpAmount), fields.date)
+          );
+        }
+      }
+
+      if (match) {
+        Object.assign(match, transaction);
+      } else {
+        mockData.transactions.unshift(transaction);
+      }
+      if (outcome === 'posted' && fields.type !== 'purchase') {
+        reverseMockRoundUp(match ?? transaction, incoming);
+      }
+    }
+
+    for (const providerTransactionId of page.removed) {
+      const index = mockData.transactions.findIndex(transaction =>
+        transaction.providerTransactionId === providerTransactionId && transaction.status === 'pending'
+      );
+      if (index >= 0) {
+        mockData.transactions.splice(index, 1);
+        summary.removed += 1;
+      }
+    }
+
+    mockIngestionCursors.set(accountId, page.nextCursor);
+  } while (page.hasMore);
+
+  mockData.transactions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  mockData.wallet.balance = mockWalletBalance();
+  return summary;
+};
+
+// Start ingesting a newly linked account. The bank reports a few days of
+// history, some of it still pending; the pending purchases post a little
+// later and are picked up by a second ingestion run.
+export const startMockTransactionIngestion = async (accountId: string): Promise<MockIngestionSummary> => {
+  if (mockIngestionCursors.has(accountId)) {
+    return ingestMockAccount(accountId);
+  }
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const groceries = mockAggregator.purchase(accountId, {
+    amount: 54.37, merchantName: 'Grocery Store', category: 'Groceries', date: daysAgo(3)
+  });
+  mockAggregator.purchase(accountId, {
+    amount: 12.8, merchantName: 'Gas Station', category: 'Transportation', date: daysAgo(2)
+  });
+  mockAggregator.refund(groceries, 6.49);
+  const pending = [
+    mockAggregator.authorize(accountId, {
+      amount: 4.25, merchantName: 'Coffee Shop', category: 'Food & Drink', date: daysAgo(0)
+    }),
+    mockAggregator.authorize(accountId, {
+      amount: 38.1, merchantName: 'Restaurant', category: 'Food & Drink', date: daysAgo(0)
+    })
+  ];
+
+  const summary = await ingestMockAccount(accountId);
+
+  setTimeout(() => {
+    // The restaurant bill posts with the tip added
+    mockAggregator.post(pending[0]);
+    mockAggregator.post(pending[1], { amount: 44.1 });
+    void ingestMockAccount(accountId);
+  }, 20 * 1000);
+
+  return summary;
+};
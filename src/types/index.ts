@@ -1,4 +1,7 @@
 
+// Currency Types
+export type CurrencyCode = "USD" | "EUR" | "GBP" | "CAD" | "JPY";
+
 // User Types
 export interface User {
   id: string;
@@ -14,21 +17,87 @@ export interface User {
 }
 
 export interface UserPreferences {
-  roundUpThreshold: number;
+  roundUpThreshold: number; // Dollar increment purchases are rounded up to
   transferFrequency: "immediate" | "daily" | "weekly";
-  defaultAllocationStrategy: "avalanche" | "snowball" | "custom";
+  defaultAllocationStrategy: "avalanche" | "snowball" | "hybrid" | "custom";
+  roundUpRules: RoundUpRules;
+  refundPolicy: RefundRoundUpPolicy; // For refunds of purchases whose round-up was already swept
+  customAllocation: CustomAllocationRules; // Used by the "custom" allocation strategy
+}
+
+// Custom Allocation Types
+// Rules are keyed by debt ID. Pins are paid first, then the target debt's
+// monthly need; weights split what is left
+export interface CustomAllocationRules {
+  weights: Record<string, number>; // Percentage of the remaining funds, e.g. 60
+  pins: Record<string, number>; // Fixed amount paid to the debt from each allocation
+  excludedDebtIds: string[];
+  target: CustomAllocationTarget | null;
+}
+
+export interface CustomAllocationTarget {
+  debtId: string;
+  payoffDate: string;
+}
+
+// "absorb" leaves the swept round-up with the creditor; "claw_back" takes it
+// out of the wallet's next sweep
+export type RefundRoundUpPolicy = "absorb" | "claw_back";
+
+// Round-Up Rule Types
+export type RoundUpMode = "increment" | "fixed" | "percentage";
+
+export interface RoundUpRules {
+  mode: RoundUpMode;
+  fixedAmount: number; // Per-transaction amount for "fixed"
+  percentage: number; // Fraction of the purchase for "percentage", e.g. 0.05
+  multiplier: number; // 2 for 2x round-ups
+  exactAmountBehavior: "full_increment" | "skip"; // Purchases already on an increment
+  categoryOverrides: Record<string, RoundUpCategoryOverride>;
+  excludedMerchants: string[];
+  dailyCap: number | null;
+  weeklyCap: number | null;
+}
+
+export interface RoundUpCategoryOverride {
+  excluded?: boolean;
+  mode?: RoundUpMode;
+  increment?: number;
+  fixedAmount?: number;
+  percentage?: number;
+  multiplier?: number;
 }
 
 // Transaction Types
+// Card transactions are "pending" while authorized and "posted" once settled
+export type TransactionStatus = "pending" | "posted";
+
+// Chargebacks are refunds forced through a card dispute
+export type TransactionType = "purchase" | "refund" | "chargeback";
+
+// How a refunded purchase's round-up was taken back: out of the wallet
+// before it was swept, or by the user's refund policy after
+export type RoundUpReversalMethod = "wallet" | "absorbed" | "claw_back";
+
+export interface RoundUpReversal {
+  amount: number;
+  method: RoundUpReversalMethod;
+}
+
 export interface Transaction {
   id: string;
   userId: string;
   accountId: string;
+  providerTransactionId?: string; // Set for transactions ingested from an aggregator
   merchantName: string;
-  amount: number;
+  amount: number; // Always positive; refunds are marked by `type`
   roundUpAmount: number;
   date: string;
   category: string;
+  type: TransactionType;
+  status: TransactionStatus;
+  refundOf?: string; // For refunds and chargebacks, the ID of the purchase they refund
+  roundUpReversal?: RoundUpReversal; // Set once a posted refund has reversed its purchase's round-up
   processed: boolean;
   transferredToWallet: boolean;
   transferredAt?: string;
@@ -41,14 +110,22 @@ export interface RoundUpWallet {
   balance: number;
   transferThreshold: number;
   lastTransferredAt?: string;
+  pendingClawback: number; // Swept round-ups of refunded purchases, taken out of the next sweep
   transferHistory: Transfer[];
 }
 
 export interface Transfer {
   id: string;
   amount: number;
+  currency: CurrencyCode;
   date: string;
   destinationIds: string[]; // Array of debt IDs
+  allocations: TransferAllocation[];
+}
+
+export interface TransferAllocation {
+  debtId: string;
+  amount: number;
 }
 
 // Debt Types
@@ -66,6 +143,15 @@ export interface Debt {
   dueDate: string;
   paymentHistory: Payment[];
   lastSyncedAt: string;
+  rateSchedule?: RateSchedule; // Set when the current APR is promotional
+}
+
+// A promotional APR, such as a 0% balance transfer, and the rate the debt
+// reverts to once the promotion ends
+export interface RateSchedule {
+  promoRate: number;
+  promoEndsAt: string;
+  reversionRate: number;
 }
 
 export interface Payment {
@@ -73,10 +159,81 @@ export interface Payment {
   userId: string;
   debtId: string;
   amount: number;
+  currency: CurrencyCode;
   date: string;
   confirmationNumber?: string;
   sourceFunds: "round_up" | "direct" | "scheduled";
-  status: "pending" | "completed" | "failed";
+  status: PaymentStatus;
+  settledAt?: string;
+  transferId?: string; // The wallet transfer holding a round-up payment's funds
+  balanceSyncedAt?: string; // Last balance sync taken while in flight; settling it then leaves the balance alone
+  creditorReference?: string; // Sent to the creditor with the payment; finds it when its response was lost
+}
+
+// created -> submitted -> accepted -> settled, with returned/reversed/failed branches
+export type PaymentStatus =
+  | "created"
+  | "submitted"
+  | "accepted"
+  | "settled"
+  | "returned"
+  | "reversed"
+  | "failed";
+
+export interface PaymentTransition {
+  paymentId: string;
+  fromStatus: PaymentStatus | null; // Null for the transition that created the payment
+  toStatus: PaymentStatus;
+  source: "system" | "callback" | "poll";
+  reason?: string;
+  occurredAt: string;
+}
+
+// Future-dated payments planned from expected round-ups. Users can skip
+// or reschedule them until they are executed
+export type ScheduledPaymentStatus = "scheduled" | "skipped" | "executed" | "failed";
+
+export interface ScheduledPayment {
+  id: string;
+  userId: string;
+  debtId: string;
+  accountId: string;
+  amount: number;
+  currency: CurrencyCode;
+  scheduledFor: string;
+  plannedFor: string; // The date the optimizer chose; differs once rescheduled
+  fundedFrom: string; // When the funds it is planned from start coming into the wallet
+  status: ScheduledPaymentStatus;
+  reasons: string[]; // Why the optimizer allocated the amount
+  transferId?: string; // Set once executed
+  failureReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A debt's terms as reported by its creditor at one sync
+export interface BalanceSnapshot {
+  debtId: string;
+  recordedAt: string;
+  balance: number;
+  interestRate: number;
+  minimumPayment: number;
+  dueDate: string;
+}
+
+export type DriftAlertKind = "unexplained_increase" | "unexplained_decrease" | "rate_change";
+
+// A change reported by a creditor that our own payments and interest do not explain
+export interface DriftAlert {
+  id: string;
+  userId: string;
+  debtId: string;
+  kind: DriftAlertKind;
+  expected: number;
+  actual: number;
+  message: string;
+  detectedAt: string;
+  acknowledgedAt?: string;
 }
 
 // Badge and Gamification Types
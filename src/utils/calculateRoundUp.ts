@@ -1,24 +1,21 @@
+import { RoundUpEngine } from '../core/roundup/RoundUpEngine';
+import { UserPreferences } from '../types';
 
 /**
  * Calculates the rounded up amount from a transaction
  * @param transactionAmount The original transaction amount
+ * @param preferences The user's round-up settings; defaults to the next whole dollar
  * @returns The rounded up amount
  */
-export function calculateRoundUp(transactionAmount: number | string): number {
+export function calculateRoundUp(
+  transactionAmount: number | string,
+  preferences?: Pick<UserPreferences, 'roundUpThreshold' | 'roundUpRules'>
+): number {
   // Validate input
   if (isNaN(parseFloat(transactionAmount.toString())) || parseFloat(transactionAmount.toString()) < 0) {
     throw new Error('INVALID_TRANSACTION_AMOUNT');
   }
-  
-  // Convert to number with 2 decimal places for financial precision
-  const amount = parseFloat(parseFloat(transactionAmount.toString()).toFixed(2));
-  const roundedAmount = Math.ceil(amount);
-  let roundUpAmount = parseFloat((roundedAmount - amount).toFixed(2));
-  
-  // Handle exact dollar amounts
-  if (roundUpAmount < 0.01) {
-    roundUpAmount = 1.00;
-  }
-  
-  return roundUpAmount;
+
+  const engine = preferences ? RoundUpEngine.fromPreferences(preferences) : new RoundUpEngine();
+  return engine.roundUp(parseFloat(transactionAmount.toString()));
 }